@@ -1,96 +1,340 @@
 
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import { MoleculeCanvas, MoleculeCanvasHandle } from './components/MoleculeCanvas';
 import { AnalysisPanel } from './components/AnalysisPanel';
 import { Visualizer3D } from './components/Visualizer3D';
+import { NewmanViewer } from './components/NewmanViewer';
+import { ChairViewer } from './components/ChairViewer';
+import { ProjectionViewer } from './components/ProjectionViewer';
 import { MoleculeSearch } from './components/MoleculeSearch';
-import { Molecule, AnalysisResult, ElementType, SearchResult } from './types';
-import { analyzeMolecule, resolveMolecule } from './services/geminiService';
-import { fetchPubChemData, resolveMoleculeFromPubChem, fetch3DSdfFromPubChem } from './services/pubchemService';
-
-const safeStr = (val: any): string => {
-  if (val === null || val === undefined) return '';
-  if (typeof val === 'object') return JSON.stringify(val);
-  return String(val);
+import { CacheSettings } from './components/CacheSettings';
+import { RequestIndicator } from './components/RequestIndicator';
+import { Molecule, AnalysisResult, ElementType, SearchResult, CanvasTool } from './types';
+import { analysisProvider } from './services/providerService';
+import { isAbortError } from './services/requestService';
+import { checkConsistency, describeMismatches } from './services/consistencyService';
+import { perceiveStereocenters, perceiveStereoBonds, attachExplanations } from './services/cipService';
+import { searchResultFromSmiles } from './services/smilesService';
+import { parseMolfile, writeMolfile, MolfileVersion } from './services/molfileService';
+import { cleanStructure } from './services/layoutService';
+import { fillHydrogens, collapseHydrogens } from './services/hydrogenService';
+import { validateMolecule } from './services/validationService';
+import { calculateFormula } from './services/formulaService';
+import { computeVsepr } from './services/vseprService';
+import { analyzeChairs } from './services/chairService';
+import { fischerProjection, haworthProjections } from './services/projectionService';
+import { distinctIsomers } from './services/isomerService';
+import { analyzeSymmetry } from './services/symmetryService';
+import { toSmiles, LocalIsomer } from './services/modelTasks';
+import { runModelTask } from './services/modelService';
+
+const HISTORY_LIMIT = 100;
+
+interface MoleculeHistory {
+  past: Molecule[];
+  present: Molecule;
+  future: Molecule[];
+  /** Gesture whose first change pushed the latest snapshot; its later changes merge into it. */
+  gesture?: number;
+}
+
+/**
+ * Undo/redo stack for the editor molecule. Every change made through `setMolecule` is one
+ * step; changes made between `beginGroup` and `endGroup` (a drag, a ring template) collapse
+ * into the first one that changes anything.
+ */
+const useMoleculeHistory = (initial: Molecule) => {
+  const [history, setHistory] = useState<MoleculeHistory>({ past: [], present: initial, future: [] });
+  const group = useRef({ depth: 0, id: 0 });
+  // True while a gesture is in progress, so views can wait for the structure to settle
+  const [editing, setEditing] = useState(false);
+
+  const setMolecule = useCallback((next: Molecule | ((prev: Molecule) => Molecule)) => {
+    // Read outside the updater so StrictMode's double invocation stays pure; whether the
+    // gesture has pushed a snapshot yet lives in the history, so a no-op change records nothing
+    const gesture = group.current.depth > 0 ? group.current.id : undefined;
+    setHistory(h => {
+      const value = typeof next === 'function' ? next(h.present) : next;
+      if (value === h.present) return h;
+      if (gesture !== undefined && h.gesture === gesture) return { ...h, present: value };
+      return { past: [...h.past, h.present].slice(-HISTORY_LIMIT), present: value, future: [], gesture };
+    });
+  }, []);
+
+  const undo = useCallback(() => setHistory(h => h.past.length === 0 ? h : {
+    past: h.past.slice(0, -1),
+    present: h.past[h.past.length - 1],
+    future: [h.present, ...h.future],
+  }), []);
+
+  const redo = useCallback(() => setHistory(h => h.future.length === 0 ? h : {
+    past: [...h.past, h.present],
+    present: h.future[0],
+    future: h.future.slice(1),
+  }), []);
+
+  const beginGroup = useCallback(() => {
+    if (group.current.depth === 0) {
+      group.current.id++;
+      setEditing(true);
+    }
+    group.current.depth++;
+  }, []);
+
+  const endGroup = useCallback(() => {
+    group.current.depth = Math.max(0, group.current.depth - 1);
+    if (group.current.depth === 0) setEditing(false);
+  }, []);
+
+  return {
+    molecule: history.present,
+    setMolecule,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+    beginGroup,
+    endGroup,
+    editing,
+  };
+};
+
+/**
+ * `value` once no gesture is running and it has stayed the same for `delay` ms. Views that
+ * are slow to derive (projections, chairs, SMILES) follow this instead of every drag frame.
+ */
+const useSettled = <T,>(value: T, busy: boolean, delay = 200): T => {
+  const [settled, setSettled] = useState(value);
+  useEffect(() => {
+    if (busy) return;
+    const timer = setTimeout(() => setSettled(value), delay);
+    return () => clearTimeout(timer);
+  }, [value, busy, delay]);
+  return settled;
 };
 
+/** Whether two drawings differ at most in atom positions, as the frames of a drag do. */
+const sameConnectivity = (a: Molecule, b: Molecule) =>
+  a.atoms.length === b.atoms.length && a.bonds.length === b.bonds.length
+  && a.atoms.every((atom, k) => {
+    const other = b.atoms[k];
+    return other.id === atom.id && other.element === atom.element && other.formalCharge === atom.formalCharge && other.isotope === atom.isotope;
+  })
+  && a.bonds.every((bond, k) => {
+    const other = b.bonds[k];
+    return other.from === bond.from && other.to === bond.to && other.type === bond.type;
+  });
+
 const App: React.FC = () => {
-  const [molecule, setMolecule] = useState<Molecule>({ atoms: [], bonds: [] });
+  const { molecule, setMolecule, undo, redo, canUndo, canRedo, beginGroup, endGroup, editing } = useMoleculeHistory({ atoms: [], bonds: [] });
   const [metadata, setMetadata] = useState<SearchResult['metadata'] | null>(null);
   const [activeElement, setActiveElement] = useState<ElementType>('C');
-  const [activeTool, setActiveTool] = useState<'atom' | 'bond' | 'eraser' | 'select-central' | 'pan' | 'benzene' | 'double' | 'triple'>('atom');
+  const [activeTool, setActiveTool] = useState<CanvasTool>('atom');
   const [analysis, setAnalysis] = useState<AnalysisResult | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
   const [isFallbackMode, setIsFallbackMode] = useState(false);
   const [selectedCentralAtom, setSelectedCentralAtom] = useState<string | null>(null);
+  // Bond shown in the Newman/sawhorse viewer; picked by selecting exactly one bond
+  const [projectionBond, setProjectionBond] = useState<string | null>(null);
+  // 3D model embedded from the canvas, shown whenever the analysis carries no SDF of its own
+  const [localSdf, setLocalSdf] = useState<string | undefined>(undefined);
 
   const canvasRef = useRef<MoleculeCanvasHandle>(null);
+  const molfileInputRef = useRef<HTMLInputElement>(null);
 
   const [siteName, setSiteName] = useState('StereoChem PRO');
   const [show2D, setShow2D] = useState(true);
   const [show3D, setShow3D] = useState(true);
   const [showAnalysis, setShowAnalysis] = useState(true);
   const [showProperties, setShowProperties] = useState(true);
+  const [showChairs, setShowChairs] = useState(true);
+  const [showProjections, setShowProjections] = useState(true);
+  const [includeConstitutional, setIncludeConstitutional] = useState(false);
+  // Ask the provider once more when its SMILES or SDF contradicts the canvas
+  const [repromptOnMismatch, setRepromptOnMismatch] = useState(false);
+  const [showCacheSettings, setShowCacheSettings] = useState(false);
+  // 3D models being embedded for the listed isomers, or for the Generate 3D button
+  const isomerRun = useRef<AbortController | null>(null);
+  const embedRun = useRef<AbortController | null>(null);
+  // The analysis or search in progress, aborted when a newer one replaces it
+  const analysisRun = useRef<{ controller: AbortController; key: string } | null>(null);
+  const searchRun = useRef<AbortController | null>(null);
 
-  const handleRunAnalysis = useCallback(async (mol?: Molecule) => {
+  // The slower perception waits until the drawing settles, and the panels until they are shown
+  const settledMolecule = useSettled(molecule, editing);
+  const canvasSmiles = useMemo(() => toSmiles(settledMolecule), [settledMolecule]);
+  const validationIssues = useMemo(() => validateMolecule(molecule), [molecule]);
+  const stereoBonds = useMemo(() => perceiveStereoBonds(settledMolecule), [settledMolecule]);
+  const formulaInfo = useMemo(() => calculateFormula(molecule), [molecule]);
+  const chairRings = useMemo(() => (showChairs ? analyzeChairs(settledMolecule) : []), [showChairs, settledMolecule]);
+  const fischer = useMemo(() => (showProjections ? fischerProjection(settledMolecule) : null), [showProjections, settledMolecule]);
+  const haworthRings = useMemo(() => (showProjections ? haworthProjections(settledMolecule) : []), [showProjections, settledMolecule]);
+  const activeSdf = analysis?.sdfData || localSdf;
+  const symmetry = useMemo(() => analyzeSymmetry(activeSdf), [activeSdf]);
+  // Symmetry follows whichever model is on screen, so it is attached here rather than stored
+  const shownAnalysis = useMemo(() => (analysis && symmetry ? { ...analysis, symmetry } : analysis), [analysis, symmetry]);
+  const validationErrors = validationIssues.filter(i => i.severity === 'error');
+
+  // A model of the previous drawing would be misleading once the structure is edited
+  useEffect(() => {
+    embedRun.current?.abort();
+    setLocalSdf(undefined);
+  }, [molecule]);
+
+  useEffect(() => {
+    if (projectionBond && !molecule.bonds.some(b => b.id === projectionBond)) setProjectionBond(null);
+  }, [molecule, projectionBond]);
+
+  const handleGenerate3D = useCallback(async () => {
+    if (molecule.atoms.length === 0 || validationErrors.length > 0) return;
+    embedRun.current?.abort();
+    const controller = new AbortController();
+    embedRun.current = controller;
+    let sdf: string | undefined;
+    try {
+      sdf = await runModelTask('sdf', [molecule, metadata?.commonName || ''], controller.signal);
+    } catch {
+      if (controller.signal.aborted) return;
+    }
+    setLocalSdf(sdf);
+    setAnalysis(prev => (prev && sdf ? { ...prev, sdfData: sdf } : prev));
+    if (!sdf) setErrorMsg("3D embedding failed for this structure.");
+  }, [molecule, metadata, validationErrors.length]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) { e.preventDefault(); undo(); }
+      else if ((key === 'z' && e.shiftKey) || key === 'y') { e.preventDefault(); redo(); }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
+  /** Embeds the isomers one at a time so each model shows up as it is ready; a newer analysis cancels the run. */
+  const attachIsomerModels = useCallback(async (isomers: LocalIsomer[], signal: AbortSignal) => {
+    for (const { info, molecule: isomer } of isomers) {
+      const sdfData = await runModelTask('sdf', [isomer, info.name], signal).catch(() => undefined);
+      if (signal.aborted) return;
+      if (!sdfData) continue;
+      setAnalysis(prev => prev ? { ...prev, isomers: prev.isomers.map(iso => iso === info ? { ...iso, sdfData } : iso) } : prev);
+    }
+  }, []);
+
+  /**
+   * `knownMetadata` goes with `mol` when the caller has just set both, since the `metadata`
+   * state this callback captured still belongs to the previous molecule.
+   */
+  const handleRunAnalysis = useCallback(async (mol?: Molecule, knownMetadata?: SearchResult['metadata'] | null) => {
     const targetMol = mol || molecule;
+    const targetMeta = knownMetadata !== undefined ? knownMetadata : metadata;
     if (targetMol.atoms.length === 0) return;
+
+    // A second click on the same drawing joins the running analysis; anything else supersedes it
+    const key = JSON.stringify([targetMol.atoms, targetMol.bonds, includeConstitutional, repromptOnMismatch]);
+    if (analysisRun.current?.key === key) return;
+    analysisRun.current?.controller.abort();
+    analysisRun.current = null;
+
+    // Invalid graphs only produce junk answers; don't spend quota on them
+    const errors = validateMolecule(targetMol).filter(i => i.severity === 'error');
+    if (errors.length > 0) {
+      setIsAnalyzing(false);
+      setIsFallbackMode(false);
+      setErrorMsg(`Structure invalid: ${errors[0].message}${errors.length > 1 ? ` (+${errors.length - 1} more)` : ''}. Fix the highlighted atoms before running analysis.`);
+      return;
+    }
     
+    const controller = new AbortController();
+    const { signal } = controller;
+    analysisRun.current = { controller, key };
     setIsAnalyzing(true);
     setErrorMsg(null);
     setIsFallbackMode(false);
 
+    isomerRun.current?.abort();
+    const isomerController = new AbortController();
+    isomerRun.current = isomerController;
+
     try {
-      const result = await analyzeMolecule(targetMol);
-      
-      if (result.metadata?.smiles) {
-        fetchPubChemData(result.metadata.smiles).then(realProps => {
-          setAnalysis(prev => prev ? { ...prev, properties: { ...prev.properties, ...realProps } } : prev);
-        }).catch(() => {});
-      }
-      
-      setAnalysis(result);
-      if (result.metadata) setMetadata(result.metadata);
-    } catch (error: any) {
-      console.warn("Gemini Analysis failed, attempting PubChem fallback...", error);
-      
-      const query = metadata?.iupacName || metadata?.smiles || "";
-      if (query) {
+      // Searched in the worker before any network call so offline sessions still get a 3D model; the global minimum is shown first
+      const title = targetMeta?.commonName || '';
+      const conformations = await runModelTask('conformations', [targetMol, title], signal);
+      const embeddedSdf = conformations[0]?.sdfData || await runModelTask('sdf', [targetMol, title], signal);
+      setLocalSdf(embeddedSdf);
+      const isomers = await runModelTask('isomers', [targetMol, includeConstitutional], signal);
+
+      let remote = await analysisProvider.analyze(targetMol, targetMeta, undefined, signal);
+      let mismatches = checkConsistency(remote, targetMol);
+      if (mismatches.length > 0 && repromptOnMismatch) {
         try {
-          setIsFallbackMode(true);
-          const [props, sdf] = await Promise.all([
-            fetchPubChemData(query),
-            fetch3DSdfFromPubChem(query)
-          ]);
-          
-          const fallbackResult: AnalysisResult = {
-            stereocenters: [],
-            vsepr: {},
-            dipoleMoment: "Available in PubChem record",
-            educationalNote: "AI analysis currently restricted due to quota. Displaying baseline structural and physical data from NIH PubChem databases.",
-            sdfData: sdf,
-            isomers: [],
-            conformations: [],
-            properties: props,
-            metadata: metadata!
-          };
-          setAnalysis(fallbackResult);
-          setErrorMsg("AI Analysis Limit Reached. Showing Baseline PubChem Data.");
-        } catch (fallbackError) {
-          setErrorMsg("Analysis failed. Quota reached and fallback resolution failed.");
+          const retry = await analysisProvider.analyze(targetMol, targetMeta, describeMismatches(mismatches), signal);
+          const retryMismatches = checkConsistency(retry, targetMol);
+          if (retryMismatches.length <= mismatches.length) {
+            remote = retry;
+            mismatches = retryMismatches;
+          }
+        } catch (error) {
+          if (isAbortError(error)) throw error;
+          console.warn("Re-prompt after mismatch failed; keeping the first answer", error);
+        }
+      }
+      // Offline providers ignore the signal, so a superseded run can still get here
+      if (signal.aborted) return;
+      // Names that came with a SMILES for another molecule describe that molecule, not this one
+      const remoteMetadata = mismatches.some(m => m.source === 'smiles' && m.aspect !== 'stereo') ? undefined : remote.metadata;
+      // Local CIP perception, VSEPR and 3D embedding are authoritative; provider reasoning is kept as commentary only.
+      const result: AnalysisResult = {
+        ...remote,
+        stereocenters: attachExplanations(perceiveStereocenters(targetMol), remote.stereocenters),
+        stereoBonds: perceiveStereoBonds(targetMol),
+        vsepr: computeVsepr(targetMol),
+        sdfData: embeddedSdf || remote.sdfData,
+        isomers: isomers.length > 0 ? isomers.map(i => i.info) : distinctIsomers(remote.isomers, targetMol),
+        conformations: conformations.length > 0 ? conformations : remote.conformations,
+        mismatches: mismatches.length > 0 ? mismatches : undefined,
+        metadata: {
+          smiles: remoteMetadata?.smiles || targetMeta?.smiles || toSmiles(targetMol),
+          iupacName: remoteMetadata?.iupacName || targetMeta?.iupacName || '',
+          commonName: remoteMetadata?.commonName || targetMeta?.commonName || '',
+          formula: remoteMetadata?.formula || targetMeta?.formula || calculateFormula(targetMol)?.formula || ''
         }
-      } else {
-        setErrorMsg("Analysis failed. Quota reached and no reference name found for fallback.");
+      };
+
+      setAnalysis(result);
+      attachIsomerModels(isomers, isomerController.signal);
+      setMetadata(result.metadata);
+      if (result.provider !== analysisProvider.name) {
+        setIsFallbackMode(true);
+        setErrorMsg(`${analysisProvider.name} unavailable. Showing ${result.provider} data.`);
       }
+    } catch (error: any) {
+      if (signal.aborted) return;
+      console.warn("Analysis failed on every provider", error);
+      setErrorMsg(`Analysis failed: ${error?.message || 'no provider could answer'}.`);
     } finally {
-      setIsAnalyzing(false);
+      if (analysisRun.current?.controller === controller) {
+        analysisRun.current = null;
+        setIsAnalyzing(false);
+      }
     }
-  }, [molecule, metadata]);
+  }, [molecule, metadata, includeConstitutional, repromptOnMismatch, attachIsomerModels]);
+
+  // Names and PubChem lookups describe the searched compound; an edit that changes the structure drops them
+  const handleMoleculeChange = useCallback((next: Molecule) => {
+    if (metadata && !sameConnectivity(molecule, next) && toSmiles(next) !== toSmiles(molecule)) setMetadata(null);
+    setMolecule(next);
+  }, [metadata, molecule, setMolecule]);
 
   const onSearchResult = useCallback((result: SearchResult) => {
     if (!result || !result.molecule) return;
-    setMolecule(result.molecule);
+    // AI-resolved coordinates are unreliable; redraw before centering
+    const cleaned = cleanStructure(result.molecule);
+    setMolecule(cleaned);
     setMetadata(result.metadata || null);
     setAnalysis(null);
     setSelectedCentralAtom(null);
@@ -99,30 +343,71 @@ const App: React.FC = () => {
     
     setTimeout(() => {
       canvasRef.current?.centerMolecule();
-      handleRunAnalysis(result.molecule);
+      handleRunAnalysis(cleaned, result.metadata || null);
     }, 300);
   }, [handleRunAnalysis]);
 
   const handleSearchSubmit = useCallback(async (query: string) => {
+    try {
+      onSearchResult(searchResultFromSmiles(query));
+      return;
+    } catch {
+      // Not a SMILES string the local parser understands; resolve remotely
+    }
+
+    searchRun.current?.abort();
+    const controller = new AbortController();
+    searchRun.current = controller;
     setIsAnalyzing(true);
     setErrorMsg(null);
     try {
-      const result = await resolveMolecule(query);
+      const result = await analysisProvider.resolve(query, controller.signal);
       onSearchResult(result);
+      if (result.provider !== analysisProvider.name) setErrorMsg(`${analysisProvider.name} unavailable. Molecule resolved via ${result.provider}.`);
     } catch (e) {
-      console.warn("Search via Gemini failed, trying PubChem direct...");
-      try {
-        const result = await resolveMoleculeFromPubChem(query);
-        onSearchResult(result);
-        setErrorMsg("Gemini Offline. Molecule resolved via PubChem.");
-      } catch (pcError) {
-        setErrorMsg("Molecule not found in AI or PubChem databases.");
-      }
+      if (controller.signal.aborted) return;
+      setErrorMsg(`Molecule not found: ${(e as Error)?.message || query}.`);
     } finally {
-      setIsAnalyzing(false);
+      if (searchRun.current === controller) {
+        searchRun.current = null;
+        setIsAnalyzing(false);
+      }
     }
   }, [onSearchResult]);
 
+  const handleMolfileImport = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const { molecule: imported, title } = parseMolfile(await file.text());
+      setMolecule(imported);
+      setMetadata(title ? { smiles: toSmiles(imported), iupacName: '', commonName: title, formula: '' } : null);
+      setAnalysis(null);
+      setSelectedCentralAtom(null);
+      setErrorMsg(null);
+      setTimeout(() => canvasRef.current?.centerMolecule(), 100);
+    } catch (err: any) {
+      setErrorMsg(`Import failed: ${err?.message || 'unreadable molfile'}`);
+    }
+  }, []);
+
+  const handleMolfileExport = useCallback((version: MolfileVersion) => {
+    if (molecule.atoms.length === 0) return;
+    const name = metadata?.commonName || metadata?.iupacName || '';
+    try {
+      const blob = new Blob([writeMolfile(molecule, version, name)], { type: 'chemical/x-mdl-molfile' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${name.replace(/[^\w.-]+/g, '_') || 'structure'}.mol`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err: any) {
+      setErrorMsg(`Export failed: ${err?.message || 'unknown error'}`);
+    }
+  }, [molecule, metadata]);
+
   const handleViewAlternative = useCallback((alt: any) => {
     if (alt.sdfData) {
       // Immediate 3D state update: Swap the SDF data directly for visualizer
@@ -143,15 +428,31 @@ const App: React.FC = () => {
         <div className="flex space-x-4 h-full">
           <MenuDropdown label="File">
              <button onClick={() => { setMolecule({atoms:[], bonds:[]}); setAnalysis(null); setMetadata(null); }} className="w-full text-left px-4 py-2 hover:bg-blue-600 hover:text-white border-b border-slate-100 transition-colors">New Structure</button>
+             <button onClick={() => molfileInputRef.current?.click()} className="w-full text-left px-4 py-2 hover:bg-blue-600 hover:text-white border-b border-slate-100 transition-colors">Import Molfile / SDF…</button>
+             <button onClick={() => handleMolfileExport('V2000')} className="w-full text-left px-4 py-2 hover:bg-blue-600 hover:text-white border-b border-slate-100 transition-colors">Export Molfile (V2000)</button>
+             <button onClick={() => handleMolfileExport('V3000')} className="w-full text-left px-4 py-2 hover:bg-blue-600 hover:text-white border-b border-slate-100 transition-colors">Export Molfile (V3000)</button>
              <button onClick={() => window.print()} className="w-full text-left px-4 py-2 hover:bg-blue-600 hover:text-white transition-colors">Print View</button>
           </MenuDropdown>
+          <input ref={molfileInputRef} type="file" accept=".mol,.sdf,.sd" onChange={handleMolfileImport} className="hidden" />
           <MenuDropdown label="Edit">
+             <button onClick={undo} disabled={!canUndo} className="w-full text-left px-4 py-2 hover:bg-blue-600 hover:text-white border-b border-slate-100 transition-colors flex justify-between disabled:opacity-40 disabled:pointer-events-none">Undo <span className="text-[10px] opacity-60">Ctrl+Z</span></button>
+             <button onClick={redo} disabled={!canRedo} className="w-full text-left px-4 py-2 hover:bg-blue-600 hover:text-white border-b border-slate-100 transition-colors flex justify-between disabled:opacity-40 disabled:pointer-events-none">Redo <span className="text-[10px] opacity-60">Ctrl+Shift+Z</span></button>
+             <button onClick={() => canvasRef.current?.copySelection('smiles', true)} className="w-full text-left px-4 py-2 hover:bg-blue-600 hover:text-white border-b border-slate-100 transition-colors flex justify-between">Cut <span className="text-[10px] opacity-60">Ctrl+X</span></button>
+             <button onClick={() => canvasRef.current?.copySelection('smiles')} className="w-full text-left px-4 py-2 hover:bg-blue-600 hover:text-white border-b border-slate-100 transition-colors flex justify-between">Copy as SMILES <span className="text-[10px] opacity-60">Ctrl+C</span></button>
+             <button onClick={() => canvasRef.current?.copySelection('molfile')} className="w-full text-left px-4 py-2 hover:bg-blue-600 hover:text-white border-b border-slate-100 transition-colors">Copy as Molfile</button>
+             <button onClick={() => canvasRef.current?.pasteFromClipboard()} className="w-full text-left px-4 py-2 hover:bg-blue-600 hover:text-white border-b border-slate-100 transition-colors flex justify-between">Paste <span className="text-[10px] opacity-60">Ctrl+V</span></button>
+             <button onClick={() => canvasRef.current?.deleteSelection()} className="w-full text-left px-4 py-2 hover:bg-blue-600 hover:text-white border-b border-slate-100 transition-colors flex justify-between">Delete Selection <span className="text-[10px] opacity-60">Del</span></button>
+             <button onClick={() => setMolecule(prev => fillHydrogens(prev))} className="w-full text-left px-4 py-2 hover:bg-blue-600 hover:text-white border-b border-slate-100 transition-colors">Make Hydrogens Explicit</button>
+             <button onClick={() => setMolecule(prev => collapseHydrogens(prev))} className="w-full text-left px-4 py-2 hover:bg-blue-600 hover:text-white border-b border-slate-100 transition-colors">Collapse Hydrogens</button>
+             <button onClick={() => canvasRef.current?.selectAll()} className="w-full text-left px-4 py-2 hover:bg-blue-600 hover:text-white border-b border-slate-100 transition-colors flex justify-between">Select All <span className="text-[10px] opacity-60">Ctrl+A</span></button>
              <button onClick={() => {
                const name = prompt("Rename Project:", siteName);
                if(name) setSiteName(name);
              }} className="w-full text-left px-4 py-2 hover:bg-blue-600 hover:text-white border-b border-slate-100 transition-colors">Rename Project</button>
           </MenuDropdown>
           <MenuDropdown label="View">
+             <button onClick={() => setMolecule(prev => cleanStructure(prev))} className="w-full text-left px-4 py-2 hover:bg-blue-600 hover:text-white border-b border-slate-100 transition-colors">Clean Structure</button>
+             <button onClick={handleGenerate3D} className="w-full text-left px-4 py-2 hover:bg-blue-600 hover:text-white border-b border-slate-100 transition-colors">Generate 3D Model</button>
              <button onClick={() => canvasRef.current?.centerMolecule()} className="w-full text-left px-4 py-2 hover:bg-blue-600 hover:text-white border-b border-slate-100 transition-colors">Center View</button>
              <button onClick={() => canvasRef.current?.zoomIn()} className="w-full text-left px-4 py-2 hover:bg-blue-600 hover:text-white border-b border-slate-100 transition-colors">Zoom In (+)</button>
              <button onClick={() => canvasRef.current?.zoomOut()} className="w-full text-left px-4 py-2 hover:bg-blue-600 hover:text-white transition-colors">Zoom Out (-)</button>
@@ -161,6 +462,13 @@ const App: React.FC = () => {
              <WindowToggle label="3D Conformer" active={show3D} onClick={() => setShow3D(!show3D)} />
              <WindowToggle label="Analysis Feed" active={showAnalysis} onClick={() => setShowAnalysis(!showAnalysis)} />
              <WindowToggle label="Constants Panel" active={showProperties} onClick={() => setShowProperties(!showProperties)} />
+             <WindowToggle label="Chair Conformations" active={showChairs} onClick={() => setShowChairs(!showChairs)} />
+             <WindowToggle label="Fischer / Haworth" active={showProjections} onClick={() => setShowProjections(!showProjections)} />
+             <WindowToggle label="Constitutional Isomers" active={includeConstitutional} onClick={() => setIncludeConstitutional(!includeConstitutional)} />
+             <WindowToggle label="Re-prompt on Mismatch" active={repromptOnMismatch} onClick={() => setRepromptOnMismatch(!repromptOnMismatch)} />
+          </MenuDropdown>
+          <MenuDropdown label="Settings">
+             <button onClick={() => setShowCacheSettings(true)} className="w-full text-left px-4 py-2 hover:bg-blue-600 hover:text-white transition-colors">Analysis Cache…</button>
           </MenuDropdown>
         </div>
       </nav>
@@ -175,7 +483,7 @@ const App: React.FC = () => {
                 </svg>
                 {errorMsg}
               </span>
-              {!isFallbackMode && <button onClick={() => handleRunAnalysis()} className="bg-white text-red-600 px-4 py-1.5 rounded-lg font-bold">Retry AI</button>}
+              {!isFallbackMode && <button onClick={() => handleRunAnalysis()} className="bg-white text-red-600 px-4 py-1.5 rounded-lg font-bold">Retry {analysisProvider.name}</button>}
             </div>
             <button onClick={() => setErrorMsg(null)} className="p-1 hover:bg-black/10 rounded-md">✕</button>
           </div>
@@ -186,6 +494,7 @@ const App: React.FC = () => {
           <button 
             onClick={() => handleRunAnalysis()}
             disabled={isAnalyzing || molecule.atoms.length === 0}
+            title={validationErrors.length > 0 ? validationErrors.map(i => i.message).join('\n') : undefined}
             className="bg-blue-600 hover:bg-blue-700 disabled:bg-slate-300 text-white px-10 py-3 rounded-2xl text-[11px] font-black uppercase tracking-[0.1em] shadow-xl shadow-blue-200 flex items-center transition-all active:scale-95 shrink-0"
           >
             {isAnalyzing ? (
@@ -204,7 +513,23 @@ const App: React.FC = () => {
                 <div className="bg-slate-50 px-6 py-4 border-b border-slate-200 flex justify-between items-center">
                   <div className="flex items-center space-x-3">
                     <h2 className="text-[10px] font-black uppercase text-slate-500 tracking-widest">Skeletal Editor</h2>
-                    {isFallbackMode && <span className="bg-amber-100 text-amber-700 text-[8px] font-black px-2 py-0.5 rounded-md uppercase tracking-tighter">PubChem Source</span>}
+                    {isFallbackMode && <span className="bg-amber-100 text-amber-700 text-[8px] font-black px-2 py-0.5 rounded-md uppercase tracking-tighter">{analysis?.provider} Source</span>}
+                    {analysis?.mismatches && (
+                      <span
+                        className="bg-red-100 text-red-700 text-[8px] font-black px-2 py-0.5 rounded-md uppercase tracking-tighter cursor-help"
+                        title={analysis.mismatches.map(m => m.message).join('\n')}
+                      >
+                        Mismatch
+                      </span>
+                    )}
+                    {validationIssues.length > 0 && (
+                      <span
+                        className={`${validationErrors.length > 0 ? 'bg-red-100 text-red-700' : 'bg-amber-100 text-amber-700'} text-[8px] font-black px-2 py-0.5 rounded-md uppercase tracking-tighter cursor-help`}
+                        title={validationIssues.map(i => i.message).join('\n')}
+                      >
+                        {validationErrors.length > 0 ? `${validationErrors.length} Structure Error${validationErrors.length > 1 ? 's' : ''}` : `${validationIssues.length} Warning${validationIssues.length > 1 ? 's' : ''}`}
+                      </span>
+                    )}
                   </div>
                   {/* Restored 2D Controls Section */}
                   <div className="flex items-center space-x-1">
@@ -222,13 +547,20 @@ const App: React.FC = () => {
                 <MoleculeCanvas 
                   ref={canvasRef}
                   molecule={molecule} 
-                  onMoleculeChange={setMolecule} 
+                  onMoleculeChange={handleMoleculeChange} 
+                  onEditStart={beginGroup}
+                  onEditEnd={endGroup}
                   activeElement={activeElement} 
                   setActiveElement={setActiveElement}
                   activeTool={activeTool} 
                   setActiveTool={setActiveTool}
                   onSelectAtom={setSelectedCentralAtom} 
-                  onFillHydrogens={() => {}}
+                  onSelectBond={setProjectionBond}
+                  onFillHydrogens={() => setMolecule(prev => fillHydrogens(prev))}
+                  onCollapseHydrogens={() => setMolecule(prev => collapseHydrogens(prev))}
+                  onError={setErrorMsg}
+                  issues={validationIssues}
+                  stereoLabels={stereoBonds}
                 />
               </div>
             )}
@@ -237,10 +569,33 @@ const App: React.FC = () => {
               <div className="bg-white rounded-3xl border border-slate-200 shadow-xl flex flex-col overflow-hidden h-[600px] xl:h-full transition-all">
                 <div className="bg-slate-50 px-6 py-4 border-b border-slate-200 flex justify-between">
                   <span className="text-[10px] font-black uppercase text-slate-500 tracking-widest">3D Dynamics</span>
-                  {isAnalyzing && <div className="animate-pulse text-[10px] text-blue-500 font-bold">GENERATING COORDINATES...</div>}
+                  {isAnalyzing ? (
+                    <div className="animate-pulse text-[10px] text-blue-500 font-bold">GENERATING COORDINATES...</div>
+                  ) : (
+                    <button
+                      onClick={handleGenerate3D}
+                      disabled={molecule.atoms.length === 0 || validationErrors.length > 0}
+                      className="text-[10px] font-black uppercase tracking-widest text-blue-600 hover:text-blue-800 disabled:text-slate-300 transition-colors"
+                      title="Embed the drawn structure in 3D (works offline)"
+                    >
+                      Generate 3D
+                    </button>
+                  )}
                 </div>
-                <div className="flex-grow">
-                  <Visualizer3D sdfData={analysis?.sdfData} />
+                <div className="flex-grow flex flex-col md:flex-row min-h-0">
+                  <div className="flex-grow min-h-0">
+                    <Visualizer3D sdfData={activeSdf} symmetry={symmetry} />
+                  </div>
+                  {projectionBond && (
+                    <div className="md:w-80 shrink-0 border-t md:border-t-0 md:border-l border-slate-200 min-h-0">
+                      <NewmanViewer
+                        sdfData={activeSdf}
+                        molecule={molecule}
+                        bondId={projectionBond}
+                        onClose={() => setProjectionBond(null)}
+                      />
+                    </div>
+                  )}
                 </div>
               </div>
             )}
@@ -250,9 +605,10 @@ const App: React.FC = () => {
              <div className="lg:col-span-2 bg-white rounded-3xl border border-slate-200 p-8 shadow-sm">
                <h3 className="text-xs font-black uppercase text-blue-600 mb-6 tracking-widest border-b border-blue-50 pb-2">Identification</h3>
                <div className="grid grid-cols-2 gap-x-10 gap-y-6">
-                 <InfoItem label="IUPAC Name" value={safeStr(metadata?.iupacName)} full />
-                 <InfoItem label="Formula" value={safeStr(metadata?.formula)} />
-                 <InfoItem label="SMILES" value={safeStr(metadata?.smiles)} full code />
+                 <InfoItem label="IUPAC Name" value={metadata?.iupacName} full />
+                 <InfoItem label="Formula" value={formulaInfo?.formula || metadata?.formula} />
+                 <InfoItem label="SMILES" value={canvasSmiles || metadata?.smiles} full code />
+                 <InfoItem label="Composition" value={formulaInfo?.composition.map(c => `${c.element} ${c.massPercent.toFixed(2)}%`).join(' · ')} full />
                </div>
              </div>
 
@@ -260,10 +616,11 @@ const App: React.FC = () => {
                <div className="bg-white rounded-3xl border border-slate-200 p-8 shadow-sm">
                   <h3 className="text-xs font-black uppercase text-blue-600 mb-6 tracking-widest border-b border-blue-50 pb-2">Properties</h3>
                   <div className="space-y-4">
-                     <PropertyRow label="Mol. Weight" value={safeStr(analysis?.properties?.molecularWeight)} />
-                     <PropertyRow label="LogP" value={safeStr(analysis?.properties?.logP)} />
-                     <PropertyRow label="Melting Point" value={safeStr(analysis?.properties?.meltingPoint)} />
-                     <PropertyRow label="Boiling Point" value={safeStr(analysis?.properties?.boilingPoint)} />
+                     <PropertyRow label="Mol. Weight" value={formulaInfo ? `${formulaInfo.molecularWeight.toFixed(2)} g/mol` : analysis?.properties?.molecularWeight} />
+                     <PropertyRow label="Exact Mass" value={formulaInfo ? `${formulaInfo.exactMass.toFixed(4)} Da` : ''} />
+                     <PropertyRow label="LogP" value={analysis?.properties?.logP} />
+                     <PropertyRow label="Melting Point" value={analysis?.properties?.meltingPoint} />
+                     <PropertyRow label="Boiling Point" value={analysis?.properties?.boilingPoint} />
                   </div>
                </div>
              )}
@@ -271,17 +628,31 @@ const App: React.FC = () => {
              <div className="bg-white rounded-3xl border border-slate-200 p-8 shadow-sm">
                 <h3 className="text-xs font-black uppercase text-blue-600 mb-6 tracking-widest border-b border-blue-50 pb-2">Topology</h3>
                 <div className="space-y-4">
-                   <PropertyRow label="Atoms" value={safeStr(molecule.atoms.length)} />
-                   <PropertyRow label="Bonds" value={safeStr(molecule.bonds.length)} />
-                   <PropertyRow label="Stereocenters" value={safeStr(analysis?.stereocenters?.length || 0)} />
-                   <PropertyRow label="Dipole" value={safeStr(analysis?.dipoleMoment)} />
+                   <PropertyRow label="Atoms" value={String(molecule.atoms.length)} />
+                   <PropertyRow label="Bonds" value={String(molecule.bonds.length)} />
+                   <PropertyRow label="Stereocenters" value={String(analysis?.stereocenters?.length || 0)} />
+                   <PropertyRow label="Dipole" value={analysis?.dipoleMoment} />
                 </div>
              </div>
 
+             {showChairs && chairRings.length > 0 && (
+               <div className="lg:col-span-4 bg-white rounded-3xl border border-slate-200 p-8 shadow-sm">
+                 <h3 className="text-xs font-black uppercase text-blue-600 mb-6 tracking-widest border-b border-blue-50 pb-2">Chair Conformations</h3>
+                 <ChairViewer analyses={chairRings} />
+               </div>
+             )}
+
+             {showProjections && (fischer || haworthRings.length > 0) && (
+               <div className="lg:col-span-4 bg-white rounded-3xl border border-slate-200 p-8 shadow-sm">
+                 <h3 className="text-xs font-black uppercase text-blue-600 mb-6 tracking-widest border-b border-blue-50 pb-2">Fischer & Haworth Projections</h3>
+                 <ProjectionViewer fischer={fischer} haworth={haworthRings} name={metadata?.commonName || metadata?.iupacName || ''} />
+               </div>
+             )}
+
              {showAnalysis && analysis && (
                <div className="lg:col-span-4 animate-in fade-in duration-500">
                   <AnalysisPanel 
-                    result={analysis} 
+                    result={shownAnalysis} 
                     loading={isAnalyzing} 
                     selectedCentralAtom={selectedCentralAtom} 
                     onViewAlternative={handleViewAlternative} 
@@ -292,13 +663,16 @@ const App: React.FC = () => {
         </main>
       </div>
       
+      {showCacheSettings && <CacheSettings onClose={() => setShowCacheSettings(false)} />}
+
       <footer className="h-7 bg-slate-900 text-white flex items-center px-6 justify-between text-[9px] font-bold uppercase tracking-widest shrink-0">
         <div className="flex space-x-10">
           <span>{molecule.atoms.length} Atoms detected</span>
           <span className="flex items-center">
-            {isFallbackMode ? "Mode: PubChem Baseline (NIH)" : "Mode: Gemini AI-Flash"}
+            Mode: {isFallbackMode && analysis?.provider ? `${analysis.provider} (fallback)` : analysisProvider.name}
           </span>
         </div>
+        <RequestIndicator />
       </footer>
     </div>
   );
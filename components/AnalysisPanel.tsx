@@ -1,6 +1,6 @@
 
 import React from 'react';
-import { AnalysisResult } from '../types';
+import { AnalysisResult, ConsistencyIssue, StereoBondInfo, SymmetryInfo } from '../types';
 import { InfoTooltip } from './InfoTooltip';
 
 interface AnalysisPanelProps {
@@ -10,19 +10,21 @@ interface AnalysisPanelProps {
   onViewAlternative: (item: any) => void;
 }
 
-/**
- * Enhanced safeStr to handle nested LLM objects (e.g. { name: { value: "x" } })
- */
-const safeStr = (val: any): string => {
-  if (val === null || val === undefined) return '';
-  if (typeof val === 'object') {
-    // Try to extract common LLM nested fields if they exist
-    if (val.text) return String(val.text);
-    if (val.value) return String(val.value);
-    if (val.name) return String(val.name);
-    return JSON.stringify(val);
-  }
-  return String(val);
+const STEREO_BOND_TITLES: Record<StereoBondInfo['kind'], string> = {
+  double: 'Double Bond',
+  ring: 'Ring Pair',
+  axis: 'Chiral Axis',
+};
+
+const MISMATCH_SOURCES: Record<ConsistencyIssue['source'], string> = {
+  smiles: 'SMILES',
+  sdf: 'SDF',
+};
+
+const CHIRALITY_BADGES: Record<SymmetryInfo['chirality'], string> = {
+  chiral: 'bg-rose-50 text-rose-700',
+  achiral: 'bg-emerald-50 text-emerald-700',
+  meso: 'bg-amber-50 text-amber-700',
 };
 
 export const AnalysisPanel: React.FC<AnalysisPanelProps> = ({ result, loading, selectedCentralAtom, onViewAlternative }) => {
@@ -32,27 +34,47 @@ export const AnalysisPanel: React.FC<AnalysisPanelProps> = ({ result, loading, s
   const displayAtomId = selectedCentralAtom && result.vsepr && result.vsepr[selectedCentralAtom] ? selectedCentralAtom : (vseprKeys.length > 0 ? vseprKeys[0] : null);
   const activeVSEPR = displayAtomId ? result.vsepr[displayAtomId] : null;
 
+  const stereoBonds = Array.isArray(result.stereoBonds) ? result.stereoBonds : [];
   const isomers = Array.isArray(result.isomers) ? result.isomers : [];
   const conformations = Array.isArray(result.conformations) ? result.conformations : [];
   const hasAlternatives = isomers.length > 0 || conformations.length > 0;
 
   return (
     <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 pb-12">
+      {/* Consistency with the canvas */}
+      {result.mismatches && result.mismatches.length > 0 && (
+        <section className="bg-red-50 p-6 rounded-2xl border border-red-200 lg:col-span-2">
+          <div className="flex items-center justify-between mb-3">
+            <h3 className="text-xs font-black text-red-700 uppercase tracking-widest">Mismatch with Drawn Structure</h3>
+            <span className="text-[10px] font-black px-3 py-1 rounded-full uppercase bg-red-600 text-white">{result.provider || 'Provider'}</span>
+          </div>
+          <ul className="space-y-1">
+            {result.mismatches.map((m, k) => (
+              <li key={k} className="text-[11px] text-red-700">
+                <span className="font-black uppercase tracking-tighter mr-2">{MISMATCH_SOURCES[m.source]} · {m.aspect}</span>{m.message}
+              </li>
+            ))}
+          </ul>
+          <p className="mt-3 text-[10px] text-red-500 italic">Stereocenters, VSEPR and the 3D model below are computed from the canvas; names, properties and commentary may describe the other molecule.</p>
+        </section>
+      )}
+
       {/* Geometries */}
       <section className="bg-white p-6 rounded-2xl border border-slate-200 shadow-sm">
         <div className="flex items-center justify-between mb-6">
           <h3 className="text-xs font-black text-blue-600 uppercase tracking-widest">Geometry & VSEPR</h3>
           <span className="bg-blue-50 text-blue-700 text-[10px] font-black px-3 py-1 rounded-full uppercase">
-            {displayAtomId ? `Atom ${safeStr(displayAtomId)}` : 'Main'}
+            {displayAtomId ? `${activeVSEPR?.element ? `${activeVSEPR.element} · ` : ''}Atom ${displayAtomId}` : 'Main'}
           </span>
         </div>
         {activeVSEPR ? (
           <div className="grid grid-cols-2 gap-4">
-             <GeometryBlock label="AXE Notation" val={safeStr(activeVSEPR.axeNotation)} highlight />
-             <GeometryBlock label="Lone Pairs" val={safeStr(activeVSEPR.lonePairs)} />
-             <GeometryBlock label="Electronic Geo" val={safeStr(activeVSEPR.electronicGeometry)} full />
-             <GeometryBlock label="Molecular Geo" val={safeStr(activeVSEPR.molecularGeometry)} full blue />
-             <GeometryBlock label="Bond Angles" val={safeStr(activeVSEPR.bondAngles)} full />
+             <GeometryBlock label="AXE Notation" val={activeVSEPR.axeNotation} highlight />
+             <GeometryBlock label="Lone Pairs" val={String(activeVSEPR.lonePairs)} />
+             <GeometryBlock label="Electronic Geo" val={activeVSEPR.electronicGeometry} full />
+             <GeometryBlock label="Molecular Geo" val={activeVSEPR.molecularGeometry} full blue />
+             <GeometryBlock label="Bond Angles" val={activeVSEPR.bondAngles} full />
+             {activeVSEPR.hybridization && <GeometryBlock label="Hybridization" val={activeVSEPR.hybridization} full />}
           </div>
         ) : <p className="text-xs text-slate-400 italic">Target an atom for VSEPR data.</p>}
       </section>
@@ -61,24 +83,74 @@ export const AnalysisPanel: React.FC<AnalysisPanelProps> = ({ result, loading, s
       <section className="bg-white p-6 rounded-2xl border border-slate-200 shadow-sm">
         <h3 className="text-xs font-black text-blue-600 uppercase tracking-widest mb-6">Stereochemical Logic</h3>
         <div className="space-y-3">
-          {!result.stereocenters || result.stereocenters.length === 0 ? (
+          {(!result.stereocenters || result.stereocenters.length === 0) && stereoBonds.length === 0 ? (
             <div className="p-4 bg-slate-50 rounded-xl text-center text-xs text-slate-400 italic font-bold">Achiral Molecule</div>
           ) : (
             result.stereocenters.map((sc, i) => (
               <div key={i} className="p-3 bg-indigo-50 border border-indigo-100 rounded-xl flex items-start space-x-4">
                  <div className="bg-indigo-600 text-white w-8 h-8 rounded-lg flex items-center justify-center font-black text-xs">
-                   {safeStr(sc.configuration)}
+                   {sc.configuration}
                  </div>
                  <div className="flex-1">
-                    <p className="text-[10px] font-black text-indigo-700 uppercase">Atom {safeStr(sc.atomId)}</p>
-                    <p className="text-[11px] text-slate-600 leading-tight">{safeStr(sc.logic)}</p>
+                    <div className="flex items-center justify-between">
+                      <p className="text-[10px] font-black text-indigo-700 uppercase">Atom {sc.atomId}</p>
+                      <span className="text-[8px] font-black text-indigo-400 uppercase tracking-widest">CIP Engine</span>
+                    </div>
+                    <p className="text-[11px] text-slate-600 leading-tight">{sc.logic}</p>
+                    {sc.explanation && (
+                      <p className="mt-2 pt-2 border-t border-indigo-100 text-[10px] text-slate-400 leading-tight italic">
+                        <span className="font-black not-italic uppercase tracking-tighter mr-1">AI Explanation:</span>{sc.explanation}
+                      </p>
+                    )}
                  </div>
               </div>
             ))
           )}
+          {stereoBonds.map((sb, i) => (
+            <div key={`sb-${i}`} className="p-3 bg-violet-50 border border-violet-100 rounded-xl flex items-start space-x-4">
+              <div className="bg-violet-600 text-white min-w-8 h-8 px-1.5 rounded-lg flex items-center justify-center font-black text-[10px]">
+                {sb.descriptor === 'None' ? '?' : sb.descriptor}
+              </div>
+              <div className="flex-1">
+                <div className="flex items-center justify-between">
+                  <p className="text-[10px] font-black text-violet-700 uppercase">{STEREO_BOND_TITLES[sb.kind]} · {sb.atomIds.join(' – ')}</p>
+                  <span className="text-[8px] font-black text-violet-400 uppercase tracking-widest">CIP Engine</span>
+                </div>
+                <p className="text-[11px] text-slate-600 leading-tight">{sb.logic}</p>
+              </div>
+            </div>
+          ))}
         </div>
       </section>
 
+      {/* Symmetry */}
+      {result.symmetry && (
+        <section className="bg-white p-6 rounded-2xl border border-slate-200 shadow-sm lg:col-span-2">
+          <div className="flex items-center justify-between mb-6">
+            <h3 className="text-xs font-black text-blue-600 uppercase tracking-widest">Symmetry</h3>
+            <span className={`text-[10px] font-black px-3 py-1 rounded-full uppercase ${CHIRALITY_BADGES[result.symmetry.chirality]}`}>
+              {result.symmetry.chirality}
+            </span>
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="p-3 rounded-xl bg-slate-50 border border-slate-100">
+              <p className="text-[8px] font-black text-slate-400 uppercase tracking-widest">Point Group</p>
+              <p className="text-2xl font-black chem-font text-blue-600">
+                {result.symmetry.pointGroup[0]}<sub className="text-sm">{result.symmetry.pointGroup.slice(1)}</sub>
+              </p>
+            </div>
+            <GeometryBlock label="Operations" val={result.symmetry.operations.join(' · ')} full />
+            <GeometryBlock label="Equivalent Sets" val={String(result.symmetry.equivalentAtoms.length)} />
+          </div>
+          {result.symmetry.notes.length > 0 && (
+            <ul className="mt-4 space-y-1">
+              {result.symmetry.notes.map(note => <li key={note} className="text-[10px] text-slate-500">• {note}</li>)}
+            </ul>
+          )}
+          <p className="mt-3 text-[10px] text-slate-400 italic">Point group of the 3D model on screen; chirality is read from the configuration and holds for every conformer.</p>
+        </section>
+      )}
+
       {/* Structural Alternatives */}
       {hasAlternatives && (
         <section className="bg-white p-6 rounded-2xl border border-slate-200 shadow-sm lg:col-span-2">
@@ -87,8 +159,8 @@ export const AnalysisPanel: React.FC<AnalysisPanelProps> = ({ result, loading, s
             {isomers.map((iso, i) => (
               <div key={`iso-${i}`} className="p-4 border border-slate-100 rounded-xl bg-slate-50 flex justify-between items-center hover:border-blue-200 transition-colors">
                  <div className="flex-1 mr-4">
-                   <p className="text-[9px] font-black text-slate-400 uppercase tracking-tighter">{safeStr(iso.type)}</p>
-                   <p className="text-xs font-bold text-slate-800">{safeStr(iso.name)}</p>
+                   <p className="text-[9px] font-black text-slate-400 uppercase tracking-tighter">{iso.type}</p>
+                   <p className="text-xs font-bold text-slate-800">{iso.name}</p>
                  </div>
                  <button 
                   onClick={() => onViewAlternative(iso)}
@@ -101,8 +173,15 @@ export const AnalysisPanel: React.FC<AnalysisPanelProps> = ({ result, loading, s
             {conformations.map((conf, i) => (
               <div key={`conf-${i}`} className="p-4 border border-slate-100 rounded-xl bg-slate-50 flex justify-between items-center hover:border-blue-200 transition-colors">
                  <div className="flex-1 mr-4">
-                   <p className="text-[9px] font-black text-slate-400 uppercase tracking-tighter">Conformational State ({safeStr(conf.energyScore)})</p>
-                   <p className="text-xs font-bold text-slate-800">{safeStr(conf.name)}</p>
+                   <p className="text-[9px] font-black text-slate-400 uppercase tracking-tighter">
+                     {typeof conf.relativeEnergy === 'number'
+                       ? <>Conformer · ΔE <span className="font-mono text-slate-600">{conf.relativeEnergy.toFixed(2)} kcal/mol</span></>
+                       : <>Conformational State ({conf.energyScore})</>}
+                   </p>
+                   <p className="text-xs font-bold text-slate-800">{conf.name}</p>
+                   {typeof conf.relativeEnergy === 'number' && conf.description && (
+                     <p className="text-[10px] text-slate-500 mt-0.5">{conf.description}</p>
+                   )}
                  </div>
                  <button 
                   onClick={() => onViewAlternative(conf)}
@@ -119,7 +198,17 @@ export const AnalysisPanel: React.FC<AnalysisPanelProps> = ({ result, loading, s
       {/* Educational Context */}
       <section className="bg-amber-50 p-6 rounded-2xl border border-amber-100 lg:col-span-2">
          <h4 className="text-[10px] font-black text-amber-800 uppercase tracking-widest mb-2">Faculty Commentary</h4>
-         <p className="text-xs text-amber-700 leading-relaxed italic">{safeStr(result.educationalNote || 'Standard chemical analysis complete.')}</p>
+         <p className="text-xs text-amber-700 leading-relaxed italic">{result.educationalNote || 'Standard chemical analysis complete.'}</p>
+         {result.repairs && result.repairs.length > 0 && (
+           <details className="mt-3">
+             <summary className="text-[9px] font-black text-amber-600 uppercase tracking-tighter cursor-pointer">
+               {result.repairs.length} response field{result.repairs.length > 1 ? 's' : ''} repaired or dropped
+             </summary>
+             <ul className="mt-2 space-y-1">
+               {result.repairs.map((repair, k) => <li key={k} className="text-[10px] text-amber-700 chem-font break-all">• {repair}</li>)}
+             </ul>
+           </details>
+         )}
       </section>
     </div>
   );
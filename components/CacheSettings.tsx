@@ -0,0 +1,153 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  CacheEntry, CacheSettings as Limits, listCacheEntries, deleteCacheEntry, clearCache,
+  exportCache, importCache, getCacheSettings, setCacheSettings,
+} from '../services/cacheService';
+
+interface CacheSettingsProps {
+  onClose: () => void;
+}
+
+const formatBytes = (bytes: number) => (
+  bytes < 1024 ? `${bytes} B` : bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`
+);
+
+const formatAge = (time: number) => {
+  const minutes = Math.round((Date.now() - time) / 60000);
+  if (minutes < 60) return `${minutes} min ago`;
+  if (minutes < 48 * 60) return `${Math.round(minutes / 60)} h ago`;
+  return `${Math.round(minutes / 60 / 24)} d ago`;
+};
+
+const LIMIT_FIELDS: Array<{ key: keyof Limits; label: string }> = [
+  { key: 'ttlDays', label: 'Keep for (days)' },
+  { key: 'maxEntries', label: 'Max entries' },
+  { key: 'maxMegabytes', label: 'Max size (MB)' },
+];
+
+/**
+ * Inspects the IndexedDB analysis cache: limits, entries most recently used first,
+ * and export, import and clear.
+ */
+export const CacheSettings: React.FC<CacheSettingsProps> = ({ onClose }) => {
+  const [entries, setEntries] = useState<CacheEntry[]>([]);
+  const [limits, setLimits] = useState<Limits>(getCacheSettings);
+  const [message, setMessage] = useState<string | null>(null);
+  const [quota, setQuota] = useState<StorageEstimate | null>(null);
+  const importRef = useRef<HTMLInputElement>(null);
+
+  const refresh = useCallback(async () => {
+    setEntries((await listCacheEntries()).reverse());
+    setQuota(await navigator.storage?.estimate?.() ?? null);
+  }, []);
+
+  useEffect(() => { refresh(); }, [refresh]);
+
+  const run = async (action: () => Promise<string | void>) => {
+    try {
+      const note = await action();
+      setMessage(note || null);
+    } catch (e) {
+      setMessage((e as Error).message);
+    }
+    refresh();
+  };
+
+  const handleExport = () => run(async () => {
+    const blob = new Blob([await exportCache()], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `stereochem-cache-${new Date().toISOString().slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  });
+
+  const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    run(async () => `Imported ${await importCache(await file.text())} entries`);
+  };
+
+  const totalSize = entries.reduce((sum, entry) => sum + entry.size, 0);
+
+  return (
+    <div className="fixed inset-0 z-[200] bg-slate-900/40 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-3xl max-h-[85vh] flex flex-col overflow-hidden" onClick={e => e.stopPropagation()}>
+        <div className="bg-slate-50 px-6 py-4 border-b border-slate-200 flex justify-between items-center">
+          <h2 className="text-[10px] font-black uppercase text-slate-500 tracking-widest">Analysis Cache</h2>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-600">✕</button>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto">
+          <div className="grid grid-cols-3 gap-4">
+            {LIMIT_FIELDS.map(({ key, label }) => (
+              <label key={key} className="p-3 rounded-xl bg-slate-50 border border-slate-100">
+                <span className="block text-[8px] font-black text-slate-400 uppercase tracking-widest">{label}</span>
+                <input
+                  type="number"
+                  min={1}
+                  value={limits[key]}
+                  onChange={e => setLimits(prev => ({ ...prev, [key]: Number(e.target.value) }))}
+                  onBlur={() => run(() => setCacheSettings(limits))}
+                  className="w-full bg-transparent text-sm font-black text-slate-800 outline-none"
+                />
+              </label>
+            ))}
+          </div>
+
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <p className="text-[10px] font-bold text-slate-500">
+              {entries.length} entries · {formatBytes(totalSize)}
+              {quota?.usage !== undefined && quota.quota ? ` · browser storage ${formatBytes(quota.usage)} of ${formatBytes(quota.quota)}` : ''}
+            </p>
+            <div className="flex space-x-2">
+              <button onClick={handleExport} className="px-4 py-1.5 bg-indigo-50 text-[10px] font-black text-indigo-600 rounded-lg uppercase hover:bg-indigo-600 hover:text-white transition-all">Export</button>
+              <button onClick={() => importRef.current?.click()} className="px-4 py-1.5 bg-indigo-50 text-[10px] font-black text-indigo-600 rounded-lg uppercase hover:bg-indigo-600 hover:text-white transition-all">Import</button>
+              <button
+                onClick={() => { if (confirm('Remove every cached analysis?')) run(clearCache); }}
+                className="px-4 py-1.5 bg-red-50 text-[10px] font-black text-red-600 rounded-lg uppercase hover:bg-red-600 hover:text-white transition-all"
+              >
+                Clear
+              </button>
+              <input ref={importRef} type="file" accept=".json,application/json" onChange={handleImport} className="hidden" />
+            </div>
+          </div>
+          {message && <p className="text-[10px] font-bold text-amber-700 bg-amber-50 rounded-lg px-3 py-2">{message}</p>}
+
+          {entries.length === 0 ? (
+            <p className="text-xs text-slate-400 italic text-center py-8">Nothing cached yet.</p>
+          ) : (
+            <table className="w-full text-left">
+              <thead>
+                <tr className="text-[8px] font-black text-slate-400 uppercase tracking-widest border-b border-slate-100">
+                  <th className="py-2">Kind</th>
+                  <th>Input</th>
+                  <th>Provider · Model</th>
+                  <th>Size</th>
+                  <th>Used</th>
+                  <th></th>
+                </tr>
+              </thead>
+              <tbody>
+                {entries.map(entry => (
+                  <tr key={entry.key} className="text-[10px] text-slate-600 border-b border-slate-50 align-top">
+                    <td className="py-1.5 font-black uppercase text-slate-400">{entry.kind}</td>
+                    <td className="chem-font break-all pr-2 text-slate-800" title={entry.key}>{entry.label}</td>
+                    <td>{entry.provider} · {entry.model}</td>
+                    <td>{formatBytes(entry.size)}</td>
+                    <td title={`Stored ${new Date(entry.createdAt).toLocaleString()}`}>{formatAge(entry.lastUsed)}</td>
+                    <td className="text-right">
+                      <button onClick={() => run(() => deleteCacheEntry(entry.key))} className="text-slate-300 hover:text-red-600 px-1">✕</button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,178 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ChairAnalysis, chairDrawing, isAxial } from '../services/chairService';
+
+interface ChairViewerProps {
+  analyses: ChairAnalysis[];
+}
+
+const SCALE = 38;
+const WIDTH = 230;
+const HEIGHT = 170;
+const FLIP_MS = 1400;
+
+const AXIAL_COLOR = '#e11d48';
+const EQUATORIAL_COLOR = '#2563eb';
+const HYDROGEN_COLOR = '#94a3b8';
+
+const Chair: React.FC<{ analysis: ChairAnalysis; amplitude: number }> = ({ analysis, amplitude }) => {
+  const { ring, arms } = chairDrawing(analysis.positions, amplitude);
+  const chair = amplitude >= 0 ? 0 : 1;
+  const sx = (x: number) => WIDTH / 2 + x * SCALE;
+  const sy = (y: number) => HEIGHT / 2 - y * SCALE;
+  // Far bonds first so the near edge of the ring is drawn on top
+  const bonds = ring.map((a, p) => ({ a, b: ring[(p + 1) % 6], depth: (a.depth + ring[(p + 1) % 6].depth) / 2 }))
+    .sort((u, v) => v.depth - u.depth);
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto">
+      {analysis.positions.map((pos, p) => pos.slots.map((slot, k) => {
+        if (slot.kind === 'lonePair') return null;
+        const from = ring[p], to = arms[p][k];
+        const color = slot.kind === 'H' ? HYDROGEN_COLOR : (isAxial(p, slot, chair) ? AXIAL_COLOR : EQUATORIAL_COLOR);
+        const lx = from.x + (to.x - from.x) * 1.3, ly = from.y + (to.y - from.y) * 1.3;
+        return (
+          <g key={`${p}-${k}`}>
+            <line x1={sx(from.x)} y1={sy(from.y)} x2={sx(to.x)} y2={sy(to.y)} stroke={color} strokeWidth={slot.kind === 'H' ? 1 : 1.8} />
+            {slot.kind === 'group' && (
+              <text x={sx(lx)} y={sy(ly)} textAnchor="middle" dominantBaseline="central" fontSize={9} fontWeight={700} fill={color}>{slot.label}</text>
+            )}
+          </g>
+        );
+      }))}
+      {bonds.map(({ a, b, depth }, k) => (
+        <line key={k} x1={sx(a.x)} y1={sy(a.y)} x2={sx(b.x)} y2={sy(b.y)} stroke={depth > 0 ? '#94a3b8' : '#1e293b'} strokeWidth={depth > 0 ? 1.6 : 2.6} strokeLinecap="round" />
+      ))}
+      {analysis.positions.map((pos, p) => (
+        <g key={pos.atomId}>
+          {pos.element !== 'C' && (
+            <>
+              <circle cx={sx(ring[p].x)} cy={sy(ring[p].y)} r={6} fill="white" />
+              <text x={sx(ring[p].x)} y={sy(ring[p].y)} textAnchor="middle" dominantBaseline="central" fontSize={9} fontWeight={800} fill="#1e293b">{pos.element}</text>
+            </>
+          )}
+          <text x={sx(ring[p].x) + 7} y={sy(ring[p].y) + 9} fontSize={7} fill="#94a3b8">{p + 1}</text>
+        </g>
+      ))}
+    </svg>
+  );
+};
+
+/**
+ * Both chair forms of each saturated six-membered ring with axial and equatorial
+ * substituents, an animated ring flip and the A-value estimate of the favored chair.
+ */
+export const ChairViewer: React.FC<ChairViewerProps> = ({ analyses }) => {
+  const [ringIndex, setRingIndex] = useState(0);
+  const [amplitude, setAmplitude] = useState(1);
+  const frame = useRef<number | null>(null);
+
+  const analysis = analyses[Math.min(ringIndex, analyses.length - 1)];
+
+  useEffect(() => () => { if (frame.current !== null) cancelAnimationFrame(frame.current); }, []);
+  useEffect(() => { setAmplitude(1); }, [analysis]);
+
+  const playFlip = () => {
+    if (frame.current !== null) cancelAnimationFrame(frame.current);
+    const from = amplitude >= 0 ? 1 : -1;
+    const started = performance.now();
+    const step = (now: number) => {
+      const t = Math.min(1, (now - started) / FLIP_MS);
+      setAmplitude(from * Math.cos(Math.PI * t));
+      frame.current = t < 1 ? requestAnimationFrame(step) : null;
+    };
+    frame.current = requestAnimationFrame(step);
+  };
+
+  if (!analysis) return null;
+  const groups = analysis.positions.flatMap((pos, p) => pos.slots.filter(s => s.kind === 'group').map(slot => ({ p, slot })));
+  const gap = Math.abs(analysis.strain[1] - analysis.strain[0]);
+  const shown = amplitude >= 0 ? 'A' : 'B';
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        {analyses.length > 1 ? (
+          <div className="flex space-x-1">
+            {analyses.map((_, k) => (
+              <button
+                key={k}
+                onClick={() => setRingIndex(k)}
+                className={`px-3 py-1 text-[10px] font-black uppercase rounded-lg ${k === ringIndex ? 'bg-blue-600 text-white' : 'bg-slate-100 text-slate-500 hover:bg-slate-200'}`}
+              >
+                Ring {k + 1}
+              </button>
+            ))}
+          </div>
+        ) : <span />}
+        <div className="flex items-center space-x-4 text-[9px] font-black uppercase tracking-widest">
+          <span style={{ color: AXIAL_COLOR }}>■ Axial</span>
+          <span style={{ color: EQUATORIAL_COLOR }}>■ Equatorial</span>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-[1fr_auto_1fr] items-center gap-4">
+        <div className="text-center">
+          <p className="text-[10px] font-black uppercase text-slate-500 tracking-widest">
+            {Math.abs(amplitude) < 1 ? 'Flipping…' : `Chair ${shown}`}
+            <span className="ml-2 font-mono text-slate-400">{analysis.strain[amplitude >= 0 ? 0 : 1].toFixed(2)} kcal/mol</span>
+          </p>
+          <Chair analysis={analysis} amplitude={amplitude} />
+          <button
+            onClick={playFlip}
+            className="px-4 py-1.5 bg-indigo-50 text-[10px] font-black text-indigo-600 rounded-lg uppercase hover:bg-indigo-600 hover:text-white transition-all"
+          >
+            Ring flip
+          </button>
+        </div>
+        <div className="text-2xl text-slate-300 text-center">⇌</div>
+        <div className="text-center">
+          <p className="text-[10px] font-black uppercase text-slate-500 tracking-widest">
+            Chair {shown === 'A' ? 'B' : 'A'}
+            <span className="ml-2 font-mono text-slate-400">{analysis.strain[amplitude >= 0 ? 1 : 0].toFixed(2)} kcal/mol</span>
+          </p>
+          <Chair analysis={analysis} amplitude={amplitude >= 0 ? -1 : 1} />
+        </div>
+      </div>
+
+      <div className={`p-4 rounded-xl border ${analysis.favored === null ? 'bg-slate-50 border-slate-100' : 'bg-emerald-50 border-emerald-100'}`}>
+        <p className="text-xs font-bold text-slate-800">
+          {analysis.favored === null
+            ? 'Both chairs are equally populated.'
+            : `Chair ${analysis.favored === 0 ? 'A' : 'B'} is favored by ${gap.toFixed(2)} kcal/mol (≈${(analysis.population * 100).toFixed(0)}% at 25 °C).`}
+        </p>
+        <p className="text-[10px] text-slate-500 mt-1">Estimated from the A-values of axial groups plus 1,3-diaxial penalties.</p>
+      </div>
+
+      {groups.length > 0 && (
+        <table className="w-full text-[11px]">
+          <thead>
+            <tr className="text-[9px] font-black uppercase text-slate-400 tracking-tighter text-left">
+              <th className="py-1">Position</th><th>Group</th><th>Face</th><th>A-value</th><th>Chair A</th><th>Chair B</th>
+            </tr>
+          </thead>
+          <tbody>
+            {groups.map(({ p, slot }) => (
+              <tr key={`${p}-${slot.label}`} className="border-t border-slate-100">
+                <td className="py-1 font-bold text-slate-600">C{p + 1}</td>
+                <td className="font-bold text-slate-800">{slot.label}</td>
+                <td className="text-slate-500">{slot.face === 1 ? 'top (wedge)' : 'bottom (dash)'}</td>
+                <td className="font-mono text-slate-500">{slot.aValue.toFixed(2)}</td>
+                {([0, 1] as const).map(chair => (
+                  <td key={chair} className="font-bold" style={{ color: isAxial(p, slot, chair) ? AXIAL_COLOR : EQUATORIAL_COLOR }}>
+                    {isAxial(p, slot, chair) ? 'axial' : 'equatorial'}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {analysis.notes.length > 0 && (
+        <ul className="space-y-1">
+          {analysis.notes.map(note => <li key={note} className="text-[10px] text-slate-500">• {note}</li>)}
+        </ul>
+      )}
+    </div>
+  );
+};
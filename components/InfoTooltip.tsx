@@ -1,6 +1,6 @@
 
 import React, { useState } from 'react';
-import { getExplanation } from '../services/geminiService';
+import { analysisProvider } from '../services/providerService';
 import { Icons } from '../constants';
 
 interface InfoTooltipProps {
@@ -17,7 +17,7 @@ export const InfoTooltip: React.FC<InfoTooltipProps> = ({ topic }) => {
     if (!content && !loading) {
       setLoading(true);
       try {
-        const result = await getExplanation(topic);
+        const result = await analysisProvider.explain(topic);
         setContent(result);
       } catch (e) {
         setContent("Failed to load explanation.");
@@ -1,37 +1,123 @@
 
-import React, { useRef, useState, useEffect, useCallback, useImperativeHandle, forwardRef } from 'react';
-import { Atom, Bond, Molecule, ElementType } from '../types';
+import React, { useRef, useState, useEffect, useCallback, useMemo, useImperativeHandle, forwardRef } from 'react';
+import { Atom, Bond, Molecule, ElementType, CanvasTool, ValidationIssue, StereoBondInfo } from '../types';
 import { ELEMENTS, Icons } from '../constants';
+import { parseSmiles, writeSmiles } from '../services/smilesService';
+import { parseMolfile, writeMolfile } from '../services/molfileService';
+import { implicitHydrogenMap, freeDirections } from '../services/hydrogenService';
 
 interface MoleculeCanvasProps {
   onMoleculeChange: (molecule: Molecule) => void;
+  // Brackets one gesture so its changes undo as a single step
+  onEditStart?: () => void;
+  onEditEnd?: () => void;
   activeElement: ElementType;
   setActiveElement: (el: ElementType) => void;
-  activeTool: 'atom' | 'bond' | 'eraser' | 'select-central' | 'pan' | 'benzene' | 'double' | 'triple';
-  setActiveTool: (tool: 'atom' | 'bond' | 'eraser' | 'select-central' | 'pan' | 'benzene' | 'double' | 'triple') => void;
+  activeTool: CanvasTool;
+  setActiveTool: (tool: CanvasTool) => void;
   molecule: Molecule;
   onSelectAtom?: (atomId: string) => void;
+  // Fired when the selection is exactly the two atoms of one bond
+  onSelectBond?: (bondId: string) => void;
   onFillHydrogens: () => void;
+  onCollapseHydrogens?: () => void;
+  onError?: (message: string) => void;
+  issues?: ValidationIssue[];
+  // E/Z, ring cis/trans and Ra/Sa labels drawn beside their bonds
+  stereoLabels?: StereoBondInfo[];
 }
 
 export interface MoleculeCanvasHandle {
   centerMolecule: () => void;
   zoomIn: () => void;
   zoomOut: () => void;
+  copySelection: (format: ClipboardFormat, cut?: boolean) => void;
+  pasteFromClipboard: () => void;
+  deleteSelection: () => void;
+  selectAll: () => void;
+}
+
+export type ClipboardFormat = 'smiles' | 'molfile';
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+interface SelectionDrag {
+  mode: 'marquee' | 'move' | 'rotate';
+  start: Point;
+  // Marquee outline: two corners for a rectangle, the traced path for a lasso
+  points: Point[];
+  // Atom positions when the drag began
+  base: Record<string, Point>;
+  center: Point;
+  additive: boolean;
 }
 
 const HIT_RADIUS = 18;
 const BOND_LENGTH = 55;
+const WEDGE_WIDTH = 7;
+const ROTATE_HANDLE_OFFSET = 28;
+const SELECTION_PADDING = 14;
+const MAX_CHARGE = 3;
+
+/**
+ * Per-click edits of the electron tools: charges step by one, lone pairs cycle 0–4 and
+ * unpaired electrons cycle 0–2.
+ */
+const ELECTRON_TOOLS: Partial<Record<CanvasTool, (atom: Atom) => Atom>> = {
+  'charge-plus': atom => ({ ...atom, formalCharge: Math.min((atom.formalCharge || 0) + 1, MAX_CHARGE) }),
+  'charge-minus': atom => ({ ...atom, formalCharge: Math.max((atom.formalCharge || 0) - 1, -MAX_CHARGE) }),
+  'lone-pair': atom => ({ ...atom, lonePairs: ((atom.lonePairs || 0) + 1) % 5 }),
+  radical: atom => ({ ...atom, radicalElectrons: ((atom.radicalElectrons || 0) + 1) % 3 }),
+};
+
+// ELEMENTS colors target the 3D viewer, where hydrogen is white
+const HYDROGEN_LABEL_COLOR = '#64748b';
+
+const BOND_TOOLS: Partial<Record<CanvasTool, Bond['type']>> = {
+  bond: 'single',
+  double: 'double',
+  triple: 'triple',
+  wedge: 'wedge',
+  dash: 'dash',
+};
+
+const pointInPolygon = (p: Point, polygon: Point[]) => {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.y > p.y) !== (b.y > p.y) && p.x < ((b.x - a.x) * (p.y - a.y)) / (b.y - a.y) + a.x) inside = !inside;
+  }
+  return inside;
+};
+
+/**
+ * Atoms of `molecule` in `ids` together with the bonds between them.
+ */
+const subMolecule = (molecule: Molecule, ids: Set<string>): Molecule => ({
+  atoms: molecule.atoms.filter(a => ids.has(a.id)),
+  bonds: molecule.bonds.filter(b => ids.has(b.from) && ids.has(b.to)),
+});
 
 export const MoleculeCanvas = forwardRef<MoleculeCanvasHandle, MoleculeCanvasProps>(({ 
   onMoleculeChange, 
+  onEditStart,
+  onEditEnd,
   activeElement, 
   setActiveElement,
   activeTool,
   setActiveTool,
   molecule,
   onSelectAtom,
-  onFillHydrogens
+  onSelectBond,
+  onFillHydrogens,
+  onCollapseHydrogens,
+  onError,
+  issues = [],
+  stereoLabels = []
 }, ref) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [hoveredAtom, setHoveredAtom] = useState<string | null>(null);
@@ -44,6 +130,149 @@ export const MoleculeCanvas = forwardRef<MoleculeCanvasHandle, MoleculeCanvasPro
   const [isPanning, setIsPanning] = useState(false);
   const [panStart, setPanStart] = useState({ x: 0, y: 0 });
 
+  const [selection, setSelection] = useState<string[]>([]);
+  const [selectionDrag, setSelectionDrag] = useState<SelectionDrag | null>(null);
+  const pointerInside = useRef(false);
+
+  const hydrogenCounts = useMemo(() => implicitHydrogenMap(molecule), [molecule]);
+
+  // Errors win over warnings when an atom has both
+  const issueMarks = useMemo(() => {
+    const atoms = new Map<string, ValidationIssue['severity']>();
+    const bonds = new Map<string, ValidationIssue['severity']>();
+    [...issues].sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'error' ? 1 : -1)).forEach(issue => {
+      issue.atomIds.forEach(id => atoms.set(id, issue.severity));
+      issue.bondIds.forEach(id => bonds.set(id, issue.severity));
+    });
+    return { atoms, bonds };
+  }, [issues]);
+
+  // Ids can go stale after undo, erase or loading a new structure
+  const selected = useMemo(() => {
+    const present = new Set(molecule.atoms.map(a => a.id));
+    return new Set(selection.filter(id => present.has(id)));
+  }, [selection, molecule.atoms]);
+
+  const selectionBox = useMemo(() => {
+    const atoms = molecule.atoms.filter(a => selected.has(a.id));
+    if (atoms.length === 0) return null;
+    const xs = atoms.map(a => a.x);
+    const ys = atoms.map(a => a.y);
+    const box = {
+      minX: Math.min(...xs) - SELECTION_PADDING, maxX: Math.max(...xs) + SELECTION_PADDING,
+      minY: Math.min(...ys) - SELECTION_PADDING, maxY: Math.max(...ys) + SELECTION_PADDING,
+    };
+    return { ...box, handle: { x: (box.minX + box.maxX) / 2, y: box.minY - ROTATE_HANDLE_OFFSET / scale } };
+  }, [molecule.atoms, selected, scale]);
+
+  useEffect(() => {
+    if (activeTool !== 'select' && activeTool !== 'lasso') setSelection([]);
+  }, [activeTool]);
+
+  useEffect(() => {
+    if (selected.size !== 2) return;
+    const bond = molecule.bonds.find(b => selected.has(b.from) && selected.has(b.to));
+    if (bond) onSelectBond?.(bond.id);
+  }, [selected, molecule.bonds, onSelectBond]);
+
+  const selectionCenter = useCallback((): Point => {
+    const atoms = molecule.atoms.filter(a => selected.has(a.id));
+    return {
+      x: atoms.reduce((sum, a) => sum + a.x, 0) / atoms.length,
+      y: atoms.reduce((sum, a) => sum + a.y, 0) / atoms.length,
+    };
+  }, [molecule.atoms, selected]);
+
+  const deleteSelection = useCallback(() => {
+    if (selected.size === 0) return;
+    onMoleculeChange({
+      ...molecule,
+      atoms: molecule.atoms.filter(a => !selected.has(a.id)),
+      bonds: molecule.bonds.filter(b => !selected.has(b.from) && !selected.has(b.to)),
+    });
+    setSelection([]);
+  }, [molecule, selected, onMoleculeChange]);
+
+  const flipSelection = useCallback((axis: 'horizontal' | 'vertical') => {
+    if (selected.size === 0) return;
+    const c = selectionCenter();
+    onMoleculeChange({
+      ...molecule,
+      atoms: molecule.atoms.map(a => !selected.has(a.id) ? a : (axis === 'horizontal' ? { ...a, x: 2 * c.x - a.x } : { ...a, y: 2 * c.y - a.y })),
+    });
+  }, [molecule, selected, selectionCenter, onMoleculeChange]);
+
+  const copySelection = useCallback((format: ClipboardFormat, cut = false) => {
+    // Without a selection the whole drawing is copied
+    const fragment = selected.size > 0 ? subMolecule(molecule, selected) : molecule;
+    if (fragment.atoms.length === 0) return;
+    let text: string;
+    try {
+      text = format === 'smiles' ? writeSmiles(fragment) : writeMolfile(fragment, 'V2000');
+    } catch (err: any) {
+      onError?.(`Copy failed: ${err?.message || 'structure could not be written'}`);
+      return;
+    }
+    navigator.clipboard.writeText(text).then(() => {
+      if (cut) deleteSelection();
+    }).catch(() => onError?.("Clipboard access was denied by the browser."));
+  }, [molecule, selected, deleteSelection, onError]);
+
+  const pasteFromClipboard = useCallback(async () => {
+    let text: string;
+    try {
+      text = await navigator.clipboard.readText();
+    } catch {
+      onError?.("Clipboard access was denied by the browser.");
+      return;
+    }
+    if (!text.trim()) return;
+    let fragment: Molecule;
+    try {
+      fragment = /M {2}END|V[23]000/.test(text) ? parseMolfile(text).molecule : parseSmiles(text.trim());
+    } catch (err: any) {
+      onError?.(`Paste failed: ${err?.message || 'clipboard does not hold SMILES or a molfile'}`);
+      return;
+    }
+    if (fragment.atoms.length === 0) return;
+
+    // Drop the fragment under the pointer, or in the middle of the view
+    const canvas = canvasRef.current;
+    const target = pointerInside.current || !canvas
+      ? mousePos
+      : { x: (canvas.width / 2 - offset.x) / scale, y: (canvas.height / 2 - offset.y) / scale };
+    const cx = fragment.atoms.reduce((sum, a) => sum + a.x, 0) / fragment.atoms.length;
+    const cy = fragment.atoms.reduce((sum, a) => sum + a.y, 0) / fragment.atoms.length;
+    const placed = fragment.atoms.map(a => ({ ...a, x: a.x - cx + target.x, y: a.y - cy + target.y }));
+    onMoleculeChange({ ...molecule, atoms: [...molecule.atoms, ...placed], bonds: [...molecule.bonds, ...fragment.bonds] });
+    setSelection(placed.map(a => a.id));
+    if (activeTool !== 'select' && activeTool !== 'lasso') setActiveTool('select');
+  }, [molecule, mousePos, offset, scale, activeTool, setActiveTool, onMoleculeChange, onError]);
+
+  const selectAll = useCallback(() => {
+    if (activeTool !== 'select' && activeTool !== 'lasso') setActiveTool('select');
+    setSelection(molecule.atoms.map(a => a.id));
+  }, [molecule.atoms, activeTool, setActiveTool]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+      const key = e.key.toLowerCase();
+      if ((e.ctrlKey || e.metaKey) && !e.shiftKey && !e.altKey) {
+        if (key === 'c' && selected.size > 0) { e.preventDefault(); copySelection('smiles'); }
+        else if (key === 'x' && selected.size > 0) { e.preventDefault(); copySelection('smiles', true); }
+        else if (key === 'v') { e.preventDefault(); pasteFromClipboard(); }
+        else if (key === 'a' && pointerInside.current) { e.preventDefault(); selectAll(); }
+        return;
+      }
+      if ((key === 'delete' || key === 'backspace') && selected.size > 0) { e.preventDefault(); deleteSelection(); }
+      else if (key === 'escape') setSelection([]);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [selected, copySelection, pasteFromClipboard, selectAll, deleteSelection]);
+
   useImperativeHandle(ref, () => ({
     centerMolecule: () => {
       if (molecule.atoms.length === 0) return;
@@ -61,6 +290,10 @@ export const MoleculeCanvas = forwardRef<MoleculeCanvasHandle, MoleculeCanvasPro
     },
     zoomIn: () => setScale(prev => Math.min(prev * 1.2, 5)),
     zoomOut: () => setScale(prev => Math.max(prev / 1.2, 0.2)),
+    copySelection,
+    pasteFromClipboard,
+    deleteSelection,
+    selectAll,
   }));
 
   const getRelativePos = useCallback((e: React.MouseEvent | MouseEvent) => {
@@ -152,7 +385,7 @@ export const MoleculeCanvas = forwardRef<MoleculeCanvasHandle, MoleculeCanvasPro
     }
 
     // Ghost Preview
-    if (['bond', 'double', 'triple'].includes(activeTool) && dragStartAtom) {
+    if (BOND_TOOLS[activeTool] && dragStartAtom) {
       const from = molecule.atoms.find(a => a.id === dragStartAtom);
       if (from) {
         ctx.strokeStyle = 'rgba(59, 130, 246, 0.4)';
@@ -166,6 +399,46 @@ export const MoleculeCanvas = forwardRef<MoleculeCanvasHandle, MoleculeCanvasPro
       }
     }
 
+    // Validation highlights
+    const markColor = (severity: ValidationIssue['severity']) => (severity === 'error' ? 'rgba(239, 68, 68, 0.35)' : 'rgba(245, 158, 11, 0.35)');
+    ctx.lineCap = 'round';
+    ctx.lineWidth = 8 / scale;
+    molecule.bonds.forEach(bond => {
+      const severity = issueMarks.bonds.get(bond.id);
+      const from = molecule.atoms.find(a => a.id === bond.from);
+      const to = molecule.atoms.find(a => a.id === bond.to);
+      if (!severity || !from || !to) return;
+      ctx.strokeStyle = markColor(severity);
+      ctx.beginPath(); ctx.moveTo(from.x, from.y); ctx.lineTo(to.x, to.y); ctx.stroke();
+    });
+    ctx.lineCap = 'butt';
+    molecule.atoms.forEach(atom => {
+      const severity = issueMarks.atoms.get(atom.id);
+      if (!severity) return;
+      ctx.fillStyle = markColor(severity);
+      ctx.beginPath(); ctx.arc(atom.x, atom.y, 13 / scale, 0, Math.PI * 2); ctx.fill();
+    });
+
+    // Selection underlay
+    if (selected.size > 0) {
+      ctx.strokeStyle = 'rgba(59, 130, 246, 0.25)';
+      ctx.lineWidth = 10 / scale;
+      ctx.lineCap = 'round';
+      molecule.bonds.forEach(bond => {
+        if (!selected.has(bond.from) || !selected.has(bond.to)) return;
+        const from = molecule.atoms.find(a => a.id === bond.from);
+        const to = molecule.atoms.find(a => a.id === bond.to);
+        if (!from || !to) return;
+        ctx.beginPath(); ctx.moveTo(from.x, from.y); ctx.lineTo(to.x, to.y); ctx.stroke();
+      });
+      ctx.lineCap = 'butt';
+      ctx.fillStyle = 'rgba(59, 130, 246, 0.25)';
+      molecule.atoms.forEach(atom => {
+        if (!selected.has(atom.id)) return;
+        ctx.beginPath(); ctx.arc(atom.x, atom.y, 9 / scale, 0, Math.PI * 2); ctx.fill();
+      });
+    }
+
     // Bonds
     molecule.bonds.forEach(bond => {
       const from = molecule.atoms.find(a => a.id === bond.from);
@@ -191,13 +464,40 @@ export const MoleculeCanvas = forwardRef<MoleculeCanvasHandle, MoleculeCanvasPro
           ctx.beginPath(); ctx.moveTo(from.x, from.y); ctx.lineTo(to.x, to.y); ctx.stroke();
           ctx.beginPath(); ctx.moveTo(from.x + ox, from.y + oy); ctx.lineTo(to.x + ox, to.y + oy); ctx.stroke();
           ctx.beginPath(); ctx.moveTo(from.x - ox, from.y - oy); ctx.lineTo(to.x - ox, to.y - oy); ctx.stroke();
+        } else if (bond.type === 'wedge' || bond.type === 'dash') {
+          // Stereo bonds start narrow at `from` (the stereocenter) and widen toward `to`
+          const dx = to.x - from.x; const dy = to.y - from.y;
+          const len = Math.sqrt(dx * dx + dy * dy);
+          if (len === 0) return;
+          const nx = -dy / len; const ny = dx / len;
+          const half = WEDGE_WIDTH / 2;
+          ctx.fillStyle = ctx.strokeStyle;
+          if (bond.type === 'wedge') {
+            ctx.beginPath();
+            ctx.moveTo(from.x, from.y);
+            ctx.lineTo(to.x + nx * half, to.y + ny * half);
+            ctx.lineTo(to.x - nx * half, to.y - ny * half);
+            ctx.closePath();
+            ctx.fill();
+          } else {
+            const hashes = Math.max(4, Math.round(len / 6));
+            for (let i = 1; i <= hashes; i++) {
+              const t = i / hashes;
+              const px = from.x + dx * t; const py = from.y + dy * t;
+              const w = half * t;
+              ctx.beginPath(); ctx.moveTo(px + nx * w, py + ny * w); ctx.lineTo(px - nx * w, py - ny * w); ctx.stroke();
+            }
+          }
         }
       }
     });
 
     // Atoms (Skeletal Carbon logic)
     molecule.atoms.forEach(atom => {
-      const bondsCount = molecule.bonds.filter(b => b.from === atom.id || b.to === atom.id).length;
+      const neighbors = molecule.bonds
+        .map(b => (b.from === atom.id ? b.to : (b.to === atom.id ? b.from : null)))
+        .map(id => (id ? molecule.atoms.find(a => a.id === id) : undefined))
+        .filter((a): a is Atom => !!a);
       const isSelected = activeTool === 'select-central' && hoveredAtom === atom.id;
       
       if (isSelected || hoveredAtom === atom.id) {
@@ -207,24 +507,135 @@ export const MoleculeCanvas = forwardRef<MoleculeCanvasHandle, MoleculeCanvasPro
 
       // Hide Carbon ('C') if it is bonded to something (Skeletal)
       // Show Carbon ('C') ONLY if it is isolated (0 bonds)
-      if (atom.element === 'C' && bondsCount > 0) return;
-
-      // Labels (Textbook Style: No circle around letter)
-      ctx.fillStyle = 'white'; // White background for the letter only to break the bond lines
-      ctx.font = `bold ${14 / scale}px "Inter", sans-serif`;
-      const txt = atom.element;
-      const m = ctx.measureText(txt);
-      const w = m.width + (2 / scale);
-      const h = 10 / scale;
-      ctx.fillRect(atom.x - w / 2, atom.y - h / 2, w, h);
-
-      ctx.fillStyle = ELEMENTS[atom.element]?.color || '#000';
-      ctx.textAlign = 'center'; ctx.textBaseline = 'middle';
-      ctx.fillText(txt, atom.x, atom.y);
+      const labelled = !(atom.element === 'C' && neighbors.length > 0);
+      const color = atom.element === 'H' ? HYDROGEN_LABEL_COLOR : (ELEMENTS[atom.element]?.color || '#000');
+      let labelRight = atom.x + 4 / scale;
+      let hSide: number | null = null;
+
+      if (labelled) {
+        // Labels (Textbook Style: No circle around letter)
+        ctx.fillStyle = 'white'; // White background for the letter only to break the bond lines
+        ctx.font = `bold ${14 / scale}px "Inter", sans-serif`;
+        const txt = atom.element;
+        const m = ctx.measureText(txt);
+        const w = m.width + (2 / scale);
+        const h = 10 / scale;
+        ctx.fillRect(atom.x - w / 2, atom.y - h / 2, w, h);
+
+        ctx.fillStyle = color;
+        ctx.textAlign = 'center'; ctx.textBaseline = 'middle';
+        ctx.fillText(txt, atom.x, atom.y);
+        labelRight = atom.x + m.width / 2;
+
+        // Implicit hydrogens (OH, NH2, CH4), written on the side away from the bonds
+        const hCount = hydrogenCounts.get(atom.id) || 0;
+        if (hCount > 0) {
+          const pull = neighbors.reduce((sum, other) => sum + (other.x - atom.x), 0);
+          const hWidth = ctx.measureText('H').width;
+          const count = hCount > 1 ? String(hCount) : '';
+          ctx.font = `bold ${10 / scale}px "Inter", sans-serif`;
+          const countWidth = ctx.measureText(count).width;
+          const startX = pull > 0 ? atom.x - m.width / 2 - hWidth - countWidth : atom.x + m.width / 2;
+          ctx.fillStyle = 'white';
+          ctx.fillRect(startX, atom.y - h / 2, hWidth + countWidth + 1 / scale, h);
+          ctx.fillStyle = color;
+          ctx.textAlign = 'left';
+          ctx.font = `bold ${14 / scale}px "Inter", sans-serif`;
+          ctx.fillText('H', startX, atom.y);
+          ctx.font = `bold ${10 / scale}px "Inter", sans-serif`;
+          ctx.fillText(count, startX + hWidth, atom.y + 4 / scale);
+          hSide = pull > 0 ? Math.PI : 0;
+          if (pull <= 0) labelRight = startX + hWidth + countWidth;
+        }
+      }
+
+      // Formal charge as a superscript at the upper right
+      const charge = atom.formalCharge || 0;
+      if (charge !== 0) {
+        const text = `${Math.abs(charge) > 1 ? Math.abs(charge) : ''}${charge > 0 ? '+' : '−'}`;
+        ctx.font = `bold ${11 / scale}px "Inter", sans-serif`;
+        ctx.textAlign = 'left'; ctx.textBaseline = 'middle';
+        ctx.fillStyle = charge > 0 ? '#1d4ed8' : '#b91c1c';
+        ctx.fillText(text, labelRight + 1 / scale, atom.y - 8 / scale);
+      }
+
+      // Lone pairs and unpaired electrons go into the free space around the atom
+      const pairs = atom.lonePairs || 0;
+      const radicals = atom.radicalElectrons || 0;
+      if (pairs + radicals > 0) {
+        const taken = neighbors.map(other => Math.atan2(other.y - atom.y, other.x - atom.x));
+        if (hSide !== null) taken.push(hSide);
+        if (charge !== 0) taken.push(-Math.PI / 4);
+        const slots = freeDirections(taken, pairs + radicals);
+        const radius = (labelled ? 12 : 7) / scale;
+        const dot = 1.8 / scale;
+        ctx.fillStyle = '#0f172a';
+        slots.forEach((angle, i) => {
+          const cx = atom.x + Math.cos(angle) * radius;
+          const cy = atom.y + Math.sin(angle) * radius;
+          const spread = i < pairs ? [-3 / scale, 3 / scale] : [0];
+          spread.forEach(d => {
+            ctx.beginPath();
+            ctx.arc(cx - Math.sin(angle) * d, cy + Math.cos(angle) * d, dot, 0, Math.PI * 2);
+            ctx.fill();
+          });
+        });
+      }
     });
 
+    // Stereo descriptors: beside a bond, or at the midpoint of a ring pair or axis
+    ctx.font = `bold ${10 / scale}px "Inter", sans-serif`;
+    ctx.textAlign = 'center'; ctx.textBaseline = 'middle';
+    stereoLabels.forEach(label => {
+      if (label.descriptor === 'None') return;
+      const [a, b] = label.atomIds.map(id => molecule.atoms.find(atom => atom.id === id));
+      if (!a || !b) return;
+      const dx = b.x - a.x, dy = b.y - a.y;
+      const len = Math.hypot(dx, dy) || 1;
+      const push = label.kind === 'ring' ? 0 : 14 / scale;
+      const x = (a.x + b.x) / 2 + (dy / len) * push;
+      const y = (a.y + b.y) / 2 - (dx / len) * push;
+      const text = `(${label.descriptor})`;
+      const w = ctx.measureText(text).width + 4 / scale;
+      ctx.fillStyle = 'rgba(255, 255, 255, 0.85)';
+      ctx.fillRect(x - w / 2, y - 6 / scale, w, 12 / scale);
+      ctx.fillStyle = '#4f46e5';
+      ctx.fillText(text, x, y);
+    });
+
+    // Selection frame with its rotate handle
+    if (selectionBox && selectionDrag?.mode !== 'marquee') {
+      const { minX, maxX, minY, maxY, handle } = selectionBox;
+      ctx.strokeStyle = 'rgba(59, 130, 246, 0.6)';
+      ctx.lineWidth = 1 / scale;
+      ctx.setLineDash([4 / scale, 4 / scale]);
+      ctx.strokeRect(minX, minY, maxX - minX, maxY - minY);
+      ctx.setLineDash([]);
+      ctx.beginPath(); ctx.moveTo(handle.x, minY); ctx.lineTo(handle.x, handle.y); ctx.stroke();
+      ctx.fillStyle = 'white';
+      ctx.beginPath(); ctx.arc(handle.x, handle.y, 6 / scale, 0, Math.PI * 2); ctx.fill(); ctx.stroke();
+    }
+
+    // Marquee
+    if (selectionDrag?.mode === 'marquee' && selectionDrag.points.length > 1) {
+      ctx.strokeStyle = '#3b82f6';
+      ctx.fillStyle = 'rgba(59, 130, 246, 0.08)';
+      ctx.lineWidth = 1 / scale;
+      ctx.setLineDash([5 / scale, 3 / scale]);
+      ctx.beginPath();
+      if (activeTool === 'lasso') {
+        selectionDrag.points.forEach((p, i) => (i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y)));
+        ctx.closePath();
+      } else {
+        const [a, b] = selectionDrag.points;
+        ctx.rect(Math.min(a.x, b.x), Math.min(a.y, b.y), Math.abs(b.x - a.x), Math.abs(b.y - a.y));
+      }
+      ctx.fill(); ctx.stroke();
+      ctx.setLineDash([]);
+    }
+
     ctx.restore();
-  }, [molecule, hoveredAtom, hoveredBond, dragStartAtom, mousePos, activeTool, offset, scale]);
+  }, [molecule, hoveredAtom, hoveredBond, dragStartAtom, mousePos, activeTool, offset, scale, selected, selectionBox, selectionDrag, hydrogenCounts, issueMarks, stereoLabels]);
 
   useEffect(() => { draw(); }, [draw]);
 
@@ -235,6 +646,7 @@ export const MoleculeCanvas = forwardRef<MoleculeCanvasHandle, MoleculeCanvasPro
       setPanStart({ x: e.clientX, y: e.clientY });
       return;
     }
+    onEditStart?.();
 
     if (activeTool === 'benzene') {
       addBenzene(pos.x, pos.y);
@@ -245,6 +657,34 @@ export const MoleculeCanvas = forwardRef<MoleculeCanvasHandle, MoleculeCanvasPro
     const atom = getAtomAt(pos);
     const bond = getBondAt(pos);
 
+    if (activeTool === 'select' || activeTool === 'lasso') {
+      const base: Record<string, Point> = {};
+      const begin = (mode: SelectionDrag['mode'], ids: Set<string>, center: Point) => {
+        molecule.atoms.forEach(a => { if (ids.has(a.id)) base[a.id] = { x: a.x, y: a.y }; });
+        setSelectionDrag({ mode, start: pos, points: [pos], base, center, additive: e.shiftKey });
+      };
+      const handle = selectionBox?.handle;
+      if (handle && Math.hypot(pos.x - handle.x, pos.y - handle.y) < 10 / scale) {
+        begin('rotate', selected, selectionCenter());
+        return;
+      }
+      const hitIds = atom ? [atom.id] : (bond ? [bond.from, bond.to] : []);
+      if (hitIds.length > 0) {
+        // Grabbing an unselected atom or bond selects it first, so single atoms can be dragged too
+        const ids = hitIds.every(id => selected.has(id)) ? selected : new Set(e.shiftKey ? [...selected, ...hitIds] : hitIds);
+        setSelection([...ids]);
+        begin('move', ids, pos);
+        return;
+      }
+      const box = selectionBox;
+      if (box && !e.shiftKey && pos.x >= box.minX && pos.x <= box.maxX && pos.y >= box.minY && pos.y <= box.maxY) {
+        begin('move', selected, pos);
+        return;
+      }
+      begin('marquee', new Set(), pos);
+      return;
+    }
+
     if (activeTool === 'eraser') {
       if (atom) {
         onMoleculeChange({
@@ -262,10 +702,21 @@ export const MoleculeCanvas = forwardRef<MoleculeCanvasHandle, MoleculeCanvasPro
       return;
     }
 
-    if (['bond', 'double', 'triple'].includes(activeTool)) {
+    const electronEdit = ELECTRON_TOOLS[activeTool];
+    if (electronEdit) {
+      if (atom) onMoleculeChange({ ...molecule, atoms: molecule.atoms.map(a => (a.id === atom.id ? electronEdit(a) : a)) });
+      return;
+    }
+
+    const toolBondType = BOND_TOOLS[activeTool];
+    if (toolBondType) {
       if (bond) {
-        const typeMap: Record<string, Bond['type']> = { 'bond': 'single', 'double': 'double', 'triple': 'triple' };
-        onMoleculeChange({ ...molecule, bonds: molecule.bonds.map(b => b.id === bond.id ? { ...b, type: typeMap[activeTool] } : b) });
+        // Re-applying a stereo tool to the same stereo bond flips its narrow end
+        const flip = bond.type === toolBondType && (toolBondType === 'wedge' || toolBondType === 'dash');
+        onMoleculeChange({
+          ...molecule,
+          bonds: molecule.bonds.map(b => b.id !== bond.id ? b : (flip ? { ...b, from: b.to, to: b.from } : { ...b, type: toolBondType }))
+        });
       } else if (atom) {
         setDragStartAtom(atom.id);
       } else {
@@ -289,7 +740,34 @@ export const MoleculeCanvas = forwardRef<MoleculeCanvasHandle, MoleculeCanvasPro
       return;
     }
     const pos = getRelativePos(e);
+    pointerInside.current = true;
     setMousePos(pos);
+    if (selectionDrag) {
+      const { mode, start, base, center } = selectionDrag;
+      if (mode === 'marquee') {
+        const last = selectionDrag.points[selectionDrag.points.length - 1];
+        if (activeTool === 'lasso' && Math.hypot(pos.x - last.x, pos.y - last.y) > 3 / scale) {
+          setSelectionDrag({ ...selectionDrag, points: [...selectionDrag.points, pos] });
+        } else if (activeTool === 'select') {
+          setSelectionDrag({ ...selectionDrag, points: [start, pos] });
+        }
+        return;
+      }
+      let transform = (p: Point): Point => ({ x: p.x + pos.x - start.x, y: p.y + pos.y - start.y });
+      if (mode === 'rotate') {
+        let angle = Math.atan2(pos.y - center.y, pos.x - center.x) - Math.atan2(start.y - center.y, start.x - center.x);
+        // Shift snaps to 15° steps
+        if (e.shiftKey) angle = Math.round(angle / (Math.PI / 12)) * (Math.PI / 12);
+        const cos = Math.cos(angle);
+        const sin = Math.sin(angle);
+        transform = p => ({
+          x: center.x + (p.x - center.x) * cos - (p.y - center.y) * sin,
+          y: center.y + (p.x - center.x) * sin + (p.y - center.y) * cos,
+        });
+      }
+      onMoleculeChange({ ...molecule, atoms: molecule.atoms.map(a => (base[a.id] ? { ...a, ...transform(base[a.id]) } : a)) });
+      return;
+    }
     setHoveredAtom(getAtomAt(pos)?.id || null);
     setHoveredBond(getBondAt(pos)?.id || null);
   };
@@ -297,17 +775,35 @@ export const MoleculeCanvas = forwardRef<MoleculeCanvasHandle, MoleculeCanvasPro
   const handleMouseUp = (e: React.MouseEvent) => {
     if (isPanning) { setIsPanning(false); return; }
 
-    if (['bond', 'double', 'triple'].includes(activeTool) && dragStartAtom) {
+    if (selectionDrag) {
+      if (selectionDrag.mode === 'marquee') {
+        const { points, additive } = selectionDrag;
+        let inside: (p: Point) => boolean;
+        if (activeTool === 'lasso') {
+          inside = p => points.length > 2 && pointInPolygon(p, points);
+        } else {
+          const [a, b] = points.length > 1 ? points : [points[0], points[0]];
+          inside = p => p.x >= Math.min(a.x, b.x) && p.x <= Math.max(a.x, b.x) && p.y >= Math.min(a.y, b.y) && p.y <= Math.max(a.y, b.y);
+        }
+        const hits = molecule.atoms.filter(inside).map(a => a.id);
+        setSelection(additive ? [...new Set([...selected, ...hits])] : hits);
+      }
+      setSelectionDrag(null);
+      onEditEnd?.();
+      return;
+    }
+
+    const toolBondType = BOND_TOOLS[activeTool];
+    if (toolBondType && dragStartAtom) {
       const rawPos = getRelativePos(e);
       const startAtom = molecule.atoms.find(a => a.id === dragStartAtom);
-      if (!startAtom) return;
+      if (!startAtom) { setDragStartAtom(null); onEditEnd?.(); return; }
 
       const targetAtom = getAtomAt(rawPos);
       if (targetAtom && targetAtom.id !== dragStartAtom) {
         const exists = molecule.bonds.some(b => (b.from === dragStartAtom && b.to === targetAtom.id) || (b.to === dragStartAtom && b.from === targetAtom.id));
         if (!exists) {
-          const typeMap: Record<string, Bond['type']> = { 'bond': 'single', 'double': 'double', 'triple': 'triple' };
-          onMoleculeChange({ ...molecule, bonds: [...molecule.bonds, { id: `bond-${Date.now()}`, from: dragStartAtom, to: targetAtom.id, type: typeMap[activeTool] }] });
+          onMoleculeChange({ ...molecule, bonds: [...molecule.bonds, { id: `bond-${Date.now()}`, from: dragStartAtom, to: targetAtom.id, type: toolBondType }] });
         }
       } else if (!targetAtom) {
         const attached = molecule.bonds.filter(b => b.from === dragStartAtom || b.to === dragStartAtom).length;
@@ -327,27 +823,47 @@ export const MoleculeCanvas = forwardRef<MoleculeCanvasHandle, MoleculeCanvasPro
         };
 
         const newId = `atom-${Date.now()}`;
-        const typeMap: Record<string, Bond['type']> = { 'bond': 'single', 'double': 'double', 'triple': 'triple' };
         onMoleculeChange({
           atoms: [...molecule.atoms, { id: newId, element: activeElement, ...finalPos, formalCharge: 0, lonePairs: 0 }],
-          bonds: [...molecule.bonds, { id: `bond-${Date.now()}`, from: dragStartAtom, to: newId, type: typeMap[activeTool] }]
+          bonds: [...molecule.bonds, { id: `bond-${Date.now()}`, from: dragStartAtom, to: newId, type: toolBondType }]
         });
       }
     }
     setDragStartAtom(null);
+    onEditEnd?.();
+  };
+
+  const handleMouseLeave = () => {
+    pointerInside.current = false;
+    if (isPanning) setIsPanning(false);
+    setDragStartAtom(null);
+    setSelectionDrag(null);
+    onEditEnd?.();
   };
 
   return (
     <div className="relative w-full h-full flex overflow-hidden bg-white">
       {/* TOOLBAR LEFT */}
-      <div className="absolute left-4 top-4 bottom-4 w-12 bg-white/95 border border-slate-200 rounded-2xl z-20 flex flex-col items-center py-5 space-y-4 shadow-xl">
+      <div className="absolute left-4 top-4 bottom-4 w-12 bg-white/95 border border-slate-200 rounded-2xl z-20 flex flex-col items-center py-5 space-y-4 shadow-xl overflow-y-auto">
         <ToolButton active={activeTool === 'pan'} onClick={() => setActiveTool('pan')} icon={<svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path d="M7 11.5V14m0-2.5v-6a1.5 1.5 0 113 0m-3 6a1.5 1.5 0 00-3 0v2a7.5 7.5 0 0015 0v-5a1.5 1.5 0 00-3 0m-6-3V11m0-5.5v-1a1.5 1.5 0 013 0v1m0 0V11" strokeLinecap="round" strokeLinejoin="round" strokeWidth={2}/></svg>} label="Hand" />
+        <ToolButton active={activeTool === 'select'} onClick={() => setActiveTool('select')} icon={<svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><rect x="4" y="4" width="16" height="16" rx="1" strokeDasharray="3 3"/></svg>} label="Select" />
+        <ToolButton active={activeTool === 'lasso'} onClick={() => setActiveTool('lasso')} icon={<svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path d="M12 4c5 0 8 2.5 8 5.5S16.5 15 12 15s-8-2-8-5.5S7 4 12 4z" strokeDasharray="3 3"/><path d="M7 14c-1 2 0 4 2 5" strokeLinecap="round"/></svg>} label="Lasso" />
         <div className="w-8 h-px bg-slate-100"></div>
         <ToolButton active={activeTool === 'atom'} onClick={() => setActiveTool('atom')} icon={<Icons.Atom />} label="Atom" />
         <ToolButton active={activeTool === 'bond'} onClick={() => setActiveTool('bond')} icon={<div className="w-5 h-0.5 bg-current rounded-full"></div>} label="Single" />
         <ToolButton active={activeTool === 'double'} onClick={() => setActiveTool('double')} icon={<div className="flex flex-col space-y-1"><div className="w-5 h-0.5 bg-current rounded-full"></div><div className="w-5 h-0.5 bg-current rounded-full"></div></div>} label="Double" />
         <ToolButton active={activeTool === 'triple'} onClick={() => setActiveTool('triple')} icon={<div className="flex flex-col space-y-1"><div className="w-5 h-0.5 bg-current rounded-full"></div><div className="w-5 h-0.5 bg-current rounded-full"></div><div className="w-5 h-0.5 bg-current rounded-full"></div></div>} label="Triple" />
+        <ToolButton active={activeTool === 'wedge'} onClick={() => setActiveTool('wedge')} icon={<svg className="w-5 h-5" viewBox="0 0 24 24" fill="currentColor"><path d="M3 12l18-4v8z"/></svg>} label="Wedge" />
+        <ToolButton active={activeTool === 'dash'} onClick={() => setActiveTool('dash')} icon={<svg className="w-5 h-5" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><path d="M5 11v2M9 10v4M13 9v6M17 8v8M21 7v10"/></svg>} label="Dash" />
         <ToolButton active={activeTool === 'benzene'} onClick={() => setActiveTool('benzene')} icon={<svg className="w-5 h-5" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><path d="M12 2l8.66 5v10L12 22l-8.66-5V7L12 2z"/><path d="M12 6l5.2 3m0 6l-5.2 3m-5.2-3L12 6"/></svg>} label="Benzene" />
+        <div className="w-8 h-px bg-slate-100"></div>
+        <ToolButton active={activeTool === 'charge-plus'} onClick={() => setActiveTool('charge-plus')} icon={<span className="text-[13px] font-black leading-none">⊕</span>} label="Charge+" />
+        <ToolButton active={activeTool === 'charge-minus'} onClick={() => setActiveTool('charge-minus')} icon={<span className="text-[13px] font-black leading-none">⊖</span>} label="Charge−" />
+        <ToolButton active={activeTool === 'lone-pair'} onClick={() => setActiveTool('lone-pair')} icon={<span className="text-[13px] font-black leading-none tracking-tighter">··</span>} label="Pair" />
+        <ToolButton active={activeTool === 'radical'} onClick={() => setActiveTool('radical')} icon={<span className="text-[13px] font-black leading-none">·</span>} label="Radical" />
+        <div className="w-8 h-px bg-slate-100"></div>
+        <ToolButton active={false} onClick={onFillHydrogens} icon={<span className="text-[11px] font-black leading-none">+H</span>} label="Fill H" />
+        {onCollapseHydrogens && <ToolButton active={false} onClick={onCollapseHydrogens} icon={<span className="text-[11px] font-black leading-none">−H</span>} label="Hide H" />}
         <div className="flex-grow"></div>
         <ToolButton active={activeTool === 'eraser'} onClick={() => setActiveTool('eraser')} icon={<svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" strokeLinecap="round" strokeLinejoin="round" strokeWidth={2}/></svg>} label="Eraser" />
         <button 
@@ -359,6 +875,17 @@ export const MoleculeCanvas = forwardRef<MoleculeCanvasHandle, MoleculeCanvasPro
         </button>
       </div>
 
+      {/* SELECTION ACTIONS */}
+      {selected.size > 0 && !selectionDrag && (
+        <div className="absolute top-4 left-1/2 -translate-x-1/2 z-20 flex items-center space-x-1 bg-white/95 border border-slate-200 rounded-xl shadow-xl px-2 py-1.5 text-[9px] font-black uppercase tracking-wider text-slate-500">
+          <span className="px-2 text-blue-600">{selected.size} selected</span>
+          <button onClick={() => flipSelection('horizontal')} className="px-2 py-1 rounded-lg hover:bg-slate-100" title="Flip horizontally">Flip ↔</button>
+          <button onClick={() => flipSelection('vertical')} className="px-2 py-1 rounded-lg hover:bg-slate-100" title="Flip vertically">Flip ↕</button>
+          <button onClick={() => copySelection('smiles')} className="px-2 py-1 rounded-lg hover:bg-slate-100" title="Copy as SMILES (Ctrl+C)">Copy</button>
+          <button onClick={deleteSelection} className="px-2 py-1 rounded-lg text-red-500 hover:bg-red-50" title="Delete (Del)">Delete</button>
+        </div>
+      )}
+
       {/* ELEMENT SELECTOR RIGHT */}
       <div className="absolute right-4 top-4 w-12 bg-white/95 border border-slate-200 rounded-2xl z-20 flex flex-col items-center py-4 space-y-2 shadow-xl max-h-[80%] overflow-y-auto">
         {['C', 'H', 'O', 'N', 'F', 'Cl', 'Br', 'I', 'P', 'S'].map(el => (
@@ -379,7 +906,8 @@ export const MoleculeCanvas = forwardRef<MoleculeCanvasHandle, MoleculeCanvasPro
         onMouseDown={handleMouseDown}
         onMouseMove={handleMouseMove}
         onMouseUp={handleMouseUp}
-        className={`w-full h-full block bg-white ${activeTool === 'pan' ? (isPanning ? 'cursor-grabbing' : 'cursor-grab') : 'cursor-crosshair'}`}
+        onMouseLeave={handleMouseLeave}
+        className={`w-full h-full block bg-white ${activeTool === 'pan' ? (isPanning ? 'cursor-grabbing' : 'cursor-grab') : (activeTool === 'select' || activeTool === 'lasso' ? 'cursor-default' : 'cursor-crosshair')}`}
       />
     </div>
   );
@@ -1,23 +1,14 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { resolveMolecule, getSuggestions } from '../services/geminiService';
-import { resolveMoleculeFromPubChem } from '../services/pubchemService';
+import { analysisProvider } from '../services/providerService';
+import { isAbortError } from '../services/requestService';
+import { searchResultFromSmiles } from '../services/smilesService';
 import { SearchResult } from '../types';
 
 interface MoleculeSearchProps {
   onSearchResult: (result: SearchResult) => void;
 }
 
-/**
- * Defensive utility to ensure values are renderable as React children.
- */
-const safeRender = (val: any): string => {
-  if (val === null || val === undefined) return '';
-  if (typeof val === 'string') return val;
-  if (typeof val === 'object') return val.name || val.text || val.smiles || JSON.stringify(val);
-  return String(val);
-};
-
 export const MoleculeSearch: React.FC<MoleculeSearchProps> = ({ onSearchResult }) => {
   const [query, setQuery] = useState('');
   const [loading, setLoading] = useState(false);
@@ -25,6 +16,9 @@ export const MoleculeSearch: React.FC<MoleculeSearchProps> = ({ onSearchResult }
   const [showDropdown, setShowDropdown] = useState(false);
   const debounceTimer = useRef<number | null>(null);
   const dropdownRef = useRef<HTMLDivElement>(null);
+  // Suggestions for text the user has since changed are cancelled, as is a replaced search
+  const suggestRun = useRef<AbortController | null>(null);
+  const searchRun = useRef<AbortController | null>(null);
 
   useEffect(() => {
     if (debounceTimer.current) window.clearTimeout(debounceTimer.current);
@@ -34,43 +28,52 @@ export const MoleculeSearch: React.FC<MoleculeSearchProps> = ({ onSearchResult }
       return;
     }
 
+    const controller = new AbortController();
+    suggestRun.current = controller;
     debounceTimer.current = window.setTimeout(async () => {
       try {
-        const results = await getSuggestions(query);
+        const results = await analysisProvider.suggest(query, controller.signal);
         setSuggestions(results);
         if (results.length > 0) setShowDropdown(true);
       } catch (e) {
-        setSuggestions([]);
+        if (!isAbortError(e)) setSuggestions([]);
       }
     }, 700);
 
-    return () => { if (debounceTimer.current) window.clearTimeout(debounceTimer.current); };
+    return () => {
+      if (debounceTimer.current) window.clearTimeout(debounceTimer.current);
+      controller.abort();
+    };
   }, [query]);
 
   const handleSearch = async (val: string) => {
+    suggestRun.current?.abort();
     setShowDropdown(false);
     setSuggestions([]);
     
     setQuery(val);
     if (!val.trim()) return;
     
+    try {
+      // 0. Valid SMILES resolve locally, no network needed
+      onSearchResult(searchResultFromSmiles(val));
+      return;
+    } catch {
+      // Not SMILES; fall through to the provider chain
+    }
+
+    searchRun.current?.abort();
+    const controller = new AbortController();
+    searchRun.current = controller;
     setLoading(true);
     try {
-      // 1. Try Gemini
-      const result = await resolveMolecule(val);
-      onSearchResult(result);
+      onSearchResult(await analysisProvider.resolve(val, controller.signal));
     } catch (e) {
-      console.warn("AI Resolution failed, trying PubChem direct fallback...");
-      try {
-        // 2. Fallback to PubChem
-        const result = await resolveMoleculeFromPubChem(val);
-        onSearchResult(result);
-      } catch (pcError) {
-        console.error(pcError);
-        alert("Molecule not found in AI or PubChem databases. Try common names like 'Glucose' or Canonical SMILES.");
-      }
+      if (controller.signal.aborted) return;
+      console.error(e);
+      alert("Molecule not found by any analysis provider. Try common names like 'Glucose' or Canonical SMILES.");
     } finally {
-      setLoading(false);
+      if (searchRun.current === controller) setLoading(false);
     }
   };
 
@@ -136,7 +139,7 @@ export const MoleculeSearch: React.FC<MoleculeSearchProps> = ({ onSearchResult }
               className="w-full text-left px-5 py-4 text-sm hover:bg-blue-600 hover:text-white text-slate-700 font-semibold border-b border-slate-50 last:border-0 transition-all flex items-center group"
             >
               <svg className="w-3 h-3 mr-4 text-slate-300 group-hover:text-blue-200" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path d="M13 5l7 7-7 7" strokeLinecap="round" strokeLinejoin="round" strokeWidth={2}/></svg>
-              {safeRender(s)}
+              {s}
             </button>
           ))}
         </div>
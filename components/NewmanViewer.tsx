@@ -0,0 +1,208 @@
+import React, { useEffect, useState } from 'react';
+import { Molecule } from '../types';
+import { rotateBack, conformationName, profileEnergy, wrapDegrees, DIHEDRAL_LANDMARKS, BondProjection, NewmanSubstituent } from '../services/newmanService';
+import { runModelTask } from '../services/modelService';
+import { isAbortError } from '../services/requestService';
+
+interface NewmanViewerProps {
+  sdfData: string | undefined;
+  molecule: Molecule;
+  bondId: string;
+  onClose: () => void;
+}
+
+const SIZE = 150;
+const CENTER = SIZE / 2;
+const BACK_RADIUS = 22;
+const BOND_REACH = 48;
+const LABEL_REACH = 62;
+
+const FRONT_REFERENCE = '#2563eb';
+const BACK_REFERENCE = '#e11d48';
+
+/** Screen offset of a substituent at `angle` degrees clockwise from 12 o'clock. */
+const polar = (angle: number, reach: number) => {
+  const t = angle * Math.PI / 180;
+  return { x: Math.sin(t) * reach, y: -Math.cos(t) * reach };
+};
+
+const groupColor = (s: NewmanSubstituent, reference: string) => (s.reference ? reference : '#334155');
+
+const GroupLabel: React.FC<{ x: number; y: number; group: NewmanSubstituent; color: string }> = ({ x, y, group, color }) => (
+  <text x={x} y={y} textAnchor="middle" dominantBaseline="central" fontSize={10} fontWeight={group.reference ? 800 : 600} fill={color}>
+    {group.label}
+  </text>
+);
+
+const Newman: React.FC<{ front: NewmanSubstituent[]; back: NewmanSubstituent[] }> = ({ front, back }) => (
+  <svg viewBox={`0 0 ${SIZE} ${SIZE}`} className="w-full h-auto">
+    {back.map(s => {
+      const from = polar(s.angle, BACK_RADIUS), to = polar(s.angle, BOND_REACH), label = polar(s.angle, LABEL_REACH);
+      const color = groupColor(s, BACK_REFERENCE);
+      return (
+        <g key={s.atomId}>
+          <line x1={CENTER + from.x} y1={CENTER + from.y} x2={CENTER + to.x} y2={CENTER + to.y} stroke={color} strokeWidth={2} />
+          <GroupLabel x={CENTER + label.x} y={CENTER + label.y} group={s} color={color} />
+        </g>
+      );
+    })}
+    <circle cx={CENTER} cy={CENTER} r={BACK_RADIUS} fill="white" stroke="#334155" strokeWidth={2} />
+    {front.map(s => {
+      const to = polar(s.angle, BOND_REACH), label = polar(s.angle, LABEL_REACH);
+      const color = groupColor(s, FRONT_REFERENCE);
+      return (
+        <g key={s.atomId}>
+          <line x1={CENTER} y1={CENTER} x2={CENTER + to.x} y2={CENTER + to.y} stroke={color} strokeWidth={2} />
+          <GroupLabel x={CENTER + label.x} y={CENTER + label.y} group={s} color={color} />
+        </g>
+      );
+    })}
+    <circle cx={CENTER} cy={CENTER} r={2.5} fill="#334155" />
+  </svg>
+);
+
+const Sawhorse: React.FC<{ front: NewmanSubstituent[]; back: NewmanSubstituent[] }> = ({ front, back }) => {
+  // The bond recedes up and to the right; substituents keep their Newman directions
+  const f = { x: CENTER - 22, y: CENTER + 22 };
+  const b = { x: CENTER + 22, y: CENTER - 22 };
+  const arm = (origin: { x: number; y: number }, s: NewmanSubstituent, reference: string) => {
+    const to = polar(s.angle, 30), label = polar(s.angle, 40);
+    const color = groupColor(s, reference);
+    return (
+      <g key={s.atomId}>
+        <line x1={origin.x} y1={origin.y} x2={origin.x + to.x} y2={origin.y + to.y} stroke={color} strokeWidth={2} />
+        <GroupLabel x={origin.x + label.x} y={origin.y + label.y} group={s} color={color} />
+      </g>
+    );
+  };
+  return (
+    <svg viewBox={`0 0 ${SIZE} ${SIZE}`} className="w-full h-auto">
+      {back.map(s => arm(b, s, BACK_REFERENCE))}
+      <line x1={f.x} y1={f.y} x2={b.x} y2={b.y} stroke="#334155" strokeWidth={2.5} />
+      {front.map(s => arm(f, s, FRONT_REFERENCE))}
+    </svg>
+  );
+};
+
+const PLOT_WIDTH = 260;
+const PLOT_HEIGHT = 120;
+const PLOT_PAD = { left: 26, right: 8, top: 16, bottom: 18 };
+
+const EnergyPlot: React.FC<{ profile: Array<{ dihedral: number; energy: number }>; dihedral: number }> = ({ profile, dihedral }) => {
+  const top = Math.max(1, ...profile.map(p => p.energy));
+  const sx = (phi: number) => PLOT_PAD.left + (phi + 180) / 360 * (PLOT_WIDTH - PLOT_PAD.left - PLOT_PAD.right);
+  const sy = (e: number) => PLOT_HEIGHT - PLOT_PAD.bottom - e / top * (PLOT_HEIGHT - PLOT_PAD.top - PLOT_PAD.bottom);
+  const path = profile.map((p, k) => `${k === 0 ? 'M' : 'L'}${sx(p.dihedral).toFixed(1)},${sy(p.energy).toFixed(1)}`).join(' ');
+  const current = profileEnergy(profile, dihedral) ?? 0;
+  const phi = wrapDegrees(dihedral);
+
+  return (
+    <svg viewBox={`0 0 ${PLOT_WIDTH} ${PLOT_HEIGHT}`} className="w-full h-auto">
+      {DIHEDRAL_LANDMARKS.map(l => (
+        <g key={l.angle}>
+          <line x1={sx(l.angle)} y1={PLOT_PAD.top} x2={sx(l.angle)} y2={PLOT_HEIGHT - PLOT_PAD.bottom} stroke="#e2e8f0" strokeDasharray="2 2" />
+          <text x={sx(l.angle)} y={PLOT_PAD.top - 5} textAnchor="middle" fontSize={7} fill="#94a3b8">{l.label}</text>
+          <text x={sx(l.angle)} y={PLOT_HEIGHT - 6} textAnchor="middle" fontSize={7} fill="#94a3b8">{l.angle}°</text>
+        </g>
+      ))}
+      <line x1={PLOT_PAD.left} y1={PLOT_HEIGHT - PLOT_PAD.bottom} x2={PLOT_WIDTH - PLOT_PAD.right} y2={PLOT_HEIGHT - PLOT_PAD.bottom} stroke="#cbd5e1" />
+      <line x1={PLOT_PAD.left} y1={PLOT_PAD.top} x2={PLOT_PAD.left} y2={PLOT_HEIGHT - PLOT_PAD.bottom} stroke="#cbd5e1" />
+      <text x={PLOT_PAD.left - 3} y={sy(top)} textAnchor="end" dominantBaseline="central" fontSize={7} fill="#94a3b8">{top.toFixed(1)}</text>
+      <text x={PLOT_PAD.left - 3} y={sy(0)} textAnchor="end" dominantBaseline="central" fontSize={7} fill="#94a3b8">0</text>
+      <path d={path} fill="none" stroke="#4f46e5" strokeWidth={1.5} />
+      <circle cx={sx(phi)} cy={sy(current)} r={3.5} fill={BACK_REFERENCE} stroke="white" strokeWidth={1} />
+    </svg>
+  );
+};
+
+/**
+ * Newman and sawhorse projections of one bond of the current 3D model, with a slider that
+ * turns the back atom and the force-field energy profile of that rotation.
+ */
+export const NewmanViewer: React.FC<NewmanViewerProps> = ({ sdfData, molecule, bondId, onClose }) => {
+  // The torsion scan behind the energy profile takes a while on long chains, so it runs in the worker
+  const [result, setResult] = useState<{ projection?: BondProjection; error?: string }>({});
+  useEffect(() => {
+    if (!sdfData) {
+      setResult({ error: "Generate a 3D model to project the selected bond." });
+      return;
+    }
+    const controller = new AbortController();
+    setResult({});
+    runModelTask('projection', [sdfData, molecule, bondId], controller.signal)
+      .then(projection => setResult({ projection }))
+      .catch((err: any) => {
+        if (!isAbortError(err)) setResult({ error: err?.message || "This bond cannot be projected." });
+      });
+    return () => controller.abort();
+  }, [sdfData, molecule, bondId]);
+  const projection = result.projection;
+
+  const [dihedral, setDihedral] = useState(0);
+  useEffect(() => { if (projection) setDihedral(Math.round(projection.dihedral)); }, [projection]);
+
+  const back = projection ? rotateBack(projection, dihedral) : [];
+  const energy = projection ? profileEnergy(projection.profile, dihedral) : null;
+
+  return (
+    <div className="h-full flex flex-col bg-white overflow-y-auto">
+      <div className="flex justify-between items-center px-4 py-3 border-b border-slate-100">
+        <span className="text-[10px] font-black uppercase text-slate-500 tracking-widest">
+          Bond Projection{projection ? ` · ${projection.frontElement}–${projection.backElement}` : ''}
+        </span>
+        <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-700 rounded-md text-xs" title="Close projection">✕</button>
+      </div>
+
+      {!projection ? (
+        <p className="p-4 text-[11px] text-slate-400 italic">{result.error || "Scanning the rotation profile…"}</p>
+      ) : (
+        <div className="p-4 space-y-4">
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <p className="text-[9px] font-black uppercase text-slate-400 tracking-tighter text-center">Newman</p>
+              <Newman front={projection.front} back={back} />
+            </div>
+            <div>
+              <p className="text-[9px] font-black uppercase text-slate-400 tracking-tighter text-center">Sawhorse</p>
+              <Sawhorse front={projection.front} back={back} />
+            </div>
+          </div>
+
+          <div className="flex justify-between items-baseline">
+            <span className="text-xs font-bold text-slate-800">{conformationName(projection.front, back, dihedral)}</span>
+            <span className="text-[10px] font-mono text-slate-500">
+              φ {wrapDegrees(dihedral).toFixed(0)}°{energy !== null ? ` · ΔE ${energy.toFixed(2)} kcal/mol` : ''}
+            </span>
+          </div>
+
+          {projection.profile.length > 0 ? (
+            <>
+              <input
+                type="range"
+                min={-180}
+                max={180}
+                step={1}
+                value={wrapDegrees(dihedral)}
+                onChange={e => setDihedral(Number(e.target.value))}
+                className="w-full accent-rose-600"
+                aria-label="Dihedral angle of the back atom"
+              />
+              <div>
+                <p className="text-[9px] font-black uppercase text-slate-400 tracking-tighter">Energy vs dihedral (kcal/mol)</p>
+                <EnergyPlot profile={projection.profile} dihedral={dihedral} />
+              </div>
+            </>
+          ) : (
+            <p className="text-[10px] text-slate-400 italic">Ring bond: it cannot rotate without breaking the ring.</p>
+          )}
+
+          <p className="text-[10px] text-slate-400 leading-relaxed">
+            Viewed along the bond from the front atom. Dihedral measured between the
+            <span style={{ color: FRONT_REFERENCE }} className="font-bold"> front </span>and
+            <span style={{ color: BACK_REFERENCE }} className="font-bold"> back </span>reference groups.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,203 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { FischerProjection, HaworthProjection } from '../services/projectionService';
+
+interface ProjectionViewerProps {
+  fischer: FischerProjection | null;
+  haworth: HaworthProjection[];
+  /** Used for the exported file name. */
+  name: string;
+}
+
+type ProjectionMode = 'fischer' | 'haworth';
+
+const FONT = 'Inter, Arial, sans-serif';
+const INK = '#1e293b';
+const REFERENCE_COLOR = '#e11d48';
+const ANOMERIC_COLOR = '#4f46e5';
+const UNSPECIFIED_COLOR = '#d97706';
+
+const FISCHER_WIDTH = 240;
+const ROW_HEIGHT = 46;
+const ROW_MARGIN = 30;
+const ARM = 34;
+
+const Fischer: React.FC<{ projection: FischerProjection }> = ({ projection }) => {
+  const { rows, referenceRow } = projection;
+  const height = ROW_MARGIN * 2 + (rows.length - 1) * ROW_HEIGHT;
+  const cx = FISCHER_WIDTH / 2;
+  const y = (k: number) => ROW_MARGIN + k * ROW_HEIGHT;
+  // Vertical bonds stop short of condensed labels and run into the crossing points
+  const gap = (k: number) => (rows[k].label ? 10 : 0);
+
+  return (
+    <svg xmlns="http://www.w3.org/2000/svg" viewBox={`0 0 ${FISCHER_WIDTH} ${height}`} width={FISCHER_WIDTH} height={height} fontFamily={FONT} className="w-full h-auto max-w-xs mx-auto">
+      <rect width={FISCHER_WIDTH} height={height} fill="white" />
+      {rows.slice(1).map((_, k) => (
+        <line key={k} x1={cx} y1={y(k) + gap(k)} x2={cx} y2={y(k + 1) - gap(k + 1)} stroke={INK} strokeWidth={1.8} />
+      ))}
+      {rows.map((row, k) => {
+        const color = row.specified ? INK : UNSPECIFIED_COLOR;
+        const reference = k === referenceRow;
+        return (
+          <g key={row.atomId}>
+            <text x={14} y={y(k)} dominantBaseline="central" fontSize={9} fill="#94a3b8">{row.locant}</text>
+            {row.label ? (
+              <text x={cx} y={y(k)} textAnchor="middle" dominantBaseline="central" fontSize={13} fontWeight={700} fill={INK}>{row.label}</text>
+            ) : (
+              <>
+                <line x1={cx - ARM} y1={y(k)} x2={cx + ARM} y2={y(k)} stroke={color} strokeWidth={1.8} />
+                <text x={cx - ARM - 4} y={y(k)} textAnchor="end" dominantBaseline="central" fontSize={13} fontWeight={700} fill={reference && projection.family === 'L' ? REFERENCE_COLOR : color}>{row.left}</text>
+                <text x={cx + ARM + 4} y={y(k)} dominantBaseline="central" fontSize={13} fontWeight={700} fill={reference && projection.family === 'D' ? REFERENCE_COLOR : color}>{row.right}</text>
+              </>
+            )}
+            {row.configuration && (
+              <text x={FISCHER_WIDTH - 10} y={y(k)} textAnchor="end" dominantBaseline="central" fontSize={9} fontWeight={700} fill="#94a3b8">
+                ({row.configuration}){row.specified ? '' : '?'}
+              </text>
+            )}
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
+const HAWORTH_WIDTH = 300;
+const HAWORTH_HEIGHT = 210;
+const SUBSTITUENT = 30;
+
+/** Ring outlines with the ring oxygen at the back right (pyranose) or back centre (furanose). */
+const HAWORTH_LAYOUT: Record<HaworthProjection['kind'], Array<[number, number]>> = {
+  pyranose: [[190, 82], [235, 108], [190, 134], [110, 134], [65, 108], [110, 82]],
+  furanose: [[150, 78], [220, 104], [190, 136], [110, 136], [80, 104]],
+};
+
+const Haworth: React.FC<{ projection: HaworthProjection }> = ({ projection }) => {
+  const points = HAWORTH_LAYOUT[projection.kind];
+  const n = points.length;
+
+  return (
+    <svg xmlns="http://www.w3.org/2000/svg" viewBox={`0 0 ${HAWORTH_WIDTH} ${HAWORTH_HEIGHT}`} width={HAWORTH_WIDTH} height={HAWORTH_HEIGHT} fontFamily={FONT} className="w-full h-auto max-w-sm mx-auto">
+      <rect width={HAWORTH_WIDTH} height={HAWORTH_HEIGHT} fill="white" />
+      {points.map(([x, y], p) => {
+        const [x2, y2] = points[(p + 1) % n];
+        // The three edges between C1 and the carbon opposite the oxygen face the viewer
+        const front = p >= 1 && p <= 3;
+        return <line key={p} x1={x} y1={y} x2={x2} y2={y2} stroke={INK} strokeWidth={front ? 5 : 1.8} strokeLinecap="round" />;
+      })}
+      {projection.positions.map((pos, p) => {
+        const [x, y] = points[p];
+        if (pos.element === 'O') {
+          return (
+            <g key={pos.atomId}>
+              <circle cx={x} cy={y} r={8} fill="white" />
+              <text x={x} y={y} textAnchor="middle" dominantBaseline="central" fontSize={13} fontWeight={800} fill={INK}>O</text>
+            </g>
+          );
+        }
+        const color = pos.specified ? INK : UNSPECIFIED_COLOR;
+        const anomeric = p === 1;
+        const labelColor = (label: string | null) => (anomeric && label !== 'H' && label !== null ? ANOMERIC_COLOR : color);
+        return (
+          <g key={pos.atomId}>
+            <line x1={x} y1={y} x2={x} y2={y - SUBSTITUENT} stroke={color} strokeWidth={1.5} />
+            <line x1={x} y1={y} x2={x} y2={y + SUBSTITUENT} stroke={color} strokeWidth={1.5} />
+            <text x={x} y={y - SUBSTITUENT - 7} textAnchor="middle" fontSize={12} fontWeight={700} fill={labelColor(pos.up)}>{pos.up}</text>
+            <text x={x} y={y + SUBSTITUENT + 15} textAnchor="middle" fontSize={12} fontWeight={700} fill={labelColor(pos.down)}>{pos.down}</text>
+            <text x={x + (x > HAWORTH_WIDTH / 2 ? 5 : -5)} y={y + (p === 1 || p === n - 1 ? -5 : 12)} textAnchor={x > HAWORTH_WIDTH / 2 ? 'start' : 'end'} fontSize={8} fill="#94a3b8">
+              {pos.locant.slice(1)}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
+/**
+ * Fischer projection of the main open chain and Haworth projections of furanose and
+ * pyranose rings, with the D/L series, the α/β anomer and SVG export.
+ */
+export const ProjectionViewer: React.FC<ProjectionViewerProps> = ({ fischer, haworth, name }) => {
+  const [mode, setMode] = useState<ProjectionMode>(fischer ? 'fischer' : 'haworth');
+  const [ringIndex, setRingIndex] = useState(0);
+  const drawing = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (mode === 'fischer' && !fischer && haworth.length > 0) setMode('haworth');
+    if (mode === 'haworth' && haworth.length === 0 && fischer) setMode('fischer');
+  }, [mode, fischer, haworth]);
+
+  const ring = haworth[Math.min(ringIndex, haworth.length - 1)];
+  const shown = mode === 'fischer' ? fischer : ring;
+  if (!shown) return null;
+
+  const exportSvg = () => {
+    const svg = drawing.current?.querySelector('svg');
+    if (!svg) return;
+    const blob = new Blob([new XMLSerializer().serializeToString(svg)], { type: 'image/svg+xml' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${name.replace(/[^\w.-]+/g, '_') || 'structure'}-${mode}.svg`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const verdict = mode === 'fischer'
+    ? (fischer!.family ? `${fischer!.family} series` : 'D/L not assigned')
+    : [ring.anomer && ring.family ? `${ring.anomer}-${ring.family}` : (ring.family ? `${ring.family} series` : 'D/L not assigned'), ring.kind].join(' · ');
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex space-x-1">
+          {(['fischer', 'haworth'] as const).map(m => (
+            <button
+              key={m}
+              onClick={() => setMode(m)}
+              disabled={m === 'fischer' ? !fischer : haworth.length === 0}
+              className={`px-3 py-1 text-[10px] font-black uppercase rounded-lg disabled:opacity-40 disabled:cursor-not-allowed ${m === mode ? 'bg-blue-600 text-white' : 'bg-slate-100 text-slate-500 hover:bg-slate-200'}`}
+            >
+              {m === 'fischer' ? 'Fischer' : 'Haworth'}
+            </button>
+          ))}
+          {mode === 'haworth' && haworth.length > 1 && haworth.map((_, k) => (
+            <button
+              key={k}
+              onClick={() => setRingIndex(k)}
+              className={`px-3 py-1 text-[10px] font-black uppercase rounded-lg ${k === ringIndex ? 'bg-slate-700 text-white' : 'bg-slate-100 text-slate-500 hover:bg-slate-200'}`}
+            >
+              Ring {k + 1}
+            </button>
+          ))}
+        </div>
+        <button
+          onClick={exportSvg}
+          className="px-4 py-1.5 bg-indigo-50 text-[10px] font-black text-indigo-600 rounded-lg uppercase hover:bg-indigo-600 hover:text-white transition-all"
+        >
+          Export SVG
+        </button>
+      </div>
+
+      <div ref={drawing}>
+        {mode === 'fischer' ? <Fischer projection={fischer!} /> : <Haworth projection={ring} />}
+      </div>
+
+      <div className="p-4 rounded-xl border bg-slate-50 border-slate-100">
+        <p className="text-xs font-bold text-slate-800">{verdict}</p>
+        <p className="text-[10px] text-slate-500 mt-1">
+          {mode === 'fischer'
+            ? 'Vertical bonds point away from the viewer, horizontal bonds towards; the most oxidized carbon is on top.'
+            : 'Ring seen edge-on with the ring oxygen at the back; in the D series the α anomer carries its anomeric group below the ring.'}
+        </p>
+      </div>
+
+      {shown.notes.length > 0 && (
+        <ul className="space-y-1">
+          {shown.notes.map(note => <li key={note} className="text-[10px] text-slate-500">• {note}</li>)}
+        </ul>
+      )}
+    </div>
+  );
+};
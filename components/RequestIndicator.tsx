@@ -0,0 +1,46 @@
+import React, { useEffect, useState } from 'react';
+import { RequestStats, RequestService, requestStats, subscribeRequests } from '../services/requestService';
+
+const SERVICE_LABELS: Record<RequestService, string> = {
+  gemini: 'Gemini',
+  pubchem: 'PubChem',
+};
+
+/**
+ * Footer readout of the shared request limiter: requests waiting for a token, requests on
+ * the wire, and the tokens each service has left.
+ */
+export const RequestIndicator: React.FC = () => {
+  const [stats, setStats] = useState<RequestStats>(requestStats);
+
+  useEffect(() => {
+    const update = () => setStats(requestStats());
+    const unsubscribe = subscribeRequests(update);
+    // Tokens refill with time, not only when requests change
+    const timer = window.setInterval(update, 1000);
+    return () => {
+      unsubscribe();
+      window.clearInterval(timer);
+    };
+  }, []);
+
+  return (
+    <div className="flex items-center space-x-6">
+      <span className={stats.queued > 0 ? 'text-amber-400' : 'text-slate-500'} title="Waiting for rate-limit tokens">
+        {stats.queued} queued
+      </span>
+      <span className={`flex items-center ${stats.inFlight > 0 ? 'text-blue-400' : 'text-slate-500'}`} title="Requests in flight">
+        {stats.inFlight > 0 && <span className="w-1.5 h-1.5 rounded-full bg-blue-400 animate-pulse mr-1.5"></span>}
+        {stats.inFlight} active
+      </span>
+      {(Object.keys(SERVICE_LABELS) as RequestService[]).map(service => {
+        const { remaining, capacity } = stats.quota[service];
+        return (
+          <span key={service} className={remaining === 0 ? 'text-red-400' : 'text-slate-400'} title={`${SERVICE_LABELS[service]} requests available before throttling`}>
+            {SERVICE_LABELS[service]} {remaining}/{capacity}
+          </span>
+        );
+      })}
+    </div>
+  );
+};
@@ -1,13 +1,21 @@
 
 import React, { useEffect, useRef, useState, useCallback } from 'react';
+import { SymmetryInfo } from '../types';
 
 interface Visualizer3DProps {
   sdfData: string | undefined;
+  /** Point-group data of `sdfData`; enables the symmetry overlay. */
+  symmetry?: SymmetryInfo | null;
 }
 
-export const Visualizer3D: React.FC<Visualizer3DProps> = ({ sdfData }) => {
+const CLASS_COLORS = ['#e11d48', '#2563eb', '#16a34a', '#d97706', '#7c3aed', '#0891b2', '#db2777', '#65a30d', '#ea580c', '#4f46e5'];
+const PLAIN_COLOR = '#cbd5e1';
+const PLANE_COLOR = '#6366f1';
+
+export const Visualizer3D: React.FC<Visualizer3DProps> = ({ sdfData, symmetry }) => {
   const viewerRef = useRef<HTMLDivElement>(null);
   const [viewStyle, setViewStyle] = useState<'ball' | 'sphere' | 'stick'>('ball');
+  const [showSymmetry, setShowSymmetry] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const glViewer = useRef<any>(null);
   const [isReady, setIsReady] = useState(false);
@@ -63,6 +71,33 @@ export const Visualizer3D: React.FC<Visualizer3DProps> = ({ sdfData }) => {
       };
       
       viewer.setStyle({}, styleMap[viewStyle]);
+      if (showSymmetry && symmetry) {
+        // Equivalent atoms share a color; atoms without a partner are greyed out
+        const tinted = (color: string) => Object.fromEntries(Object.entries(styleMap[viewStyle]).map(([k, v]) => [k, { ...(v as object), color }]));
+        viewer.setStyle({}, tinted(PLAIN_COLOR));
+        symmetry.equivalentAtoms.forEach((group, k) => viewer.setStyle({ index: group }, tinted(CLASS_COLORS[k % CLASS_COLORS.length])));
+
+        const [cx, cy, cz] = symmetry.center;
+        const half = symmetry.radius + 0.8;
+        symmetry.mirrorPlanes.forEach(normal => {
+          // Two in-plane directions perpendicular to the normal span the square
+          const seed = Math.abs(normal[0]) < 0.9 ? [1, 0, 0] : [0, 1, 0];
+          const u = [normal[1] * seed[2] - normal[2] * seed[1], normal[2] * seed[0] - normal[0] * seed[2], normal[0] * seed[1] - normal[1] * seed[0]];
+          const length = Math.hypot(u[0], u[1], u[2]);
+          const e1 = u.map(c => c / length);
+          const e2 = [normal[1] * e1[2] - normal[2] * e1[1], normal[2] * e1[0] - normal[0] * e1[2], normal[0] * e1[1] - normal[1] * e1[0]];
+          const corner = (a: number, b: number) => ({ x: cx + half * (a * e1[0] + b * e2[0]), y: cy + half * (a * e1[1] + b * e2[1]), z: cz + half * (a * e1[2] + b * e2[2]) });
+          const n = { x: normal[0], y: normal[1], z: normal[2] };
+          viewer.addCustom({
+            vertexArr: [corner(-1, -1), corner(1, -1), corner(1, 1), corner(-1, 1)],
+            normalArr: [n, n, n, n],
+            // Both windings so the plane shows from either side
+            faceArr: [0, 1, 2, 0, 2, 3, 0, 2, 1, 0, 3, 2],
+            color: PLANE_COLOR,
+            opacity: 0.18,
+          });
+        });
+      }
       viewer.zoomTo();
       viewer.render();
       
@@ -77,7 +112,7 @@ export const Visualizer3D: React.FC<Visualizer3DProps> = ({ sdfData }) => {
       console.error("3D Render Exception:", err);
       setError("Model parsing error.");
     }
-  }, [sdfData, viewStyle]);
+  }, [sdfData, viewStyle, showSymmetry, symmetry]);
 
   useEffect(() => {
     if (isReady && sdfData) {
@@ -117,6 +152,11 @@ export const Visualizer3D: React.FC<Visualizer3DProps> = ({ sdfData }) => {
         </div>
       )}
       <div ref={viewerRef} className="flex-grow w-full h-full" />
+      {showSymmetry && symmetry && (
+        <div className="absolute top-4 left-4 bg-white/90 backdrop-blur-md px-3 py-1.5 rounded-xl border border-slate-200 text-[10px] font-black uppercase tracking-widest text-indigo-600 z-10">
+          {symmetry.pointGroup} · {symmetry.pointGroup.includes('∞') ? '∞ mirror planes' : `${symmetry.mirrorPlanes.length} mirror plane${symmetry.mirrorPlanes.length === 1 ? '' : 's'}`}
+        </div>
+      )}
       <div className="absolute bottom-6 left-1/2 -translate-x-1/2 flex items-center bg-white/90 backdrop-blur-xl p-1 rounded-2xl border border-slate-200 shadow-2xl space-x-1 z-10 transition-opacity opacity-40 group-hover:opacity-100">
         {(['ball', 'sphere', 'stick'] as const).map(s => (
           <button 
@@ -127,6 +167,15 @@ export const Visualizer3D: React.FC<Visualizer3DProps> = ({ sdfData }) => {
             {s}
           </button>
         ))}
+        {symmetry && (
+          <button
+            onClick={() => setShowSymmetry(!showSymmetry)}
+            className={`px-4 py-2 text-[10px] rounded-xl font-black uppercase transition-all ${showSymmetry ? 'bg-indigo-600 text-white shadow-lg' : 'text-slate-500 hover:bg-slate-100'}`}
+            title="Color symmetry-equivalent atoms and show mirror planes"
+          >
+            sym
+          </button>
+        )}
         <div className="w-px h-4 bg-slate-200 mx-1"></div>
         <button 
           onClick={() => { if (glViewer.current) { glViewer.current.zoomTo(); glViewer.current.render(); } }}
@@ -1,17 +1,18 @@
 
 import React from 'react';
 
-export const ELEMENTS: Record<string, { color: string; valency: number; mass: number }> = {
-  C: { color: '#444444', valency: 4, mass: 12.01 },
-  H: { color: '#FFFFFF', valency: 1, mass: 1.008 },
-  O: { color: '#FF0000', valency: 2, mass: 16.00 },
-  N: { color: '#0000FF', valency: 3, mass: 14.01 },
-  Cl: { color: '#00FF00', valency: 1, mass: 35.45 },
-  F: { color: '#90EE90', valency: 1, mass: 19.00 },
-  Br: { color: '#A52A2A', valency: 1, mass: 79.90 },
-  I: { color: '#9400D3', valency: 1, mass: 126.90 },
-  P: { color: '#FFA500', valency: 3, mass: 30.97 },
-  S: { color: '#FFFF00', valency: 2, mass: 32.06 },
+// mass: standard atomic weight; exactMass: most abundant isotope
+export const ELEMENTS: Record<string, { color: string; valency: number; mass: number; exactMass: number; atomicNumber: number }> = {
+  C: { color: '#444444', valency: 4, mass: 12.011, exactMass: 12.0, atomicNumber: 6 },
+  H: { color: '#FFFFFF', valency: 1, mass: 1.008, exactMass: 1.0078250319, atomicNumber: 1 },
+  O: { color: '#FF0000', valency: 2, mass: 15.999, exactMass: 15.9949146221, atomicNumber: 8 },
+  N: { color: '#0000FF', valency: 3, mass: 14.007, exactMass: 14.0030740052, atomicNumber: 7 },
+  Cl: { color: '#00FF00', valency: 1, mass: 35.45, exactMass: 34.96885271, atomicNumber: 17 },
+  F: { color: '#90EE90', valency: 1, mass: 18.998, exactMass: 18.99840320, atomicNumber: 9 },
+  Br: { color: '#A52A2A', valency: 1, mass: 79.904, exactMass: 78.9183376, atomicNumber: 35 },
+  I: { color: '#9400D3', valency: 1, mass: 126.904, exactMass: 126.904468, atomicNumber: 53 },
+  P: { color: '#FFA500', valency: 3, mass: 30.974, exactMass: 30.97376151, atomicNumber: 15 },
+  S: { color: '#FFFF00', valency: 2, mass: 32.06, exactMass: 31.97207069, atomicNumber: 16 },
 };
 
 export const Icons = {
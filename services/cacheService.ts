@@ -0,0 +1,264 @@
+import { Molecule, AnalysisResult } from "../types";
+import { canonicalRanks, writeSmiles } from "./smilesService";
+import { isRecord } from "./schemaService";
+
+/** Bumped whenever the shape of cached values changes; older entries are never read. */
+const CACHE_VERSION = 1;
+const DB_NAME = 'stereochem-cache';
+const STORE = 'entries';
+const SETTINGS_KEY = 'stereochem_cache_settings';
+/** localStorage prefix of the cache this store replaces. */
+const LEGACY_PREFIX = 'stereochem_v5_';
+const DAY = 24 * 60 * 60 * 1000;
+
+export type CacheKind = 'analysis' | 'resolve' | 'explain';
+
+export interface CacheEntry {
+  key: string;
+  kind: CacheKind;
+  /** The exact input behind the hashed key, compared on read so hash collisions miss. */
+  identity: string;
+  /** Shown in the settings panel: canonical SMILES, query or topic. */
+  label: string;
+  provider: string;
+  model: string;
+  value: unknown;
+  createdAt: number;
+  lastUsed: number;
+  /** UTF-8 size of the serialized value in bytes. */
+  size: number;
+}
+
+export interface CacheSettings {
+  /** Entries older than this are discarded. */
+  ttlDays: number;
+  /** Least recently used entries are evicted beyond either limit. */
+  maxEntries: number;
+  maxMegabytes: number;
+}
+
+export const DEFAULT_CACHE_SETTINGS: CacheSettings = { ttlDays: 30, maxEntries: 500, maxMegabytes: 25 };
+
+/** cyrb53: a fast 53-bit string hash over UTF-16 code units, so any input text is safe. */
+function hash(text: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16).padStart(14, '0');
+}
+
+export function cacheKey(kind: CacheKind, provider: string, model: string, identity: string): string {
+  return `v${CACHE_VERSION}:${kind}:${provider}:${model}:${hash(identity)}`;
+}
+
+export interface StructureIdentity {
+  /** Canonical isomeric SMILES; equal for every drawing of the same structure. */
+  smiles: string;
+  /** Atom id to canonical label ("#rank") and back, so cached results fit any drawing. */
+  toCanonical: Map<string, string>;
+  fromCanonical: Map<string, string>;
+}
+
+/** Null when the structure cannot be written as SMILES, in which case it is not cached. */
+export function structureIdentity(molecule: Molecule): StructureIdentity | null {
+  try {
+    const smiles = writeSmiles(molecule);
+    if (!smiles) return null;
+    const { ranks } = canonicalRanks(molecule);
+    const toCanonical = new Map([...ranks].map(([id, rank]) => [id, `#${rank}`]));
+    return { smiles, toCanonical, fromCanonical: new Map([...toCanonical].map(([id, label]) => [label, id])) };
+  } catch {
+    return null;
+  }
+}
+
+/** Renames the atom ids an analysis refers to; ids missing from `mapping` are kept. */
+export function relabelAtoms(result: AnalysisResult, mapping: Map<string, string>): AnalysisResult {
+  const rename = (id: string) => mapping.get(id) ?? id;
+  return {
+    ...result,
+    stereocenters: (result.stereocenters || []).map(sc => ({ ...sc, atomId: rename(sc.atomId) })),
+    stereoBonds: result.stereoBonds?.map(sb => ({ ...sb, atomIds: [rename(sb.atomIds[0]), rename(sb.atomIds[1])] })),
+    vsepr: Object.fromEntries(Object.entries(result.vsepr || {}).map(([id, info]) => [rename(id), info])),
+  };
+}
+
+export function getCacheSettings(): CacheSettings {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}');
+    const pick = (key: keyof CacheSettings) => (typeof stored[key] === 'number' && stored[key] > 0 ? stored[key] : DEFAULT_CACHE_SETTINGS[key]);
+    return { ttlDays: pick('ttlDays'), maxEntries: pick('maxEntries'), maxMegabytes: pick('maxMegabytes') };
+  } catch {
+    return DEFAULT_CACHE_SETTINGS;
+  }
+}
+
+export async function setCacheSettings(settings: CacheSettings): Promise<void> {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch { }
+  await pruneCache();
+}
+
+let database: Promise<IDBDatabase | null> | null = null;
+
+/** Resolves to null where IndexedDB is unavailable (private windows, tests); the cache is then a no-op. */
+function openDatabase(): Promise<IDBDatabase | null> {
+  database ??= new Promise(resolve => {
+    if (typeof indexedDB === 'undefined') return resolve(null);
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE, { keyPath: 'key' }).createIndex('lastUsed', 'lastUsed');
+    };
+    request.onsuccess = () => {
+      removeLegacyCache();
+      resolve(request.result);
+    };
+    request.onerror = () => {
+      console.warn("Analysis cache unavailable:", request.error);
+      resolve(null);
+    };
+  });
+  return database;
+}
+
+function removeLegacyCache() {
+  try {
+    Object.keys(localStorage).filter(key => key.startsWith(LEGACY_PREFIX)).forEach(key => localStorage.removeItem(key));
+  } catch { }
+}
+
+/**
+ * Runs `action` in one transaction over the store and resolves once it commits, so quota
+ * errors (reported when the transaction aborts) reach the caller. Requests made by `action`
+ * hold their results by then. Resolves to null when there is no database.
+ */
+async function transaction<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => T): Promise<T | null> {
+  const db = await openDatabase();
+  if (!db) return null;
+  const tx = db.transaction(STORE, mode);
+  const value = action(tx.objectStore(STORE));
+  await new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onabort = () => reject(tx.error);
+  });
+  return value;
+}
+
+const expired = (entry: CacheEntry, settings: CacheSettings) => Date.now() - entry.createdAt > settings.ttlDays * DAY;
+
+const byteSize = (value: unknown) => new TextEncoder().encode(JSON.stringify(value)).length;
+
+/**
+ * The cached value for `key`, or null when missing, expired or stored for a different
+ * `identity`. A hit refreshes the entry's place in the LRU order. Never throws.
+ */
+export async function cacheGet<T>(key: string, identity: string): Promise<T | null> {
+  try {
+    const entry: CacheEntry | undefined = (await transaction('readonly', store => store.get(key)))?.result;
+    if (!entry || entry.identity !== identity) return null;
+    if (expired(entry, getCacheSettings())) {
+      await transaction('readwrite', store => store.delete(key));
+      return null;
+    }
+    await transaction('readwrite', store => store.put({ ...entry, lastUsed: Date.now() }));
+    return entry.value as T;
+  } catch (error) {
+    console.warn("Analysis cache read failed:", error);
+    return null;
+  }
+}
+
+/**
+ * Stores a value and evicts down to the configured limits. When the browser reports its
+ * storage quota exhausted, the older half of the cache is dropped and the write retried once.
+ * Never throws.
+ */
+export async function cachePut(entry: Omit<CacheEntry, 'createdAt' | 'lastUsed' | 'size'>): Promise<void> {
+  const now = Date.now();
+  const record: CacheEntry = { ...entry, createdAt: now, lastUsed: now, size: byteSize(entry.value) };
+  try {
+    try {
+      await transaction('readwrite', store => store.put(record));
+    } catch (error) {
+      if ((error as DOMException)?.name !== 'QuotaExceededError') throw error;
+      const entries = await listCacheEntries();
+      await evict(entries.slice(0, Math.ceil(entries.length / 2)));
+      await transaction('readwrite', store => store.put(record));
+    }
+    await pruneCache();
+  } catch (error) {
+    console.warn("Analysis cache write failed:", error);
+  }
+}
+
+/** All entries, least recently used first. */
+export async function listCacheEntries(): Promise<CacheEntry[]> {
+  const request = await transaction('readonly', store => store.index('lastUsed').getAll());
+  return (request?.result as CacheEntry[] | undefined) || [];
+}
+
+async function evict(entries: CacheEntry[]): Promise<void> {
+  if (entries.length === 0) return;
+  await transaction('readwrite', store => entries.forEach(entry => store.delete(entry.key)));
+}
+
+/** Drops expired entries, then least recently used ones until both limits hold. */
+export async function pruneCache(): Promise<void> {
+  const settings = getCacheSettings();
+  const entries = await listCacheEntries();
+  const doomed = entries.filter(entry => expired(entry, settings));
+  const live = entries.filter(entry => !expired(entry, settings));
+  let bytes = live.reduce((sum, entry) => sum + entry.size, 0);
+  let count = live.length;
+  for (const entry of live) {
+    if (count <= settings.maxEntries && bytes <= settings.maxMegabytes * 1024 * 1024) break;
+    doomed.push(entry);
+    count--;
+    bytes -= entry.size;
+  }
+  await evict(doomed);
+}
+
+export async function deleteCacheEntry(key: string): Promise<void> {
+  await transaction('readwrite', store => store.delete(key));
+}
+
+export async function clearCache(): Promise<void> {
+  await transaction('readwrite', store => store.clear());
+}
+
+/** JSON snapshot of every entry, for moving a cache between browsers. */
+export async function exportCache(): Promise<string> {
+  return JSON.stringify({ version: CACHE_VERSION, exportedAt: new Date().toISOString(), entries: await listCacheEntries() }, null, 2);
+}
+
+const isEntry = (val: unknown): val is CacheEntry => (
+  isRecord(val)
+  && ['key', 'kind', 'identity', 'label', 'provider', 'model'].every(k => typeof val[k] === 'string')
+  && ['createdAt', 'lastUsed', 'size'].every(k => typeof val[k] === 'number')
+  && 'value' in val
+);
+
+/**
+ * Adds the entries of an `exportCache` snapshot, skipping malformed and expired ones and
+ * those written by another cache version. Returns how many were imported.
+ */
+export async function importCache(text: string): Promise<number> {
+  const data = JSON.parse(text);
+  if (!data || data.version !== CACHE_VERSION || !Array.isArray(data.entries)) {
+    throw new Error(`Not a version ${CACHE_VERSION} cache export`);
+  }
+  const settings = getCacheSettings();
+  const entries: CacheEntry[] = data.entries.filter((e: unknown) => isEntry(e) && e.key.startsWith(`v${CACHE_VERSION}:`) && !expired(e, settings));
+  const done = await transaction('readwrite', store => entries.forEach(entry => store.put(entry)));
+  if (done === null) throw new Error("IndexedDB is not available in this browser");
+  await pruneCache();
+  return entries.length;
+}
@@ -0,0 +1,238 @@
+import { Molecule } from "../types";
+import { buildGraph, findRings, implicitHydrogens, MoleculeGraph } from "./graphService";
+import { ringFace } from "./cipService";
+
+export interface ChairSlot {
+  /** Substituent atom, or null for an implicit hydrogen or a lone pair. */
+  atomId: string | null;
+  kind: 'group' | 'H' | 'lonePair';
+  /** Element of the attached atom; empty for a lone pair. */
+  element: string;
+  label: string;
+  /** Conformational free energy (kcal/mol) of the group going from equatorial to axial. */
+  aValue: number;
+  /** +1 on the top face of the ring as drawn (towards the viewer), −1 underneath. */
+  face: 1 | -1;
+}
+
+export interface ChairPosition {
+  atomId: string;
+  element: string;
+  slots: [ChairSlot, ChairSlot];
+  /** False when the drawing leaves this center's configuration open. */
+  specified: boolean;
+}
+
+export interface ChairAnalysis {
+  /** Ring atoms as C1…C6, counter-clockwise seen from the top face. */
+  positions: ChairPosition[];
+  /** Axial A-values plus 1,3-diaxial penalties for chair A and chair B, kcal/mol. */
+  strain: [number, number];
+  /** Index of the lower-strain chair, or null when both are equally good. */
+  favored: 0 | 1 | null;
+  /** Equilibrium share of the favored chair at 298 K. */
+  population: number;
+  notes: string[];
+}
+
+/** Name and A-value (kcal/mol) of common substituents; Eliel & Wilen values. */
+const GROUPS: Record<string, [string, number]> = {
+  F: ['F', 0.25], Cl: ['Cl', 0.53], Br: ['Br', 0.48], I: ['I', 0.47],
+  OH: ['OH', 0.87], OR: ['OR', 0.6], OCOR: ['OC(O)R', 0.71],
+  NH2: ['NH₂', 1.6], NHR: ['NHR', 1.0], NR2: ['NR₂', 2.1], NO2: ['NO₂', 1.1],
+  SH: ['SH', 1.21], SR: ['SR', 1.07],
+  Me: ['CH₃', 1.74], Et: ['CH₂CH₃', 1.79], CH2R: ['CH₂R', 1.79], iPr: ['CH(CH₃)₂', 2.15], CHR2: ['CHR₂', 2.15],
+  tBu: ['C(CH₃)₃', 4.9], CR3: ['CR₃', 4.9], CF3: ['CF₃', 2.4],
+  Ph: ['Ar', 2.8], vinyl: ['CH=CH₂', 1.68], ethynyl: ['C≡CH', 0.41], CN: ['CN', 0.2],
+  CHO: ['CHO', 0.7], COR: ['C(O)R', 1.17], COOH: ['COOH', 1.35], COOR: ['COOR', 1.27],
+};
+
+const UNKNOWN_A_VALUE = 1.0;
+// Extra strain when two non-hydrogen groups are axial on the same face, 1,3 to each other
+const SYN_AXIAL_CARBON = 3.7;
+const SYN_AXIAL_OTHER = 2.0;
+const RT = 0.593;
+
+const hydrogenCount = (graph: MoleculeGraph, id: string) =>
+  implicitHydrogens(graph, id) + graph.get(id)!.neighbors.filter(n => graph.get(n.atomId)!.atom.element === 'H').length;
+
+/** Classifies the substituent `id` attached to ring atom `ringId` as a GROUPS key. */
+function classify(graph: MoleculeGraph, ringId: string, id: string, ringAtoms: Set<string>): string | null {
+  const node = graph.get(id)!;
+  const element = node.atom.element;
+  const others = node.neighbors.filter(n => n.atomId !== ringId && graph.get(n.atomId)!.atom.element !== 'H');
+  const isMethyl = (x: string) => graph.get(x)!.atom.element === 'C' &&
+    graph.get(x)!.neighbors.every(n => n.atomId === id || graph.get(n.atomId)!.atom.element === 'H');
+
+  if (element in GROUPS) return element;
+  if (element === 'O') {
+    if (others.length === 0) return 'OH';
+    const acyl = graph.get(others[0].atomId)!.neighbors.some(n => n.order === 2 && graph.get(n.atomId)!.atom.element === 'O');
+    return acyl ? 'OCOR' : 'OR';
+  }
+  if (element === 'N') {
+    if (others.filter(n => graph.get(n.atomId)!.atom.element === 'O').length === 2) return 'NO2';
+    return others.length === 0 ? 'NH2' : (others.length === 1 ? 'NHR' : 'NR2');
+  }
+  if (element === 'S') return others.length === 0 ? 'SH' : 'SR';
+  if (element !== 'C') return null;
+
+  const triple = others.find(n => n.order === 3);
+  if (triple) return graph.get(triple.atomId)!.atom.element === 'N' ? 'CN' : 'ethynyl';
+  const carbonyl = others.find(n => n.order === 2 && graph.get(n.atomId)!.atom.element === 'O');
+  if (carbonyl) {
+    const rest = others.filter(n => n !== carbonyl);
+    const oxygen = rest.find(n => graph.get(n.atomId)!.atom.element === 'O');
+    if (oxygen) return hydrogenCount(graph, oxygen.atomId) > 0 ? 'COOH' : 'COOR';
+    return rest.length === 0 ? 'CHO' : 'COR';
+  }
+  if (others.some(n => n.order === 2)) return ringAtoms.has(id) ? 'Ph' : 'vinyl';
+  if (others.length === 3 && others.every(n => graph.get(n.atomId)!.atom.element === 'F')) return 'CF3';
+  if (others.length === 0) return 'Me';
+  const methyls = others.every(n => isMethyl(n.atomId));
+  return (methyls ? ['Et', 'iPr', 'tBu'] : ['CH2R', 'CHR2', 'CR3'])[others.length - 1];
+}
+
+/** Pucker of ring position `p` in chair A (+1 up) or chair B. */
+const pucker = (p: number, chair: 0 | 1) => ((p % 2 === 0) === (chair === 0) ? 1 : -1);
+
+/** True when `slot` of ring position `p` is axial in the given chair. */
+export const isAxial = (p: number, slot: ChairSlot, chair: 0 | 1) => slot.face === pucker(p, chair);
+
+function chairStrain(positions: ChairPosition[], chair: 0 | 1, notes: string[]): number {
+  const axial = positions.map((pos, p) => pos.slots.find(s => s.kind === 'group' && isAxial(p, s, chair)) || null);
+  let strain = axial.reduce((sum, slot) => sum + (slot ? slot.aValue : 0), 0);
+  axial.forEach((slot, p) => {
+    const partner = axial[(p + 2) % 6];
+    if (!slot || !partner) return;
+    const carbons = slot.element === 'C' && partner.element === 'C';
+    const penalty = carbons ? SYN_AXIAL_CARBON : SYN_AXIAL_OTHER;
+    strain += penalty;
+    notes.push(`Chair ${chair === 0 ? 'A' : 'B'}: ${slot.label} (C${p + 1}) and ${partner.label} (C${(p + 2) % 6 + 1}) are 1,3-diaxial (+${penalty.toFixed(1)} kcal/mol)`);
+  });
+  return strain;
+}
+
+/**
+ * Saturated six-membered rings of the drawing with the axial/equatorial fate of every
+ * substituent in both chairs. Faces come from wedges and dashes with the ring drawn flat;
+ * the chair with the smaller sum of axial A-values (plus syn-axial penalties) is favored.
+ */
+export function analyzeChairs(molecule: Molecule): ChairAnalysis[] {
+  const graph = buildGraph(molecule);
+  const rings = findRings(graph);
+  const ringAtoms = new Set(rings.flat());
+
+  const saturated = (id: string) => graph.get(id)!.neighbors.every(n => n.order === 1) && graph.get(id)!.neighbors.length <= 4;
+  return rings.filter(ring => ring.length === 6 && ring.every(saturated)).map(ring => {
+    // Counter-clockwise as seen from the viewer (y-up), so the top face is the drawn front
+    const area = ring.reduce((sum, id, p) => {
+      const a = graph.get(id)!.atom, b = graph.get(ring[(p + 1) % 6])!.atom;
+      return sum + a.x * -b.y - b.x * -a.y;
+    }, 0);
+    const cyclic = area < 0 ? [...ring].reverse() : ring;
+    const notes: string[] = [];
+    const fused = new Set<string>();
+
+    const positions: ChairPosition[] = cyclic.map((id, p) => {
+      const node = graph.get(id)!;
+      const neighbours: [string, string] = [cyclic[(p + 5) % 6], cyclic[(p + 1) % 6]];
+      const exocyclic = node.neighbors.map(n => n.atomId).filter(n => !neighbours.includes(n));
+      const slots: ChairSlot[] = exocyclic.map(sub => {
+        const element = graph.get(sub)!.atom.element;
+        if (element === 'H') return { atomId: sub, kind: 'H', element, label: 'H', aValue: 0, face: 1 };
+        const key = classify(graph, id, sub, ringAtoms);
+        const [label, aValue] = key ? GROUPS[key] : [`${element}R`, UNKNOWN_A_VALUE];
+        if (!key) notes.push(`No tabulated A-value for the ${label} group; ${UNKNOWN_A_VALUE.toFixed(1)} kcal/mol assumed`);
+        if (rings.some(r => r !== ring && r.includes(sub) && r.includes(id))) fused.add(id);
+        return { atomId: sub, kind: 'group', element, label, aValue, face: 1 };
+      });
+      for (let h = implicitHydrogens(graph, id); h > 0 && slots.length < 2; h--) slots.push({ atomId: null, kind: 'H', element: 'H', label: 'H', aValue: 0, face: 1 });
+      while (slots.length < 2) slots.push({ atomId: null, kind: 'lonePair', element: '', label: '', aValue: 0, face: 1 });
+      slots.sort((a, b) => (b.kind === 'group' ? 1 : 0) - (a.kind === 'group' ? 1 : 0) || b.aValue - a.aValue);
+
+      let specified = true;
+      if (slots[0].kind === 'group' && slots[0].label !== slots[1].label) {
+        const face = ringFace(graph, id, neighbours, slots[0].atomId!, slots[1].atomId);
+        specified = face !== 0;
+        if (face === -1) slots[0].face = -1;
+      }
+      slots[1].face = slots[0].face === 1 ? -1 : 1;
+      return { atomId: id, element: node.atom.element, slots: [slots[0], slots[1]], specified };
+    });
+
+    // Number from the most demanding group; read the ring from the other face if that
+    // gives lower locants (reversing the direction swaps top and bottom)
+    const weight = (pos: ChairPosition) => Math.max(...pos.slots.map(s => (s.kind === 'group' ? s.aValue + 1 : 0)));
+    const start = positions.reduce((best, pos, p) => (weight(pos) > weight(positions[best]) ? p : best), 0);
+    const forward = positions.map((_, p) => positions[(start + p) % 6]);
+    const backward = positions.map((_, p) => positions[(start - p + 6) % 6]).map(pos => ({
+      ...pos,
+      slots: pos.slots.map(s => ({ ...s, face: (s.face === 1 ? -1 : 1) as 1 | -1 })) as [ChairSlot, ChairSlot],
+    }));
+    const locants = (list: ChairPosition[]) => list.map((pos, p) => (weight(pos) > 0 ? p : 9)).sort((a, b) => a - b).join(',');
+    const ordered = locants(backward) < locants(forward) ? backward : forward;
+
+    // A lone substituent has no relative configuration to get wrong
+    const substituted = ordered.filter(pos => weight(pos) > 0).length;
+    ordered.forEach((pos, p) => {
+      if (!pos.specified && substituted > 1) notes.push(`Configuration at C${p + 1} is not drawn; its ${pos.slots[0].label} is placed on the top face`);
+    });
+    const fusion = ordered.map((pos, p) => (fused.has(pos.atomId) ? `C${p + 1}` : '')).filter(Boolean);
+    if (fusion.length > 0) notes.push(`Ring fusion at ${fusion.join(', ')}: trans-fused rings cannot flip, so only one chair is accessible`);
+
+    const strain: [number, number] = [chairStrain(ordered, 0, notes), chairStrain(ordered, 1, notes)];
+    const delta = strain[1] - strain[0];
+    const favored = Math.abs(delta) < 0.05 ? null : (delta > 0 ? 0 : 1);
+    const population = 1 / (1 + Math.exp(-Math.abs(delta) / RT));
+    return { positions: ordered, strain, favored, population, notes: [...new Set(notes)] };
+  });
+}
+
+export interface ChairDrawing {
+  /** Ring atoms in screen units (y up) with depth (larger is farther away). */
+  ring: Array<{ x: number; y: number; depth: number }>;
+  /** Bond end points of both slots of every ring position. */
+  arms: Array<[{ x: number; y: number }, { x: number; y: number }]>;
+}
+
+const RING_RADIUS = 1.44;
+// Twice the real pucker, as in textbook drawings, so up and down atoms read clearly
+const RING_PUCKER = 0.5;
+const ARM_LENGTH = 0.95;
+const ELEVATION = 10 * Math.PI / 180;
+// Turned slightly so the axial bonds of C3 and C5 do not fall on top of each other
+const AZIMUTH = 12 * Math.PI / 180;
+
+/**
+ * Side-on projection of a textbook chair. `amplitude` runs from 1 (chair A) through 0
+ * (planar, halfway through the flip) to −1 (chair B); substituent bonds follow their face,
+ * pointing straight up or down when axial and outward when equatorial.
+ */
+export function chairDrawing(positions: ChairPosition[], amplitude: number): ChairDrawing {
+  const project = (x0: number, y0: number, z: number) => {
+    const x = x0 * Math.cos(AZIMUTH) - y0 * Math.sin(AZIMUTH);
+    const y = x0 * Math.sin(AZIMUTH) + y0 * Math.cos(AZIMUTH);
+    return { x, y: z * Math.cos(ELEVATION) + y * Math.sin(ELEVATION), depth: y * Math.cos(ELEVATION) - z * Math.sin(ELEVATION) };
+  };
+  const ring: ChairDrawing['ring'] = [];
+  const arms: ChairDrawing['arms'] = [];
+  positions.forEach((pos, p) => {
+    const theta = p * Math.PI / 3;
+    const radial = [Math.cos(theta), Math.sin(theta)];
+    const puck = amplitude * pucker(p, 0);
+    const atom = [RING_RADIUS * radial[0], RING_RADIUS * radial[1], RING_PUCKER * puck];
+    ring.push(project(atom[0], atom[1], atom[2]));
+    arms.push(pos.slots.map(slot => {
+      // Blend the axial and equatorial directions by how far the flip has progressed
+      const axialWeight = (1 + puck * slot.face) / 2;
+      const dx = (1 - axialWeight) * radial[0];
+      const dy = (1 - axialWeight) * radial[1];
+      const dz = axialWeight * slot.face + (1 - axialWeight) * 0.33 * slot.face;
+      const length = Math.hypot(dx, dy, dz) || 1;
+      const end = project(atom[0] + dx / length * ARM_LENGTH, atom[1] + dy / length * ARM_LENGTH, atom[2] + dz / length * ARM_LENGTH);
+      return { x: end.x, y: end.y };
+    }) as [{ x: number; y: number }, { x: number; y: number }]);
+  });
+  return { ring, arms };
+}
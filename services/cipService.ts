@@ -0,0 +1,811 @@
+import { Atom, Bond, Molecule, StereocenterInfo, StereoBondInfo } from "../types";
+import { ELEMENTS } from "../constants";
+import { MoleculeGraph, buildGraph, atomicNumber, implicitHydrogens, findRings } from "./graphService";
+
+/**
+ * Node of the CIP hierarchical digraph. Real atoms carry their id, duplicate atoms
+ * (ring closures and multiple-bond partners) reference the duplicated atom but have
+ * only phantom substituents, and implicit hydrogens / phantoms carry no id at all.
+ */
+interface DigraphNode {
+  atomId: string | null;
+  z: number;
+  mass: number;
+  /** Sphere of the atom the node stands for; a duplicate points back to the sphere of its original (rule 1b). */
+  distance: number;
+  duplicate: boolean;
+  parent: DigraphNode | null;
+  /** Undefined until the next sphere is built. */
+  children?: DigraphNode[];
+  /** Descriptor the stereo rules read: auxiliary, from the node's own branches, or else the global one. */
+  label?: CenterLabel;
+  /** Per sequence rule: the node's rank among the nodes of its sphere, then that of each deeper sphere of its branch. */
+  profile: number[][];
+}
+
+/** The spheres built so far; `exhausted` once every branch has ended or the node budget is spent. */
+interface Digraph {
+  spheres: DigraphNode[][];
+  exhausted: boolean;
+}
+
+type CenterLabel = 'R' | 'S' | 'r' | 's';
+
+/** Descriptors of the other stereo units, which rules 3–5 compare. */
+interface StereoContext {
+  centers: Map<string, CenterLabel>;
+  /** Keyed by the sorted atom ids of the double bond. */
+  doubles: Map<string, 'E' | 'Z'>;
+}
+
+const EMPTY_CONTEXT: StereoContext = { centers: new Map(), doubles: new Map() };
+
+const pairKey = (a: string, b: string) => (a < b ? `${a}|${b}` : `${b}|${a}`);
+
+interface SequenceRule {
+  name: string;
+  stereo: boolean;
+  /** Per-node key, higher first; rule 4b compares whole branches instead. */
+  key?: (node: DigraphNode, context: StereoContext) => number;
+}
+
+/**
+ * Sequence rules applied exhaustively over the whole digraph, one after another.
+ */
+const RULES: SequenceRule[] = [
+  { name: '1a', stereo: false, key: node => node.z },
+  // Duplicates of atoms nearer the root rank higher
+  { name: '1b', stereo: false, key: node => -node.distance },
+  { name: '2', stereo: false, key: node => node.mass },
+  // Z > E, read on the double bond that leads to the node
+  { name: '3', stereo: true, key: (node, context) => {
+    if (node.duplicate || !node.atomId || !node.parent?.atomId) return 0;
+    const geometry = context.doubles.get(pairKey(node.parent.atomId, node.atomId));
+    return geometry === 'Z' ? 2 : geometry === 'E' ? 1 : 0;
+  } },
+  // Chiral centers before pseudoasymmetric ones before the rest
+  { name: '4a', stereo: true, key: node => {
+    return node.label === 'R' || node.label === 'S' ? 2 : node.label ? 1 : 0;
+  } },
+  { name: '4b', stereo: true },
+  { name: '4c', stereo: true, key: node => (node.label === 'r' ? 2 : node.label === 's' ? 1 : 0) },
+  { name: '5', stereo: true, key: node => (node.label === 'R' ? 2 : node.label === 'S' ? 1 : 0) },
+];
+
+const LIKE_RULE = RULES.findIndex(rule => rule.name === '4b');
+const ENANTIOMORPHIC_RULE = RULES.findIndex(rule => rule.name === '5');
+
+/** Digraph nodes built per ranking; beyond this the comparison stops and undecided ligands tie. */
+const MAX_DIGRAPH_NODES = 2000;
+
+const leaf = (z: number, distance: number, parent: DigraphNode | null): DigraphNode => ({
+  atomId: null,
+  z,
+  mass: z === 1 ? ELEMENTS.H.mass : 0,
+  distance,
+  duplicate: false,
+  parent,
+  children: [],
+  profile: [],
+});
+
+/**
+ * Rule 2 compares mass numbers; unlabelled atoms fall back to the natural average mass.
+ */
+const atomMass = (atom: Atom): number => atom.isotope || ELEMENTS[atom.element]?.mass || 0;
+
+const atomNode = (graph: MoleculeGraph, atomId: string, distance: number, parent: DigraphNode | null, duplicate: boolean): DigraphNode => {
+  const atom = graph.get(atomId)!.atom;
+  const node: DigraphNode = { atomId, z: atomicNumber(atom), mass: atomMass(atom), distance, duplicate, parent, profile: [] };
+  if (duplicate) node.children = [0, 1, 2].map(() => leaf(0, distance + 1, node));
+  return node;
+};
+
+/** Sphere of `atomId` on the path from the root to `node`, or null when it is not on it. */
+function pathDistance(node: DigraphNode, atomId: string): number | null {
+  for (let at: DigraphNode | null = node; at; at = at.parent) {
+    if (at.atomId === atomId && !at.duplicate) return at.distance;
+  }
+  return null;
+}
+
+function expand(graph: MoleculeGraph, node: DigraphNode): DigraphNode[] {
+  if (node.children) return node.children;
+  const children: DigraphNode[] = [];
+  const graphNode = node.atomId ? graph.get(node.atomId) : undefined;
+  if (!graphNode) return children;
+
+  graphNode.neighbors.forEach(n => {
+    if (n.atomId === node.parent?.atomId) {
+      for (let i = 1; i < n.order; i++) children.push(atomNode(graph, n.atomId, node.parent.distance, node, true));
+      return;
+    }
+    const closure = pathDistance(node, n.atomId);
+    const distance = closure ?? node.distance + 1;
+    children.push(atomNode(graph, n.atomId, distance, node, closure !== null));
+    for (let i = 1; i < n.order; i++) children.push(atomNode(graph, n.atomId, distance, node, true));
+  });
+  for (let i = 0; i < implicitHydrogens(graph, node.atomId!); i++) children.push(leaf(1, node.distance + 1, node));
+  return children;
+}
+
+/** The root and its first sphere, with a phantom for a lone pair when `lonePair` is set. */
+function digraphAround(graph: MoleculeGraph, rootId: string, lonePair: boolean): Digraph {
+  const root = atomNode(graph, rootId, 0, null, false);
+  root.children = expand(graph, root);
+  if (lonePair) root.children.push(leaf(0, 1, root));
+  return { spheres: [[root], root.children], exhausted: false };
+}
+
+/** Builds the next sphere; false when there is none or it would exceed the node budget. */
+function grow(graph: MoleculeGraph, digraph: Digraph): boolean {
+  if (digraph.exhausted) return false;
+  const last = digraph.spheres[digraph.spheres.length - 1];
+  const built = last.map(node => node.children ? null : expand(graph, node));
+  const next = last.flatMap((node, k) => built[k] ?? node.children!);
+  const total = digraph.spheres.reduce((sum, sphere) => sum + sphere.length, 0) + next.length;
+  if (next.length === 0 || total > MAX_DIGRAPH_NODES) {
+    digraph.exhausted = true;
+    return false;
+  }
+  last.forEach((node, k) => { if (built[k]) node.children = built[k]!; });
+  digraph.spheres.push(next);
+  return true;
+}
+
+function compareTuples(a: number[] | undefined, b: number[] | undefined): number {
+  if (!a || !b) return 0;
+  const length = Math.max(a.length, b.length);
+  for (let i = 0; i < length; i++) {
+    const x = i < a.length ? a[i] : -1;
+    const y = i < b.length ? b[i] : -1;
+    if (x !== y) return x > y ? 1 : -1;
+  }
+  return 0;
+}
+
+/** Order of two nodes of one sphere under rules 0..`upTo`, as far as they have been applied. */
+function compareNodes(a: DigraphNode, b: DigraphNode, upTo: number): number {
+  for (let r = 0; r <= upTo; r++) {
+    const diff = compareTuples(a.profile[r], b.profile[r]);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+/** Dense ranks of `tuples`, equal tuples sharing a rank. */
+function denseRanks(tuples: number[][]): number[] {
+  const order = tuples.map((_, i) => i).sort((i, j) => compareTuples(tuples[i], tuples[j]));
+  const ranks = new Array<number>(tuples.length);
+  order.forEach((index, k) => {
+    ranks[index] = k > 0 && compareTuples(tuples[order[k - 1]], tuples[index]) === 0 ? ranks[order[k - 1]] : (k > 0 ? ranks[order[k - 1]] + 1 : 0);
+  });
+  return ranks;
+}
+
+/**
+ * Applies rule `r` to every node, deepest sphere first: each sphere's substituent sets are
+ * put in precedence order using the ranks already settled below, then every node gets its
+ * rank in its own sphere and in each deeper sphere of its branch. Comparing two branches is
+ * then a lookup instead of a fresh exploration.
+ */
+function applyRule(digraph: Digraph, r: number, context: StereoContext) {
+  const key = RULES[r].key!;
+  const { spheres } = digraph;
+  for (let s = spheres.length - 1; s >= 1; s--) {
+    const nodes = spheres[s];
+    const depth = spheres.length - 1 - s;
+    if (s < spheres.length - 1) nodes.forEach(node => node.children?.sort((a, b) => compareNodes(b, a, r)));
+    const profiles: number[][] = nodes.map(() => []);
+    denseRanks(nodes.map(node => [key(node, context)])).forEach((rank, i) => profiles[i].push(rank));
+    for (let j = 1; j <= depth; j++) {
+      denseRanks(nodes.map(node => (node.children ?? []).map(child => child.profile[r][j - 1]))).forEach((rank, i) => profiles[i].push(rank));
+    }
+    nodes.forEach((node, i) => { node.profile[r] = profiles[i]; });
+  }
+}
+
+/**
+ * Rule 4b: the R/S descriptors of a branch in hierarchical order, each marked like (1) or
+ * unlike (0) relative to the first one, the branch's reference descriptor.
+ */
+function likeness(node: DigraphNode): number[] {
+  const found: CenterLabel[] = [];
+  const queue = [node];
+  for (let i = 0; i < queue.length; i++) {
+    const at = queue[i];
+    if (at.label === 'R' || at.label === 'S') found.push(at.label);
+    queue.push(...(at.children ?? []));
+  }
+  return found.map(label => (label === found[0] ? 1 : 0));
+}
+
+const ligandLabel = (atom: Atom) => `${atom.isotope ? atom.isotope : ''}${atom.element} (${atom.id})`;
+
+/**
+ * Gives every center node of the digraph its descriptor for rules 4a–5. The auxiliary
+ * descriptor ranks the node's own branches with the constitutional rules and puts the branch
+ * back toward the root after them (only a lone pair ranks lower); nodes whose branches tie
+ * keep the descriptor the atom has in the molecule. True when some node got a descriptor.
+ */
+function labelNodes(graph: MoleculeGraph, digraph: Digraph, context: StereoContext): boolean {
+  const shapes = new Map<string, { lonePair: boolean } | null>();
+  let any = false;
+  digraph.spheres.slice(1).forEach(sphere => sphere.forEach(node => {
+    if (node.duplicate || !node.atomId || !node.parent?.atomId || !node.children) return;
+    if (!shapes.has(node.atomId)) shapes.set(node.atomId, tetrahedralShape(graph, node.atomId));
+    const shape = shapes.get(node.atomId);
+    node.label = shape ? auxiliaryLabel(graph, node, shape.lonePair) ?? context.centers.get(node.atomId) : undefined;
+    if (node.label) any = true;
+  }));
+  return any;
+}
+
+function auxiliaryLabel(graph: MoleculeGraph, node: DigraphNode, lonePair: boolean): CenterLabel | undefined {
+  // Multiple-bond duplicates repeat a neighbour; ring-closure duplicates stand for one
+  const seen = new Set<string>([node.parent!.atomId!]);
+  const branches = node.children!.filter(child => {
+    if (!child.atomId) return true;
+    if (child.duplicate && seen.has(child.atomId)) return false;
+    seen.add(child.atomId);
+    return true;
+  }).sort((a, b) => compareNodes(b, a, ENANTIOMORPHIC_RULE));
+  if (branches.length + 1 + (lonePair ? 1 : 0) !== 4) return undefined;
+  if (branches.some((branch, k) => k > 0 && compareNodes(branches[k - 1], branch, ENANTIOMORPHIC_RULE) === 0)) return undefined;
+  const ordered: Array<string | null> = [...branches.map(branch => branch.atomId), node.parent!.atomId];
+  if (lonePair) ordered.push(null);
+  const [a, b, c, d] = ordered;
+  const parity = tetrahedralParity(graph, node.atomId!, [d, a, b, c]);
+  return parity === 0 ? undefined : (parity < 0 ? 'R' : 'S');
+}
+
+interface Ligand {
+  node: DigraphNode;
+  label: string;
+}
+
+interface Ranking {
+  /** Highest priority first. */
+  ligands: Ligand[];
+  /** Index into RULES of the rule that puts each ligand ahead of the next; -1 for a tie. */
+  decidedBy: number[];
+}
+
+/**
+ * Ranks ligands that are first-sphere nodes of `digraph`. Spheres are added until rule 1a
+ * separates every ligand or the digraph is exhausted, then the remaining rules are applied
+ * in turn while ties remain. Stereo rules are skipped when the context holds no descriptors.
+ */
+function rankLigands(graph: MoleculeGraph, digraph: Digraph, ligands: Ligand[], context: StereoContext): Ranking {
+  const likes = new Map<Ligand, number[]>();
+  const compare = (a: Ligand, b: Ligand, r: number) => (r === LIKE_RULE
+    ? compareTuples(likes.get(a), likes.get(b))
+    : compareTuples(a.node.profile[r], b.node.profile[r]));
+  const decide = (a: Ligand, b: Ligand, upTo: number) => {
+    for (let r = 0; r <= upTo; r++) if (compare(a, b, r) !== 0) return r;
+    return -1;
+  };
+  const rank = (upTo: number): Ranking => {
+    const ordered = [...ligands].sort((a, b) => {
+      const r = decide(a, b, upTo);
+      return r < 0 ? 0 : compare(b, a, r);
+    });
+    return { ligands: ordered, decidedBy: ordered.slice(1).map((ligand, k) => decide(ordered[k], ligand, upTo)) };
+  };
+
+  applyRule(digraph, 0, context);
+  while (rank(0).decidedBy.includes(-1) && grow(graph, digraph)) applyRule(digraph, 0, context);
+
+  let ranking = rank(0);
+  let labelled: boolean | null = null;
+  for (let r = 1; r < RULES.length && ranking.decidedBy.includes(-1); r++) {
+    if (RULES[r].stereo) {
+      labelled = labelled ?? labelNodes(graph, digraph, context);
+      if (!labelled && context.doubles.size === 0) break;
+    }
+    if (r === LIKE_RULE) ligands.forEach(ligand => likes.set(ligand, likeness(ligand.node)));
+    else applyRule(digraph, r, context);
+    ranking = rank(r);
+  }
+  return ranking;
+}
+
+/** The non-duplicate first-sphere nodes of `digraph` as ligands, leaving out `exclude`. */
+const ligandsOf = (graph: MoleculeGraph, digraph: Digraph, exclude: string[] = []): Ligand[] => digraph.spheres[1]
+  .filter(node => !node.duplicate && !(node.atomId && exclude.includes(node.atomId)))
+  .map(node => ({ node, label: node.atomId ? ligandLabel(graph.get(node.atomId)!.atom) : (node.z === 1 ? 'H (implicit)' : 'lone pair') }));
+
+/**
+ * Whether `centerId` can be a tetrahedral stereocenter: sp3 carbon, ammonium nitrogen, and
+ * P/S centers where a lone pair (or a terminal P=O / S=O) completes the tetrahedron. Null
+ * when it cannot; otherwise whether a lone pair is the fourth ligand. The isomer enumerator
+ * and the SMILES writer use the same test, so every center named here is enumerated and written.
+ */
+export function tetrahedralShape(graph: MoleculeGraph, centerId: string): { lonePair: boolean } | null {
+  const center = graph.get(centerId)!;
+  const { atom } = center;
+  const hCount = implicitHydrogens(graph, centerId);
+  const explicitH = center.neighbors.filter(n => graph.get(n.atomId)!.atom.element === 'H').length;
+  if (hCount + explicitH > 1) return null;
+
+  const multiple = center.neighbors.filter(n => n.order > 1);
+  const terminalOxo = multiple.every(n =>
+    n.order === 2 && ['O', 'S'].includes(graph.get(n.atomId)!.atom.element) && graph.get(n.atomId)!.neighbors.length === 1
+  );
+  if (multiple.length > 0 && !(terminalOxo && ['P', 'S'].includes(atom.element) && multiple.length === 1)) return null;
+
+  const explicitCount = center.neighbors.length + hCount;
+  if (atom.element === 'C') {
+    return explicitCount === 4 && (atom.formalCharge || 0) === 0 ? { lonePair: false } : null;
+  }
+  if (atom.element === 'N') {
+    return explicitCount === 4 && atom.formalCharge === 1 ? { lonePair: false } : null;
+  }
+  if (atom.element === 'P' || atom.element === 'S') {
+    return explicitCount === 3 || explicitCount === 4 ? { lonePair: explicitCount === 3 } : null;
+  }
+  return null;
+}
+
+/**
+ * Ligands around a potential stereocenter with the digraph they are ranked in, or null when
+ * the atom cannot be one. Implicit H and lone pairs have no atom id.
+ */
+function collectLigands(graph: MoleculeGraph, centerId: string): { digraph: Digraph; ligands: Ligand[] } | null {
+  const shape = tetrahedralShape(graph, centerId);
+  if (!shape) return null;
+  const digraph = digraphAround(graph, centerId, shape.lonePair);
+  const ligands = ligandsOf(graph, digraph);
+  return ligands.length === 4 ? { digraph, ligands } : null;
+}
+
+type Vec3 = [number, number, number];
+
+const sub = (a: Vec3, b: Vec3): Vec3 => [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+const cross = (a: Vec3, b: Vec3): Vec3 => [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+const dot = (a: Vec3, b: Vec3) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+
+/**
+ * Sign of the tetrahedron spanned by four ligands of `centerId`, read from 2D coordinates
+ * plus wedge/dash depth. `ordered` lists neighbor ids; `null` stands for the implicit
+ * hydrogen or lone pair, which is placed opposite the explicit ligands.
+ *
+ * Coordinates are flipped to a y-up frame with the viewer on +z. A negative result means
+ * ligands 2 → 3 → 4 run counter-clockwise when viewed from ligand 1 (SMILES `@`).
+ * Returns 0 when no stereo bond starts at the center or the drawing is degenerate.
+ */
+export function tetrahedralParity(graph: MoleculeGraph, centerId: string, ordered: Array<string | null>): -1 | 0 | 1 {
+  const center = graph.get(centerId);
+  if (!center || ordered.length !== 4) return 0;
+  const { atom } = center;
+
+  const explicit = new Map<string, Vec3>();
+  center.neighbors.forEach(n => {
+    const neighbor = graph.get(n.atomId)!.atom;
+    let z = 0;
+    if (n.bond.from === centerId && n.bond.type === 'wedge') z = 1;
+    if (n.bond.from === centerId && n.bond.type === 'dash') z = -1;
+    const dx = neighbor.x - atom.x;
+    const dy = -(neighbor.y - atom.y);
+    const len = Math.hypot(dx, dy) || 1;
+    explicit.set(n.atomId, [dx / len, dy / len, z]);
+  });
+  if (![...explicit.values()].some(v => v[2] !== 0)) return 0;
+
+  const sum = [...explicit.values()].reduce<Vec3>((acc, v) => [acc[0] + v[0], acc[1] + v[1], acc[2] + v[2]], [0, 0, 0]);
+  const vectors = ordered.map(id => (id === null ? [-sum[0], -sum[1], -sum[2]] as Vec3 : explicit.get(id)));
+  if (vectors.some(v => !v)) return 0;
+
+  const [v0, v1, v2, v3] = vectors as Vec3[];
+  const volume = dot(sub(v1, v0), cross(sub(v2, v0), sub(v3, v0)));
+  if (Math.abs(volume) < 1e-6) return 0;
+  return volume < 0 ? -1 : 1;
+}
+
+/**
+ * Face of the substituent `first` on ring atom `center`, read from the wedge/dash drawing
+ * with the ring lying flat: the drawn parity is compared with the one `first` would have
+ * on the top face. Returns 0 when the drawing does not fix it.
+ */
+export function ringFace(graph: MoleculeGraph, center: string, ring: [string, string], first: string, second: string | null): -1 | 0 | 1 {
+  const drawn = tetrahedralParity(graph, center, [ring[0], ring[1], first, second]);
+  if (drawn === 0) return 0;
+  const origin = graph.get(center)!.atom;
+  const direction = (id: string, z: number): [number, number, number] => {
+    const atom = graph.get(id)!.atom;
+    const dx = atom.x - origin.x, dy = -(atom.y - origin.y);
+    const length = Math.hypot(dx, dy) || 1;
+    return [dx / length, dy / length, z];
+  };
+  const a = direction(ring[0], 0), b = direction(ring[1], 0), up = direction(first, 1);
+  const down: [number, number, number] = second ? direction(second, -1) : [-(a[0] + b[0] + up[0]), -(a[1] + b[1] + up[1]), -1];
+  const u = [b[0] - a[0], b[1] - a[1], b[2] - a[2]];
+  const v = [up[0] - a[0], up[1] - a[1], up[2] - a[2]];
+  const w = [down[0] - a[0], down[1] - a[1], down[2] - a[2]];
+  const volume = u[0] * (v[1] * w[2] - v[2] * w[1]) + u[1] * (v[2] * w[0] - v[0] * w[2]) + u[2] * (v[0] * w[1] - v[1] * w[0]);
+  return (volume < 0 ? -1 : 1) === drawn ? 1 : -1;
+}
+
+export interface TetrahedralTarget {
+  atomId: string;
+  ordered: Array<string | null>;
+  parity: -1 | 1;
+}
+
+/**
+ * Parities the current wedge/dash drawing expresses, so they can be redrawn after the
+ * coordinates or the ligand set change. An implicit hydrogen is listed as null.
+ */
+export function drawnStereoTargets(molecule: Molecule): TetrahedralTarget[] {
+  const graph = buildGraph(molecule);
+  const targets: TetrahedralTarget[] = [];
+  graph.forEach((node, id) => {
+    if (!node.neighbors.some(n => n.bond.from === id && (n.bond.type === 'wedge' || n.bond.type === 'dash'))) return;
+    const ordered: Array<string | null> = node.neighbors.map(n => n.atomId);
+    if (ordered.length === 3) ordered.push(null);
+    const parity = tetrahedralParity(graph, id, ordered);
+    if (parity !== 0) targets.push({ atomId: id, ordered, parity });
+  });
+  return targets;
+}
+
+/**
+ * Draws each target center with one wedge or dash bond so that `tetrahedralParity` of its
+ * ordered ligands equals the requested parity. Existing stereo bonds starting at a target
+ * are reset first. Acyclic bonds to non-stereogenic neighbors are preferred for the wedge.
+ */
+export function drawTetrahedralStereo(molecule: Molecule, targets: TetrahedralTarget[]): Molecule {
+  const centers = new Set(targets.map(t => t.atomId));
+  let bonds: Bond[] = molecule.bonds.map(b =>
+    centers.has(b.from) && (b.type === 'wedge' || b.type === 'dash') ? { ...b, type: 'single' } : b
+  );
+
+  const ringBonds = new Set<string>();
+  findRings(buildGraph(molecule)).forEach(ring => ring.forEach((id, k) => {
+    const next = ring[(k + 1) % ring.length];
+    bonds.forEach(b => { if ((b.from === id && b.to === next) || (b.to === id && b.from === next)) ringBonds.add(b.id); });
+  }));
+  const elementOf = new Map(molecule.atoms.map(a => [a.id, a.element]));
+
+  targets.forEach(({ atomId, ordered, parity: want }) => {
+    const candidates = bonds
+      .filter(b => (b.from === atomId || b.to === atomId) && b.type === 'single')
+      .map(b => {
+        const other = b.from === atomId ? b.to : b.from;
+        return { bond: b, score: (centers.has(other) ? 4 : 0) + (ringBonds.has(b.id) ? 2 : 0) + (elementOf.get(other) === 'H' ? 0 : 1) };
+      })
+      .sort((p, q) => p.score - q.score);
+
+    for (const { bond } of candidates) {
+      const oriented: Bond = { ...bond, from: atomId, to: bond.from === atomId ? bond.to : bond.from, type: 'wedge' };
+      const trial = bonds.map(b => (b.id === bond.id ? oriented : b));
+      const parity = tetrahedralParity(buildGraph({ ...molecule, bonds: trial }), atomId, ordered);
+      if (parity === 0) continue;
+      // Swapping wedge for dash mirrors the center
+      bonds = parity === want ? trial : bonds.map(b => (b.id === bond.id ? { ...oriented, type: 'dash' } : b));
+      break;
+    }
+  });
+
+  return { ...molecule, bonds };
+}
+
+/**
+ * CIP descriptor of one candidate center under `context`. Undefined when the atom cannot be
+ * a stereocenter, null while two of its ligands tie.
+ */
+function centerInfo(graph: MoleculeGraph, atomId: string, context: StereoContext): StereocenterInfo | null | undefined {
+  const collected = collectLigands(graph, atomId);
+  if (!collected) return undefined;
+  const { ligands: ranked, decidedBy } = rankLigands(graph, collected.digraph, collected.ligands, context);
+  if (decidedBy.includes(-1)) return null;
+
+  // Ligands told apart only by R before S are enantiomorphic: the center is pseudoasymmetric
+  const pseudo = decidedBy.includes(ENANTIOMORPHIC_RULE);
+  const priorities = ranked.map(l => l.label);
+  // Viewed from the lowest-priority ligand, a counter-clockwise 1 → 2 → 3 is clockwise from the front
+  const [a, b, c, d] = ranked.map(l => l.node.atomId);
+  const parity = tetrahedralParity(graph, atomId, [d, a, b, c]);
+  const configuration: StereocenterInfo['configuration'] = parity === 0 ? 'None'
+    : (parity < 0 ? (pseudo ? 'r' : 'R') : (pseudo ? 's' : 'S'));
+  const order = priorities.join(' > ');
+  const rules = [...new Set(decidedBy.filter(r => RULES[r].stereo).map(r => RULES[r].name))];
+  const note = rules.length > 0 ? ` Constitutionally identical ligands are ranked by sequence rule ${rules.join(', ')}${pseudo ? ', so the center is pseudoasymmetric' : ''}.` : '';
+  const logic = parity !== 0
+    ? `CIP priorities: ${order}.${note} With ${priorities[3]} directed away from the viewer, 1 → 2 → 3 runs ${parity < 0 ? 'clockwise' : 'counter-clockwise'}, giving ${configuration}.`
+    : `CIP priorities: ${order}.${note} No wedge or dash bond starts at this atom, so its configuration is unspecified.`;
+  return { atomId, configuration, logic, priorities };
+}
+
+/** Rounds of perception; each can only add descriptors that rules 3–5 of the next one read. */
+const MAX_STEREO_PASSES = 4;
+
+/**
+ * Centers ranked with the constitutional rules first; centers those leave tied are ranked
+ * again with rules 3–5 against the descriptors found so far, until no new descriptor appears.
+ */
+function stereoPerception(molecule: Molecule, graph: MoleculeGraph): { centers: StereocenterInfo[]; context: StereoContext } {
+  const found = new Map<string, StereocenterInfo>();
+  let context = EMPTY_CONTEXT;
+  let pending = molecule.atoms.map(a => a.id);
+  for (let pass = 0; pass < MAX_STEREO_PASSES && pending.length > 0; pass++) {
+    const tied: string[] = [];
+    pending.forEach(id => {
+      const info = centerInfo(graph, id, context);
+      if (info === null) tied.push(id);
+      else if (info) found.set(id, info);
+    });
+    const centers = new Map<string, CenterLabel>();
+    found.forEach(info => { if (info.configuration !== 'None') centers.set(info.atomId, info.configuration); });
+    if (tied.length === 0) {
+      context = { centers, doubles: context.doubles };
+      break;
+    }
+    const doubles = new Map<string, 'E' | 'Z'>();
+    stereoDoubleBonds(molecule, graph).forEach(bond => {
+      const geometry = doubleGeometry(graph, bond, context);
+      if (geometry?.descriptor === 'E' || geometry?.descriptor === 'Z') doubles.set(pairKey(bond.from, bond.to), geometry.descriptor);
+    });
+    const grew = centers.size > context.centers.size || doubles.size > context.doubles.size;
+    context = { centers, doubles };
+    if (!grew) break;
+    pending = tied;
+  }
+  return { centers: molecule.atoms.flatMap(a => found.get(a.id) ?? []), context };
+}
+
+/**
+ * Deterministic Cahn–Ingold–Prelog perception over the drawn molecular graph.
+ * Ligands are ranked with the hierarchical digraph (duplicate atoms for rings and
+ * multiple bonds, sphere-by-sphere exploration) under rules 1a, 1b, 2, 3, 4a–c and 5,
+ * and the descriptor is read from wedge/dash bonds whose narrow end sits on the stereocenter.
+ */
+export function perceiveStereocenters(molecule: Molecule): StereocenterInfo[] {
+  return stereoPerception(molecule, buildGraph(molecule)).centers;
+}
+
+/**
+ * The two ligands on one end of a double bond or chirality axis, higher CIP priority first.
+ * Implicit hydrogens and the lone pair of an imine nitrogen complete the pair; null when
+ * the end does not carry exactly two ligands or they tie.
+ */
+function rankedPair(graph: MoleculeGraph, endId: string, exclude: string[], context = EMPTY_CONTEXT): [Ligand, Ligand] | null {
+  const node = graph.get(endId)!;
+  const count = node.neighbors.filter(n => !exclude.includes(n.atomId)).length + implicitHydrogens(graph, endId);
+  const digraph = digraphAround(graph, endId, count === 1 && node.atom.element === 'N');
+  const ligands = ligandsOf(graph, digraph, exclude);
+  if (ligands.length !== 2) return null;
+  const { ligands: ranked, decidedBy } = rankLigands(graph, digraph, ligands, context);
+  return decidedBy[0] < 0 ? null : [ranked[0], ranked[1]];
+}
+
+/** Side of the line a → b that `x` is drawn on: 1, -1, or 0 on the line. */
+const sideOf = (graph: MoleculeGraph, a: string, b: string, x: string) => {
+  const [pa, pb, px] = [a, b, x].map(id => graph.get(id)!.atom);
+  return Math.sign((pb.x - pa.x) * (px.y - pa.y) - (pb.y - pa.y) * (px.x - pa.x));
+};
+
+/** Whether both ligands on `endId` besides `partner` are heavy atoms, the only ends rules 3–5 can separate. */
+const twinBranches = (graph: MoleculeGraph, endId: string, partner: string) => {
+  const others = graph.get(endId)!.neighbors.filter(n => n.atomId !== partner);
+  return others.length === 2 && others.every(n => graph.get(n.atomId)!.atom.element !== 'H');
+};
+
+/** C=C and C=N bonds outside rings of up to seven atoms and not part of a cumulene. */
+function stereoDoubleBonds(molecule: Molecule, graph: MoleculeGraph): Bond[] {
+  const smallRingBonds = new Set(findRings(graph).filter(ring => ring.length <= 7)
+    .flatMap(ring => ring.map((id, k) => pairKey(id, ring[(k + 1) % ring.length]))));
+  return molecule.bonds.filter(bond => {
+    if (bond.type !== 'double' || smallRingBonds.has(pairKey(bond.from, bond.to))) return false;
+    const ends = [bond.from, bond.to];
+    if (ends.some(id => !['C', 'N'].includes(graph.get(id)!.atom.element))) return false;
+    return !ends.some((id, k) => graph.get(id)!.neighbors.some(n => n.atomId !== ends[1 - k] && n.order > 1));
+  });
+}
+
+/** E/Z of a double bond from the drawn sides of the top-ranked ligands; null when an end has no ranking. */
+function doubleGeometry(graph: MoleculeGraph, bond: Bond, context: StereoContext): { pairs: [[Ligand, Ligand], [Ligand, Ligand]]; descriptor: 'E' | 'Z' | 'None' } | null {
+  const ends = [bond.from, bond.to];
+  const [first, second] = ends.map((id, k) => rankedPair(graph, id, [ends[1 - k]], context));
+  if (!first || !second) return null;
+  const top = [first[0].node.atomId, second[0].node.atomId];
+  if (!top[0] || !top[1]) return null;
+  const sides = [sideOf(graph, bond.from, bond.to, top[0]), sideOf(graph, bond.from, bond.to, top[1])];
+  return { pairs: [first, second], descriptor: sides.includes(0) ? 'None' : (sides[0] === sides[1] ? 'Z' : 'E') };
+}
+
+/** Depth a wedge or dash gives `id` relative to `origin`: +1 toward the viewer, -1 away, 0 in plane. */
+const bondDepth = (graph: MoleculeGraph, origin: string, id: string): number => {
+  const bond = graph.get(origin)!.neighbors.find(n => n.atomId === id)?.bond;
+  if (!bond || (bond.type !== 'wedge' && bond.type !== 'dash')) return 0;
+  const toward = bond.type === 'wedge' ? 1 : -1;
+  return bond.from === origin ? toward : -toward;
+};
+
+/**
+ * Ra/Sa of a chirality axis by the elongated-tetrahedron rule: the ligands on `ends[0]`
+ * outrank those on `ends[1]`, and the result is read like R/S. Ligand directions come from
+ * the drawing with wedge/dash depth (`depth`); an implicit hydrogen mirrors its partner
+ * through the axis. Returns null when the drawing leaves every ligand in the plane.
+ */
+function axialConfiguration(
+  graph: MoleculeGraph,
+  ends: [string, string],
+  pairs: [[Ligand, Ligand], [Ligand, Ligand]],
+  depth: (end: string, id: string) => number,
+): 'Ra' | 'Sa' | null {
+  const [first, second] = ends.map(id => graph.get(id)!.atom);
+  const mid = { x: (first.x + second.x) / 2, y: (first.y + second.y) / 2 };
+  const points: Vec3[] = [];
+  let flat = true;
+  ends.forEach((end, k) => {
+    const origin = graph.get(end)!.atom;
+    const ax = origin.x - mid.x, ay = -(origin.y - mid.y);
+    const axisLength = Math.hypot(ax, ay) || 1;
+    const axis: Vec3 = [ax / axisLength, ay / axisLength, 0];
+    const direction = (id: string): Vec3 => {
+      const atom = graph.get(id)!.atom;
+      const dx = atom.x - origin.x, dy = -(atom.y - origin.y);
+      const length = Math.hypot(dx, dy) || 1;
+      const z = depth(end, id);
+      if (z !== 0) flat = false;
+      return [dx / length, dy / length, z];
+    };
+    const [a, b] = pairs[k];
+    const known = a.node.atomId ?? b.node.atomId!;
+    const u = direction(known);
+    const along = 2 * dot(u, axis);
+    const mirrored: Vec3 = [along * axis[0] - u[0], along * axis[1] - u[1], along * axis[2] - u[2]];
+    [a, b].forEach(ligand => {
+      const v = ligand.node.atomId === known ? u : (ligand.node.atomId ? direction(ligand.node.atomId) : mirrored);
+      points.push([axis[0] + v[0], axis[1] + v[1], axis[2] + v[2]]);
+    });
+  });
+  if (flat) return null;
+  const [a1, a2, b1, b2] = points;
+  const volume = dot(sub(a1, b2), cross(sub(a2, b2), sub(b1, b2)));
+  if (Math.abs(volume) < 1e-6) return null;
+  return volume < 0 ? 'Ra' : 'Sa';
+}
+
+/** Descriptor entry for a chirality axis, with the priorities it was read from. */
+const axisInfo = (
+  ends: [string, string],
+  pairs: [[Ligand, Ligand], [Ligand, Ligand]],
+  configuration: 'Ra' | 'Sa' | null,
+  kind: 'allene' | 'biaryl',
+): StereoBondInfo => {
+  const order = `${pairs[0][0].label} > ${pairs[0][1].label} (near) > ${pairs[1][0].label} > ${pairs[1][1].label} (far)`;
+  return {
+    kind: 'axis',
+    atomIds: ends,
+    descriptor: configuration || 'None',
+    logic: configuration
+      ? `Chiral ${kind} axis. Priorities: ${order}. Viewed along the axis, 1 → 2 → 3 runs ${configuration === 'Ra' ? 'clockwise' : 'counter-clockwise'}, giving ${configuration}.`
+      : `Chiral ${kind} axis. Priorities: ${order}. Draw one end's ligands with a wedge and a dash to fix Ra/Sa.`,
+  };
+};
+
+/**
+ * Stereo descriptors beyond tetrahedral centers, read from the 2D drawing: E/Z of double
+ * bonds outside small rings (CIP priorities on each end), cis/trans between consecutive
+ * substituted atoms of saturated rings (wedge/dash faces), and Ra/Sa of allenes and of
+ * biaryl axes with at least three ortho substituents.
+ */
+export function perceiveStereoBonds(molecule: Molecule): StereoBondInfo[] {
+  const graph = buildGraph(molecule);
+  const rings = findRings(graph);
+  const result: StereoBondInfo[] = [];
+  const atom = (id: string) => graph.get(id)!.atom;
+  const ringBonds = new Set(rings.flatMap(ring => ring.map((id, k) => pairKey(id, ring[(k + 1) % ring.length]))));
+
+  // E/Z: the higher-priority ligands on the same side of the bond are Z. Ends whose ligands
+  // differ only in configuration need the stereocenter descriptors, found only when needed
+  let context: StereoContext | null = null;
+  stereoDoubleBonds(molecule, graph).forEach(bond => {
+    let geometry = doubleGeometry(graph, bond, EMPTY_CONTEXT);
+    if (!geometry && [bond.from, bond.to].some((id, k) => twinBranches(graph, id, k === 0 ? bond.to : bond.from))) {
+      context = context ?? stereoPerception(molecule, graph).context;
+      geometry = doubleGeometry(graph, bond, context);
+    }
+    if (!geometry) return;
+    const { pairs: [first, second], descriptor } = geometry;
+    const priorities = `${first[0].label} > ${first[1].label} on ${atom(bond.from).element} (${bond.from}); ${second[0].label} > ${second[1].label} on ${atom(bond.to).element} (${bond.to})`;
+    result.push({
+      kind: 'double',
+      atomIds: [bond.from, bond.to],
+      descriptor,
+      logic: descriptor === 'None'
+        ? `CIP priorities: ${priorities}. A top-priority ligand is drawn in line with the double bond, so the geometry is unspecified.`
+        : `CIP priorities: ${priorities}. The higher-priority ligands lie on ${descriptor === 'Z' ? 'the same side (zusammen)' : 'opposite sides (entgegen)'}, giving ${descriptor}.`,
+    });
+  });
+
+  // Ring cis/trans between consecutive substituted atoms, compared by their wedge/dash faces
+  const seenPairs = new Set<string>();
+  rings.forEach(ring => {
+    const n = ring.length;
+    const substituted = ring.flatMap((id, k) => {
+      const node = graph.get(id)!;
+      if (node.neighbors.some(x => x.order !== 1) || node.neighbors.length + implicitHydrogens(graph, id) !== 4) return [];
+      const around: [string, string] = [ring[(k + n - 1) % n], ring[(k + 1) % n]];
+      // Substituents come from outside the ring system: at fusion and bridgehead atoms the
+      // neighbour in the other ring is not one (cubane and adamantane have none)
+      const exocyclic = node.neighbors
+        .filter(x => !ringBonds.has(pairKey(id, x.atomId)) && atom(x.atomId).element !== 'H')
+        .map(x => x.atomId);
+      if (exocyclic.length === 0) return [];
+      let reference = exocyclic[0];
+      if (exocyclic.length === 2) {
+        const ranked = rankedPair(graph, id, around);
+        if (!ranked) return [];
+        reference = ranked[0].node.atomId!;
+      }
+      const other = node.neighbors.find(x => !around.includes(x.atomId) && x.atomId !== reference)?.atomId ?? null;
+      return [{ id, reference, face: ringFace(graph, id, around, reference, other) }];
+    });
+    if (substituted.length < 2) return;
+    substituted.forEach((a, k) => {
+      const b = substituted[(k + 1) % substituted.length];
+      const key = [a.id, b.id].sort().join('|');
+      if (a === b || seenPairs.has(key)) return;
+      seenPairs.add(key);
+      const descriptor = a.face === 0 || b.face === 0 ? 'None' : (a.face === b.face ? 'cis' : 'trans');
+      const groups = `${ligandLabel(atom(a.reference))} on ${atom(a.id).element} (${a.id}) and ${ligandLabel(atom(b.reference))} on ${atom(b.id).element} (${b.id})`;
+      result.push({
+        kind: 'ring',
+        atomIds: [a.id, b.id],
+        descriptor,
+        logic: descriptor === 'None'
+          ? `Ring substituents ${groups}: no wedge or dash fixes ${a.face === 0 && b.face === 0 ? 'either face' : 'one of the faces'}, so the relation is unspecified.`
+          : `Ring substituents ${groups} sit on ${descriptor === 'cis' ? 'the same face' : 'opposite faces'} of the ring, giving ${descriptor}.`,
+      });
+    });
+  });
+
+  // Allenes: C=C=C with two different ligands on each terminal carbon
+  graph.forEach((node, centerId) => {
+    if (node.atom.element !== 'C' || node.neighbors.length !== 2 || node.neighbors.some(n => n.order !== 2)) return;
+    const ends = node.neighbors.map(n => n.atomId) as [string, string];
+    if (ends.some(id => atom(id).element !== 'C' || graph.get(id)!.neighbors.some(n => n.atomId !== centerId && n.order !== 1))) return;
+    const pairs = ends.map(id => rankedPair(graph, id, [centerId]));
+    if (!pairs[0] || !pairs[1]) return;
+    const configuration = axialConfiguration(graph, ends, pairs as [[Ligand, Ligand], [Ligand, Ligand]], (end, id) => bondDepth(graph, end, id));
+    result.push(axisInfo(ends, pairs as [[Ligand, Ligand], [Ligand, Ligand]], configuration, 'allene'));
+  });
+
+  // Biaryls: a single bond between two sp2 ring atoms with at least three substituted ortho positions
+  molecule.bonds.forEach(bond => {
+    if (bond.type !== 'single' || ringBonds.has(pairKey(bond.from, bond.to))) return;
+    const ends: [string, string] = [bond.from, bond.to];
+    const pivots = ends.every(id => {
+      const node = graph.get(id)!;
+      return node.neighbors.length === 3 && node.neighbors.some(n => n.order === 2 && ringBonds.has(pairKey(id, n.atomId)));
+    });
+    if (!pivots) return;
+    const ortho = ends.flatMap((id, k) => graph.get(id)!.neighbors.filter(n => n.atomId !== ends[1 - k]).map(n => n.atomId));
+    if (ortho.filter(id => graph.get(id)!.neighbors.filter(n => atom(n.atomId).element !== 'H').length >= 3).length < 3) return;
+    const pairs = ends.map((id, k) => rankedPair(graph, id, [ends[1 - k]]));
+    if (!pairs[0] || !pairs[1]) return;
+    // Atropisomers are usually drawn with a wedge on an ortho substituent rather than the ring bond
+    const depth = (end: string, id: string) => bondDepth(graph, end, id) || (graph.get(id)!.neighbors
+      .filter(n => n.atomId !== end && (n.bond.type === 'wedge' || n.bond.type === 'dash') && n.bond.from === id)
+      .map(n => (n.bond.type === 'wedge' ? 1 : -1))[0] ?? 0);
+    const configuration = axialConfiguration(graph, ends, pairs as [[Ligand, Ligand], [Ligand, Ligand]], depth);
+    result.push(axisInfo(ends, pairs as [[Ligand, Ligand], [Ligand, Ligand]], configuration, 'biaryl'));
+  });
+
+  return result;
+}
+
+/**
+ * Keeps the locally perceived stereocenters authoritative and attaches the AI-written
+ * reasoning for the same atom as a secondary explanation.
+ */
+export function attachExplanations(local: StereocenterInfo[], ai: StereocenterInfo[] | undefined): StereocenterInfo[] {
+  const byAtom = new Map((Array.isArray(ai) ? ai : []).map(sc => [String(sc.atomId), sc]));
+  return local.map(sc => {
+    const match = byAtom.get(sc.atomId);
+    return match?.logic ? { ...sc, explanation: String(match.logic) } : sc;
+  });
+}
@@ -0,0 +1,1052 @@
+import { Molecule } from "../types";
+import { buildGraph, findRings, MoleculeGraph } from "./graphService";
+import { drawnStereoTargets } from "./cipService";
+import { computeVsepr } from "./vseprService";
+import { fillHydrogens } from "./hydrogenService";
+import { writeMolfile } from "./molfileService";
+
+export type Vec3 = [number, number, number];
+
+export interface Conformer {
+  /** The input structure with every hydrogen explicit, in the atom order of `positions`. */
+  molecule: Molecule;
+  /** Ångström coordinates keyed by atom id. */
+  positions: Map<string, Vec3>;
+  /** Force-field energy in kcal/mol. */
+  energy: number;
+}
+
+export interface EmbedOptions {
+  seed?: number;
+  /** Independent embeddings; the lowest-energy stereo-correct one is kept. */
+  attempts?: number;
+}
+
+/** Single-bond covalent radii (Å); bond lengths shrink with order. */
+const COVALENT_RADII: Record<string, number> = {
+  H: 0.33, B: 0.84, C: 0.76, N: 0.71, O: 0.66, F: 0.57, Si: 1.11, P: 1.07, S: 1.05,
+  Cl: 0.99, Br: 1.14, I: 1.33,
+};
+
+const ORDER_SCALE = [1, 1, 0.87, 0.78];
+
+/** UFF van der Waals distance (Å) and well depth (kcal/mol). */
+const VDW: Record<string, [number, number]> = {
+  H: [2.886, 0.044], B: [4.083, 0.18], C: [3.851, 0.105], N: [3.66, 0.069], O: [3.5, 0.06],
+  F: [3.364, 0.05], Si: [4.295, 0.402], P: [4.147, 0.305], S: [4.035, 0.274],
+  Cl: [3.947, 0.227], Br: [4.189, 0.251], I: [4.5, 0.339],
+};
+
+const IDEAL_ANGLES: Record<string, number> = {
+  'Linear': 180,
+  'Trigonal Planar': 120,
+  'Tetrahedral': 109.47,
+};
+
+const BOND_K = 700;
+const ANGLE_K = 120;
+const IMPROPER_K = 20;
+const CHIRAL_VOLUME = 1.0;
+const UNBOUNDED = 1000;
+const EMBED_RESTARTS = 10;
+const EMBED_TOLERANCE = 0.01;
+const CHAIR_COSINE = Math.cos(55 * Math.PI / 180);
+
+interface BondTerm { i: number; j: number; r0: number }
+interface AngleTerm { i: number; j: number; k: number; c0: number; mode: 'cosine' | 'linear' | 'octahedral' }
+interface TorsionTerm { i: number; j: number; k: number; l: number; v: number; n: number; phase: number }
+interface ImproperTerm { c: number; a: number; b: number; d: number }
+interface PairTerm { i: number; j: number; rmin: number; eps: number }
+interface ChiralTerm { c: number; ligands: [number, number, number, number]; parity: number }
+interface DoubleBondTerm { i: number; l: number; cis: number; trans: number; wantCis: boolean }
+
+interface Setup {
+  molecule: Molecule;
+  ids: string[];
+  lower: Float64Array;
+  upper: Float64Array;
+  chirals: ChiralTerm[];
+  doubleBonds: DoubleBondTerm[];
+  chairTorsions: Array<[number, number, number, number]>;
+  field: ForceField;
+}
+
+export interface ForceField {
+  bonds: BondTerm[];
+  angles: AngleTerm[];
+  torsions: TorsionTerm[];
+  impropers: ImproperTerm[];
+  pairs: PairTerm[];
+}
+
+/** Deterministic PRNG so the same seed reproduces the same geometry. */
+export function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const radius = (element: string) => COVALENT_RADII[element] ?? 1.2;
+const vdw = (element: string) => VDW[element] ?? [4.0, 0.1];
+const toRadians = (deg: number) => deg * Math.PI / 180;
+
+/**
+ * Ideal valence angle (degrees) at every atom. Heteroatoms with a lone pair next to a
+ * π system are treated as planar (amides, anilines, esters), as UFF's resonant types do.
+ * Hypervalent centers return null and use the octahedral angle term instead.
+ */
+function idealAngles(molecule: Molecule, graph: MoleculeGraph): Map<string, number | null> {
+  const vsepr = computeVsepr(molecule);
+  const angles = new Map<string, number | null>();
+  graph.forEach((_, id) => {
+    const info = vsepr[id];
+    angles.set(id, info ? (IDEAL_ANGLES[info.electronicGeometry] ?? null) : 180);
+  });
+  graph.forEach((node, id) => {
+    const { element } = node.atom;
+    if ((element !== 'N' && element !== 'O') || angles.get(id) !== 109.47 || node.neighbors.length > 3) return;
+    const conjugated = node.neighbors.some(n => graph.get(n.atomId)!.neighbors.some(m => m.order > 1));
+    if (conjugated) angles.set(id, 120);
+  });
+  return angles;
+}
+
+/** Distance between the ends of a–b–c for bond lengths r1, r2 and angle θ at b. */
+const lawOfCosines = (r1: number, r2: number, theta: number) =>
+  Math.sqrt(r1 * r1 + r2 * r2 - 2 * r1 * r2 * Math.cos(toRadians(theta)));
+
+/** 1–4 distance of a chain with bond lengths r1..r3, angles t1, t2 and dihedral φ. */
+function dihedralDistance(r1: number, r2: number, r3: number, t1: number, t2: number, phi: number): number {
+  const a1 = toRadians(t1);
+  const a2 = toRadians(t2);
+  const ix = r1 * Math.cos(a1), iy = r1 * Math.sin(a1);
+  const lx = r2 - r3 * Math.cos(a2), ly = r3 * Math.sin(a2) * Math.cos(phi), lz = r3 * Math.sin(a2) * Math.sin(phi);
+  return Math.hypot(lx - ix, ly - iy, lz);
+}
+
+/** Which side of the a→b line (canvas frame) point p lies on. */
+const side = (a: { x: number; y: number }, b: { x: number; y: number }, p: { x: number; y: number }) =>
+  Math.sign((b.x - a.x) * (p.y - a.y) - (b.y - a.y) * (p.x - a.x));
+
+function prepare(input: Molecule): Setup {
+  const molecule = fillHydrogens(input);
+  const graph = buildGraph(molecule);
+  const ids = molecule.atoms.map(a => a.id);
+  const index = new Map(ids.map((id, k) => [id, k]));
+  const n = ids.length;
+  const element = (i: number) => molecule.atoms[i].element;
+  const angles = idealAngles(molecule, graph);
+  const neighbors = ids.map(id => graph.get(id)!.neighbors.map(nb => index.get(nb.atomId)!));
+  const orderOf = new Map<string, number>();
+  const key = (i: number, j: number) => (i < j ? `${i}|${j}` : `${j}|${i}`);
+  graph.forEach((node, id) => node.neighbors.forEach(nb => orderOf.set(key(index.get(id)!, index.get(nb.atomId)!), nb.order)));
+  const bondLength = (i: number, j: number) => (radius(element(i)) + radius(element(j))) * ORDER_SCALE[orderOf.get(key(i, j)) ?? 1];
+
+  const inRing3 = new Set<string>();
+  const inRing4 = new Set<string>();
+  const inRing5 = new Set<string>();
+  const ring5Neighbors = new Map<number, Set<number>>();
+  // Saturated six-membered rings: torsions near ±55° so embeddings start as chairs
+  const chairTorsions: Array<[number, number, number, number]> = [];
+  findRings(graph).forEach(ring => {
+    const cyclic = ring.map(id => index.get(id)!);
+    if (ring.length === 6 && ring.every(id => angles.get(id) === 109.47)) {
+      cyclic.forEach((i, p) => chairTorsions.push([i, cyclic[(p + 1) % 6], cyclic[(p + 2) % 6], cyclic[(p + 3) % 6]]));
+    }
+    cyclic.forEach((j, p) => {
+      const i = cyclic[(p + cyclic.length - 1) % cyclic.length];
+      const k = cyclic[(p + 1) % cyclic.length];
+      if (ring.length === 3) inRing3.add(`${key(i, k)}@${j}`);
+      if (ring.length === 4) inRing4.add(`${key(i, k)}@${j}`);
+      if (ring.length === 5) {
+        inRing5.add(`${key(i, k)}@${j}`);
+        if (!ring5Neighbors.has(j)) ring5Neighbors.set(j, new Set());
+        ring5Neighbors.get(j)!.add(i).add(k);
+      }
+    });
+  });
+  const angleAt = (i: number, j: number, k: number): number | null => {
+    if (inRing3.has(`${key(i, k)}@${j}`)) return 60;
+    if (inRing4.has(`${key(i, k)}@${j}`)) return 90;
+    const ideal = angles.get(ids[j]) ?? null;
+    if (ideal === 109.47 && inRing5.has(`${key(i, k)}@${j}`)) return 105;
+    // Planar five-membered rings (pyrrole, imidazole, furan) close at 108°, leaving 126° outside
+    if (ideal === 120 && ring5Neighbors.has(j)) {
+      if (inRing5.has(`${key(i, k)}@${j}`)) return 108;
+      const inside = ring5Neighbors.get(j)!;
+      if (inside.has(i) !== inside.has(k)) return 126;
+    }
+    return ideal;
+  };
+
+  const lower = new Float64Array(n * n);
+  const upper = new Float64Array(n * n).fill(UNBOUNDED);
+  const topological = new Int32Array(n * n).fill(99);
+  const setBounds = (i: number, j: number, lo: number, hi: number) => {
+    lower[i * n + j] = lower[j * n + i] = lo;
+    upper[i * n + j] = upper[j * n + i] = hi;
+  };
+  for (let i = 0; i < n; i++) { upper[i * n + i] = 0; topological[i * n + i] = 0; }
+
+  const field: ForceField = { bonds: [], angles: [], torsions: [], impropers: [], pairs: [] };
+  const doubleBonds: DoubleBondTerm[] = [];
+
+  // 1–2
+  for (let i = 0; i < n; i++) {
+    neighbors[i].forEach(j => {
+      if (j < i) return;
+      const r0 = bondLength(i, j);
+      setBounds(i, j, r0 - 0.01, r0 + 0.01);
+      topological[i * n + j] = topological[j * n + i] = 1;
+      field.bonds.push({ i, j, r0 });
+    });
+  }
+
+  // 1–3
+  for (let j = 0; j < n; j++) {
+    const around = neighbors[j];
+    for (let p = 0; p < around.length; p++) {
+      for (let q = p + 1; q < around.length; q++) {
+        const i = around[p], k = around[q];
+        const theta = angleAt(i, j, k);
+        if (theta === null) {
+          field.angles.push({ i, j, k, c0: 0, mode: 'octahedral' });
+          if (topological[i * n + k] > 2) {
+            setBounds(i, k, lawOfCosines(bondLength(i, j), bondLength(j, k), 85), lawOfCosines(bondLength(i, j), bondLength(j, k), 180));
+          }
+        } else {
+          field.angles.push({ i, j, k, c0: Math.cos(toRadians(theta)), mode: theta > 170 ? 'linear' : 'cosine' });
+          if (topological[i * n + k] > 2) {
+            const d = lawOfCosines(bondLength(i, j), bondLength(j, k), theta);
+            setBounds(i, k, d - 0.04, d + 0.04);
+          }
+        }
+        if (topological[i * n + k] > 2) topological[i * n + k] = topological[k * n + i] = 2;
+      }
+    }
+  }
+
+  // 1–4 and torsions around every bond
+  const sp2 = (i: number) => angles.get(ids[i]) === 120;
+  field.bonds.forEach(({ i: j, j: k }) => {
+    const order = orderOf.get(key(j, k)) ?? 1;
+    const a = molecule.atoms[j], b = molecule.atoms[k];
+    const around: TorsionTerm[] = [];
+    neighbors[j].forEach(i => {
+      if (i === k) return;
+      neighbors[k].forEach(l => {
+        if (l === j || l === i) return;
+        const t1 = angleAt(i, j, k) ?? 90, t2 = angleAt(j, k, l) ?? 90;
+        const r1 = bondLength(i, j), r2 = bondLength(j, k), r3 = bondLength(k, l);
+        const cis = dihedralDistance(r1, r2, r3, t1, t2, 0);
+        const trans = dihedralDistance(r1, r2, r3, t1, t2, Math.PI);
+        if (topological[i * n + l] > 3) {
+          let lo = cis, hi = trans;
+          if (order === 2) {
+            // Double bond geometry comes from the drawing: same side of the bond axis is cis
+            const s = side(a, b, molecule.atoms[i]) * side(a, b, molecule.atoms[l]);
+            if (s > 0) hi = cis + 0.1;
+            if (s < 0) lo = trans - 0.1;
+            if (s !== 0) doubleBonds.push({ i, l, cis, trans, wantCis: s > 0 });
+          }
+          setBounds(i, l, lo - 0.01, hi + 0.01);
+          topological[i * n + l] = topological[l * n + i] = 3;
+        }
+        if (order === 3 || angles.get(ids[j]) === 180 || angles.get(ids[k]) === 180) return;
+        if (order === 2) around.push({ i, j, k, l, v: 60, n: 2, phase: 1 });
+        else if (sp2(j) && sp2(k)) around.push({ i, j, k, l, v: 5, n: 2, phase: 1 });
+        else if (sp2(j) || sp2(k)) around.push({ i, j, k, l, v: 1, n: 6, phase: 1 });
+        else around.push({ i, j, k, l, v: 2.1, n: 3, phase: -1 });
+      });
+    });
+    // As in UFF the barrier belongs to the bond and is shared by all torsions about it
+    around.forEach(term => field.torsions.push({ ...term, v: term.v / around.length }));
+  });
+
+  // Nonbonded: van der Waals contact as the lower bound, shortest path as the upper
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      const [ri, ei] = vdw(element(i));
+      const [rj, ej] = vdw(element(j));
+      const rmin = Math.sqrt(ri * rj);
+      if (topological[i * n + j] > 3) setBounds(i, j, rmin * 0.5 + (element(i) === 'H' || element(j) === 'H' ? 0.3 : 0.6), UNBOUNDED);
+      if (topological[i * n + j] >= 3) {
+        const eps = Math.sqrt(ei * ej) * (topological[i * n + j] === 3 ? 0.5 : 1);
+        field.pairs.push({ i, j, rmin, eps });
+      }
+    }
+  }
+  for (let k = 0; k < n; k++) {
+    for (let i = 0; i < n; i++) {
+      const ik = upper[i * n + k];
+      if (ik >= UNBOUNDED) continue;
+      for (let j = 0; j < n; j++) {
+        const through = ik + upper[k * n + j];
+        if (through < upper[i * n + j]) upper[i * n + j] = through;
+      }
+    }
+  }
+  for (let p = 0; p < n * n; p++) if (lower[p] > upper[p]) lower[p] = upper[p];
+
+  for (let c = 0; c < n; c++) {
+    if (sp2(c) && neighbors[c].length === 3) {
+      const [a, b, d] = neighbors[c];
+      field.impropers.push({ c, a, b, d });
+    }
+  }
+
+  const chirals: ChiralTerm[] = [];
+  drawnStereoTargets(molecule).forEach(target => {
+    if (target.ordered.some(id => id === null) || target.ordered.length !== 4) return;
+    const ligands = target.ordered.map(id => index.get(id!)!) as [number, number, number, number];
+    chirals.push({ c: index.get(target.atomId)!, ligands, parity: target.parity });
+  });
+
+  return { molecule, ids, lower, upper, chirals, doubleBonds, chairTorsions, field };
+}
+
+// Coordinates are packed per atom with stride `dim`; the embedding runs in 4D, only x, y, z
+// take part in volumes
+const sub = (x: Float64Array, i: number, j: number, dim = 3): Vec3 =>
+  [x[dim * i] - x[dim * j], x[dim * i + 1] - x[dim * j + 1], x[dim * i + 2] - x[dim * j + 2]];
+const dot = (u: Vec3, v: Vec3) => u[0] * v[0] + u[1] * v[1] + u[2] * v[2];
+const cross = (u: Vec3, v: Vec3): Vec3 => [u[1] * v[2] - u[2] * v[1], u[2] * v[0] - u[0] * v[2], u[0] * v[1] - u[1] * v[0]];
+const addTo = (g: Float64Array, i: number, v: Vec3, s: number, dim = 3) => {
+  g[dim * i] += v[0] * s; g[dim * i + 1] += v[1] * s; g[dim * i + 2] += v[2] * s;
+};
+
+/** Signed volume spanned by the four ligands of a center, in CIP-parity order. */
+function chiralVolume(x: Float64Array, term: ChiralTerm, grad?: Float64Array, scale = 0, dim = 3): number {
+  const [l0, l1, l2, l3] = term.ligands;
+  const u = sub(x, l1, l0, dim), v = sub(x, l2, l0, dim), w = sub(x, l3, l0, dim);
+  const volume = dot(u, cross(v, w));
+  if (grad && scale !== 0) {
+    const du = cross(v, w), dv = cross(w, u), dw = cross(u, v);
+    addTo(grad, l1, du, scale, dim); addTo(grad, l2, dv, scale, dim); addTo(grad, l3, dw, scale, dim);
+    addTo(grad, l0, [du[0] + dv[0] + dw[0], du[1] + dv[1] + dw[1], du[2] + dv[2] + dw[2]], -scale, dim);
+  }
+  return volume;
+}
+
+/**
+ * Dihedral angle i–j–k–l in radians, or null when three of the atoms are collinear.
+ * With `grad`, adds `scale` · ∂φ/∂x for all four atoms.
+ */
+function dihedral(x: Float64Array, i: number, j: number, k: number, l: number, grad?: Float64Array, scale = 0, dim = 3): number | null {
+  const b1 = sub(x, j, i, dim), b2 = sub(x, k, j, dim), b3 = sub(x, l, k, dim);
+  const m = cross(b1, b2), nn = cross(b2, b3);
+  const m2 = dot(m, m), n2 = dot(nn, nn), lb2 = Math.sqrt(dot(b2, b2));
+  if (m2 < 1e-8 || n2 < 1e-8 || lb2 < 1e-6) return null;
+  if (grad && scale !== 0) {
+    const gi: Vec3 = [-lb2 / m2 * m[0], -lb2 / m2 * m[1], -lb2 / m2 * m[2]];
+    const gl: Vec3 = [lb2 / n2 * nn[0], lb2 / n2 * nn[1], lb2 / n2 * nn[2]];
+    const p = dot(b1, b2) / (lb2 * lb2), q = dot(b3, b2) / (lb2 * lb2);
+    const gj: Vec3 = [q * gl[0] - (1 + p) * gi[0], q * gl[1] - (1 + p) * gi[1], q * gl[2] - (1 + p) * gi[2]];
+    const gk: Vec3 = [p * gi[0] - (1 + q) * gl[0], p * gi[1] - (1 + q) * gl[1], p * gi[2] - (1 + q) * gl[2]];
+    addTo(grad, i, gi, scale, dim); addTo(grad, j, gj, scale, dim); addTo(grad, k, gk, scale, dim); addTo(grad, l, gl, scale, dim);
+  }
+  return Math.atan2(lb2 * dot(b1, nn), dot(m, nn));
+}
+
+/**
+ * Distance-geometry error in 4D: squared bound violations, wrong-handed chiral volumes, the
+ * chair preference for saturated six-membered rings (unless `ringBias` is off) and, once
+ * `flatten` is non-zero, a penalty that pulls every atom back into 3D.
+ */
+function boundsError(setup: Setup, x: Float64Array, grad: Float64Array, flatten = 0, ringBias = true): number {
+  const { lower, upper, chirals } = setup;
+  const n = setup.ids.length;
+  grad.fill(0);
+  let error = 0;
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      const dx = x[4 * i] - x[4 * j], dy = x[4 * i + 1] - x[4 * j + 1];
+      const dz = x[4 * i + 2] - x[4 * j + 2], dw = x[4 * i + 3] - x[4 * j + 3];
+      const d2 = dx * dx + dy * dy + dz * dz + dw * dw;
+      const u = upper[i * n + j], l = lower[i * n + j];
+      let dE = 0;
+      if (d2 > u * u) {
+        const t = d2 / (u * u) - 1;
+        error += t * t;
+        dE = 4 * t / (u * u);
+      } else if (d2 < l * l) {
+        const s = l * l + d2;
+        const t = 2 * l * l / s - 1;
+        error += t * t;
+        dE = -8 * t * l * l / (s * s);
+      }
+      if (dE !== 0) {
+        grad[4 * i] += dx * dE; grad[4 * i + 1] += dy * dE; grad[4 * i + 2] += dz * dE; grad[4 * i + 3] += dw * dE;
+        grad[4 * j] -= dx * dE; grad[4 * j + 1] -= dy * dE; grad[4 * j + 2] -= dz * dE; grad[4 * j + 3] -= dw * dE;
+      }
+    }
+  }
+  chirals.forEach(term => {
+    const volume = term.parity * chiralVolume(x, term, undefined, 0, 4);
+    if (volume >= CHIRAL_VOLUME) return;
+    const t = volume - CHIRAL_VOLUME;
+    error += t * t;
+    chiralVolume(x, term, grad, 2 * t * term.parity, 4);
+  });
+  if (ringBias) setup.chairTorsions.forEach(([i, j, k, l]) => {
+    const phi = dihedral(x, i, j, k, l, undefined, 0, 4);
+    if (phi === null) return;
+    const t = Math.cos(phi) - CHAIR_COSINE;
+    error += t * t;
+    dihedral(x, i, j, k, l, grad, -2 * t * Math.sin(phi), 4);
+  });
+  if (flatten > 0) {
+    for (let i = 0; i < n; i++) {
+      error += flatten * x[4 * i + 3] * x[4 * i + 3];
+      grad[4 * i + 3] += 2 * flatten * x[4 * i + 3];
+    }
+  }
+  return error;
+}
+
+/** Force-field energy (kcal/mol) and gradient. */
+export function fieldEnergy(field: ForceField, x: Float64Array, grad: Float64Array): number {
+  grad.fill(0);
+  let energy = 0;
+
+  field.bonds.forEach(({ i, j, r0 }) => {
+    const d = sub(x, i, j);
+    const r = Math.sqrt(dot(d, d)) || 1e-6;
+    const dr = r - r0;
+    energy += 0.5 * BOND_K * dr * dr;
+    const s = BOND_K * dr / r;
+    addTo(grad, i, d, s); addTo(grad, j, d, -s);
+  });
+
+  field.angles.forEach(({ i, j, k, c0, mode }) => {
+    const u = sub(x, i, j), v = sub(x, k, j);
+    const lu = Math.sqrt(dot(u, u)) || 1e-6, lv = Math.sqrt(dot(v, v)) || 1e-6;
+    const c = dot(u, v) / (lu * lv);
+    let dEdc: number;
+    if (mode === 'linear') {
+      energy += ANGLE_K * (1 + c);
+      dEdc = ANGLE_K;
+    } else if (mode === 'octahedral') {
+      // (1 − cos 4θ) / 8 written in cos θ: minima at 90° and 180°
+      energy += ANGLE_K * (c * c - c * c * c * c);
+      dEdc = ANGLE_K * (2 * c - 4 * c * c * c);
+    } else {
+      const k = ANGLE_K / (1 - c0 * c0);
+      energy += k * (c - c0) * (c - c0);
+      dEdc = 2 * k * (c - c0);
+    }
+    const gu: Vec3 = [v[0] / (lu * lv) - c * u[0] / (lu * lu), v[1] / (lu * lv) - c * u[1] / (lu * lu), v[2] / (lu * lv) - c * u[2] / (lu * lu)];
+    const gv: Vec3 = [u[0] / (lu * lv) - c * v[0] / (lv * lv), u[1] / (lu * lv) - c * v[1] / (lv * lv), u[2] / (lu * lv) - c * v[2] / (lv * lv)];
+    addTo(grad, i, gu, dEdc); addTo(grad, k, gv, dEdc);
+    addTo(grad, j, gu, -dEdc); addTo(grad, j, gv, -dEdc);
+  });
+
+  field.torsions.forEach(({ i, j, k, l, v, n, phase }) => {
+    const phi = dihedral(x, i, j, k, l);
+    if (phi === null) return;
+    energy += v / 2 * (1 - phase * Math.cos(n * phi));
+    dihedral(x, i, j, k, l, grad, v / 2 * phase * n * Math.sin(n * phi));
+  });
+
+  field.impropers.forEach(({ c, a, b, d }) => {
+    const term: ChiralTerm = { c, ligands: [c, a, b, d], parity: 1 };
+    const volume = chiralVolume(x, term);
+    energy += IMPROPER_K * volume * volume;
+    chiralVolume(x, term, grad, 2 * IMPROPER_K * volume);
+  });
+
+  field.pairs.forEach(({ i, j, rmin, eps }) => {
+    const dx = x[3 * i] - x[3 * j], dy = x[3 * i + 1] - x[3 * j + 1], dz = x[3 * i + 2] - x[3 * j + 2];
+    const r2 = Math.max(dx * dx + dy * dy + dz * dz, 0.01);
+    const q = rmin * rmin / r2;
+    const s6 = q * q * q;
+    energy += eps * (s6 * s6 - 2 * s6);
+    const s = eps * (-12 * s6 * s6 + 12 * s6) / r2;
+    grad[3 * i] += dx * s; grad[3 * i + 1] += dy * s; grad[3 * i + 2] += dz * s;
+    grad[3 * j] -= dx * s; grad[3 * j + 1] -= dy * s; grad[3 * j + 2] -= dz * s;
+  });
+
+  return energy;
+}
+
+/**
+ * Limited-memory BFGS with a backtracking line search. Minimizes `fn` in place and
+ * returns the final value.
+ */
+export function minimize(x: Float64Array, fn: (x: Float64Array, grad: Float64Array) => number, maxIterations = 500, tolerance = 1e-4): number {
+  const size = x.length;
+  const memory = 8;
+  const s: Float64Array[] = [], y: Float64Array[] = [], rho: number[] = [];
+  let grad = new Float64Array(size);
+  let value = fn(x, grad);
+  const direction = new Float64Array(size);
+  const trial = new Float64Array(size);
+  let trialGrad = new Float64Array(size);
+  const alpha = new Array<number>(memory).fill(0);
+  const vdot = (a: Float64Array, b: Float64Array) => { let t = 0; for (let p = 0; p < size; p++) t += a[p] * b[p]; return t; };
+
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    const gnorm = Math.sqrt(vdot(grad, grad) / Math.max(1, size));
+    if (gnorm < tolerance) break;
+
+    direction.set(grad);
+    for (let h = s.length - 1; h >= 0; h--) {
+      alpha[h] = rho[h] * vdot(s[h], direction);
+      for (let p = 0; p < size; p++) direction[p] -= alpha[h] * y[h][p];
+    }
+    if (s.length > 0) {
+      const last = s.length - 1;
+      const gamma = vdot(s[last], y[last]) / vdot(y[last], y[last]);
+      for (let p = 0; p < size; p++) direction[p] *= gamma;
+    } else {
+      const scale = 0.1 / Math.max(1e-8, Math.sqrt(vdot(grad, grad)));
+      for (let p = 0; p < size; p++) direction[p] *= scale;
+    }
+    for (let h = 0; h < s.length; h++) {
+      const beta = rho[h] * vdot(y[h], direction);
+      for (let p = 0; p < size; p++) direction[p] += s[h][p] * (alpha[h] - beta);
+    }
+    for (let p = 0; p < size; p++) direction[p] = -direction[p];
+
+    let slope = vdot(grad, direction);
+    if (slope >= 0) {
+      // Not a descent direction: restart from steepest descent
+      s.length = 0; y.length = 0; rho.length = 0;
+      for (let p = 0; p < size; p++) direction[p] = -grad[p] * 0.01;
+      slope = vdot(grad, direction);
+    }
+    // Never move an atom more than 0.5 Å in one step
+    let maxStep = 0;
+    for (let p = 0; p < size; p++) maxStep = Math.max(maxStep, Math.abs(direction[p]));
+    let step = maxStep > 0.5 ? 0.5 / maxStep : 1;
+    let trialValue = Infinity;
+    for (let attempt = 0; attempt < 30; attempt++) {
+      for (let p = 0; p < size; p++) trial[p] = x[p] + step * direction[p];
+      trialValue = fn(trial, trialGrad);
+      if (trialValue <= value + 1e-4 * step * slope) break;
+      step *= 0.5;
+    }
+    if (!(trialValue < value)) break;
+
+    const sk = new Float64Array(size), yk = new Float64Array(size);
+    for (let p = 0; p < size; p++) { sk[p] = trial[p] - x[p]; yk[p] = trialGrad[p] - grad[p]; }
+    const sy = vdot(sk, yk);
+    if (sy > 1e-10) {
+      s.push(sk); y.push(yk); rho.push(1 / sy);
+      if (s.length > memory) { s.shift(); y.shift(); rho.shift(); }
+    }
+    x.set(trial);
+    const swap = grad; grad = trialGrad; trialGrad = swap;
+    const converged = value - trialValue < 1e-9 * Math.max(1, Math.abs(value));
+    value = trialValue;
+    if (converged) break;
+  }
+  return value;
+}
+
+/** True when every specified tetrahedral center and double bond came out as drawn. */
+function stereoSatisfied(setup: Setup, x: Float64Array): boolean {
+  if (setup.chirals.some(term => term.parity * chiralVolume(x, term) <= 0)) return false;
+  return setup.doubleBonds.every(({ i, l, cis, trans, wantCis }) => {
+    const d = Math.sqrt(dot(sub(x, i, l), sub(x, i, l)));
+    return (d < (cis + trans) / 2) === wantCis;
+  });
+}
+
+/**
+ * Classical metric-matrix embedding: a random distance between the bounds for every
+ * pair, converted to centroid coordinates whose four largest eigenvectors (power
+ * iteration with deflation) give a start that already resembles the molecule.
+ */
+function metricCoordinates(setup: Setup, random: () => number): Float64Array {
+  const { lower, upper } = setup;
+  const n = setup.ids.length;
+  const box = 2 * Math.cbrt(n) + 1;
+  const d2 = new Float64Array(n * n);
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      const lo = lower[i * n + j];
+      const hi = Math.min(upper[i * n + j], lo + box);
+      const d = lo + random() * (hi - lo);
+      d2[i * n + j] = d2[j * n + i] = d * d;
+    }
+  }
+  let total = 0;
+  const rowMean = new Float64Array(n);
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j < n; j++) rowMean[i] += d2[i * n + j] / n;
+    total += rowMean[i] / n;
+  }
+  const metric = new Float64Array(n * n);
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j < n; j++) metric[i * n + j] = (rowMean[i] + rowMean[j] - total - d2[i * n + j]) / 2;
+  }
+
+  const x = new Float64Array(4 * n);
+  const v = new Float64Array(n), w = new Float64Array(n);
+  for (let axis = 0; axis < 4; axis++) {
+    for (let i = 0; i < n; i++) v[i] = random() - 0.5;
+    let lambda = 0;
+    for (let iteration = 0; iteration < 200; iteration++) {
+      w.fill(0);
+      for (let i = 0; i < n; i++) for (let j = 0; j < n; j++) w[i] += metric[i * n + j] * v[j];
+      const norm = Math.sqrt(w.reduce((t, c) => t + c * c, 0));
+      if (norm < 1e-12) break;
+      lambda = v.reduce((t, c, i) => t + c * w[i], 0);
+      for (let i = 0; i < n; i++) v[i] = w[i] / norm;
+    }
+    const scale = Math.sqrt(Math.max(lambda, 0));
+    for (let i = 0; i < n; i++) x[4 * i + axis] = scale > 0 ? v[i] * scale : (random() - 0.5);
+    for (let i = 0; i < n; i++) for (let j = 0; j < n; j++) metric[i * n + j] -= lambda * v[i] * v[j];
+  }
+  return x;
+}
+
+function embedCoordinates(setup: Setup, random: () => number, ringBias = true): Float64Array {
+  const n = setup.ids.length;
+  let best: Float64Array | null = null;
+  let bestError = Infinity;
+  // A start can still settle into a local minimum of the bounds error (twisted rings,
+  // inverted centers); restart until the bounds are essentially met
+  for (let attempt = 0; attempt < EMBED_RESTARTS && bestError > EMBED_TOLERANCE; attempt++) {
+    const x4 = metricCoordinates(setup, random);
+    // The extra dimension lets atoms slip past each other instead of locking rings and
+    // centers into the wrong shape; it is squeezed out once the bounds are met
+    minimize(x4, (c, g) => boundsError(setup, c, g, 0, ringBias), 1000, 1e-5);
+    const error = minimize(x4, (c, g) => boundsError(setup, c, g, 1, ringBias), 1000, 1e-5);
+    if (error < bestError) { bestError = error; best = x4; }
+  }
+  const x = new Float64Array(3 * n);
+  for (let i = 0; i < n; i++) for (let a = 0; a < 3; a++) x[3 * i + a] = best![4 * i + a];
+  return x;
+}
+
+function toConformer(setup: Setup, x: Float64Array, energy: number): Conformer {
+  const n = setup.ids.length;
+  const centroid: Vec3 = [0, 0, 0];
+  for (let i = 0; i < n; i++) for (let a = 0; a < 3; a++) centroid[a] += x[3 * i + a] / n;
+  const positions = new Map<string, Vec3>();
+  setup.ids.forEach((id, i) => positions.set(id, [x[3 * i] - centroid[0], x[3 * i + 1] - centroid[1], x[3 * i + 2] - centroid[2]]));
+  return { molecule: setup.molecule, positions, energy };
+}
+
+/**
+ * Generates a 3D geometry for any drawn molecule without network access: hydrogens are
+ * made explicit, a distance-geometry embedding honours bond lengths, VSEPR angles, drawn
+ * wedges and double-bond geometry, and a UFF-style force field relaxes the result.
+ * Returns null for an empty canvas.
+ */
+export function embedMolecule(molecule: Molecule, options: EmbedOptions = {}): Conformer | null {
+  if (molecule.atoms.length === 0) return null;
+  const setup = prepare(molecule);
+  const random = seededRandom(options.seed ?? 42);
+  const attempts = options.attempts ?? 3;
+
+  let best: { x: Float64Array; energy: number; ok: boolean } | null = null;
+  for (let attempt = 0; attempt < attempts; attempt++) {
+    const x = embedCoordinates(setup, random);
+    const energy = minimize(x, (c, g) => fieldEnergy(setup.field, c, g), 2000, 1e-3);
+    const ok = stereoSatisfied(setup, x) && Number.isFinite(energy);
+    if (!best || (ok && !best.ok) || (ok === best.ok && energy < best.energy)) best = { x, energy, ok };
+  }
+  return toConformer(setup, best!.x, best!.energy);
+}
+
+/** V2000 SDF record for a conformer, ready for the 3D viewer. */
+export function conformerToSdf(conformer: Conformer, title = ''): string {
+  return writeMolfile(conformer.molecule, 'V2000', title, conformer.positions) + '$$$$\n';
+}
+
+export interface ConformerSearchOptions {
+  /** Conformers returned at most, lowest energy first. */
+  maxConformers?: number;
+  /** Heavy-atom RMSD (Å) below which two geometries count as the same conformer. */
+  rmsdThreshold?: number;
+  /** Conformers more than this many kcal/mol above the minimum are dropped. */
+  energyWindow?: number;
+  seed?: number;
+  /** Wall-clock budget for the search in milliseconds. */
+  timeBudgetMs?: number;
+}
+
+export interface RankedConformer extends Conformer {
+  /** Energy above the global minimum found, kcal/mol. */
+  relativeEnergy: number;
+  /** Short name such as "Chair" or "Anti". */
+  label: string;
+  /** Ring shapes and backbone torsions of this geometry. */
+  description: string;
+}
+
+interface Rotor {
+  /** Heavy-atom torsion i–j–k–l about the rotatable bond j–k. */
+  atoms: [number, number, number, number];
+  /** Atoms on the k side that move when the torsion is driven. */
+  moving: number[];
+  /** Starting dihedrals (degrees) tried for this bond. */
+  steps: number[];
+}
+
+const SYSTEMATIC_LIMIT = 729;
+const STOCHASTIC_ROUNDS = 60;
+
+/** Rotatable bonds: acyclic single bonds with a heavy substituent on both ends. */
+function findRotors(setup: Setup): Rotor[] {
+  const graph = buildGraph(setup.molecule);
+  const index = new Map(setup.ids.map((id, k) => [id, k]));
+  const ringBonds = new Set<string>();
+  findRings(graph).forEach(ring => ring.forEach((id, p) => {
+    const next = ring[(p + 1) % ring.length];
+    ringBonds.add(`${id}|${next}`).add(`${next}|${id}`);
+  }));
+  const heavy = (id: string) => graph.get(id)!.atom.element !== 'H';
+  const planar = new Set(setup.field.impropers.map(t => t.c));
+  const linear = new Set(setup.field.angles.filter(t => t.mode === 'linear').map(t => t.j));
+
+  const rotors: Rotor[] = [];
+  setup.field.bonds.forEach(({ i: j, j: k }) => {
+    const a = setup.ids[j], b = setup.ids[k];
+    const node = graph.get(a)!;
+    if (node.neighbors.find(n => n.atomId === b)!.order !== 1 || ringBonds.has(`${a}|${b}`)) return;
+    if (linear.has(j) || linear.has(k)) return;
+    const before = node.neighbors.find(n => n.atomId !== b && heavy(n.atomId));
+    const after = graph.get(b)!.neighbors.find(n => n.atomId !== a && heavy(n.atomId));
+    if (!before || !after) return;
+
+    const moving: number[] = [];
+    const seen = new Set([a, b]);
+    const stack = [b];
+    while (stack.length > 0) {
+      const id = stack.pop()!;
+      if (id !== b) moving.push(index.get(id)!);
+      graph.get(id)!.neighbors.forEach(n => {
+        if (!seen.has(n.atomId)) { seen.add(n.atomId); stack.push(n.atomId); }
+      });
+    }
+    const flat = (planar.has(j) ? 1 : 0) + (planar.has(k) ? 1 : 0);
+    rotors.push({
+      atoms: [index.get(before.atomId)!, j, k, index.get(after.atomId)!],
+      moving,
+      steps: flat === 2 ? [0, 180] : (flat === 1 ? [0, 90, 180, 270] : [60, 180, 300]),
+    });
+  });
+  return rotors;
+}
+
+/** Rotates the moving side of a rotor so its dihedral becomes `degrees`. */
+function setTorsion(x: Float64Array, rotor: Rotor, degrees: number) {
+  const [i, j, k, l] = rotor.atoms;
+  const current = dihedral(x, i, j, k, l);
+  if (current === null) return;
+  const rotate = (angle: number) => {
+    const axis = sub(x, k, j);
+    const length = Math.sqrt(dot(axis, axis));
+    const [ux, uy, uz] = [axis[0] / length, axis[1] / length, axis[2] / length];
+    const cos = Math.cos(angle), sin = Math.sin(angle);
+    rotor.moving.forEach(m => {
+      const v = sub(x, m, k);
+      const along = ux * v[0] + uy * v[1] + uz * v[2];
+      const c = cross([ux, uy, uz], v);
+      for (let a = 0; a < 3; a++) {
+        const u = [ux, uy, uz][a];
+        x[3 * m + a] = x[3 * k + a] + v[a] * cos + c[a] * sin + u * along * (1 - cos);
+      }
+    });
+  };
+  const delta = toRadians(degrees) - current;
+  rotate(delta);
+  // Rotation sense relative to the dihedral sign convention: undo and go the other way if needed
+  const reached = dihedral(x, i, j, k, l);
+  if (reached !== null && Math.abs(Math.sin((reached - toRadians(degrees)) / 2)) > 1e-3) rotate(-2 * delta);
+}
+
+/**
+ * RMSD after optimal superposition (Horn's quaternion method). Only the largest
+ * eigenvalue of the 4×4 key matrix is needed, found by shifted power iteration.
+ */
+function superposedRmsd(a: Float64Array, b: Float64Array, atoms: number[]): number {
+  const count = atoms.length;
+  const ca = [0, 0, 0], cb = [0, 0, 0];
+  atoms.forEach(i => { for (let d = 0; d < 3; d++) { ca[d] += a[3 * i + d] / count; cb[d] += b[3 * i + d] / count; } });
+  const S = [[0, 0, 0], [0, 0, 0], [0, 0, 0]];
+  let ga = 0, gb = 0;
+  atoms.forEach(i => {
+    const p = [0, 1, 2].map(d => a[3 * i + d] - ca[d]);
+    const q = [0, 1, 2].map(d => b[3 * i + d] - cb[d]);
+    ga += dot(p as Vec3, p as Vec3);
+    gb += dot(q as Vec3, q as Vec3);
+    for (let r = 0; r < 3; r++) for (let c = 0; c < 3; c++) S[r][c] += p[r] * q[c];
+  });
+  const [[xx, xy, xz], [yx, yy, yz], [zx, zy, zz]] = S;
+  const K = [
+    [xx + yy + zz, yz - zy, zx - xz, xy - yx],
+    [yz - zy, xx - yy - zz, xy + yx, zx + xz],
+    [zx - xz, xy + yx, -xx + yy - zz, yz + zy],
+    [xy - yx, zx + xz, yz + zy, -xx - yy + zz],
+  ];
+  const shift = (ga + gb) / 2;
+  let v = [1, 0.1, 0.01, 0.001];
+  let lambda = 0;
+  for (let iteration = 0; iteration < 500; iteration++) {
+    const w = K.map((row, r) => row.reduce((t, c, q) => t + c * v[q], 0) + shift * v[r]);
+    const norm = Math.hypot(...w);
+    if (norm < 1e-12) break;
+    const next = w.map(c => c / norm);
+    const change = Math.hypot(...next.map((c, r) => c - v[r]));
+    v = next;
+    lambda = norm - shift;
+    if (change < 1e-10) break;
+  }
+  return Math.sqrt(Math.max(0, (ga + gb - 2 * lambda) / count));
+}
+
+const ringShape = (torsions: number[]): string => {
+  const abs = torsions.map(Math.abs);
+  if (Math.max(...abs) < 15) return 'planar';
+  if (torsions.length !== 6) return 'puckered';
+  const alternating = torsions.every((t, p) => Math.sign(t) !== Math.sign(torsions[(p + 1) % 6]));
+  if (alternating && Math.min(...abs) > 35) return 'chair';
+  if (abs.filter(t => t < 15).length >= 2) return 'boat';
+  return 'twist-boat';
+};
+
+const torsionName = (degrees: number): string => {
+  const abs = Math.abs(degrees);
+  if (abs >= 150) return 'anti';
+  if (abs >= 90) return 'anticlinal';
+  if (abs >= 30) return 'gauche';
+  return 'eclipsed';
+};
+
+function describe(setup: Setup, x: Float64Array, rotors: Rotor[]): { label: string; description: string } {
+  const graph = buildGraph(setup.molecule);
+  const index = new Map(setup.ids.map((id, k) => [id, k]));
+  const element = (i: number) => setup.molecule.atoms[i].element;
+  const shapes: string[] = [];
+  findRings(graph).forEach(ring => {
+    const cyclic = ring.map(id => index.get(id)!);
+    if (cyclic.length < 5) return;
+    const torsions = cyclic.map((_, p) => {
+      const phi = dihedral(x, cyclic[p], cyclic[(p + 1) % cyclic.length], cyclic[(p + 2) % cyclic.length], cyclic[(p + 3) % cyclic.length]);
+      return phi === null ? 0 : phi * 180 / Math.PI;
+    });
+    const shape = ringShape(torsions);
+    if (shape !== 'planar') shapes.push(`${cyclic.length}-ring ${shape}`);
+  });
+  const backbone = rotors.map(rotor => {
+    const phi = dihedral(x, ...rotor.atoms);
+    const degrees = phi === null ? 0 : phi * 180 / Math.PI;
+    return { path: rotor.atoms.map(element).join('–'), degrees, name: torsionName(degrees) };
+  });
+
+  const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+  const parts = [
+    ...[...new Set(shapes.map(s => s.replace(/^\d+-ring /, '')))],
+    ...(backbone.length <= 2 ? backbone.map(b => b.name) : []),
+  ];
+  const description = [
+    ...shapes,
+    ...backbone.map(b => `${b.path} ${Math.round(b.degrees)}° (${b.name})`),
+  ].join('; ');
+  if (!description) return { label: 'Rigid', description: 'No rotatable bonds or flexible rings' };
+  return { label: parts.length > 0 ? capitalize(parts.join(' · ')) : '', description };
+}
+
+/**
+ * Local conformer search. Acyclic molecules with few rotatable bonds are searched
+ * systematically by driving every torsion through its staggered or planar positions;
+ * flexible rings or too many rotors switch to a stochastic search that re-embeds the
+ * ring and randomizes the torsions. Every candidate is minimized with the force field,
+ * stereo violations are discarded, and near-duplicates are merged by heavy-atom RMSD.
+ */
+export function searchConformers(molecule: Molecule, options: ConformerSearchOptions = {}): RankedConformer[] {
+  if (molecule.atoms.length === 0) return [];
+  const {
+    maxConformers = 10,
+    rmsdThreshold = 0.5,
+    energyWindow = 15,
+    seed = 42,
+    timeBudgetMs = 4000,
+  } = options;
+  const deadline = Date.now() + timeBudgetMs;
+  const setup = prepare(molecule);
+  const random = seededRandom(seed);
+  const rotors = findRotors(setup);
+  const heavyAtoms = setup.molecule.atoms.map((a, i) => (a.element === 'H' ? -1 : i)).filter(i => i >= 0);
+  const compared = heavyAtoms.length >= 3 ? heavyAtoms : setup.ids.map((_, i) => i);
+  const flexibleRing = findRings(buildGraph(setup.molecule)).some(ring =>
+    ring.length >= 5 && ring.some(id => !setup.field.impropers.some(t => setup.ids[t.c] === id)));
+
+  const ringTorsions = findRings(buildGraph(setup.molecule))
+    .map(ring => ring.map(id => setup.ids.indexOf(id)))
+    .flatMap(cyclic => cyclic.map((_, p) => [0, 1, 2, 3].map(q => cyclic[(p + q) % cyclic.length]) as [number, number, number, number]));
+  // Mirror images and symmetry copies (gauche+/gauche−, either axial methyl) superpose
+  // badly atom-for-atom but share the energy and the set of |torsions|
+  const fingerprint = (x: Float64Array) => [...rotors.map(r => r.atoms), ...ringTorsions]
+    .map(t => Math.abs(dihedral(x, ...t) ?? 0) * 180 / Math.PI)
+    .sort((a, b) => a - b);
+  const equivalent = (a: number[], b: number[]) => a.every((t, p) => Math.abs(t - b[p]) < 10);
+
+  const found: Array<{ x: Float64Array; energy: number }> = [];
+  const relax = (x: Float64Array) => {
+    const energy = minimize(x, (c, g) => fieldEnergy(setup.field, c, g), 2000, 1e-3);
+    if (!Number.isFinite(energy) || !stereoSatisfied(setup, x)) return;
+    const twin = found.find(f => superposedRmsd(f.x, x, compared) < rmsdThreshold);
+    if (!twin) found.push({ x, energy });
+    else if (energy < twin.energy) Object.assign(twin, { x, energy });
+  };
+
+  const start = embedCoordinates(setup, random);
+  relax(start.slice());
+  const combinations = rotors.reduce((total, r) => total * r.steps.length, 1);
+
+  if (!flexibleRing && combinations <= SYSTEMATIC_LIMIT) {
+    for (let combo = 0; combo < combinations && Date.now() < deadline; combo++) {
+      const x = start.slice();
+      let rest = combo;
+      rotors.forEach(rotor => {
+        setTorsion(x, rotor, rotor.steps[rest % rotor.steps.length]);
+        rest = Math.floor(rest / rotor.steps.length);
+      });
+      relax(x);
+    }
+  } else {
+    for (let round = 0; round < STOCHASTIC_ROUNDS && Date.now() < deadline; round++) {
+      // Alternate chair-biased and unbiased embeddings so higher ring conformers turn up too
+      const x = flexibleRing ? embedCoordinates(setup, random, round % 2 === 0) : start.slice();
+      rotors.forEach(rotor => {
+        if (random() < 0.5 || !flexibleRing) setTorsion(x, rotor, rotor.steps[Math.floor(random() * rotor.steps.length)]);
+      });
+      relax(x);
+    }
+  }
+
+  if (found.length === 0) return [];
+  found.sort((a, b) => a.energy - b.energy);
+  const unique: Array<{ x: Float64Array; energy: number; print: number[]; copies: number }> = [];
+  found.forEach(({ x, energy }) => {
+    const print = fingerprint(x);
+    const copy = unique.find(u => Math.abs(u.energy - energy) < 0.05 && equivalent(u.print, print));
+    if (copy) copy.copies += 1;
+    else unique.push({ x, energy, print, copies: 1 });
+  });
+
+  const minimum = unique[0].energy;
+  return unique
+    .filter(u => u.energy - minimum <= energyWindow)
+    .slice(0, maxConformers)
+    .map((u, rank) => {
+      const { label, description } = describe(setup, u.x, rotors);
+      return {
+        ...toConformer(setup, u.x, u.energy),
+        relativeEnergy: u.energy - minimum,
+        label: label || `Conformer ${rank + 1}`,
+        description: u.copies > 1 ? `${description}; ${u.copies} equivalent copies (mirror images or symmetry-related)` : description,
+      };
+    });
+}
+
+/**
+ * Wraps existing coordinates (e.g. an SD file from PubChem) as a conformer. Hydrogens the
+ * file leaves implicit are added next to their atom and the geometry is relaxed once so
+ * they settle; complete inputs keep their coordinates untouched.
+ */
+export function conformerFromPositions(molecule: Molecule, positions: Map<string, Vec3>): Conformer {
+  const setup = prepare(molecule);
+  const graph = buildGraph(setup.molecule);
+  const random = seededRandom(7);
+  const x = new Float64Array(3 * setup.ids.length);
+  const missing: number[] = [];
+  setup.ids.forEach((id, i) => {
+    const p = positions.get(id);
+    if (p) x.set(p, 3 * i);
+    else missing.push(i);
+  });
+  missing.forEach(i => {
+    const parent = graph.get(setup.ids[i])!.neighbors[0];
+    const origin = parent ? positions.get(parent.atomId) : undefined;
+    if (!origin) throw new Error("Coordinates are missing for a heavy atom");
+    // Point away from the parent's placed neighbors; jitter separates hydrogens on one atom
+    const away: Vec3 = [0, 0, 0];
+    graph.get(parent.atomId)!.neighbors.forEach(n => {
+      const q = positions.get(n.atomId);
+      if (q) for (let a = 0; a < 3; a++) away[a] += origin[a] - q[a];
+    });
+    for (let a = 0; a < 3; a++) away[a] += random() - 0.5;
+    const length = Math.sqrt(dot(away, away)) || 1;
+    for (let a = 0; a < 3; a++) x[3 * i + a] = origin[a] + away[a] / length * 1.09;
+  });
+
+  const grad = new Float64Array(x.length);
+  const energy = missing.length > 0
+    ? minimize(x, (c, g) => fieldEnergy(setup.field, c, g), 2000, 1e-3)
+    : fieldEnergy(setup.field, x, grad);
+  return toConformer(setup, x, energy);
+}
+
+export interface TorsionScanPoint {
+  /** Dihedral angle in degrees, −180 to 180. */
+  dihedral: number;
+  /** Energy above the lowest point of the scan, kcal/mol. */
+  energy: number;
+}
+
+const SCAN_RELAX_LIMIT = 60;
+const SCAN_RESTRAINT_K = 500;
+
+/**
+ * Energy profile for rotation about the j–k bond of `torsion` (atom ids i, j, k, l).
+ * Each point rotates the k side of the conformer to the target dihedral; molecules of up
+ * to SCAN_RELAX_LIMIT atoms are then relaxed with the dihedral restrained, larger ones are
+ * scanned rigidly. Returns an empty profile for ring bonds, which cannot rotate freely.
+ */
+export function scanTorsion(conformer: Conformer, torsion: [string, string, string, string], stepDegrees = 10): TorsionScanPoint[] {
+  const setup = prepare(conformer.molecule);
+  const graph = buildGraph(setup.molecule);
+  const index = new Map(setup.ids.map((id, k) => [id, k]));
+  const atoms = torsion.map(id => index.get(id)) as [number, number, number, number];
+  if (atoms.some(i => i === undefined)) throw new Error("Torsion atoms are not part of the conformer");
+
+  const [, j, k] = torsion;
+  const moving: number[] = [];
+  const seen = new Set([k]);
+  const stack = [k];
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    for (const n of graph.get(id)!.neighbors) {
+      if (id === k && n.atomId === j) continue;
+      if (n.atomId === j) return [];
+      if (!seen.has(n.atomId)) { seen.add(n.atomId); moving.push(index.get(n.atomId)!); stack.push(n.atomId); }
+    }
+  }
+
+  const base = new Float64Array(3 * setup.ids.length);
+  setup.ids.forEach((id, i) => base.set(conformer.positions.get(id)!, 3 * i));
+  const rotor: Rotor = { atoms, moving, steps: [] };
+  const relaxed = setup.ids.length <= SCAN_RELAX_LIMIT;
+  const grad = new Float64Array(base.length);
+
+  const points: TorsionScanPoint[] = [];
+  for (let target = -180; target <= 180; target += stepDegrees) {
+    const x = base.slice();
+    setTorsion(x, rotor, target);
+    if (relaxed) {
+      const goal = toRadians(target);
+      minimize(x, (c, g) => {
+        const energy = fieldEnergy(setup.field, c, g);
+        const phi = dihedral(c, ...atoms);
+        if (phi === null) return energy;
+        dihedral(c, ...atoms, g, SCAN_RESTRAINT_K * Math.sin(phi - goal));
+        return energy + SCAN_RESTRAINT_K * (1 - Math.cos(phi - goal));
+      }, 300, 1e-3);
+    }
+    points.push({ dihedral: target, energy: fieldEnergy(setup.field, x, grad) });
+  }
+  const minimum = Math.min(...points.map(p => p.energy));
+  return points.map(p => ({ ...p, energy: p.energy - minimum }));
+}
@@ -0,0 +1,204 @@
+import { Molecule, AnalysisResult, ConsistencyIssue } from "../types";
+import { buildGraph, mapHeavyAtoms } from "./graphService";
+import { parseSmilesGeometry, writeSmiles } from "./smilesService";
+import { parseMolfile, parseSdfGeometry } from "./molfileService";
+import { perceiveStereocenters, perceiveStereoBonds } from "./cipService";
+import { calculateFormula } from "./formulaService";
+import { collapseHydrogens } from "./hydrogenService";
+import { automorphisms } from "./isomerService";
+import { Vec3 } from "./conformerService";
+
+/** A structure read back from the response, with the geometry that fixes its double bonds. */
+interface Reading {
+  molecule: Molecule;
+  /** Whether substituents `a` (on `end`) and `b` (on `other`) sit on the same side; null when unspecified. */
+  cis: (end: string, other: string, a: string, b: string) => boolean | null;
+}
+
+const SOURCE_NAMES: Record<ConsistencyIssue['source'], string> = { smiles: 'SMILES', sdf: 'SDF' };
+
+/** Same side of the end–other line in the 2D drawing. */
+const planarCis = (molecule: Molecule) => {
+  const atoms = new Map(molecule.atoms.map(a => [a.id, a]));
+  return (end: string, other: string, a: string, b: string) => {
+    const [p, q] = [atoms.get(end)!, atoms.get(other)!];
+    const side = (id: string) => {
+      const s = atoms.get(id)!;
+      return (q.x - p.x) * (s.y - p.y) - (q.y - p.y) * (s.x - p.x);
+    };
+    return side(a) * side(b) > 0;
+  };
+};
+
+/** Constitution only: hydrogens implicit, wedges flattened and `/` `\` removed. */
+const constitution = (molecule: Molecule) => {
+  const flat = collapseHydrogens(molecule);
+  return writeSmiles({ ...flat, bonds: flat.bonds.map(b => (b.type === 'wedge' || b.type === 'dash' ? { ...b, type: 'single' } : b)) })
+    .replace(/[/\\]/g, '');
+};
+
+/** Heavy atoms named by element and 1-based position on the canvas, e.g. "C3". */
+const atomLabels = (molecule: Molecule) => new Map(molecule.atoms.map((a, k) => [a.id, `${a.element}${k + 1}`]));
+
+function readSmiles(smiles: string): Reading {
+  const { molecule, fixedDoubleBonds } = parseSmilesGeometry(smiles);
+  const cis = planarCis(molecule);
+  // Without / or \ on both ends the layout picks a geometry the SMILES never stated
+  const fixed = (end: string, other: string) => molecule.bonds.some(b =>
+    fixedDoubleBonds.has(b.id) && ((b.from === end && b.to === other) || (b.from === other && b.to === end)));
+  return { molecule, cis: (end, other, a, b) => (fixed(end, other) ? cis(end, other, a, b) : null) };
+}
+
+function readSdf(sdf: string): Reading {
+  // parseMolfile turns 3D centers into wedges; the geometry keeps the coordinates, atoms in the same file order
+  const { molecule } = parseMolfile(sdf);
+  const geometry = parseSdfGeometry(sdf);
+  const positions = new Map<string, Vec3>(molecule.atoms.map((a, k) => [a.id, geometry.positions.get(geometry.molecule.atoms[k].id)!]));
+  const offset = (from: string, to: string): Vec3 => {
+    const [p, q] = [positions.get(from)!, positions.get(to)!];
+    return [q[0] - p[0], q[1] - p[1], q[2] - p[2]];
+  };
+  return {
+    molecule,
+    cis: (end, other, a, b) => {
+      const [u, v] = [offset(end, a), offset(other, b)];
+      return u[0] * v[0] + u[1] * v[1] + u[2] * v[2] > 0;
+    },
+  };
+}
+
+/** Distinct stereo mappings tried before settling for the best one seen. */
+const MAPPING_LIMIT = 256;
+
+/** One configuration the canvas specifies, checked against the reading under an atom mapping. */
+interface StereoCheck {
+  /** Canvas atoms whose images decide the outcome. */
+  atoms: string[];
+  /** The disagreement when canvas atoms map through `image`, or null when they agree. */
+  issue: (image: (id: string) => string) => ConsistencyIssue | null;
+}
+
+/**
+ * Only configurations the canvas specifies are checked: a response that assigns a center
+ * the drawing leaves open is not a contradiction. CIP and E/Z perception run once here;
+ * the returned checks only look up mapped atoms.
+ */
+function stereoChecks(molecule: Molecule, reading: Reading, source: ConsistencyIssue['source']): StereoCheck[] {
+  const name = SOURCE_NAMES[source];
+  const labels = atomLabels(molecule);
+  const checks: StereoCheck[] = [];
+
+  const theirs = new Map(perceiveStereocenters(reading.molecule).map(sc => [sc.atomId, sc.configuration]));
+  perceiveStereocenters(molecule).filter(sc => sc.configuration !== 'None').forEach(sc => checks.push({
+    atoms: [sc.atomId],
+    issue: image => {
+      const other = theirs.get(image(sc.atomId)) || 'None';
+      if (other === sc.configuration) return null;
+      return {
+        source,
+        aspect: 'stereo',
+        message: `${labels.get(sc.atomId)} is ${sc.configuration} on the canvas but ${other === 'None' ? 'unspecified' : other} in the ${name}`,
+      };
+    },
+  }));
+
+  const graph = buildGraph(molecule);
+  const ours = planarCis(molecule);
+  const heavySubstituent = (end: string, other: string) => graph.get(end)!.neighbors
+    .map(n => n.atomId)
+    .find(id => id !== other && graph.get(id)!.atom.element !== 'H');
+  perceiveStereoBonds(molecule).filter(sb => sb.kind === 'double' && sb.descriptor !== 'None').forEach(sb => {
+    const [end, other] = sb.atomIds;
+    const [a, b] = [heavySubstituent(end, other), heavySubstituent(other, end)];
+    if (!a || !b) return;
+    const drawn = ours(end, other, a, b);
+    checks.push({
+      atoms: [end, other, a, b],
+      issue: image => {
+        const cis = reading.cis(image(end), image(other), image(a), image(b));
+        if (cis === drawn) return null;
+        const flipped = sb.descriptor === 'E' ? 'Z' : 'E';
+        return {
+          source,
+          aspect: 'stereo',
+          message: `${labels.get(end)}=${labels.get(other)} is ${sb.descriptor} on the canvas but ${cis === null ? 'unspecified' : flipped} in the ${name}`,
+        };
+      },
+    });
+  });
+  return checks;
+}
+
+function compare(molecule: Molecule, reading: Reading, source: ConsistencyIssue['source']): ConsistencyIssue[] {
+  const name = SOURCE_NAMES[source];
+  const expected = calculateFormula(molecule)?.formula;
+  const found = calculateFormula(reading.molecule)?.formula;
+  const issues: ConsistencyIssue[] = [];
+  if (expected && found !== expected) {
+    issues.push({ source, aspect: 'formula', message: `${name} formula is ${found || 'unreadable'}, the canvas has ${expected}` });
+  }
+
+  const mapping = mapHeavyAtoms(molecule, reading.molecule);
+  if (!mapping) {
+    issues.push({ source, aspect: 'connectivity', message: `${name} heavy-atom skeleton differs from the canvas` });
+    return issues;
+  }
+  if (issues.length === 0 && constitution(molecule) !== constitution(reading.molecule)) {
+    issues.push({ source, aspect: 'connectivity', message: `${name} places bonds or charges differently: ${constitution(reading.molecule)} vs ${constitution(molecule)} on the canvas` });
+  }
+  if (issues.length > 0) return issues;
+
+  const checks = stereoChecks(molecule, reading, source);
+  if (checks.length === 0) return [];
+  const evaluate = (image: (id: string) => string) => checks.flatMap(check => check.issue(image) ?? []);
+
+  // mapHeavyAtoms returns any one of the equivalent mappings; a symmetric skeleton (meso
+  // compounds) needs the composition with the canvas symmetry that agrees best. Symmetries
+  // that only permute atoms outside the checks (the methyls of a tert-butyl) are tried once.
+  const heavy: Molecule = {
+    atoms: molecule.atoms.filter(a => a.element !== 'H'),
+    bonds: molecule.bonds.filter(b => [b.from, b.to].every(id => molecule.atoms.find(a => a.id === id)?.element !== 'H')),
+  };
+  const stereoAtoms = [...new Set(checks.flatMap(check => check.atoms))];
+  const tried = new Set<string>();
+  let best: ConsistencyIssue[] | null = null;
+  for (const sigma of automorphisms(heavy)) {
+    const image = (id: string) => mapping.get(sigma.get(id) ?? id)!;
+    const signature = stereoAtoms.map(image).join(' ');
+    if (tried.has(signature)) continue;
+    tried.add(signature);
+    const found = evaluate(image);
+    if (!best || found.length < best.length) best = found;
+    if (best.length === 0 || tried.size >= MAPPING_LIMIT) break;
+  }
+  return best || evaluate(id => mapping.get(id)!);
+}
+
+/**
+ * Checks that the SMILES in the response metadata and its SDF describe the submitted
+ * molecule: same formula, same heavy-atom connectivity and bond orders, and the same
+ * configuration at every stereocenter and double bond the canvas specifies.
+ */
+export function checkConsistency(result: Pick<AnalysisResult, 'metadata' | 'sdfData'>, molecule: Molecule): ConsistencyIssue[] {
+  if (molecule.atoms.length === 0) return [];
+  const issues: ConsistencyIssue[] = [];
+  const read = (source: ConsistencyIssue['source'], data: string | undefined, reader: (data: string) => Reading) => {
+    if (!data) return;
+    let reading: Reading;
+    try {
+      reading = reader(data);
+    } catch (e) {
+      issues.push({ source, aspect: 'parse', message: `${SOURCE_NAMES[source]} cannot be read (${(e as Error).message})` });
+      return;
+    }
+    issues.push(...compare(molecule, reading, source));
+  };
+  read('smiles', result.metadata?.smiles, readSmiles);
+  read('sdf', result.sdfData, readSdf);
+  return issues;
+}
+
+/** The discrepancies as one sentence list, for asking the provider to correct itself. */
+export function describeMismatches(issues: ConsistencyIssue[]): string {
+  return issues.map(issue => `${issue.message}.`).join(' ');
+}
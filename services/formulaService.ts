@@ -0,0 +1,101 @@
+import { Atom, CompositionEntry, FormulaInfo, Molecule } from "../types";
+import { ELEMENTS } from "../constants";
+import { buildGraph, implicitHydrogens } from "./graphService";
+
+const ELECTRON_MASS = 0.000548579909;
+
+/**
+ * Exact masses of the isotopes users commonly label. Anything else falls back to the
+ * mass number plus the mass defect of the element's main isotope.
+ */
+const ISOTOPE_MASSES: Record<string, number> = {
+  'H2': 2.0141017778, 'H3': 3.0160492777,
+  'C13': 13.0033548378, 'C14': 14.003241989,
+  'N15': 15.0001088982,
+  'O17': 16.99913170, 'O18': 17.9991610,
+  'F18': 18.0009380,
+  'P32': 31.97390727,
+  'S33': 32.97145876, 'S34': 33.96786690,
+  'Cl37': 36.96590259,
+  'Br81': 80.9162906,
+  'I123': 122.905589, 'I125': 124.9046302, 'I131': 130.9061246,
+};
+
+// Hydrogen isotopes keep their conventional symbols in formulas
+const HYDROGEN_SYMBOLS: Record<number, string> = { 2: 'D', 3: 'T' };
+
+const isotopeMass = (element: string, isotope: number) => {
+  const known = ISOTOPE_MASSES[`${element}${isotope}`];
+  if (known !== undefined) return known;
+  const main = ELEMENTS[element].exactMass;
+  return isotope + (main - Math.round(main));
+};
+
+const formulaSymbol = (atom: Atom) => {
+  if (!atom.isotope) return atom.element;
+  if (atom.element === 'H' && HYDROGEN_SYMBOLS[atom.isotope]) return HYDROGEN_SYMBOLS[atom.isotope];
+  return `[${atom.isotope}${atom.element}]`;
+};
+
+/**
+ * Hill order: carbon, then hydrogen, then everything else alphabetically. Without carbon
+ * every symbol is alphabetical. Labelled isotopes follow their unlabelled element.
+ */
+const hillKey = (symbol: string, hasCarbon: boolean) => {
+  const element = symbol.replace(/^\[\d+/, '').replace(/\]$/, '').replace(/^[DT]$/, 'H');
+  const labelled = symbol !== element ? 1 : 0;
+  if (hasCarbon && element === 'C') return `0${labelled}`;
+  if (hasCarbon && element === 'H') return `1${labelled}`;
+  return `2${element}${labelled}`;
+};
+
+/**
+ * Formula, weights and composition of the drawn molecule, counting implicit hydrogens.
+ * Returns null for an empty canvas or an atom the element table does not know.
+ */
+export function calculateFormula(molecule: Molecule): FormulaInfo | null {
+  if (molecule.atoms.length === 0 || molecule.atoms.some(a => !ELEMENTS[a.element])) return null;
+  const graph = buildGraph(molecule);
+
+  const counts = new Map<string, number>();
+  const elementCounts = new Map<string, number>();
+  const elementMass = new Map<string, number>();
+  let molecularWeight = 0;
+  let exactMass = 0;
+  let charge = 0;
+  const add = (symbol: string, element: string, n: number, average: number, exact: number) => {
+    if (n === 0) return;
+    counts.set(symbol, (counts.get(symbol) || 0) + n);
+    elementCounts.set(element, (elementCounts.get(element) || 0) + n);
+    elementMass.set(element, (elementMass.get(element) || 0) + average * n);
+    molecularWeight += average * n;
+    exactMass += exact * n;
+  };
+
+  molecule.atoms.forEach(atom => {
+    const { mass, exactMass: mainIsotope } = ELEMENTS[atom.element];
+    const exact = atom.isotope ? isotopeMass(atom.element, atom.isotope) : mainIsotope;
+    // A labelled atom weighs its isotope mass, not the natural-abundance average
+    add(formulaSymbol(atom), atom.element, 1, atom.isotope ? exact : mass, exact);
+    add('H', 'H', implicitHydrogens(graph, atom.id), ELEMENTS.H.mass, ELEMENTS.H.exactMass);
+    charge += atom.formalCharge || 0;
+  });
+  exactMass -= charge * ELECTRON_MASS;
+
+  const hasCarbon = elementCounts.has('C');
+  const formula = [...counts.entries()]
+    .sort(([a], [b]) => hillKey(a, hasCarbon).localeCompare(hillKey(b, hasCarbon)))
+    .map(([symbol, n]) => `${symbol}${n > 1 ? n : ''}`)
+    .join('');
+  const chargeSuffix = charge === 0 ? '' : `${Math.abs(charge) > 1 ? Math.abs(charge) : ''}${charge > 0 ? '+' : '-'}`;
+
+  const composition: CompositionEntry[] = [...elementCounts.entries()]
+    .sort(([a], [b]) => hillKey(a, hasCarbon).localeCompare(hillKey(b, hasCarbon)))
+    .map(([element, count]) => ({
+      element,
+      count,
+      massPercent: (elementMass.get(element)! / molecularWeight) * 100,
+    }));
+
+  return { formula: formula + chargeSuffix, molecularWeight, exactMass, charge, composition };
+}
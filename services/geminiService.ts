@@ -1,28 +1,37 @@
 
-import { GoogleGenAI, Type } from "@google/genai";
+import { GoogleGenAI, GenerateContentParameters, GenerateContentResponse, Type } from "@google/genai";
 import { Molecule, AnalysisResult, SearchResult } from "../types";
+import { validateAnalysisResult, validateSearchResult, validateSuggestions } from "./schemaService";
+import { cacheKey, cacheGet, cachePut, structureIdentity, relabelAtoms } from "./cacheService";
+import { limitedRequest, abortableWait } from "./requestService";
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+/** Overridable through GEMINI_MODEL in .env.local. */
+export const GEMINI_MODEL = process.env.GEMINI_MODEL || "gemini-3-flash-preview";
 
-const CACHE_PREFIX = 'stereochem_v5_';
+let client: GoogleGenAI | null = null;
 
-const cache = {
-  get: (key: string) => {
-    try {
-      const item = localStorage.getItem(CACHE_PREFIX + key);
-      return item ? JSON.parse(item) : null;
-    } catch { return null; }
-  },
-  set: (key: string, val: any) => {
-    try {
-      localStorage.setItem(CACHE_PREFIX + key, JSON.stringify(val));
-    } catch { }
-  }
-};
+/**
+ * Created on first use so the app loads, and other providers work, without an API key.
+ */
+function getClient(): GoogleGenAI {
+  if (!process.env.API_KEY) throw new Error("Gemini API key is not configured");
+  client ??= new GoogleGenAI({ apiKey: process.env.API_KEY });
+  return client;
+}
 
-const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+/**
+ * One generateContent call through the shared rate limiter. Identical requests already in
+ * flight share their response; the call is cancelled once every caller has aborted.
+ */
+function generate(request: GenerateContentParameters, signal?: AbortSignal): Promise<GenerateContentResponse> {
+  const ai = getClient();
+  return limitedRequest('gemini', JSON.stringify(request), requestSignal => (
+    ai.models.generateContent({ ...request, config: { ...request.config, abortSignal: requestSignal } })
+  ), signal);
+}
 
-async function withRetry<T>(fn: () => Promise<T>, retries = 3, delay = 2000): Promise<T> {
+/** Aborts are rethrown at once, and an abort during the backoff ends it. */
+async function withRetry<T>(fn: () => Promise<T>, retries = 3, delay = 2000, signal?: AbortSignal): Promise<T> {
   try {
     return await fn();
   } catch (error: any) {
@@ -32,57 +41,46 @@ async function withRetry<T>(fn: () => Promise<T>, retries = 3, delay = 2000): Pr
     if (retries > 0 && isRateLimit) {
       const backoffDelay = delay + Math.floor(Math.random() * 1000);
       console.warn(`Quota limit reached. Retrying in ${backoffDelay}ms...`);
-      await wait(backoffDelay);
-      return withRetry(fn, retries - 1, delay * 2.5);
+      await abortableWait(backoffDelay, signal);
+      return withRetry(fn, retries - 1, delay * 2.5, signal);
     }
     throw error;
   }
 }
 
-/**
- * Normalizes input into a string for React rendering safety.
- */
-const stringify = (val: any): string => {
-  if (!val) return "";
-  if (typeof val === "string") return val;
-  if (typeof val === "object") return val.name || val.text || val.smiles || JSON.stringify(val);
-  return String(val);
-};
-
-export async function getSuggestions(input: string): Promise<string[]> {
+export async function getSuggestions(input: string, signal?: AbortSignal): Promise<string[]> {
   const query = input.trim().toLowerCase();
   if (query.length < 2) return [];
 
   return withRetry(async () => {
-    const response = await ai.models.generateContent({
-      model: "gemini-3-flash-preview",
+    const response = await generate({
+      model: GEMINI_MODEL,
       contents: `List 5 chemical names/SMILES starting with "${input}". Respond ONLY with a JSON array of strings.`,
       config: { 
         responseMimeType: "application/json",
         thinkingConfig: { thinkingBudget: 0 }
       }
-    });
+    }, signal);
     try {
-      const text = response.text || '[]';
-      let data = JSON.parse(text);
-      
-      // Handle various response formats (bare array, or wrapped object)
-      let list = Array.isArray(data) ? data : (data.suggestions || data.names || []);
-      
-      // Force conversion to strings to prevent React Error #31
-      return list.map((item: any) => stringify(item)).slice(0, 5);
+      return validateSuggestions(JSON.parse(response.text || '[]')).slice(0, 5);
     } catch { return []; }
-  }, 1, 1000);
+  }, 1, 1000, signal);
 }
 
-export async function analyzeMolecule(molecule: Molecule): Promise<AnalysisResult> {
-  const moleculeKey = btoa(JSON.stringify(molecule)).slice(0, 48);
-  const cached = cache.get(`analysis_${moleculeKey}`);
-  if (cached) return cached;
+/**
+ * `correction` describes how an earlier answer contradicted the graph; it skips the cache
+ * and asks the model to start over.
+ */
+export async function analyzeMolecule(molecule: Molecule, correction?: string, signal?: AbortSignal): Promise<AnalysisResult> {
+  // Cached under canonical atom labels so any drawing of the same structure hits
+  const identity = structureIdentity(molecule);
+  const key = identity && cacheKey('analysis', 'gemini', GEMINI_MODEL, identity.smiles);
+  const cached = key && !correction ? await cacheGet<AnalysisResult>(key, identity.smiles) : null;
+  if (cached) return validateAnalysisResult(relabelAtoms(cached, identity!.fromCanonical), molecule);
 
   return withRetry(async () => {
-    const response = await ai.models.generateContent({
-      model: "gemini-3-flash-preview",
+    const response = await generate({
+      model: GEMINI_MODEL,
       contents: `Analyze 2D molecular graph: ${JSON.stringify({ atoms: molecule.atoms, bonds: molecule.bonds })}.
       
       MANDATORY:
@@ -91,7 +89,10 @@ export async function analyzeMolecule(molecule: Molecule): Promise<AnalysisResul
       3. In the 'conformations' array, include ALL major distinct stable/metastable states (e.g. for cyclohexane, provide chair, boat, twist-boat). 
       4. EACH conformation in the array MUST have its own unique V2000 SDF string in its 'sdfData' property. Do not use the same coordinates for all.
       5. Rank conformations by relative energy.
-      6. List stereocenters and VSEPR data for each heavy atom.`,
+      6. List stereocenters and VSEPR data for each heavy atom.
+      7. Each atom's formalCharge, lonePairs and radicalElectrons are as drawn; treat charged, zwitterionic and radical species exactly as given.${correction ? `
+
+      A previous answer did not describe this graph: ${correction} Derive the SMILES, SDF and names again from the atoms and bonds above.` : ''}`,
       config: {
         systemInstruction: "You are a professional chemical informatics engine. Always respond in valid JSON. The 'sdfData' field MUST contain a raw V2000 SDF string without markdown code blocks. Coordinate data MUST be distinct for each conformation to show spatial differences. Ensure high accuracy for R/S stereochemistry.",
         responseMimeType: "application/json",
@@ -174,35 +175,27 @@ export async function analyzeMolecule(molecule: Molecule): Promise<AnalysisResul
           }
         }
       }
-    });
+    }, signal);
 
-    const rawData = JSON.parse(response.text || '{}');
-    const vseprRecord: Record<string, any> = {};
-    if (Array.isArray(rawData.vsepr)) {
-      rawData.vsepr.forEach((item: any) => vseprRecord[stringify(item.atomId)] = item);
-    }
-    
-    const result = { 
-      ...rawData, 
-      vsepr: vseprRecord,
-      isomers: Array.isArray(rawData.isomers) ? rawData.isomers : [],
-      conformations: Array.isArray(rawData.conformations) ? rawData.conformations : [],
-      stereocenters: Array.isArray(rawData.stereocenters) ? rawData.stereocenters : []
-    };
+    const result = validateAnalysisResult(JSON.parse(response.text || '{}'), molecule);
+    if (result.repairs) console.warn("Repaired analysis response:", result.repairs);
 
-    cache.set(`analysis_${moleculeKey}`, result);
+    if (key) {
+      await cachePut({ key, kind: 'analysis', identity: identity.smiles, label: identity.smiles, provider: 'gemini', model: GEMINI_MODEL, value: relabelAtoms(result, identity.toCanonical) });
+    }
     return result;
-  }, 2, 3000);
+  }, 2, 3000, signal);
 }
 
-export async function resolveMolecule(query: string): Promise<SearchResult> {
+export async function resolveMolecule(query: string, signal?: AbortSignal): Promise<SearchResult> {
   const normalized = query.trim().toLowerCase();
-  const cached = cache.get(`resolve_${normalized}`);
-  if (cached) return cached;
+  const key = cacheKey('resolve', 'gemini', GEMINI_MODEL, normalized);
+  const cached = await cacheGet<SearchResult>(key, normalized);
+  if (cached) return validateSearchResult(cached);
 
   return withRetry(async () => {
-    const response = await ai.models.generateContent({
-      model: "gemini-3-flash-preview",
+    const response = await generate({
+      model: GEMINI_MODEL,
       contents: `Convert chemical name or SMILES "${query}" to a 2D skeletal graph (JSON atoms/bonds).`,
       config: { 
         responseMimeType: "application/json",
@@ -250,25 +243,26 @@ export async function resolveMolecule(query: string): Promise<SearchResult> {
           }
         }
       }
-    });
-    const result = JSON.parse(response.text || '{}');
-    cache.set(`resolve_${normalized}`, result);
+    }, signal);
+    const result = validateSearchResult(JSON.parse(response.text || '{}'));
+    await cachePut({ key, kind: 'resolve', identity: normalized, label: query.trim(), provider: 'gemini', model: GEMINI_MODEL, value: result });
     return result;
-  }, 1, 1000);
+  }, 1, 1000, signal);
 }
 
-export async function getExplanation(topic: string): Promise<string> {
-  const cached = cache.get(`explain_${topic}`);
-  if (cached) return cached;
+export async function getExplanation(topic: string, signal?: AbortSignal): Promise<string> {
+  const key = cacheKey('explain', 'gemini', GEMINI_MODEL, topic);
+  const cached = await cacheGet<string>(key, topic);
+  if (typeof cached === 'string') return cached;
 
   return withRetry(async () => {
-    const response = await ai.models.generateContent({
-      model: "gemini-3-flash-preview",
+    const response = await generate({
+      model: GEMINI_MODEL,
       contents: `Briefly explain "${topic}".`,
       config: { thinkingConfig: { thinkingBudget: 0 } }
-    });
+    }, signal);
     const txt = response.text || "Information unavailable.";
-    cache.set(`explain_${topic}`, txt);
+    await cachePut({ key, kind: 'explain', identity: topic, label: topic, provider: 'gemini', model: GEMINI_MODEL, value: txt });
     return txt;
-  });
+  }, 3, 2000, signal);
 }
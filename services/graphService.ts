@@ -0,0 +1,267 @@
+import { Atom, Bond, Molecule } from "../types";
+import { ELEMENTS } from "../constants";
+
+export interface GraphNeighbor {
+  atomId: string;
+  bond: Bond;
+  order: number;
+}
+
+export interface GraphNode {
+  atom: Atom;
+  neighbors: GraphNeighbor[];
+}
+
+export type MoleculeGraph = Map<string, GraphNode>;
+
+/**
+ * Allowed valence states beyond the default ELEMENTS valency (hypervalent P, S and halogens).
+ */
+const EXTENDED_VALENCES: Record<string, number[]> = {
+  P: [3, 5],
+  S: [2, 4, 6],
+  Cl: [1, 3, 5, 7],
+  Br: [1, 3, 5, 7],
+  I: [1, 3, 5, 7],
+};
+
+/**
+ * Stereo bonds (wedge/dash) are single bonds with extra 3D information.
+ */
+export const bondOrder = (bond: Bond): number => {
+  if (bond.type === 'double') return 2;
+  if (bond.type === 'triple') return 3;
+  return 1;
+};
+
+export const atomicNumber = (atom: Atom): number => ELEMENTS[atom.element]?.atomicNumber ?? 0;
+
+/**
+ * Builds an adjacency map keyed by atom id. Bonds that reference missing atoms are skipped.
+ */
+export function buildGraph(molecule: Molecule): MoleculeGraph {
+  const graph: MoleculeGraph = new Map();
+  molecule.atoms.forEach(atom => graph.set(atom.id, { atom, neighbors: [] }));
+  molecule.bonds.forEach(bond => {
+    const from = graph.get(bond.from);
+    const to = graph.get(bond.to);
+    if (!from || !to || bond.from === bond.to) return;
+    const order = bondOrder(bond);
+    from.neighbors.push({ atomId: bond.to, bond, order });
+    to.neighbors.push({ atomId: bond.from, bond, order });
+  });
+  return graph;
+}
+
+/**
+ * Valence states an atom may adopt once its formal charge is taken into account.
+ * Carbon and hydrogen lose one bond per unit of charge either way; heteroatoms gain
+ * a bond as cations (ammonium, oxonium) and lose one as anions.
+ */
+export function allowedValences(atom: Atom): number[] {
+  const base = EXTENDED_VALENCES[atom.element] || [ELEMENTS[atom.element]?.valency ?? 0];
+  const charge = atom.formalCharge || 0;
+  const shifted = (atom.element === 'C' || atom.element === 'H')
+    ? base.map(v => v - Math.abs(charge))
+    : base.map(v => v + charge);
+  return shifted.filter(v => v >= 0);
+}
+
+/**
+ * Number of hydrogens implied by valence for an atom whose explicit bonds sum to `bondOrderSum`.
+ * Unpaired electrons occupy valence the same way bonds do.
+ */
+export function implicitHydrogenCount(atom: Atom, bondOrderSum: number): number {
+  const used = bondOrderSum + (atom.radicalElectrons || 0);
+  const target = allowedValences(atom).find(v => v >= used);
+  return target === undefined ? 0 : target - used;
+}
+
+export function bondOrderSum(node: GraphNode): number {
+  return node.neighbors.reduce((sum, n) => sum + n.order, 0);
+}
+
+export function implicitHydrogens(graph: MoleculeGraph, atomId: string): number {
+  const node = graph.get(atomId);
+  if (!node) return 0;
+  return implicitHydrogenCount(node.atom, bondOrderSum(node));
+}
+
+/**
+ * Connected components as lists of atom ids, in molecule atom order.
+ */
+export function connectedComponents(graph: MoleculeGraph): string[][] {
+  const seen = new Set<string>();
+  const components: string[][] = [];
+  graph.forEach((_, start) => {
+    if (seen.has(start)) return;
+    const component: string[] = [];
+    const stack = [start];
+    seen.add(start);
+    while (stack.length > 0) {
+      const id = stack.pop()!;
+      component.push(id);
+      graph.get(id)!.neighbors.forEach(n => {
+        if (!seen.has(n.atomId)) { seen.add(n.atomId); stack.push(n.atomId); }
+      });
+    }
+    components.push(component);
+  });
+  return components;
+}
+
+const edgeKey = (a: string, b: string) => (a < b ? `${a}|${b}` : `${b}|${a}`);
+
+function shortestPath(graph: MoleculeGraph, from: string, to: string, skipEdge: string): string[] | null {
+  const prev = new Map<string, string>([[from, from]]);
+  const queue = [from];
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    if (id === to) break;
+    graph.get(id)!.neighbors.forEach(n => {
+      if (prev.has(n.atomId) || edgeKey(id, n.atomId) === skipEdge) return;
+      prev.set(n.atomId, id);
+      queue.push(n.atomId);
+    });
+  }
+  if (!prev.has(to)) return null;
+  const path = [to];
+  while (path[path.length - 1] !== from) path.push(prev.get(path[path.length - 1])!);
+  return path.reverse();
+}
+
+/**
+ * Smallest set of smallest rings. Each ring is returned as atom ids in cyclic order.
+ * Candidates are the shortest cycle through every bond; a GF(2) elimination over
+ * their bond sets keeps the smallest linearly independent ones.
+ */
+export function findRings(graph: MoleculeGraph): string[][] {
+  const edges: string[] = [];
+  const edgeIndex = new Map<string, number>();
+  graph.forEach((node, id) => node.neighbors.forEach(n => {
+    const key = edgeKey(id, n.atomId);
+    if (!edgeIndex.has(key)) { edgeIndex.set(key, edges.length); edges.push(key); }
+  }));
+
+  const ringCount = edges.length - graph.size + connectedComponents(graph).length;
+  if (ringCount <= 0) return [];
+
+  const candidates = new Map<string, string[]>();
+  edges.forEach(key => {
+    const [a, b] = key.split('|');
+    const path = shortestPath(graph, a, b, key);
+    if (!path) return;
+    const signature = [...path].sort().join(',');
+    if (!candidates.has(signature)) candidates.set(signature, path);
+  });
+
+  const toBits = (ring: string[]) => {
+    const bits = new Array<boolean>(edges.length).fill(false);
+    ring.forEach((id, i) => { bits[edgeIndex.get(edgeKey(id, ring[(i + 1) % ring.length]))!] = true; });
+    return bits;
+  };
+
+  const basis: boolean[][] = [];
+  const rings: string[][] = [];
+  [...candidates.values()].sort((a, b) => a.length - b.length).forEach(ring => {
+    if (rings.length >= ringCount) return;
+    const bits = toBits(ring);
+    for (const row of basis) {
+      const pivot = row.indexOf(true);
+      if (bits[pivot]) row.forEach((v, i) => { if (v) bits[i] = !bits[i]; });
+    }
+    if (!bits.includes(true)) return;
+    basis.push(bits);
+    rings.push(ring);
+  });
+  return rings;
+}
+
+/**
+ * Perfect matching used for kekulization: every index in `needs` must receive exactly one
+ * double bond from `edges` (pairs of indices). Returns the chosen edge positions, or null
+ * when no Kekulé structure exists. Backtracks from the most constrained atom first.
+ */
+export function findKekuleDoubles(needs: Set<number>, edges: Array<[number, number]>): Set<number> | null {
+  const doubles = new Set<number>();
+  const matched = new Set<number>();
+  const partners = (i: number) => edges
+    .map((edge, k) => ({ edge, k }))
+    .filter(({ edge }) => {
+      const other = edge[0] === i ? edge[1] : (edge[1] === i ? edge[0] : -1);
+      return other >= 0 && needs.has(other) && !matched.has(other);
+    });
+
+  const solve = (): boolean => {
+    const open = [...needs].filter(i => !matched.has(i));
+    if (open.length === 0) return true;
+    const atom = open.sort((x, y) => partners(x).length - partners(y).length)[0];
+    for (const { edge, k } of partners(atom)) {
+      const other = edge[0] === atom ? edge[1] : edge[0];
+      matched.add(atom); matched.add(other); doubles.add(k);
+      if (solve()) return true;
+      matched.delete(atom); matched.delete(other); doubles.delete(k);
+    }
+    return false;
+  };
+
+  return solve() ? doubles : null;
+}
+
+const MATCH_STEP_LIMIT = 200000;
+
+/**
+ * Maps every heavy atom of `from` onto a heavy atom of `to` with the same element so that
+ * heavy-atom connectivity is preserved (bond orders are ignored, since Kekulé structures
+ * may differ). Returns null when the skeletons differ or the search gives up; for
+ * symmetric skeletons any one of the equivalent mappings is returned.
+ */
+export function mapHeavyAtoms(from: Molecule, to: Molecule): Map<string, string> | null {
+  const a = buildGraph(from);
+  const b = buildGraph(to);
+  const heavy = (graph: MoleculeGraph) => [...graph.keys()].filter(id => graph.get(id)!.atom.element !== 'H');
+  const skeleton = (graph: MoleculeGraph, id: string) => graph.get(id)!.neighbors.map(n => n.atomId).filter(n => graph.get(n)!.atom.element !== 'H');
+  const left = heavy(a);
+  const right = heavy(b);
+  if (left.length !== right.length) return null;
+
+  // Breadth-first order so every atom after the first of a component has a mapped neighbor
+  const order: string[] = [];
+  const seen = new Set<string>();
+  left.forEach(start => {
+    if (seen.has(start)) return;
+    seen.add(start);
+    const queue = [start];
+    while (queue.length > 0) {
+      const id = queue.shift()!;
+      order.push(id);
+      skeleton(a, id).forEach(n => { if (!seen.has(n)) { seen.add(n); queue.push(n); } });
+    }
+  });
+
+  const mapping = new Map<string, string>();
+  const used = new Set<string>();
+  let steps = 0;
+  const fits = (id: string, image: string) => {
+    if (used.has(image) || a.get(id)!.atom.element !== b.get(image)!.atom.element) return false;
+    const near = skeleton(a, id);
+    const imageNear = new Set(skeleton(b, image));
+    if (near.length !== imageNear.size) return false;
+    return near.every(n => !mapping.has(n) || imageNear.has(mapping.get(n)!));
+  };
+  const extend = (k: number): boolean => {
+    if (k === order.length) return true;
+    if (++steps > MATCH_STEP_LIMIT) return false;
+    const id = order[k];
+    const anchor = skeleton(a, id).find(n => mapping.has(n));
+    const candidates = anchor ? skeleton(b, mapping.get(anchor)!) : right;
+    for (const image of candidates) {
+      if (!fits(id, image)) continue;
+      mapping.set(id, image); used.add(image);
+      if (extend(k + 1)) return true;
+      mapping.delete(id); used.delete(image);
+    }
+    return false;
+  };
+  return extend(0) ? mapping : null;
+}
@@ -0,0 +1,114 @@
+import { Atom, Bond, Molecule } from "../types";
+import { buildGraph, implicitHydrogens } from "./graphService";
+import { drawTetrahedralStereo, drawnStereoTargets } from "./cipService";
+import { LAYOUT_BOND_LENGTH } from "./layoutService";
+
+/** Explicit C–H and X–H bonds are drawn a little shorter than skeletal bonds. */
+const HYDROGEN_BOND_LENGTH = LAYOUT_BOND_LENGTH * 0.8;
+
+/**
+ * Implicit hydrogen count for every atom, from valence, bond orders and formal charge.
+ */
+export function implicitHydrogenMap(molecule: Molecule): Map<string, number> {
+  const graph = buildGraph(molecule);
+  const counts = new Map<string, number>();
+  graph.forEach((_, id) => counts.set(id, implicitHydrogens(graph, id)));
+  return counts;
+}
+
+/**
+ * Directions (radians, canvas frame) for `count` new substituents on an atom whose
+ * existing bonds point along `taken`, spread evenly through the widest free gap.
+ */
+export function freeDirections(taken: number[], count: number): number[] {
+  if (count === 0) return [];
+  if (taken.length === 0) return Array.from({ length: count }, (_, i) => -Math.PI / 2 + i * 2 * Math.PI / count);
+  const dirs = [...taken].sort((a, b) => a - b);
+  if (dirs.length === 1) {
+    // Keep sp3-like spacing around a single bond: 120° apart for one or two, 90° for three
+    const spread = count === 3 ? Math.PI / 2 : 2 * Math.PI / 3;
+    const first = dirs[0] + Math.PI - spread * (count - 1) / 2;
+    return Array.from({ length: count }, (_, i) => first + i * spread);
+  }
+  let gapStart = dirs[dirs.length - 1];
+  let gap = dirs[0] + 2 * Math.PI - gapStart;
+  for (let i = 0; i < dirs.length - 1; i++) {
+    if (dirs[i + 1] - dirs[i] > gap) { gapStart = dirs[i]; gap = dirs[i + 1] - dirs[i]; }
+  }
+  return Array.from({ length: count }, (_, i) => gapStart + gap * (i + 1) / (count + 1));
+}
+
+/**
+ * Makes every implicit hydrogen explicit, placed in the free space around its atom.
+ * Wedge/dash stereo is redrawn afterwards so each center keeps its configuration.
+ */
+export function fillHydrogens(molecule: Molecule): Molecule {
+  const graph = buildGraph(molecule);
+  const targets = drawnStereoTargets(molecule);
+  const stamp = Date.now();
+  const atoms: Atom[] = [...molecule.atoms];
+  const bonds: Bond[] = [...molecule.bonds];
+  const added = new Map<string, string[]>();
+
+  molecule.atoms.forEach(atom => {
+    const count = implicitHydrogens(graph, atom.id);
+    if (count === 0) return;
+    const taken = graph.get(atom.id)!.neighbors.map(n => {
+      const other = graph.get(n.atomId)!.atom;
+      return Math.atan2(other.y - atom.y, other.x - atom.x);
+    });
+    const ids: string[] = [];
+    freeDirections(taken, count).forEach(angle => {
+      const id = `h-${stamp}-${atoms.length}`;
+      atoms.push({
+        id,
+        element: 'H',
+        x: atom.x + Math.cos(angle) * HYDROGEN_BOND_LENGTH,
+        y: atom.y + Math.sin(angle) * HYDROGEN_BOND_LENGTH,
+        formalCharge: 0,
+        lonePairs: 0,
+      });
+      bonds.push({ id: `h-b-${stamp}-${bonds.length}`, from: atom.id, to: id, type: 'single' });
+      ids.push(id);
+    });
+    added.set(atom.id, ids);
+  });
+
+  if (added.size === 0) return molecule;
+  const filled = { ...molecule, atoms, bonds };
+  return drawTetrahedralStereo(filled, targets.map(t => ({
+    ...t,
+    ordered: t.ordered.map(id => (id === null ? added.get(t.atomId)?.[0] ?? null : id)),
+  })));
+}
+
+/**
+ * Removes explicit hydrogens that carry no extra information (plain H on a heavy atom,
+ * no isotope or charge) so they become implicit again. Stereo drawn through a removed
+ * hydrogen is moved onto one of the remaining bonds.
+ */
+export function collapseHydrogens(molecule: Molecule): Molecule {
+  const graph = buildGraph(molecule);
+  const removable = new Set<string>();
+  graph.forEach((node, id) => {
+    const { atom } = node;
+    if (atom.element !== 'H' || atom.isotope || atom.formalCharge || node.neighbors.length !== 1) return;
+    const [neighbor] = node.neighbors;
+    if (neighbor.order !== 1 || graph.get(neighbor.atomId)!.atom.element === 'H') return;
+    removable.add(id);
+  });
+  if (removable.size === 0) return molecule;
+
+  const targets = drawnStereoTargets(molecule)
+    .filter(t => !removable.has(t.atomId))
+    .map(t => ({ ...t, ordered: t.ordered.map(id => (id !== null && removable.has(id) ? null : id)) }))
+    // A center can only have one implicit ligand
+    .filter(t => t.ordered.filter(id => id === null).length <= 1);
+
+  const collapsed: Molecule = {
+    ...molecule,
+    atoms: molecule.atoms.filter(a => !removable.has(a.id)),
+    bonds: molecule.bonds.filter(b => !removable.has(b.from) && !removable.has(b.to)),
+  };
+  return drawTetrahedralStereo(collapsed, targets);
+}
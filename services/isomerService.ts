@@ -0,0 +1,529 @@
+import { Molecule, IsomerInfo, ElementType } from "../types";
+import { buildGraph, findRings, implicitHydrogens, bondOrder, allowedValences, connectedComponents, MoleculeGraph } from "./graphService";
+import { tetrahedralParity, tetrahedralShape, drawTetrahedralStereo, perceiveStereocenters, perceiveStereoBonds, TetrahedralTarget } from "./cipService";
+import { canonicalRanks, writeSmiles, parseSmiles } from "./smilesService";
+import { computeLayout, reflectBranch } from "./layoutService";
+
+export interface Stereoisomer {
+  molecule: Molecule;
+  smiles: string;
+  /** Relation to the drawn structure. */
+  relation: 'identical' | 'enantiomer' | 'diastereomer';
+  /** Superimposable on its mirror image although other stereoisomers of the set are chiral. */
+  meso: boolean;
+  /** CIP descriptors, r/s, ring cis/trans and double-bond geometry, e.g. "C2 R, C3 r, C4 S, C6=C7 E". */
+  descriptors: string;
+  /** Stereo elements set differently from the drawn structure. */
+  inverted: string[];
+}
+
+export interface StereoisomerSet {
+  /** Every distinct stereoisomer, the drawn one first. */
+  isomers: Stereoisomer[];
+  /** Stereogenic centers and double bonds, e.g. "C2" or "C4=C5". */
+  elements: string[];
+  /** Stereogenic elements the drawing leaves open; the drawn structure takes an arbitrary configuration there. */
+  unspecified: string[];
+  truncated: boolean;
+}
+
+export interface ConstitutionalIsomer {
+  molecule: Molecule;
+  smiles: string;
+}
+
+const MAX_STEREO_ELEMENTS = 12;
+const MAX_STEREOISOMERS = 32;
+const AUTOMORPHISM_LIMIT = 5000;
+/** Constitutional isomers are only generated for this many heavy atoms or fewer. */
+export const CONSTITUTIONAL_ATOM_LIMIT = 6;
+const CONSTITUTIONAL_LIMIT = 40;
+const SKELETON_LIMIT = 20000;
+
+/** Lowest neutral valence of the elements the constitutional enumerator builds with. */
+const SKELETON_VALENCES: Record<string, number> = { C: 4, N: 3, O: 2, S: 2, P: 3, F: 1, Cl: 1, Br: 1, I: 1 };
+
+/** Ligands of a center in canonical order; null is a hydrogen, implicit or explicit. */
+interface StereoCenter {
+  kind: 'center';
+  atomId: string;
+  ligands: Array<string | null>;
+  label: string;
+}
+
+/** Double bond whose geometry is read between the first-ranked substituent on each end. */
+interface StereoDouble {
+  kind: 'double';
+  ends: [string, string];
+  references: [string, string];
+  label: string;
+}
+
+type StereoElement = StereoCenter | StereoDouble;
+
+/** Image of each stereo element under one automorphism: target element and sign change. */
+type ElementTransform = Array<[number, 1 | -1]>;
+
+const withoutHydrogens = (molecule: Molecule): Molecule => {
+  const hydrogens = new Set(molecule.atoms.filter(a => a.element === 'H').map(a => a.id));
+  return {
+    ...molecule,
+    atoms: molecule.atoms.filter(a => !hydrogens.has(a.id)),
+    bonds: molecule.bonds.filter(b => !hydrogens.has(b.from) && !hydrogens.has(b.to)),
+  };
+};
+
+const permutationSign = (positions: number[]): 1 | -1 => {
+  let inversions = 0;
+  for (let i = 0; i < positions.length; i++) {
+    for (let j = i + 1; j < positions.length; j++) if (positions[i] > positions[j]) inversions++;
+  }
+  return inversions % 2 === 0 ? 1 : -1;
+};
+
+/**
+ * Automorphisms of the molecular graph (atom permutations that keep elements, charges and
+ * bond orders), found by backtracking within the canonical symmetry classes. Explicit
+ * hydrogens should be removed first; enumeration stops after `limit` maps.
+ */
+export function automorphisms(molecule: Molecule, limit = AUTOMORPHISM_LIMIT): Array<Map<string, string>> {
+  const graph = buildGraph(molecule);
+  const { classes } = canonicalRanks(molecule);
+  const order: string[] = [];
+  const anchor = new Map<string, string | null>();
+  connectedComponents(graph).forEach(component => {
+    const seen = new Set([component[0]]);
+    const queue = [component[0]];
+    anchor.set(component[0], null);
+    while (queue.length > 0) {
+      const id = queue.shift()!;
+      order.push(id);
+      graph.get(id)!.neighbors.forEach(n => {
+        if (seen.has(n.atomId)) return;
+        seen.add(n.atomId);
+        anchor.set(n.atomId, id);
+        queue.push(n.atomId);
+      });
+    }
+  });
+
+  const image = new Map<string, string>();
+  const used = new Set<string>();
+  const found: Array<Map<string, string>> = [];
+  const fits = (id: string, candidate: string) => {
+    if (used.has(candidate) || classes.get(candidate) !== classes.get(id)) return false;
+    const mapped = graph.get(id)!.neighbors.filter(n => image.has(n.atomId));
+    const candidateNode = graph.get(candidate)!;
+    if (candidateNode.neighbors.filter(n => used.has(n.atomId)).length !== mapped.length) return false;
+    return mapped.every(n => candidateNode.neighbors.some(m => m.atomId === image.get(n.atomId) && m.order === n.order));
+  };
+  const place = (k: number) => {
+    if (found.length >= limit) return;
+    if (k === order.length) {
+      found.push(new Map(image));
+      return;
+    }
+    const id = order[k];
+    const parent = anchor.get(id);
+    const candidates = parent ? graph.get(image.get(parent)!)!.neighbors.map(n => n.atomId) : order;
+    candidates.forEach(candidate => {
+      if (!fits(id, candidate)) return;
+      image.set(id, candidate);
+      used.add(candidate);
+      place(k + 1);
+      image.delete(id);
+      used.delete(candidate);
+    });
+  };
+  place(0);
+  return found;
+}
+
+/**
+ * Candidate stereo elements: atoms that pass `tetrahedralShape` (sp3 C, N⁺, sulfoxides,
+ * phosphines, sulfonium ions) with no two plainly equivalent substituents outside a ring, and acyclic C=C / C=N bonds whose ends carry
+ * two different substituents (or one, on nitrogen). Whether each is really stereogenic is
+ * decided afterwards by enumeration.
+ */
+function stereoElements(molecule: Molecule, heavy: Molecule): StereoElement[] {
+  const graph = buildGraph(heavy);
+  const { ranks, classes } = canonicalRanks(heavy);
+  const ringAtoms = new Set(findRings(graph).flat());
+  const ringBonds = new Set(findRings(graph).flatMap(ring => ring.map((id, k) => [id, ring[(k + 1) % ring.length]].sort().join('|'))));
+  const index = new Map(molecule.atoms.map((a, k) => [a.id, k + 1]));
+  const label = (id: string) => `${graph.get(id)!.atom.element}${index.get(id)}`;
+  const byRank = (a: string, b: string) => ranks.get(a)! - ranks.get(b)!;
+  const elements: StereoElement[] = [];
+
+  // Tetrahedral atoms; equivalent substituents rule an atom out unless each of them carries
+  // another candidate, which leaves pseudoasymmetric centers (ribitol C3) in play
+  const tetrahedral = heavy.atoms.filter(atom => tetrahedralShape(graph, atom.id)).map(atom => {
+    const compared = graph.get(atom.id)!.neighbors
+      .filter(n => !ringAtoms.has(atom.id) || !ringBonds.has([atom.id, n.atomId].sort().join('|')))
+      .map(n => n.atomId);
+    const duplicated = compared.filter(id => compared.some(other => other !== id && classes.get(other) === classes.get(id)));
+    return { id: atom.id, duplicated };
+  });
+  const plain = new Set(tetrahedral.filter(t => t.duplicated.length === 0).map(t => t.id));
+  const carriesCandidate = (center: string, start: string) => {
+    const seen = new Set([center, start]);
+    const queue = [start];
+    while (queue.length > 0) {
+      const id = queue.shift()!;
+      if (plain.has(id)) return true;
+      graph.get(id)!.neighbors.forEach(n => { if (!seen.has(n.atomId)) { seen.add(n.atomId); queue.push(n.atomId); } });
+    }
+    return false;
+  };
+  tetrahedral.forEach(({ id, duplicated }) => {
+    if (!duplicated.every(ligand => carriesCandidate(id, ligand))) return;
+    const ligands: Array<string | null> = graph.get(id)!.neighbors.map(n => n.atomId).sort(byRank);
+    // The implicit hydrogen or the lone pair
+    if (ligands.length === 3) ligands.push(null);
+    elements.push({ kind: 'center', atomId: id, ligands, label: label(id) });
+  });
+
+  heavy.bonds.forEach(bond => {
+    if (bond.type !== 'double' || ringBonds.has([bond.from, bond.to].sort().join('|'))) return;
+    const ends: [string, string] = [bond.from, bond.to];
+    const references = ends.map((end, k) => {
+      const node = graph.get(end)!;
+      if (node.atom.element !== 'C' && node.atom.element !== 'N') return null;
+      if (node.neighbors.some(n => n.atomId !== ends[1 - k] && n.order !== 1)) return null;
+      const substituents = node.neighbors.filter(n => n.atomId !== ends[1 - k]).map(n => n.atomId).sort(byRank);
+      const hydrogens = implicitHydrogens(graph, end);
+      if (substituents.length === 0) return null;
+      if (substituents.length === 2 && classes.get(substituents[0]) === classes.get(substituents[1])) return null;
+      if (node.atom.element === 'C' && substituents.length + hydrogens !== 2) return null;
+      return substituents[0];
+    });
+    if (references[0] && references[1]) {
+      elements.push({ kind: 'double', ends, references: references as [string, string], label: `${label(bond.from)}=${label(bond.to)}` });
+    }
+  });
+
+  return elements;
+}
+
+/** How each automorphism permutes the stereo elements and flips their signs; duplicates removed. */
+function elementTransforms(heavy: Molecule, elements: StereoElement[]): ElementTransform[] {
+  const centerIndex = new Map<string, number>();
+  const doubleIndex = new Map<string, number>();
+  elements.forEach((e, k) => {
+    if (e.kind === 'center') centerIndex.set(e.atomId, k);
+    else doubleIndex.set([...e.ends].sort().join('|'), k);
+  });
+  const reference = (end: string, other: string) => {
+    const e = elements[doubleIndex.get([end, other].sort().join('|'))!] as StereoDouble;
+    return e.references[e.ends.indexOf(end)];
+  };
+
+  const unique = new Map<string, ElementTransform>();
+  automorphisms(heavy).forEach(sigma => {
+    const transform: ElementTransform = elements.map(e => {
+      if (e.kind === 'center') {
+        const j = centerIndex.get(sigma.get(e.atomId)!)!;
+        const target = elements[j] as StereoCenter;
+        return [j, permutationSign(e.ligands.map(l => target.ligands.indexOf(l === null ? null : sigma.get(l)!)))];
+      }
+      const [a, b] = e.ends.map(id => sigma.get(id)!);
+      const j = doubleIndex.get([a, b].sort().join('|'))!;
+      const flipA = sigma.get(e.references[0]) === reference(a, b) ? 1 : -1;
+      const flipB = sigma.get(e.references[1]) === reference(b, a) ? 1 : -1;
+      return [j, (flipA * flipB) as 1 | -1];
+    });
+    unique.set(transform.map(([j, s]) => `${j}${s}`).join(','), transform);
+  });
+  return [...unique.values()];
+}
+
+/** Candidate elements, a symmetry-invariant key per assignment (bit k set: element k inverted) and which candidates are stereogenic. */
+interface StereoAssignments {
+  elements: StereoElement[];
+  keys: string[];
+  stereogenic: boolean[];
+}
+
+/**
+ * Enumerates every assignment of the candidate elements and merges those related by a
+ * symmetry of the graph. Null when there are more candidates than can be enumerated.
+ */
+function stereoAssignments(molecule: Molecule): StereoAssignments | null {
+  const heavy = withoutHydrogens(molecule);
+  const elements = stereoElements(molecule, heavy);
+  if (elements.length === 0) return { elements, keys: [''], stereogenic: [] };
+  if (elements.length > MAX_STEREO_ELEMENTS) return null;
+
+  const transforms = elementTransforms(heavy, elements);
+  const n = elements.length;
+  const keyOf = (mask: number) => {
+    let best = '';
+    transforms.forEach(transform => {
+      const image: string[] = new Array(n);
+      transform.forEach(([j, sign], k) => { image[j] = ((mask >> k) & 1 ? -1 : 1) * sign > 0 ? '+' : '-'; });
+      const key = image.join('');
+      if (best === '' || key < best) best = key;
+    });
+    return best;
+  };
+  const keys = Array.from({ length: 1 << n }, (_, mask) => keyOf(mask));
+  const stereogenic = elements.map((_, k) => keys.some((key, mask) => key !== keys[mask ^ (1 << k)]));
+  return { elements, keys, stereogenic };
+}
+
+/**
+ * Tetrahedral centers whose configuration can tell stereoisomers apart, whether or not CIP
+ * names it R or S: ring cis/trans and pseudoasymmetric centers count too. Null when the
+ * structure has too many candidate elements to decide.
+ */
+export function stereogenicCenters(molecule: Molecule): Set<string> | null {
+  const assignments = stereoAssignments(molecule);
+  if (!assignments) return null;
+  return new Set(assignments.elements.flatMap((e, k) => (e.kind === 'center' && assignments.stereogenic[k] ? [e.atomId] : [])));
+}
+
+/**
+ * All stereoisomers of the drawn structure. Stereo elements are enumerated exhaustively and
+ * assignments related by a symmetry of the graph are merged, which also identifies meso
+ * forms (identical to their mirror image) and non-stereogenic candidates. Each isomer is
+ * classified against the drawn structure and redrawn with wedges and double-bond geometry.
+ */
+export function enumerateStereoisomers(molecule: Molecule): StereoisomerSet {
+  const empty: StereoisomerSet = { isomers: [], elements: [], unspecified: [], truncated: false };
+  if (molecule.atoms.length === 0) return empty;
+  const assignments = stereoAssignments(molecule);
+  if (!assignments) return { ...empty, truncated: true };
+  const { elements, keys, stereogenic } = assignments;
+  if (!stereogenic.some(Boolean)) return empty;
+
+  // The drawn structure: wedge parities and double-bond sides, 0 where the drawing is silent
+  const graph = buildGraph(molecule);
+  const explicitHydrogen = (center: string) => graph.get(center)!.neighbors.find(n => graph.get(n.atomId)!.atom.element === 'H')?.atomId ?? null;
+  const drawnLigands = (e: StereoCenter) => e.ligands.map(l => l ?? explicitHydrogen(e.atomId));
+  const side = (a: string, b: string, x: string) => {
+    const [pa, pb, px] = [a, b, x].map(id => graph.get(id)!.atom);
+    const value = (pb.x - pa.x) * (px.y - pa.y) - (pb.y - pa.y) * (px.x - pa.x);
+    return Math.abs(value) < 1e-6 ? 0 : Math.sign(value);
+  };
+  const drawn = elements.map(e => (e.kind === 'center'
+    ? tetrahedralParity(graph, e.atomId, drawnLigands(e))
+    : side(e.ends[0], e.ends[1], e.references[0]) * side(e.ends[0], e.ends[1], e.references[1])));
+
+  const stereoBits = elements.reduce((bits, _, k) => (stereogenic[k] ? bits | (1 << k) : bits), 0);
+  const centerBits = elements.reduce((bits, e, k) => (e.kind === 'center' ? bits | (1 << k) : bits), 0);
+  const reference = drawn.reduce((mask, v, k) => (v < 0 ? mask | (1 << k) : mask), 0);
+  const mirror = (mask: number) => mask ^ (centerBits & stereoBits);
+
+  // One representative assignment per distinct key, walking the subsets of the stereogenic bits
+  const representatives = new Map<string, number>([[keys[reference], reference]]);
+  for (let sub = stereoBits; ; sub = (sub - 1) & stereoBits) {
+    const mask = (reference & ~stereoBits) | sub;
+    if (!representatives.has(keys[mask])) representatives.set(keys[mask], mask);
+    if (sub === 0) break;
+  }
+  const relationOf = (mask: number): Stereoisomer['relation'] => {
+    if (keys[mask] === keys[reference]) return 'identical';
+    return keys[mask] === keys[mirror(reference)] ? 'enantiomer' : 'diastereomer';
+  };
+  // Meso: an achiral member of a set that also has chiral members, so not cis/trans-1,4-dimethylcyclohexane
+  const achiral = (mask: number) => keys[mirror(mask)] === keys[mask];
+  const mesoForms = (centerBits & stereoBits) !== 0 && [...representatives.values()].some(mask => !achiral(mask));
+  const ordered = [...representatives.values()].sort((a, b) => {
+    const rank = (mask: number) => ['identical', 'enantiomer', 'diastereomer'].indexOf(relationOf(mask));
+    return rank(a) - rank(b);
+  });
+
+  const isomers = ordered.slice(0, MAX_STEREOISOMERS).map((mask): Stereoisomer => {
+    const value = (k: number) => ((mask >> k) & 1 ? -1 : 1);
+    let drawing: Molecule = { ...molecule, atoms: molecule.atoms.map(a => ({ ...a })) };
+    elements.forEach((e, k) => {
+      if (e.kind === 'double' && stereogenic[k] && drawn[k] !== 0 && drawn[k] !== value(k)) reflectBranch(drawing, e.ends[0], e.ends[1]);
+    });
+    const targets: TetrahedralTarget[] = elements.flatMap((e, k) => (
+      e.kind === 'center' && stereogenic[k] ? [{ atomId: e.atomId, ordered: drawnLigands(e), parity: value(k) as 1 | -1 }] : []
+    ));
+    drawing = drawTetrahedralStereo(drawing, targets);
+
+    const cip = new Map(perceiveStereocenters(drawing).map(s => [s.atomId, s.configuration]));
+    const stereoBonds = perceiveStereoBonds(drawing);
+    const geometry = new Map(stereoBonds.filter(b => b.kind === 'double').map(b => [[...b.atomIds].sort().join('|'), b.descriptor]));
+    const numberOf = (id: string) => molecule.atoms.findIndex(a => a.id === id) + 1;
+    const relations = new Set<string>();
+    const descriptors = elements.flatMap((e, k) => {
+      if (!stereogenic[k]) return [];
+      if (e.kind === 'double') {
+        const ez = geometry.get([...e.ends].sort().join('|'));
+        return [`${e.label} ${ez === 'E' || ez === 'Z' ? ez : (value(k) > 0 ? 'cis' : 'trans')}`];
+      }
+      const configuration = cip.get(e.atomId);
+      if (configuration && configuration !== 'None') return [`${e.label} ${configuration}`];
+      // Ring centers without a CIP label are named by their relation to the next substituted ring atom
+      return stereoBonds
+        .filter(b => b.kind === 'ring' && b.atomIds.includes(e.atomId) && (b.descriptor === 'cis' || b.descriptor === 'trans'))
+        .flatMap(b => {
+          const key = [...b.atomIds].sort().join('|');
+          if (relations.has(key)) return [];
+          relations.add(key);
+          return [`${[...b.atomIds].sort((x, y) => numberOf(x) - numberOf(y)).map(id => `${graph.get(id)!.atom.element}${numberOf(id)}`).join('/')} ${b.descriptor}`];
+        });
+    });
+    return {
+      molecule: drawing,
+      smiles: writeSmiles(drawing),
+      relation: relationOf(mask),
+      meso: mesoForms && achiral(mask),
+      descriptors: descriptors.join(', '),
+      inverted: elements.filter((_, k) => stereogenic[k] && ((mask ^ reference) >> k) & 1).map(e => e.label),
+    };
+  });
+
+  return {
+    isomers,
+    elements: elements.filter((_, k) => stereogenic[k]).map(e => e.label),
+    unspecified: elements.filter((_, k) => stereogenic[k] && drawn[k] === 0).map(e => e.label),
+    truncated: ordered.length > MAX_STEREOISOMERS,
+  };
+}
+
+/** Heavy-atom skeleton: elements plus a symmetric bond-order matrix. */
+interface Skeleton {
+  elements: ElementType[];
+  orders: number[][];
+}
+
+const bondOrderTotal = (graph: MoleculeGraph, id: string) => graph.get(id)!.neighbors.reduce((sum, n) => sum + n.order, 0);
+
+const skeletonMolecule = ({ elements, orders }: Skeleton): Molecule => {
+  const bondTypes = ['', 'single', 'double', 'triple'] as const;
+  const bonds: Molecule['bonds'] = [];
+  orders.forEach((row, i) => row.forEach((order, j) => {
+    if (j > i && order > 0) bonds.push({ id: `b${i}-${j}`, from: `a${i}`, to: `a${j}`, type: bondTypes[order] as 'single' | 'double' | 'triple' });
+  }));
+  return { atoms: elements.map((element, i) => ({ id: `a${i}`, element, x: 0, y: 0, formalCharge: 0, lonePairs: 0 })), bonds };
+};
+
+/** Canonical string of a skeleton from the canonical atom ranks. */
+const skeletonKey = (skeleton: Skeleton): string => {
+  const { ranks } = canonicalRanks(skeletonMolecule(skeleton));
+  const rankOf = (i: number) => ranks.get(`a${i}`)!;
+  return skeleton.elements
+    .map((element, i) => ({ rank: rankOf(i), text: `${element}:${skeleton.orders[i].map((o, j) => (o > 0 ? `${rankOf(j)}${o}` : '')).filter(Boolean).sort().join(',')}` }))
+    .sort((a, b) => a.rank - b.rank)
+    .map(a => a.text)
+    .join(';');
+};
+
+/**
+ * Constitutional isomers with the same molecular formula as a neutral, connected molecule
+ * of at most CONSTITUTIONAL_ATOM_LIMIT heavy atoms: every spanning tree of the heavy atoms
+ * is grown atom by atom, then the remaining unsaturation is placed as extra bond orders or
+ * ring bonds, merging duplicates by canonical form at each step. Triple bonds and
+ * cumulated double bonds in rings smaller than eight are rejected.
+ */
+export function enumerateConstitutionalIsomers(molecule: Molecule): { isomers: ConstitutionalIsomer[]; truncated: boolean } {
+  const none = { isomers: [], truncated: false };
+  const heavy = withoutHydrogens(molecule);
+  const graph = buildGraph(heavy);
+  const n = heavy.atoms.length;
+  if (n < 2 || n > CONSTITUTIONAL_ATOM_LIMIT || connectedComponents(graph).length !== 1) return none;
+  if (heavy.atoms.some(a => !(a.element in SKELETON_VALENCES) || a.formalCharge || a.radicalElectrons || a.isotope)) return none;
+  if (heavy.atoms.some(a => bondOrderTotal(graph, a.id) + implicitHydrogens(graph, a.id) !== allowedValences(a)[0])) return none;
+
+  const hydrogens = molecule.atoms.length - n + heavy.atoms.reduce((sum, a) => sum + implicitHydrogens(graph, a.id), 0);
+  const valenceSum = heavy.atoms.reduce((sum, a) => sum + SKELETON_VALENCES[a.element], 0);
+  const unsaturation = (valenceSum - hydrogens) / 2 - (n - 1);
+  if (!Number.isInteger(unsaturation) || unsaturation < 0) return none;
+
+  const pool = heavy.atoms.map(a => a.element).sort();
+  const free = (s: Skeleton, i: number) => SKELETON_VALENCES[s.elements[i]] - s.orders[i].reduce((a, b) => a + b, 0);
+  let truncated = false;
+  const dedupe = (skeletons: Skeleton[]) => {
+    const seen = new Map<string, Skeleton>();
+    skeletons.forEach(s => {
+      if (seen.size >= SKELETON_LIMIT) { truncated = true; return; }
+      const key = skeletonKey(s);
+      if (!seen.has(key)) seen.set(key, s);
+    });
+    return [...seen.values()];
+  };
+
+  // Trees: attach one remaining element at a time to any atom with free valence
+  let level: Skeleton[] = dedupe([...new Set(pool)].map(element => ({ elements: [element], orders: [[0]] })));
+  for (let size = 1; size < n; size++) {
+    const grown: Skeleton[] = [];
+    level.forEach(s => {
+      const remaining = [...pool];
+      s.elements.forEach(e => remaining.splice(remaining.indexOf(e), 1));
+      [...new Set(remaining)].forEach(element => s.elements.forEach((_, i) => {
+        if (free(s, i) < 1) return;
+        const orders = [...s.orders.map(row => [...row, 0]), new Array(size + 1).fill(0)];
+        orders[i][size] = orders[size][i] = 1;
+        grown.push({ elements: [...s.elements, element], orders });
+      }));
+    });
+    level = dedupe(grown);
+  }
+
+  // Unsaturation: raise a bond order or close a ring, one unit at a time
+  for (let step = 0; step < unsaturation; step++) {
+    const raised: Skeleton[] = [];
+    level.forEach(s => {
+      for (let i = 0; i < n; i++) {
+        for (let j = i + 1; j < n; j++) {
+          if (free(s, i) < 1 || free(s, j) < 1 || s.orders[i][j] >= 3) continue;
+          const orders = s.orders.map(row => [...row]);
+          orders[i][j]++;
+          orders[j][i]++;
+          raised.push({ elements: s.elements, orders });
+        }
+      }
+    });
+    level = dedupe(raised);
+  }
+
+  const inputKey = skeletonKey({
+    elements: heavy.atoms.map(a => a.element),
+    orders: heavy.atoms.map(a => heavy.atoms.map(b => {
+      const bond = graph.get(a.id)!.neighbors.find(nb => nb.atomId === b.id);
+      return bond ? bondOrder(bond.bond) : 0;
+    })),
+  });
+
+  const isomers = level
+    .filter(s => skeletonKey(s) !== inputKey && !strainedRing(s))
+    .map(s => {
+      const laid = computeLayout(skeletonMolecule(s));
+      return { molecule: laid, smiles: writeSmiles(laid) };
+    })
+    .sort((a, b) => a.smiles.length - b.smiles.length || a.smiles.localeCompare(b.smiles));
+  return { isomers: isomers.slice(0, CONSTITUTIONAL_LIMIT), truncated: truncated || isomers.length > CONSTITUTIONAL_LIMIT };
+}
+
+/** Triple bonds or cumulated double bonds inside a ring of fewer than eight atoms. */
+function strainedRing(skeleton: Skeleton): boolean {
+  const graph = buildGraph(skeletonMolecule(skeleton));
+  return findRings(graph).some(ring => ring.length < 8 && ring.some((id, k) => {
+    const i = Number(id.slice(1)), j = Number(ring[(k + 1) % ring.length].slice(1));
+    const doubles = skeleton.orders[i].filter(o => o === 2).length;
+    return skeleton.orders[i][j] === 3 || doubles > 1;
+  }));
+}
+
+/**
+ * Drops isomers whose SMILES is the drawn structure itself or repeats an earlier entry,
+ * comparing canonical SMILES. Entries whose SMILES does not parse are kept as they are.
+ */
+export function distinctIsomers(isomers: IsomerInfo[], molecule: Molecule): IsomerInfo[] {
+  const seen = new Set([writeSmiles(molecule)]);
+  return isomers.filter(isomer => {
+    let smiles: string;
+    try {
+      smiles = writeSmiles(parseSmiles(isomer.smiles));
+    } catch {
+      return true;
+    }
+    if (seen.has(smiles)) return false;
+    seen.add(smiles);
+    return true;
+  });
+}
@@ -0,0 +1,533 @@
+import { Molecule } from "../types";
+import { MoleculeGraph, buildGraph, findRings, connectedComponents } from "./graphService";
+import { drawTetrahedralStereo, drawnStereoTargets } from "./cipService";
+
+export const LAYOUT_BOND_LENGTH = 55;
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+const add = (a: Point, b: Point): Point => ({ x: a.x + b.x, y: a.y + b.y });
+const subtract = (a: Point, b: Point): Point => ({ x: a.x - b.x, y: a.y - b.y });
+const angleOf = (v: Point) => Math.atan2(v.y, v.x);
+const polar = (angle: number, r = 1): Point => ({ x: Math.cos(angle) * r, y: Math.sin(angle) * r });
+const rotate = (v: Point, angle: number): Point => ({
+  x: v.x * Math.cos(angle) - v.y * Math.sin(angle),
+  y: v.x * Math.sin(angle) + v.y * Math.cos(angle),
+});
+const centroid = (points: Point[]): Point => {
+  const sum = points.reduce(add, { x: 0, y: 0 });
+  return { x: sum.x / points.length, y: sum.y / points.length };
+};
+const normalize = (v: Point): Point => {
+  const len = Math.hypot(v.x, v.y) || 1;
+  return { x: v.x / len, y: v.y / len };
+};
+
+/**
+ * Groups rings that share at least one atom (fused, spiro and bridged systems).
+ */
+function ringSystems(rings: string[][]): string[][][] {
+  const parent = rings.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  rings.forEach((ring, i) => rings.forEach((other, j) => {
+    if (j > i && ring.some(id => other.includes(id))) parent[find(i)] = find(j);
+  }));
+  const systems = new Map<number, string[][]>();
+  rings.forEach((ring, i) => {
+    const root = find(i);
+    if (!systems.has(root)) systems.set(root, []);
+    systems.get(root)!.push(ring);
+  });
+  return [...systems.values()];
+}
+
+/**
+ * Places a ring of `n` atoms as a regular polygon whose vertices include the already
+ * placed edge a–b, on the side of that edge away from `away`.
+ */
+function placeFusedRing(ring: string[], a: string, b: string, pos: Map<string, Point>, away: Point) {
+  const n = ring.length;
+  const pa = pos.get(a)!;
+  const pb = pos.get(b)!;
+  const mid = centroid([pa, pb]);
+  const edge = normalize(subtract(pb, pa));
+  let perp = { x: -edge.y, y: edge.x };
+  const toAway = subtract(away, mid);
+  if (perp.x * toAway.x + perp.y * toAway.y > 0) perp = { x: -perp.x, y: -perp.y };
+  const apothem = 1 / (2 * Math.tan(Math.PI / n));
+  const center = add(mid, { x: perp.x * apothem, y: perp.y * apothem });
+  const radius = 1 / (2 * Math.sin(Math.PI / n));
+
+  const angleA = angleOf(subtract(pa, center));
+  const angleB = angleOf(subtract(pb, center));
+  let delta = angleA - angleB;
+  while (delta > Math.PI) delta -= 2 * Math.PI;
+  while (delta < -Math.PI) delta += 2 * Math.PI;
+  const step = delta > 0 ? -2 * Math.PI / n : 2 * Math.PI / n;
+
+  // Walk the ring from b away from a
+  const ib = ring.indexOf(b);
+  const dir = ring[(ib + 1) % n] === a ? -1 : 1;
+  for (let k = 1; k < n - 1; k++) {
+    const id = ring[(ib + dir * k + n * k) % n];
+    if (!pos.has(id)) pos.set(id, add(center, polar(angleB + k * step, radius)));
+  }
+}
+
+function placeSpiroRing(ring: string[], shared: string, pos: Map<string, Point>, away: Point) {
+  const n = ring.length;
+  const ps = pos.get(shared)!;
+  const dir = normalize(subtract(ps, away));
+  const radius = 1 / (2 * Math.sin(Math.PI / n));
+  const center = add(ps, { x: dir.x * radius, y: dir.y * radius });
+  const start = angleOf(subtract(ps, center));
+  const is = ring.indexOf(shared);
+  for (let k = 1; k < n; k++) {
+    const id = ring[(is + k) % n];
+    if (!pos.has(id)) pos.set(id, add(center, polar(start + k * 2 * Math.PI / n, radius)));
+  }
+}
+
+/**
+ * Bridged rings: atoms between the ends of the placed run go on a bulge away from the system.
+ */
+function placeBridge(ring: string[], runStart: number, runLength: number, pos: Map<string, Point>, away: Point) {
+  const n = ring.length;
+  const a = ring[(runStart + runLength - 1) % n];
+  const b = ring[runStart];
+  const pa = pos.get(a)!;
+  const pb = pos.get(b)!;
+  const free = n - runLength;
+  const mid = centroid([pa, pb]);
+  const edge = normalize(subtract(pb, pa));
+  let perp = { x: -edge.y, y: edge.x };
+  const toAway = subtract(away, mid);
+  if (perp.x * toAway.x + perp.y * toAway.y > 0) perp = { x: -perp.x, y: -perp.y };
+  const height = Math.max(0.6, free * 0.45);
+  for (let k = 1; k <= free; k++) {
+    const t = k / (free + 1);
+    const id = ring[(runStart + runLength - 1 + k) % n];
+    if (pos.has(id)) continue;
+    const base = add(pa, { x: (pb.x - pa.x) * t, y: (pb.y - pa.y) * t });
+    pos.set(id, add(base, { x: perp.x * height * Math.sin(Math.PI * t), y: perp.y * height * Math.sin(Math.PI * t) }));
+  }
+}
+
+/**
+ * Peri-fused rings (pyrene, coronene): when the placed run is an arc of the ring's own
+ * regular polygon, the remaining atoms complete that polygon. False when it is not.
+ */
+function placeArc(ring: string[], runStart: number, runLength: number, pos: Map<string, Point>): boolean {
+  const n = ring.length;
+  const run = Array.from({ length: runLength }, (_, k) => pos.get(ring[(runStart + k) % n])!);
+  const radius = 1 / (2 * Math.sin(Math.PI / n));
+  const interior = Math.PI - 2 * Math.PI / n;
+  for (let k = 1; k < runLength; k++) {
+    if (Math.abs(Math.hypot(run[k].x - run[k - 1].x, run[k].y - run[k - 1].y) - 1) > 0.05) return false;
+  }
+  let turn = 0;
+  for (let k = 1; k < runLength - 1; k++) {
+    const before = subtract(run[k - 1], run[k]);
+    const after = subtract(run[k + 1], run[k]);
+    const cross = before.x * after.y - before.y * after.x;
+    const angle = Math.acos(Math.max(-1, Math.min(1, before.x * after.x + before.y * after.y)));
+    if (Math.abs(angle - interior) > 0.05 || (turn !== 0 && Math.sign(cross) !== turn)) return false;
+    turn = Math.sign(cross);
+  }
+  // The center lies on the inner side of the first edge, at the polygon's apothem
+  const mid = centroid([run[0], run[1]]);
+  const edge = normalize(subtract(run[1], run[0]));
+  const inward = turn > 0 ? { x: edge.y, y: -edge.x } : { x: -edge.y, y: edge.x };
+  const center = add(mid, { x: inward.x * radius * Math.cos(Math.PI / n), y: inward.y * radius * Math.cos(Math.PI / n) });
+  const start = angleOf(subtract(run[runLength - 1], center));
+  const step = angleOf(subtract(run[1], center)) - angleOf(subtract(run[0], center));
+  const direction = Math.sin(step) > 0 ? 1 : -1;
+  for (let k = 1; k <= n - runLength; k++) {
+    const id = ring[(runStart + runLength - 1 + k) % n];
+    if (!pos.has(id)) pos.set(id, add(center, polar(start + direction * k * 2 * Math.PI / n, radius)));
+  }
+  return true;
+}
+
+/** Atoms more than two bonds apart repel inside this range: the para atoms of a regular hexagon sit just at it. */
+const REPULSION_RANGE = 2;
+/** Components larger than this are not relaxed as a whole. */
+const RELAX_ATOM_LIMIT = 300;
+
+/** Distance between the ends of a zig-zag path of `hops` unit bonds at 120°. */
+const zigzagSpan = (hops: number) => Math.sqrt(0.75 * hops * hops + (hops % 2 === 1 ? 0.25 : 0));
+
+/**
+ * Whether a placement needs relaxing: a bond off unit length by more than `bondTolerance`,
+ * or two unbonded atoms closer than half a bond.
+ */
+function strained(adjacency: Map<string, string[]>, pos: Map<string, Point>, bondTolerance = 0.15): boolean {
+  const ids = [...pos.keys()];
+  return ids.some((id, i) => {
+    const p = pos.get(id)!;
+    const bonded = adjacency.get(id) || [];
+    return ids.slice(i + 1).some(other => {
+      const q = pos.get(other)!;
+      const length = Math.hypot(p.x - q.x, p.y - q.y);
+      return bonded.includes(other) ? Math.abs(length - 1) > bondTolerance : length < 0.5;
+    });
+  });
+}
+
+/**
+ * Distance relaxation (stress majorization) of the placed atoms, starting from the current
+ * placement: bonded atoms are held at unit length, atoms two bonds apart at a 120° span,
+ * and atoms further apart only repel within `REPULSION_RANGE`.
+ */
+function relaxDistances(adjacency: Map<string, string[]>, pos: Map<string, Point>, iterations = 200) {
+  const ids = [...pos.keys()];
+  const index = new Map(ids.map((id, k) => [id, k]));
+  const hops = ids.map(id => {
+    const dist = new Array<number>(ids.length).fill(0);
+    const seen = new Set([id]);
+    const queue = [id];
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      (adjacency.get(current) || []).forEach(next => {
+        if (seen.has(next) || !index.has(next)) return;
+        seen.add(next);
+        dist[index.get(next)!] = dist[index.get(current)!] + 1;
+        queue.push(next);
+      });
+    }
+    return dist;
+  });
+  const xs = ids.map(id => pos.get(id)!.x);
+  const ys = ids.map(id => pos.get(id)!.y);
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    for (let i = 0; i < ids.length; i++) {
+      let sx = 0, sy = 0, total = 0;
+      for (let j = 0; j < ids.length; j++) {
+        if (i === j || hops[i][j] === 0) continue;
+        // Bonds and bond angles hold firm; atoms further apart only push away when too close
+        const target = hops[i][j] > 2 ? REPULSION_RANGE : zigzagSpan(hops[i][j]);
+        let dx = xs[i] - xs[j], dy = ys[i] - ys[j];
+        let length = Math.hypot(dx, dy);
+        if (hops[i][j] > 2 && length >= target) continue;
+        const weight = hops[i][j] === 1 ? 40 : 1 / Math.pow(Math.min(target, Math.max(length, 0.25)), 2);
+        // Coincident atoms are pulled apart in a fixed direction
+        if (length < 1e-6) { dx = Math.cos(i + j); dy = Math.sin(i + j); length = 1; }
+        sx += weight * (xs[j] + target * dx / length);
+        sy += weight * (ys[j] + target * dy / length);
+        total += weight;
+      }
+      if (total > 0) { xs[i] = sx / total; ys[i] = sy / total; }
+    }
+  }
+  ids.forEach((id, k) => pos.set(id, { x: xs[k], y: ys[k] }));
+}
+
+/**
+ * Local coordinates (unit bond length) for one ring system. The most fused ring is drawn
+ * first as a regular polygon; every other ring is then built outward from the atoms it
+ * shares with rings already placed. Bridged and caged systems, which no set of regular
+ * polygons fits, are relaxed afterwards.
+ */
+function layoutRingSystem(system: string[][]): Map<string, Point> {
+  const pos = new Map<string, Point>();
+  const sharedCount = (ring: string[]) => system.filter(r => r !== ring && r.some(id => ring.includes(id))).length;
+  const first = [...system].sort((a, b) => sharedCount(b) - sharedCount(a) || b.length - a.length)[0];
+
+  const n = first.length;
+  const radius = 1 / (2 * Math.sin(Math.PI / n));
+  const start = (n % 2 === 1 || n % 4 === 2) ? Math.PI / 2 : Math.PI / 2 + Math.PI / n;
+  first.forEach((id, k) => pos.set(id, polar(start + k * 2 * Math.PI / n, radius)));
+
+  const placed = new Set<string[]>([first]);
+  while (placed.size < system.length) {
+    const next = system
+      .filter(r => !placed.has(r))
+      .map(r => ({ ring: r, count: r.filter(id => pos.has(id)).length }))
+      .sort((a, b) => b.count - a.count)[0];
+    const { ring } = next;
+    if (next.count === 0) break;
+    placed.add(ring);
+    const systemCenter = centroid([...pos.values()]);
+
+    // Longest contiguous run of placed atoms around the ring
+    const size = ring.length;
+    let bestStart = 0;
+    let bestLength = 0;
+    for (let i = 0; i < size; i++) {
+      if (!pos.has(ring[i]) || pos.has(ring[(i - 1 + size) % size])) continue;
+      let length = 0;
+      while (length < size && pos.has(ring[(i + length) % size])) length++;
+      if (length > bestLength) { bestStart = i; bestLength = length; }
+    }
+    if (bestLength === 0) { bestStart = 0; bestLength = size; }
+
+    if (bestLength === 1) {
+      placeSpiroRing(ring, ring[bestStart], pos, systemCenter);
+    } else if (bestLength === 2) {
+      const a = ring[bestStart];
+      const b = ring[(bestStart + 1) % size];
+      const owner = [...placed].find(r => r !== ring && r.includes(a) && r.includes(b));
+      placeFusedRing(ring, a, b, pos, owner ? centroid(owner.map(id => pos.get(id)!)) : systemCenter);
+    } else if (bestLength < size && !placeArc(ring, bestStart, bestLength, pos)) {
+      placeBridge(ring, bestStart, bestLength, pos, systemCenter);
+    }
+  }
+
+  const adjacency = new Map<string, string[]>();
+  system.forEach(ring => ring.forEach((id, k) => {
+    const next = ring[(k + 1) % ring.length];
+    adjacency.set(id, [...(adjacency.get(id) || []), next]);
+    adjacency.set(next, [...(adjacency.get(next) || []), id]);
+  }));
+  if (strained(adjacency, pos)) relaxDistances(adjacency, pos);
+  return pos;
+}
+
+/**
+ * Swings crowded terminal atoms (halogens, OH, methyls) about their attachment point
+ * to the nearby position with the most clearance.
+ */
+function relieveCrowding(graph: MoleculeGraph, pos: Map<string, Point>) {
+  pos.forEach((p, id) => {
+    const node = graph.get(id)!;
+    if (node.neighbors.length !== 1) return;
+    const parent = node.neighbors[0].atomId;
+    const anchor = pos.get(parent);
+    if (!anchor) return;
+    const clearance = (q: Point) => Math.min(...[...pos]
+      .filter(([other]) => other !== id && other !== parent)
+      .map(([, r]) => Math.hypot(r.x - q.x, r.y - q.y)));
+    let best = p;
+    let bestClearance = clearance(p);
+    if (bestClearance >= 0.6) return;
+    const base = angleOf(subtract(p, anchor));
+    for (let k = -3; k <= 3; k++) {
+      const q = add(anchor, polar(base + k * Math.PI / 6));
+      const c = clearance(q);
+      if (c > bestClearance) { best = q; bestClearance = c; }
+    }
+    pos.set(id, best);
+  });
+}
+
+const isLinearCenter = (graph: MoleculeGraph, id: string) => {
+  const orders = graph.get(id)!.neighbors.map(n => n.order);
+  return orders.includes(3) || orders.filter(o => o === 2).length >= 2;
+};
+
+/**
+ * Lays out one connected component around the origin.
+ */
+function layoutComponent(graph: MoleculeGraph, component: string[], systems: string[][][]): Map<string, Point> {
+  const pos = new Map<string, Point>();
+  const zig = new Map<string, boolean>();
+  const systemOf = new Map<string, number>();
+  systems.forEach((system, i) => system.forEach(ring => ring.forEach(id => systemOf.set(id, i))));
+  const localSystems = [...new Set(component.filter(id => systemOf.has(id)).map(id => systemOf.get(id)!))];
+
+  const queue: string[] = [];
+  if (localSystems.length > 0) {
+    const largest = localSystems.sort((a, b) => new Set(systems[b].flat()).size - new Set(systems[a].flat()).size)[0];
+    layoutRingSystem(systems[largest]).forEach((p, id) => { pos.set(id, p); queue.push(id); });
+  } else {
+    // Start a chain from one end of its longest path so it zig-zags across the canvas
+    const farthest = (from: string) => {
+      const dist = new Map([[from, 0]]);
+      const bfs = [from];
+      let last = from;
+      while (bfs.length > 0) {
+        const id = bfs.shift()!;
+        last = id;
+        graph.get(id)!.neighbors.forEach(n => {
+          if (!dist.has(n.atomId)) { dist.set(n.atomId, dist.get(id)! + 1); bfs.push(n.atomId); }
+        });
+      }
+      return last;
+    };
+    const seed = farthest(farthest(component[0]));
+    pos.set(seed, { x: 0, y: 0 });
+    zig.set(seed, true);
+    queue.push(seed);
+  }
+
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    const p = pos.get(id)!;
+    const neighbors = graph.get(id)!.neighbors;
+    const unplaced = neighbors.filter(n => !pos.has(n.atomId)).map(n => n.atomId);
+    if (unplaced.length === 0) continue;
+    const dirs = neighbors.filter(n => pos.has(n.atomId)).map(n => angleOf(subtract(pos.get(n.atomId)!, p))).sort((a, b) => a - b);
+
+    let angles: number[];
+    if (dirs.length === 0) {
+      angles = unplaced.map((_, i) => Math.PI / 6 + i * 2 * Math.PI / unplaced.length);
+    } else if (dirs.length === 1 && unplaced.length === 1) {
+      const turn = isLinearCenter(graph, id) ? Math.PI : (zig.get(id) ? 2 * Math.PI / 3 : -2 * Math.PI / 3);
+      angles = [dirs[0] + turn];
+    } else {
+      let gapStart = dirs[dirs.length - 1];
+      let gap = dirs[0] + 2 * Math.PI - gapStart;
+      for (let i = 0; i < dirs.length - 1; i++) {
+        if (dirs[i + 1] - dirs[i] > gap) { gapStart = dirs[i]; gap = dirs[i + 1] - dirs[i]; }
+      }
+      angles = unplaced.map((_, i) => gapStart + gap * (i + 1) / (unplaced.length + 1));
+    }
+
+    unplaced.forEach((childId, i) => {
+      if (pos.has(childId)) return;
+      const target = add(p, polar(angles[i]));
+      const system = systemOf.get(childId);
+      if (system !== undefined && ![...new Set(systems[system].flat())].some(a => pos.has(a))) {
+        const local = layoutRingSystem(systems[system]);
+        const ringNeighbors = graph.get(childId)!.neighbors.filter(n => local.has(n.atomId)).map(n => local.get(n.atomId)!);
+        const exit = subtract(local.get(childId)!, centroid(ringNeighbors));
+        const rotation = angles[i] + Math.PI - angleOf(exit);
+        const anchor = local.get(childId)!;
+        pos.set(childId, target);
+        queue.push(childId);
+        local.forEach((lp, atomId) => {
+          if (atomId === childId) return;
+          pos.set(atomId, add(target, rotate(subtract(lp, anchor), rotation)));
+          queue.push(atomId);
+        });
+        return;
+      }
+      pos.set(childId, target);
+      zig.set(childId, !zig.get(id));
+      queue.push(childId);
+    });
+  }
+  relieveCrowding(graph, pos);
+  // Substituents of crowded or bridged systems can still land on other atoms
+  const adjacency = new Map(component.map(id => [id, graph.get(id)!.neighbors.map(n => n.atomId)]));
+  if (component.length <= RELAX_ATOM_LIMIT && strained(adjacency, pos, Infinity)) relaxDistances(adjacency, pos);
+  return pos;
+}
+
+/**
+ * Computes fresh 2D coordinates for every atom: regular polygons for rings (built
+ * edge-on-edge for fused systems), zig-zag chains and straight sp centers. Components
+ * are laid out side by side and the result is centered on `origin` in canvas units.
+ */
+export function computeLayout(molecule: Molecule, bondLength = LAYOUT_BOND_LENGTH, origin: Point = { x: 500, y: 400 }): Molecule {
+  if (molecule.atoms.length === 0) return molecule;
+  const graph = buildGraph(molecule);
+  const systems = ringSystems(findRings(graph));
+
+  const all = new Map<string, Point>();
+  let cursor = 0;
+  connectedComponents(graph).forEach(component => {
+    const pos = layoutComponent(graph, component, systems);
+    const xs = [...pos.values()].map(p => p.x);
+    const shift = cursor - Math.min(...xs);
+    pos.forEach((p, id) => all.set(id, { x: p.x + shift, y: p.y }));
+    cursor = Math.max(...xs) + shift + 2;
+  });
+
+  const center = centroid([...all.values()]);
+  return {
+    ...molecule,
+    atoms: molecule.atoms.map(atom => {
+      const p = all.get(atom.id)!;
+      // Layout runs in a y-up frame; the canvas is y-down
+      return { ...atom, x: origin.x + (p.x - center.x) * bondLength, y: origin.y - (p.y - center.y) * bondLength };
+    }),
+  };
+}
+
+/**
+ * Mirrors the branch hanging off `to` (away from `from`) across the from–to axis so the
+ * drawn double bond matches the requested cis/trans relationship. Ring bonds are left alone.
+ */
+export function reflectBranch(molecule: Molecule, fromId: string, toId: string): boolean {
+  const graph = buildGraph(molecule);
+  const branch = new Set([toId]);
+  const stack = [toId];
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    for (const n of graph.get(id)!.neighbors) {
+      if (id === toId && n.atomId === fromId) continue;
+      if (n.atomId === fromId) return false;
+      if (!branch.has(n.atomId)) { branch.add(n.atomId); stack.push(n.atomId); }
+    }
+  }
+  const a = graph.get(fromId)!.atom;
+  const b = graph.get(toId)!.atom;
+  const len = Math.hypot(b.x - a.x, b.y - a.y) || 1;
+  const ux = (b.x - a.x) / len;
+  const uy = (b.y - a.y) / len;
+  molecule.atoms.forEach(atom => {
+    if (!branch.has(atom.id)) return;
+    const px = atom.x - a.x;
+    const py = atom.y - a.y;
+    const along = px * ux + py * uy;
+    atom.x = a.x + 2 * along * ux - px;
+    atom.y = a.y + 2 * along * uy - py;
+  });
+  return true;
+}
+
+const sideOf = (molecule: Molecule, a: string, b: string, x: string): number => {
+  const at = new Map(molecule.atoms.map(atom => [atom.id, atom]));
+  const [pa, pb, px] = [at.get(a)!, at.get(b)!, at.get(x)!];
+  const value = (pb.x - pa.x) * (px.y - pa.y) - (pb.y - pa.y) * (px.x - pa.x);
+  return Math.abs(value) < 1e-6 ? 0 : Math.sign(value);
+};
+
+/** A double bond with substituent `x` on `from` and `y` on `to`, drawn cis (1) or trans (-1). */
+export interface AlkeneTarget {
+  from: string;
+  to: string;
+  x: string;
+  y: string;
+  cis: number;
+}
+
+/**
+ * Acyclic double bonds with a substituent at each end, with the relationship `cis` reads
+ * for them; bonds it reports as 0 (linear or undecidable) are left out.
+ */
+export function alkeneTargets(molecule: Molecule, cis: (from: string, to: string, x: string, y: string) => number): AlkeneTarget[] {
+  const graph = buildGraph(molecule);
+  const ringBonds = new Set<string>();
+  findRings(graph).forEach(ring => ring.forEach((id, k) => ringBonds.add([id, ring[(k + 1) % ring.length]].sort().join('|'))));
+  return molecule.bonds
+    .filter(b => b.type === 'double' && !ringBonds.has([b.from, b.to].sort().join('|')))
+    .map(b => {
+      const x = graph.get(b.from)?.neighbors.find(n => n.atomId !== b.to)?.atomId;
+      const y = graph.get(b.to)?.neighbors.find(n => n.atomId !== b.from)?.atomId;
+      if (!x || !y) return null;
+      const relation = cis(b.from, b.to, x, y);
+      return relation === 0 ? null : { from: b.from, to: b.to, x, y, cis: relation };
+    })
+    .filter((a): a is AlkeneTarget => a !== null);
+}
+
+/** Reflects branches of `molecule` in place so each double bond shows its target geometry. */
+export function drawAlkeneGeometry(molecule: Molecule, targets: AlkeneTarget[]): void {
+  targets.forEach(({ from, to, x, y, cis }) => {
+    if (sideOf(molecule, from, to, x) * sideOf(molecule, from, to, y) !== cis) reflectBranch(molecule, from, to);
+  });
+}
+
+/**
+ * Clean Structure: recomputes 2D coordinates around the current centroid while keeping the
+ * stereochemistry the drawing already expresses. Tetrahedral centers are redrawn with a
+ * wedge or dash of the same parity and acyclic double bonds keep their cis/trans geometry.
+ */
+export function cleanStructure(molecule: Molecule): Molecule {
+  if (molecule.atoms.length === 0) return molecule;
+  const targets = drawnStereoTargets(molecule);
+  const alkenes = alkeneTargets(molecule, (from, to, x, y) => sideOf(molecule, from, to, x) * sideOf(molecule, from, to, y));
+
+  const origin = {
+    x: molecule.atoms.reduce((s, a) => s + a.x, 0) / molecule.atoms.length,
+    y: molecule.atoms.reduce((s, a) => s + a.y, 0) / molecule.atoms.length,
+  };
+  const laid = computeLayout(molecule, LAYOUT_BOND_LENGTH, origin);
+  drawAlkeneGeometry(laid, alkenes);
+  return drawTetrahedralStereo(laid, targets);
+}
@@ -0,0 +1,92 @@
+import { PhysicalProperties } from "../types";
+
+export interface MoleculeFixture {
+  commonName: string;
+  iupacName: string;
+  smiles: string;
+  properties: PhysicalProperties;
+  educationalNote: string;
+}
+
+/**
+ * Canned answers for the mock provider. Enough stereochemistry to exercise every panel:
+ * single and paired stereocentres, a ring sugar, a stereogenic double bond and achiral references.
+ */
+export const MOLECULE_FIXTURES: MoleculeFixture[] = [
+  {
+    commonName: 'Ethanol',
+    iupacName: 'ethanol',
+    smiles: 'CCO',
+    properties: { molecularWeight: '46.07 g/mol', logP: '-0.31', boilingPoint: '78.4 °C', meltingPoint: '-114.1 °C', hBondDonors: 1, hBondAcceptors: 1 },
+    educationalNote: 'Achiral reference: no atom carries four different substituents.',
+  },
+  {
+    commonName: 'Butane',
+    iupacName: 'butane',
+    smiles: 'CCCC',
+    properties: { molecularWeight: '58.12 g/mol', logP: '2.89', boilingPoint: '-0.5 °C', meltingPoint: '-138.3 °C', hBondDonors: 0, hBondAcceptors: 0 },
+    educationalNote: 'Rotation about C2–C3 passes through anti, gauche and eclipsed conformations.',
+  },
+  {
+    commonName: 'Cyclohexane',
+    iupacName: 'cyclohexane',
+    smiles: 'C1CCCCC1',
+    properties: { molecularWeight: '84.16 g/mol', logP: '3.44', boilingPoint: '80.7 °C', meltingPoint: '6.5 °C', hBondDonors: 0, hBondAcceptors: 0 },
+    educationalNote: 'The chair is free of angle and torsional strain; the ring flip swaps axial and equatorial positions.',
+  },
+  {
+    commonName: 'Benzene',
+    iupacName: 'benzene',
+    smiles: 'c1ccccc1',
+    properties: { molecularWeight: '78.11 g/mol', logP: '2.13', boilingPoint: '80.1 °C', meltingPoint: '5.5 °C', hBondDonors: 0, hBondAcceptors: 0 },
+    educationalNote: 'Planar and aromatic, with six π electrons delocalised over the ring.',
+  },
+  {
+    commonName: '(R)-Butan-2-ol',
+    iupacName: '(2R)-butan-2-ol',
+    smiles: 'CC[C@@H](C)O',
+    properties: { molecularWeight: '74.12 g/mol', logP: '0.61', boilingPoint: '99.5 °C', meltingPoint: '-115 °C', hBondDonors: 1, hBondAcceptors: 1 },
+    educationalNote: 'One stereocentre: OH > ethyl > methyl > H.',
+  },
+  {
+    commonName: 'L-Alanine',
+    iupacName: '(2S)-2-aminopropanoic acid',
+    smiles: 'C[C@@H](C(=O)O)N',
+    properties: { molecularWeight: '89.09 g/mol', logP: '-2.85', meltingPoint: '297 °C (dec.)', hBondDonors: 2, hBondAcceptors: 3 },
+    educationalNote: 'L-amino acids other than cysteine are S at the α carbon.',
+  },
+  {
+    commonName: 'L-Tartaric acid',
+    iupacName: '(2R,3R)-2,3-dihydroxybutanedioic acid',
+    smiles: '[C@@H]([C@H](C(=O)O)O)(C(=O)O)O',
+    properties: { molecularWeight: '150.09 g/mol', meltingPoint: '171 °C', hBondDonors: 4, hBondAcceptors: 6 },
+    educationalNote: 'Two equivalent stereocentres: RR and SS are enantiomers, RS is the meso form.',
+  },
+  {
+    commonName: 'β-D-Glucose',
+    iupacName: '(2R,3R,4S,5S,6R)-6-(hydroxymethyl)oxane-2,3,4,5-tetrol',
+    smiles: 'C([C@@H]1[C@H]([C@@H]([C@H]([C@@H](O1)O)O)O)O)O',
+    properties: { molecularWeight: '180.16 g/mol', logP: '-3.24', meltingPoint: '150 °C', hBondDonors: 5, hBondAcceptors: 6 },
+    educationalNote: 'Every substituent of the β-pyranose chair can sit equatorial.',
+  },
+  {
+    commonName: 'trans-But-2-ene',
+    iupacName: '(E)-but-2-ene',
+    smiles: 'C/C=C/C',
+    properties: { molecularWeight: '56.11 g/mol', logP: '2.33', boilingPoint: '0.9 °C', meltingPoint: '-105.5 °C', hBondDonors: 0, hBondAcceptors: 0 },
+    educationalNote: 'The methyl groups sit on opposite sides of the double bond: E.',
+  },
+];
+
+/** Short glossary served by the mock and local providers in place of generated explanations. */
+export const TOPIC_FIXTURES: Record<string, string> = {
+  'chirality': 'A molecule is chiral when it cannot be superimposed on its mirror image. Most chiral organic molecules contain at least one stereocentre.',
+  'stereocenter': 'An atom, usually an sp3 carbon, bonded to four different groups. Swapping any two of them gives the other stereoisomer.',
+  'cip rules': 'Cahn–Ingold–Prelog priorities rank substituents by atomic number, exploring outwards sphere by sphere until the first difference.',
+  'r/s': 'With the lowest-priority group pointing away, a clockwise path 1 → 2 → 3 is R and an anticlockwise path is S.',
+  'e/z': 'Rank the two groups on each end of the double bond. Z when the higher-priority groups are on the same side, E when they are opposite.',
+  'meso compound': 'Has stereocentres but is achiral, because an internal mirror plane or inversion centre maps the molecule onto itself.',
+  'vsepr': 'Electron domains around a central atom, bonds and lone pairs alike, spread out to minimise repulsion and set the molecular shape.',
+  'conformation': 'Arrangements of a molecule that interconvert by rotation about single bonds, without breaking any bond.',
+  'point group': 'The set of symmetry operations that leave the molecule unchanged: rotations, reflections, inversion and improper rotations.',
+};
@@ -0,0 +1,100 @@
+import { MODEL_TASKS, ModelTask, ModelResponse } from "./modelTasks";
+import { abortError } from "./requestService";
+
+/**
+ * Runs the tasks in `MODEL_TASKS` in a dedicated worker so that conformer, isomer and torsion
+ * searches never block the page. Tasks run one at a time in call order; aborting a queued
+ * task drops it, and aborting the running one terminates the worker, which is restarted
+ * for the next task.
+ */
+
+type Task<K extends ModelTask> = (typeof MODEL_TASKS)[K];
+
+interface Job {
+  task: ModelTask;
+  args: unknown[];
+  resolve: (value: unknown) => void;
+  reject: (error: unknown) => void;
+  signal?: AbortSignal;
+  onAbort: () => void;
+}
+
+let worker: Worker | null = null;
+let running: Job | null = null;
+const queue: Job[] = [];
+
+function settle(job: Job) {
+  job.signal?.removeEventListener('abort', job.onAbort);
+  if (running === job) running = null;
+}
+
+function spawn(): Worker {
+  const created = new Worker(new URL('./modelWorker.ts', import.meta.url), { type: 'module' });
+  created.addEventListener('message', (event: MessageEvent<ModelResponse>) => {
+    const job = running;
+    if (!job) return;
+    settle(job);
+    if ('error' in event.data) job.reject(new Error(event.data.error));
+    else job.resolve(event.data.result);
+    next();
+  });
+  // The worker script failed to load or threw outside a task
+  created.addEventListener('error', event => {
+    event.preventDefault();
+    const job = running;
+    restart();
+    if (job) {
+      settle(job);
+      job.reject(new Error(event.message || `${job.task} failed in the worker`));
+    }
+    next();
+  });
+  return created;
+}
+
+function restart() {
+  worker?.terminate();
+  worker = null;
+}
+
+function next() {
+  if (running || queue.length === 0) return;
+  running = queue.shift()!;
+  worker = worker || spawn();
+  worker.postMessage({ task: running.task, args: running.args });
+}
+
+/** Runs `task` off the main thread; without Worker support (tests, old browsers) it runs inline. */
+export function runModelTask<K extends ModelTask>(task: K, args: Parameters<Task<K>>, signal?: AbortSignal): Promise<ReturnType<Task<K>>> {
+  if (signal?.aborted) return Promise.reject(abortError());
+  if (typeof Worker === 'undefined') {
+    try {
+      return Promise.resolve((MODEL_TASKS[task] as (...a: unknown[]) => ReturnType<Task<K>>)(...args));
+    } catch (error) {
+      return Promise.reject(error);
+    }
+  }
+  return new Promise((resolve, reject) => {
+    const job: Job = {
+      task,
+      args,
+      resolve: value => resolve(value as ReturnType<Task<K>>),
+      reject,
+      signal,
+      onAbort: () => {
+        if (running === job) {
+          // A synchronous search cannot be interrupted, only thrown away with its worker
+          restart();
+          running = null;
+          next();
+        } else {
+          queue.splice(queue.indexOf(job), 1);
+        }
+        reject(abortError());
+      },
+    };
+    signal?.addEventListener('abort', job.onAbort, { once: true });
+    queue.push(job);
+    next();
+  });
+}
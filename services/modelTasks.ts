@@ -0,0 +1,101 @@
+import { Molecule, ConformationInfo, IsomerInfo } from "../types";
+import { writeSmiles } from "./smilesService";
+import { calculateFormula } from "./formulaService";
+import { embedMolecule, conformerToSdf, searchConformers } from "./conformerService";
+import { enumerateStereoisomers, enumerateConstitutionalIsomers } from "./isomerService";
+import { projectBond } from "./newmanService";
+
+export const toSmiles = (mol: Molecule): string => {
+  try { return writeSmiles(mol); } catch { return ''; }
+};
+
+/**
+ * Local 3D embedding as SDF; undefined when the structure cannot be embedded.
+ * The title line must not be blank: Visualizer3D trims the record before parsing.
+ */
+export const toSdf3D = (mol: Molecule, title = ''): string | undefined => {
+  try {
+    const conformer = embedMolecule(mol);
+    return conformer ? conformerToSdf(conformer, title || toSmiles(mol) || 'structure') : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+/** Ranked local conformers, each carrying its own SDF; empty when the search fails. */
+export const toConformations = (mol: Molecule, title = ''): ConformationInfo[] => {
+  try {
+    const smiles = toSmiles(mol);
+    return searchConformers(mol).map(c => ({
+      name: c.label,
+      smiles,
+      energyScore: `+${c.relativeEnergy.toFixed(2)} kcal/mol`,
+      relativeEnergy: c.relativeEnergy,
+      description: c.description,
+      sdfData: conformerToSdf(c, `${title || smiles || 'structure'} ${c.label}`),
+    }));
+  } catch {
+    return [];
+  }
+};
+
+export interface LocalIsomer {
+  info: IsomerInfo;
+  molecule: Molecule;
+}
+
+/**
+ * Locally enumerated stereoisomers, plus constitutional isomers when asked for. The drawn
+ * structure itself is left out; 3D models are embedded one isomer at a time afterwards.
+ */
+export const toIsomers = (mol: Molecule, constitutional: boolean): LocalIsomer[] => {
+  try {
+    const stereo = enumerateStereoisomers(mol);
+    const open = stereo.unspecified.length > 0
+      ? ` ${stereo.unspecified.join(', ')} ${stereo.unspecified.length > 1 ? 'are' : 'is'} not specified in the drawing, so the comparison takes an arbitrary configuration there.`
+      : '';
+    const isomers: LocalIsomer[] = stereo.isomers.filter(i => i.relation !== 'identical').map(i => {
+      const type = i.relation as 'enantiomer' | 'diastereomer';
+      const kind = i.meso ? `Meso ${type}` : type[0].toUpperCase() + type.slice(1);
+      return {
+        info: {
+          name: i.descriptors ? `${kind} (${i.descriptors})` : kind,
+          smiles: i.smiles,
+          type,
+          description: `Inverts ${i.inverted.join(', ')} relative to the drawn structure.${i.meso ? ' Superimposable on its mirror image.' : ''}${open}`,
+        },
+        molecule: i.molecule,
+      };
+    });
+    if (!constitutional) return isomers;
+    const formula = calculateFormula(mol)?.formula;
+    return [...isomers, ...enumerateConstitutionalIsomers(mol).isomers.map(c => ({
+      info: { name: c.smiles, smiles: c.smiles, type: 'constitutional' as const, description: `Same formula${formula ? ` (${formula})` : ''}, different connectivity.` },
+      molecule: c.molecule,
+    }))];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * The searches that take long enough to stall the page (conformers, isomers, torsion scans),
+ * run by `runModelTask` in a worker. Arguments and results must survive structured cloning.
+ */
+export const MODEL_TASKS = {
+  sdf: toSdf3D,
+  conformations: toConformations,
+  isomers: toIsomers,
+  projection: projectBond,
+};
+
+export type ModelTask = keyof typeof MODEL_TASKS;
+
+/** Message to the worker. */
+export interface ModelRequest {
+  task: ModelTask;
+  args: unknown[];
+}
+
+/** The worker's answer; thrown errors come back as their message. */
+export type ModelResponse = { result: unknown } | { error: string };
@@ -0,0 +1,13 @@
+import { MODEL_TASKS, ModelRequest, ModelResponse } from "./modelTasks";
+
+// Worker entry: one task per message, answered in order
+self.addEventListener('message', (event: MessageEvent<ModelRequest>) => {
+  const { task, args } = event.data;
+  let response: ModelResponse;
+  try {
+    response = { result: (MODEL_TASKS[task] as (...a: unknown[]) => unknown)(...args) };
+  } catch (error) {
+    response = { error: (error as Error)?.message || `${task} failed` };
+  }
+  self.postMessage(response);
+});
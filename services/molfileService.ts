@@ -0,0 +1,415 @@
+import { Atom, Bond, ElementType, Molecule } from "../types";
+import { ELEMENTS } from "../constants";
+import { buildGraph, allowedValences, findKekuleDoubles } from "./graphService";
+import { computeLayout, alkeneTargets, drawAlkeneGeometry, AlkeneTarget, LAYOUT_BOND_LENGTH } from "./layoutService";
+import { perceiveStereocenters, drawTetrahedralStereo, TetrahedralTarget } from "./cipService";
+
+export type MolfileVersion = 'V2000' | 'V3000';
+
+interface RawAtom {
+  element: string;
+  x: number;
+  y: number;
+  z: number;
+  charge: number;
+  isotope?: number;
+  radical?: number;
+}
+
+interface RawBond {
+  a: number;
+  b: number;
+  // MDL bond type: 1 single, 2 double, 3 triple, 4 aromatic
+  type: number;
+  // 1 wedge, 6 hash (V2000); V3000 CFG values are mapped onto these
+  stereo: number;
+}
+
+interface RawTable {
+  title: string;
+  atoms: RawAtom[];
+  bonds: RawBond[];
+}
+
+/** Average bond length in Ångström that maps to LAYOUT_BOND_LENGTH on the canvas. */
+const ANGSTROM_BOND_LENGTH = 1.5;
+
+const V2000_CHARGES: Record<number, number> = { 1: 3, 2: 2, 3: 1, 5: -1, 6: -2, 7: -3 };
+
+// MDL radical codes: 1 singlet and 3 triplet carry two unpaired electrons, 2 doublet one
+const RADICAL_ELECTRONS: Record<number, number> = { 1: 2, 2: 1, 3: 2 };
+
+const field = (line: string, start: number, length: number) => line.substring(start, start + length).trim();
+
+const int = (text: string) => {
+  const value = parseInt(text, 10);
+  return Number.isNaN(value) ? 0 : value;
+};
+
+function parseV2000(lines: string[], title: string): RawTable {
+  const counts = lines[3];
+  const atomCount = int(field(counts, 0, 3));
+  const bondCount = int(field(counts, 3, 3));
+  if (lines.length < 4 + atomCount + bondCount) throw new Error("Molfile is truncated: atom or bond block is incomplete");
+
+  const atoms: RawAtom[] = lines.slice(4, 4 + atomCount).map(line => {
+    const code = int(field(line, 36, 3));
+    return {
+      element: field(line, 31, 3),
+      x: parseFloat(field(line, 0, 10)),
+      y: parseFloat(field(line, 10, 10)),
+      z: parseFloat(field(line, 20, 10)) || 0,
+      charge: V2000_CHARGES[code] || 0,
+      // Charge code 4 is the legacy doublet radical
+      ...(code === 4 ? { radical: 1 } : {}),
+    };
+  });
+  const bonds: RawBond[] = lines.slice(4 + atomCount, 4 + atomCount + bondCount).map(line => ({
+    a: int(field(line, 0, 3)) - 1,
+    b: int(field(line, 3, 3)) - 1,
+    type: int(field(line, 6, 3)),
+    stereo: int(field(line, 9, 3)),
+  }));
+
+  // Property block; M  CHG supersedes the atom block charges
+  let chargesReset = false;
+  lines.slice(4 + atomCount + bondCount).forEach(line => {
+    if (line.startsWith('M  END')) return;
+    const tag = line.substring(0, 6);
+    if (tag !== 'M  CHG' && tag !== 'M  ISO' && tag !== 'M  RAD') return;
+    if (tag === 'M  CHG' && !chargesReset) {
+      atoms.forEach(atom => { atom.charge = 0; });
+      chargesReset = true;
+    }
+    const entries = line.substring(6).trim().split(/\s+/).map(Number);
+    for (let k = 1; k + 1 < entries.length && (k - 1) / 2 < entries[0]; k += 2) {
+      const atom = atoms[entries[k] - 1];
+      if (!atom) continue;
+      if (tag === 'M  CHG') atom.charge = entries[k + 1];
+      else if (tag === 'M  ISO') atom.isotope = entries[k + 1];
+      else atom.radical = RADICAL_ELECTRONS[entries[k + 1]] || 0;
+    }
+  });
+
+  return { title, atoms, bonds };
+}
+
+function parseV3000(lines: string[], title: string): RawTable {
+  // Join '-' continuation lines into one logical record each
+  const records: string[] = [];
+  let pending = '';
+  lines.forEach(line => {
+    if (!line.startsWith('M  V30 ')) return;
+    const body = line.substring(7);
+    if (body.endsWith('-')) { pending += body.slice(0, -1); return; }
+    records.push((pending + body).trim());
+    pending = '';
+  });
+
+  const atoms: RawAtom[] = [];
+  const bonds: RawBond[] = [];
+  const atomIndex = new Map<number, number>();
+  let block = '';
+  records.forEach(record => {
+    if (record.startsWith('BEGIN ')) { block = record.substring(6).trim(); return; }
+    if (record.startsWith('END ')) { block = ''; return; }
+    const tokens = record.split(/\s+/);
+    const options = new Map(tokens.filter(t => t.includes('=')).map(t => t.split('=') as [string, string]));
+
+    if (block === 'ATOM') {
+      atomIndex.set(int(tokens[0]), atoms.length);
+      atoms.push({
+        element: tokens[1],
+        x: parseFloat(tokens[2]),
+        y: parseFloat(tokens[3]),
+        z: parseFloat(tokens[4]) || 0,
+        charge: int(options.get('CHG') || '0'),
+        ...(options.has('MASS') ? { isotope: int(options.get('MASS')!) } : {}),
+        ...(options.has('RAD') ? { radical: RADICAL_ELECTRONS[int(options.get('RAD')!)] || 0 } : {}),
+      });
+    } else if (block === 'BOND') {
+      const cfg = int(options.get('CFG') || '0');
+      bonds.push({
+        a: atomIndex.get(int(tokens[2])) ?? -1,
+        b: atomIndex.get(int(tokens[3])) ?? -1,
+        type: int(tokens[1]),
+        stereo: cfg === 1 ? 1 : (cfg === 3 ? 6 : 0),
+      });
+    }
+  });
+
+  if (atoms.length === 0) throw new Error("V3000 molfile has no atom block");
+  return { title, atoms, bonds };
+}
+
+/**
+ * Chooses double bonds for MDL aromatic (type 4) bonds. Atoms that cannot take another
+ * bond at their lowest valence are left out; when no matching exists, two-connected
+ * heteroatoms are tried as pyrrole-type donors one at a time.
+ */
+function kekulizeAromatic(atoms: Atom[], bonds: RawBond[]): Set<number> {
+  const aromatic = bonds.map((bond, j) => (bond.type === 4 ? j : -1)).filter(j => j >= 0);
+  if (aromatic.length === 0) return new Set();
+
+  const valence = new Array<number>(atoms.length).fill(0);
+  const degree = new Array<number>(atoms.length).fill(0);
+  bonds.forEach(bond => {
+    const order = bond.type === 4 ? 1 : Math.min(Math.max(bond.type, 1), 3);
+    valence[bond.a] += order; valence[bond.b] += order;
+    degree[bond.a]++; degree[bond.b]++;
+  });
+
+  const needs = new Set<number>();
+  aromatic.forEach(j => [bonds[j].a, bonds[j].b].forEach(i => {
+    const lowest = allowedValences(atoms[i])[0] ?? 0;
+    if (lowest - valence[i] >= 1) needs.add(i);
+  }));
+
+  const edges = aromatic.map(j => [bonds[j].a, bonds[j].b] as [number, number]);
+  const attempt = (set: Set<number>) => {
+    const chosen = findKekuleDoubles(set, edges);
+    return chosen ? new Set([...chosen].map(k => aromatic[k])) : null;
+  };
+
+  const direct = attempt(needs);
+  if (direct) return direct;
+  for (const i of needs) {
+    if (atoms[i].element === 'C' || degree[i] !== 2) continue;
+    const reduced = new Set(needs);
+    reduced.delete(i);
+    const result = attempt(reduced);
+    if (result) return result;
+  }
+  throw new Error("Aromatic bonds in molfile cannot be kekulized");
+}
+
+/**
+ * Parity of each perceived stereocenter read from 3D coordinates, in the same frame
+ * `tetrahedralParity` uses (y up, z towards the viewer).
+ */
+function spatialTargets(molecule: Molecule, raw: RawAtom[], ids: string[]): TetrahedralTarget[] {
+  const graph = buildGraph(molecule);
+  const position = new Map(ids.map((id, k) => [id, raw[k]]));
+  const targets: TetrahedralTarget[] = [];
+
+  perceiveStereocenters(molecule).forEach(({ atomId }) => {
+    const node = graph.get(atomId);
+    const center = position.get(atomId);
+    if (!node || !center || node.neighbors.length < 3) return;
+    const vectors = node.neighbors.map(n => {
+      const p = position.get(n.atomId)!;
+      const v = [p.x - center.x, p.y - center.y, p.z - center.z];
+      const len = Math.hypot(v[0], v[1], v[2]) || 1;
+      return v.map(c => c / len);
+    });
+    const ordered: Array<string | null> = node.neighbors.map(n => n.atomId);
+    if (vectors.length === 3) {
+      vectors.push([0, 1, 2].map(c => -(vectors[0][c] + vectors[1][c] + vectors[2][c])));
+      ordered.push(null);
+    }
+    if (vectors.length !== 4) return;
+
+    const [v0, v1, v2, v3] = vectors;
+    const d1 = v1.map((c, i) => c - v0[i]);
+    const d2 = v2.map((c, i) => c - v0[i]);
+    const d3 = v3.map((c, i) => c - v0[i]);
+    const volume = d1[0] * (d2[1] * d3[2] - d2[2] * d3[1])
+      - d1[1] * (d2[0] * d3[2] - d2[2] * d3[0])
+      + d1[2] * (d2[0] * d3[1] - d2[1] * d3[0]);
+    if (Math.abs(volume) < 1e-3) return;
+    targets.push({ atomId, ordered, parity: volume < 0 ? -1 : 1 });
+  });
+  return targets;
+}
+
+/**
+ * Cis/trans relationship of each acyclic double bond read from 3D coordinates: substituents
+ * on the same side when their bond vectors point the same way along the dihedral.
+ */
+function spatialAlkenes(molecule: Molecule, raw: RawAtom[], ids: string[]): AlkeneTarget[] {
+  const position = new Map(ids.map((id, k) => [id, raw[k]]));
+  return alkeneTargets(molecule, (from, to, x, y) => {
+    const [p, q, a, b] = [from, to, x, y].map(id => position.get(id)!);
+    const dot = (a.x - p.x) * (b.x - q.x) + (a.y - p.y) * (b.y - q.y) + (a.z - p.z) * (b.z - q.z);
+    return Math.abs(dot) < 1e-3 ? 0 : Math.sign(dot);
+  });
+}
+
+/**
+ * Parses an MDL molfile (V2000 or V3000) or the first record of an SD file into a canvas
+ * molecule. 2D coordinates are scaled to the canvas bond length; 3D input is laid out in
+ * 2D with its double-bond geometry kept and its tetrahedral centers redrawn as wedges. Returns the title line alongside.
+ */
+export function parseMolfile(text: string): { molecule: Molecule; title: string } {
+  const { table, atoms, bonds, ids } = readRecord(text);
+  const title = table.title;
+  const is3D = table.atoms.some(a => Math.abs(a.z) > 1e-4);
+  const hasCoordinates = table.atoms.some(a => Math.abs(a.x) > 1e-4 || Math.abs(a.y) > 1e-4);
+  let molecule: Molecule = { atoms, bonds };
+
+  if (is3D || !hasCoordinates) {
+    molecule = computeLayout({ atoms, bonds: bonds.map(b => (b.type === 'wedge' || b.type === 'dash' ? { ...b, type: 'single' } : b)) });
+    if (is3D) {
+      drawAlkeneGeometry(molecule, spatialAlkenes(molecule, table.atoms, ids));
+      molecule = drawTetrahedralStereo(molecule, spatialTargets(molecule, table.atoms, ids));
+    }
+    return { molecule, title };
+  }
+
+  // Scale to the canvas bond length, flip y (molfiles are y-up) and center on the canvas
+  const lengths = table.bonds.map(b => Math.hypot(atoms[b.a].x - atoms[b.b].x, atoms[b.a].y - atoms[b.b].y)).filter(l => l > 1e-6);
+  const average = lengths.length > 0 ? lengths.reduce((s, l) => s + l, 0) / lengths.length : ANGSTROM_BOND_LENGTH;
+  const scale = LAYOUT_BOND_LENGTH / average;
+  const cx = atoms.reduce((s, a) => s + a.x, 0) / atoms.length;
+  const cy = atoms.reduce((s, a) => s + a.y, 0) / atoms.length;
+  molecule = {
+    ...molecule,
+    atoms: atoms.map(a => ({ ...a, x: 500 + (a.x - cx) * scale, y: 400 - (a.y - cy) * scale })),
+  };
+  return { molecule, title };
+}
+
+/**
+ * Reads the first record of an SD file keeping its geometry: the molecule in file atom order
+ * (canvas x/y are the scaled, y-flipped projection) and the Ångström coordinates keyed by
+ * atom id. Stereo bond flags are dropped since the coordinates carry the configuration.
+ */
+export function parseSdfGeometry(text: string): { molecule: Molecule; positions: Map<string, [number, number, number]>; title: string } {
+  const { table, atoms, bonds, ids } = readRecord(text);
+  const scale = LAYOUT_BOND_LENGTH / ANGSTROM_BOND_LENGTH;
+  const molecule: Molecule = {
+    atoms: atoms.map(a => ({ ...a, x: 500 + a.x * scale, y: 400 - a.y * scale })),
+    bonds: bonds.map(b => (b.type === 'wedge' || b.type === 'dash' ? { ...b, type: 'single' } : b)),
+  };
+  const positions = new Map(table.atoms.map((a, k) => [ids[k], [a.x, a.y, a.z] as [number, number, number]]));
+  return { molecule, positions, title: table.title };
+}
+
+/** Atom and bond tables of the first record, with ids assigned and aromatic bonds kekulized. */
+function readRecord(text: string): { table: RawTable; atoms: Atom[]; bonds: Bond[]; ids: string[] } {
+  const record = text.replace(/\r\n?/g, '\n').split(/^\$\$\$\$/m)[0];
+  const lines = record.split('\n');
+  if (lines.length < 4) throw new Error("Molfile is missing its header or counts line");
+
+  const title = lines[0].trim();
+  const table = lines[3].includes('V3000') ? parseV3000(lines, title) : parseV2000(lines, title);
+
+  const stamp = Date.now();
+  const ids = table.atoms.map((_, k) => `mol-${stamp}-${k}`);
+  const atoms: Atom[] = table.atoms.map((raw, k) => {
+    if (!(raw.element in ELEMENTS)) throw new Error(`Unsupported element "${raw.element}" in molfile`);
+    return {
+      id: ids[k],
+      element: raw.element as ElementType,
+      x: raw.x,
+      y: raw.y,
+      formalCharge: raw.charge,
+      lonePairs: 0,
+      ...(raw.isotope ? { isotope: raw.isotope } : {}),
+      ...(raw.radical ? { radicalElectrons: raw.radical } : {}),
+    };
+  });
+
+  table.bonds.forEach(bond => {
+    if (!atoms[bond.a] || !atoms[bond.b]) throw new Error("Molfile bond references a missing atom");
+  });
+  const doubles = kekulizeAromatic(atoms, table.bonds);
+  const bonds: Bond[] = table.bonds.map((bond, j) => {
+    let type: Bond['type'] = 'single';
+    if (bond.type === 2 || doubles.has(j)) type = 'double';
+    else if (bond.type === 3) type = 'triple';
+    else if (bond.type === 1 && bond.stereo === 1) type = 'wedge';
+    else if (bond.type === 1 && bond.stereo === 6) type = 'dash';
+    return { id: `mol-b-${stamp}-${j}`, from: ids[bond.a], to: ids[bond.b], type };
+  });
+  return { table, atoms, bonds, ids };
+}
+
+const pad = (value: string | number, width: number) => String(value).padStart(width);
+const coord = (value: number) => pad(value.toFixed(4), 10);
+
+function headerLines(title: string, dimension: '2D' | '3D' = '2D'): string[] {
+  const now = new Date();
+  const two = (n: number) => String(n).padStart(2, '0');
+  const stamp = `${two(now.getMonth() + 1)}${two(now.getDate())}${two(now.getFullYear() % 100)}${two(now.getHours())}${two(now.getMinutes())}`;
+  return [title.substring(0, 80), `  SChemPRO${stamp}${dimension}`, ''];
+}
+
+/**
+ * Serializes the canvas molecule as an MDL molfile. Coordinates are converted to Ångström
+ * with y pointing up; wedge and dash bonds keep their narrow end on the first atom.
+ * When 3D `coordinates` (Ångström, keyed by atom id) are given they are written as-is and
+ * wedges become plain single bonds, since the geometry itself carries the stereo.
+ */
+export function writeMolfile(
+  molecule: Molecule,
+  version: MolfileVersion = 'V2000',
+  title = '',
+  coordinates?: Map<string, [number, number, number]>,
+): string {
+  const { atoms, bonds } = molecule;
+  const index = new Map(atoms.map((a, k) => [a.id, k + 1]));
+  const valid = bonds.filter(b => index.has(b.from) && index.has(b.to));
+  const cx = atoms.length > 0 ? atoms.reduce((s, a) => s + a.x, 0) / atoms.length : 0;
+  const cy = atoms.length > 0 ? atoms.reduce((s, a) => s + a.y, 0) / atoms.length : 0;
+  const scale = ANGSTROM_BOND_LENGTH / LAYOUT_BOND_LENGTH;
+  const position = (a: Atom) => {
+    const xyz = coordinates?.get(a.id);
+    return xyz ? { x: xyz[0], y: xyz[1], z: xyz[2] } : { x: (a.x - cx) * scale, y: -(a.y - cy) * scale, z: 0 };
+  };
+  const order = (b: Bond) => (b.type === 'double' ? 2 : (b.type === 'triple' ? 3 : 1));
+  const stereo = (b: Bond) => (coordinates ? 0 : (b.type === 'wedge' ? 1 : (b.type === 'dash' ? 6 : 0)));
+  const chiral = valid.some(b => stereo(b) !== 0) ? 1 : 0;
+  const lines = headerLines(title, coordinates ? '3D' : '2D');
+
+  if (version === 'V3000') {
+    lines.push('  0  0  0     0  0            999 V3000');
+    lines.push('M  V30 BEGIN CTAB');
+    lines.push(`M  V30 COUNTS ${atoms.length} ${valid.length} 0 0 ${chiral}`);
+    lines.push('M  V30 BEGIN ATOM');
+    atoms.forEach((a, k) => {
+      const { x, y, z } = position(a);
+      const extras = [
+        a.formalCharge ? `CHG=${a.formalCharge}` : '',
+        a.isotope ? `MASS=${a.isotope}` : '',
+        a.radicalElectrons ? `RAD=${a.radicalElectrons === 1 ? 2 : 3}` : '',
+      ].filter(Boolean).join(' ');
+      lines.push(`M  V30 ${k + 1} ${a.element} ${x.toFixed(4)} ${y.toFixed(4)} ${z.toFixed(4)} 0${extras ? ' ' + extras : ''}`);
+    });
+    lines.push('M  V30 END ATOM');
+    if (valid.length > 0) {
+      lines.push('M  V30 BEGIN BOND');
+      valid.forEach((b, j) => {
+        const cfg = stereo(b) === 1 ? ' CFG=1' : (stereo(b) === 6 ? ' CFG=3' : '');
+        lines.push(`M  V30 ${j + 1} ${order(b)} ${index.get(b.from)} ${index.get(b.to)}${cfg}`);
+      });
+      lines.push('M  V30 END BOND');
+    }
+    lines.push('M  V30 END CTAB');
+    lines.push('M  END');
+    return lines.join('\n') + '\n';
+  }
+
+  if (atoms.length > 999 || valid.length > 999) throw new Error("V2000 molfiles are limited to 999 atoms and bonds; export as V3000");
+  lines.push(`${pad(atoms.length, 3)}${pad(valid.length, 3)}  0  0${pad(chiral, 3)}  0  0  0  0  0999 V2000`);
+  atoms.forEach(a => {
+    const { x, y, z } = position(a);
+    const chargeCode = Object.entries(V2000_CHARGES).find(([, c]) => c === a.formalCharge)?.[0] || '0';
+    lines.push(`${coord(x)}${coord(y)}${coord(z)} ${a.element.padEnd(3)} 0${pad(chargeCode, 3)}  0  0  0  0  0  0  0  0  0  0`);
+  });
+  valid.forEach(b => {
+    lines.push(`${pad(index.get(b.from)!, 3)}${pad(index.get(b.to)!, 3)}${pad(order(b), 3)}${pad(stereo(b), 3)}  0  0  0`);
+  });
+
+  const properties = (tag: string, entries: Array<[number, number]>) => {
+    for (let k = 0; k < entries.length; k += 8) {
+      const chunk = entries.slice(k, k + 8);
+      lines.push(`M  ${tag}${pad(chunk.length, 3)}${chunk.map(([i, v]) => `${pad(i, 4)}${pad(v, 4)}`).join('')}`);
+    }
+  };
+  properties('CHG', atoms.map((a, k) => [k + 1, a.formalCharge] as [number, number]).filter(([, v]) => v !== 0));
+  properties('ISO', atoms.map((a, k) => [k + 1, a.isotope || 0] as [number, number]).filter(([, v]) => v !== 0));
+  properties('RAD', atoms.map((a, k) => [k + 1, a.radicalElectrons ? (a.radicalElectrons === 1 ? 2 : 3) : 0] as [number, number]).filter(([, v]) => v !== 0));
+  lines.push('M  END');
+  return lines.join('\n') + '\n';
+}
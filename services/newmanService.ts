@@ -0,0 +1,165 @@
+import { Molecule } from "../types";
+import { buildGraph, atomicNumber, mapHeavyAtoms, MoleculeGraph } from "./graphService";
+import { parseSdfGeometry } from "./molfileService";
+import { conformerFromPositions, scanTorsion, TorsionScanPoint, Vec3 } from "./conformerService";
+
+export interface NewmanSubstituent {
+  atomId: string;
+  /** Group as drawn in the projection, e.g. "CH₃", "OH" or "CH₂R". */
+  label: string;
+  /** Position around the bond axis in degrees, clockwise from 12 o'clock as seen by the viewer. */
+  angle: number;
+  /** The group whose dihedral is reported and driven by the slider. */
+  reference: boolean;
+}
+
+export interface BondProjection {
+  /** Substituents of the atom nearer the viewer; the reference group sits at 0°. */
+  front: NewmanSubstituent[];
+  back: NewmanSubstituent[];
+  frontElement: string;
+  backElement: string;
+  /** Dihedral between the two reference groups in the 3D model, degrees. */
+  dihedral: number;
+  /** Relaxed energy profile over the reference dihedral; empty for ring bonds. */
+  profile: TorsionScanPoint[];
+}
+
+const SUBSCRIPTS = '₀₁₂₃₄₅₆₇₈₉';
+const subscript = (n: number) => (n > 1 ? String(n).split('').map(d => SUBSCRIPTS[Number(d)]).join('') : '');
+
+/** Degrees folded into (−180, 180]. */
+export const wrapDegrees = (degrees: number) => {
+  const wrapped = ((degrees % 360) + 360) % 360;
+  return wrapped > 180 ? wrapped - 360 : wrapped;
+};
+
+/** Reference dihedrals worth pointing out on the energy profile. */
+export const DIHEDRAL_LANDMARKS: Array<{ angle: number; label: string }> = [
+  { angle: -180, label: 'anti' },
+  { angle: -120, label: 'eclipsed' },
+  { angle: -60, label: 'gauche' },
+  { angle: 0, label: 'syn' },
+  { angle: 60, label: 'gauche' },
+  { angle: 120, label: 'eclipsed' },
+  { angle: 180, label: 'anti' },
+];
+
+/** Canvas-to-SDF mapping by position, valid when the SDF was written from this drawing. */
+function indexMapping(molecule: Molecule, target: Molecule): Map<string, string> | null {
+  if (target.atoms.length < molecule.atoms.length) return null;
+  if (molecule.atoms.some((a, k) => target.atoms[k].element !== a.element)) return null;
+  const mapping = new Map(molecule.atoms.map((a, k) => [a.id, target.atoms[k].id]));
+  const bonded = new Set(target.bonds.flatMap(b => [`${b.from}|${b.to}`, `${b.to}|${b.from}`]));
+  return molecule.bonds.every(b => bonded.has(`${mapping.get(b.from)}|${mapping.get(b.to)}`)) ? mapping : null;
+}
+
+function groupLabel(graph: MoleculeGraph, atomId: string, axisId: string): string {
+  const node = graph.get(atomId)!;
+  const others = node.neighbors.filter(n => n.atomId !== axisId);
+  const hydrogens = others.filter(n => graph.get(n.atomId)!.atom.element === 'H').length;
+  const heavy = others.length - hydrogens;
+  if (node.atom.element === 'H') return 'H';
+  return `${node.atom.element}${hydrogens > 0 ? 'H' + subscript(hydrogens) : ''}${heavy > 0 ? 'R' + subscript(heavy) : ''}`;
+}
+
+/**
+ * Newman projection of a canvas bond, measured on the 3D model in `sdfData` (looking from
+ * the bond's first atom towards its second), together with the relaxed rotation profile.
+ * The reference group on each end is the heaviest substituent. Throws when the bond
+ * cannot be projected or the model does not match the drawing.
+ */
+export function projectBond(sdfData: string, molecule: Molecule, bondId: string): BondProjection {
+  const bond = molecule.bonds.find(b => b.id === bondId);
+  if (!bond) throw new Error("The selected bond is no longer on the canvas");
+  const canvasGraph = buildGraph(molecule);
+  const fromAtom = canvasGraph.get(bond.from)?.atom;
+  const toAtom = canvasGraph.get(bond.to)?.atom;
+  if (!fromAtom || !toAtom || fromAtom.element === 'H' || toAtom.element === 'H' || bond.type === 'double' || bond.type === 'triple') {
+    throw new Error("Pick a single bond between two heavy atoms");
+  }
+
+  const geometry = parseSdfGeometry(sdfData.replace(/```[a-z]*\n?/gi, ''));
+  const mapping = indexMapping(molecule, geometry.molecule) || mapHeavyAtoms(molecule, geometry.molecule);
+  if (!mapping) throw new Error("The 3D model does not match the drawn structure; regenerate it first");
+  const conformer = conformerFromPositions(geometry.molecule, geometry.positions);
+  const graph = buildGraph(conformer.molecule);
+  const frontId = mapping.get(bond.from)!;
+  const backId = mapping.get(bond.to)!;
+
+  const substituents = (id: string, axisId: string) => graph.get(id)!.neighbors
+    .map(n => n.atomId)
+    .filter(n => n !== axisId)
+    .sort((a, b) => {
+      const atomA = graph.get(a)!.atom, atomB = graph.get(b)!.atom;
+      const heavy = (x: string) => graph.get(x)!.neighbors.filter(n => graph.get(n.atomId)!.atom.element !== 'H').length;
+      return atomicNumber(atomB) - atomicNumber(atomA) || heavy(b) - heavy(a);
+    });
+  const frontGroups = substituents(frontId, backId);
+  const backGroups = substituents(backId, frontId);
+  if (frontGroups.length === 0 || backGroups.length === 0) throw new Error("Both ends of the bond need substituents");
+
+  const p = (id: string) => conformer.positions.get(id)!;
+  const minus = (a: Vec3, b: Vec3): Vec3 => [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+  const dot = (a: Vec3, b: Vec3) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+  const cross = (a: Vec3, b: Vec3): Vec3 => [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+  const axis = minus(p(backId), p(frontId));
+  const length = Math.sqrt(dot(axis, axis));
+  const view: Vec3 = [axis[0] / length, axis[1] / length, axis[2] / length];
+  const perpendicular = (v: Vec3): Vec3 => {
+    const along = dot(v, view);
+    return [v[0] - along * view[0], v[1] - along * view[1], v[2] - along * view[2]];
+  };
+  // Screen axes for a viewer looking along the bond: the front reference group points up
+  const up = perpendicular(minus(p(frontGroups[0]), p(frontId)));
+  const right = cross(view, up);
+  const angleOf = (id: string, center: string) => {
+    const v = perpendicular(minus(p(id), p(center)));
+    return Math.atan2(dot(v, right), dot(v, up)) * 180 / Math.PI;
+  };
+  const project = (groups: string[], center: string): NewmanSubstituent[] => groups.map((id, k) => ({
+    atomId: id,
+    label: groupLabel(graph, id, center),
+    angle: wrapDegrees(angleOf(id, center)),
+    reference: k === 0,
+  }));
+
+  const back = project(backGroups, backId);
+  return {
+    front: project(frontGroups, frontId),
+    back,
+    frontElement: graph.get(frontId)!.atom.element,
+    backElement: graph.get(backId)!.atom.element,
+    dihedral: back[0].angle,
+    profile: scanTorsion(conformer, [frontGroups[0], frontId, backId, backGroups[0]]),
+  };
+}
+
+/** Back substituents turned so the reference dihedral becomes `dihedral` degrees. */
+export function rotateBack(projection: BondProjection, dihedral: number): NewmanSubstituent[] {
+  const delta = dihedral - projection.dihedral;
+  return projection.back.map(s => ({ ...s, angle: wrapDegrees(s.angle + delta) }));
+}
+
+/**
+ * Names the conformation: staggered, eclipsed or skew from the closest front/back pair,
+ * and the reference relation by Klyne–Prelog ranges (syn, gauche, anticlinal, anti).
+ */
+export function conformationName(front: NewmanSubstituent[], back: NewmanSubstituent[], dihedral: number): string {
+  const gap = Math.min(...front.flatMap(f => back.map(b => Math.abs(wrapDegrees(f.angle - b.angle)))));
+  const family = gap < 20 ? 'Eclipsed' : (gap > 40 ? 'Staggered' : 'Skew');
+  const phi = Math.abs(wrapDegrees(dihedral));
+  const relation = phi < 30 ? 'syn' : (phi < 90 ? 'gauche' : (phi < 150 ? 'anticlinal' : 'anti'));
+  return `${family} · ${relation}`;
+}
+
+/** Profile energy at any dihedral, linearly interpolated between scan points. */
+export function profileEnergy(profile: TorsionScanPoint[], dihedral: number): number | null {
+  if (profile.length < 2) return null;
+  const phi = wrapDegrees(dihedral);
+  for (let k = 1; k < profile.length; k++) {
+    const a = profile[k - 1], b = profile[k];
+    if (phi <= b.dihedral) return a.energy + (b.energy - a.energy) * (phi - a.dihedral) / (b.dihedral - a.dihedral);
+  }
+  return profile[profile.length - 1].energy;
+}
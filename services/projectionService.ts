@@ -0,0 +1,284 @@
+import { Molecule } from "../types";
+import { buildGraph, findRings, implicitHydrogens, bondOrder, MoleculeGraph } from "./graphService";
+import { tetrahedralParity, ringFace, perceiveStereocenters } from "./cipService";
+
+export interface FischerRow {
+  atomId: string;
+  /** Chain locant, 1 at the most oxidized end. */
+  locant: number;
+  /** Condensed group for rows drawn without a cross, e.g. "CHO", "C=O" or "CH₂OH". */
+  label: string | null;
+  left: string;
+  right: string;
+  /** CIP descriptor of the carbon, when it is a stereocenter. */
+  configuration: 'R' | 'S' | null;
+  /** False when the drawing leaves the arrangement open and the sides are arbitrary. */
+  specified: boolean;
+}
+
+export interface FischerProjection {
+  /** Main carbon chain from top to bottom. */
+  rows: FischerRow[];
+  family: 'D' | 'L' | null;
+  /** Row of the configurational reference atom that fixes D/L. */
+  referenceRow: number | null;
+  notes: string[];
+}
+
+export interface HaworthPosition {
+  atomId: string;
+  /** "O" for the ring oxygen, otherwise the chain locant such as "C1". */
+  locant: string;
+  element: string;
+  /** Groups above and below the ring plane; null for the ring oxygen. */
+  up: string | null;
+  down: string | null;
+  specified: boolean;
+}
+
+export interface HaworthProjection {
+  kind: 'pyranose' | 'furanose';
+  /** Ring oxygen first, then clockwise seen from above, starting at the anomeric carbon. */
+  positions: HaworthPosition[];
+  family: 'D' | 'L' | null;
+  anomer: 'α' | 'β' | null;
+  notes: string[];
+}
+
+const SUBSCRIPTS = '₀₁₂₃₄₅₆₇₈₉';
+const subscript = (n: number) => (n > 1 ? String(n).split('').map(d => SUBSCRIPTS[Number(d)]).join('') : '');
+
+const isHetero = (graph: MoleculeGraph, id: string | null) => {
+  const element = id ? graph.get(id)!.atom.element : 'H';
+  return element !== 'C' && element !== 'H';
+};
+
+const hydrogenCount = (graph: MoleculeGraph, id: string) =>
+  implicitHydrogens(graph, id) + graph.get(id)!.neighbors.filter(n => graph.get(n.atomId)!.atom.element === 'H').length;
+
+/** Sum of bond orders from a carbon to heteroatoms; the top of a Fischer chain is its most oxidized end. */
+const oxidation = (graph: MoleculeGraph, id: string) =>
+  graph.get(id)!.neighbors.filter(n => isHetero(graph, n.atomId)).reduce((sum, n) => sum + bondOrder(n.bond), 0);
+
+/**
+ * Condensed formula of the group at `id`, leaving out the atoms in `exclude`:
+ * "CHO", "COOH", "CH₂OH", "CH(OH)CH₂OH". Groups deeper than `depth` bonds collapse to R.
+ */
+function condensed(graph: MoleculeGraph, id: string, exclude: string[], depth = 2): string {
+  const node = graph.get(id)!;
+  if (node.atom.element === 'H') return 'H';
+  const others = node.neighbors.filter(n => !exclude.includes(n.atomId) && graph.get(n.atomId)!.atom.element !== 'H');
+  const hydrogens = hydrogenCount(graph, id);
+  const base = `${node.atom.element}${hydrogens > 0 ? 'H' + subscript(hydrogens) : ''}`;
+  if (others.length === 0) return base;
+  if (depth === 0) return `${base}R${subscript(others.length)}`;
+
+  const carbonyl = node.atom.element === 'C'
+    ? others.find(n => bondOrder(n.bond) === 2 && graph.get(n.atomId)!.atom.element === 'O')
+    : undefined;
+  if (carbonyl) {
+    const rest = others.filter(n => n !== carbonyl);
+    if (rest.length === 0) return hydrogens > 0 ? 'CHO' : 'C=O';
+    if (rest.length === 1 && hydrogens === 0) return `CO${condensed(graph, rest[0].atomId, [id], depth - 1)}`;
+  }
+  const groups = others.map(n => `${['', '', '=', '≡'][bondOrder(n.bond)]}${condensed(graph, n.atomId, [id], depth - 1)}`);
+  return base + groups.map((g, k) => (k < groups.length - 1 ? `(${g})` : g)).join('');
+}
+
+/** Condensed label written right to left for the left arm of a cross: "OH" → "HO", "CH₂OH" → "HOH₂C". */
+function mirrored(label: string): string {
+  if (!/^([A-Z][a-z]?(H[₀-₉]*)?)+$/.test(label)) return label;
+  return (label.match(/[A-Z][a-z]?(H[₀-₉]*)?/g) || [])
+    .reverse()
+    .map(token => {
+      const [, element, hydrogens] = token.match(/^([A-Z][a-z]?)(H[₀-₉]*)?$/)!;
+      return (hydrogens || '') + element;
+    })
+    .join('');
+}
+
+/**
+ * Horizontal ligands of `center` as [left, right] in a Fischer projection with `up` and
+ * `down` on the vertical, both pointing away from the viewer; null stands for the implicit
+ * hydrogen. Returns null unless the center is sp3 with exactly two horizontal ligands.
+ */
+function fischerSides(graph: MoleculeGraph, center: string, up: string, down: string): { sides: [string | null, string | null]; specified: boolean } | null {
+  const node = graph.get(center)!;
+  if (node.neighbors.some(n => bondOrder(n.bond) !== 1)) return null;
+  const horizontal: Array<string | null> = node.neighbors.map(n => n.atomId).filter(id => id !== up && id !== down);
+  for (let k = implicitHydrogens(graph, center); k > 0; k--) horizontal.push(null);
+  if (horizontal.length !== 2) return null;
+  // [up, down, left, right] with the vertical ligands behind the paper has a negative volume
+  const parity = tetrahedralParity(graph, center, [up, down, horizontal[0], horizontal[1]]);
+  return {
+    sides: parity === 1 ? [horizontal[1], horizontal[0]] : [horizontal[0], horizontal[1]],
+    specified: parity !== 0,
+  };
+}
+
+/** The chain turned so its most oxidized end comes first (lexicographic on oxidation levels). */
+function oriented(graph: MoleculeGraph, chain: string[]): string[] {
+  const reversed = [...chain].reverse();
+  const forward = chain.map(id => oxidation(graph, id));
+  const backward = reversed.map(id => oxidation(graph, id));
+  const k = forward.findIndex((v, i) => v !== backward[i]);
+  return k >= 0 && backward[k] > forward[k] ? reversed : chain;
+}
+
+/** Longest path through `allowed` atoms starting at `start`, found by depth-first search. */
+function longestFrom(graph: MoleculeGraph, start: string, allowed: Set<string>, rank: (path: string[]) => number): string[] {
+  let best: string[] = [start];
+  const path = [start];
+  const extend = () => {
+    if (rank(path) > rank(best)) best = [...path];
+    graph.get(path[path.length - 1])!.neighbors.forEach(n => {
+      if (!allowed.has(n.atomId) || path.includes(n.atomId)) return;
+      path.push(n.atomId);
+      extend();
+      path.pop();
+    });
+  };
+  extend();
+  return best;
+}
+
+const sideLabel = (graph: MoleculeGraph, center: string, id: string | null) => (id ? condensed(graph, id, [center]) : 'H');
+
+/** D/L from the side of the heteroatom on the reference carbon: right is D. */
+function familyOf(graph: MoleculeGraph, sides: [string | null, string | null]): 'D' | 'L' | null {
+  const [left, right] = sides.map(id => isHetero(graph, id));
+  if (left === right) return null;
+  return right ? 'D' : 'L';
+}
+
+/**
+ * Fischer projection of the main open carbon chain: the longest acyclic carbon path
+ * carrying the most stereocenters, with its most oxidized end on top. D/L is read from
+ * the highest-numbered stereocenter (C2 for α-amino acids). Returns null when no carbon
+ * on the chain is stereogenic.
+ */
+export function fischerProjection(molecule: Molecule): FischerProjection | null {
+  const graph = buildGraph(molecule);
+  const ringAtoms = new Set(findRings(graph).flat());
+  const centers = new Map(perceiveStereocenters(molecule).map(s => [s.atomId, s.configuration]));
+  const carbons = new Set(molecule.atoms.filter(a => a.element === 'C' && !ringAtoms.has(a.id)).map(a => a.id));
+  if (carbons.size === 0) return null;
+
+  const rank = (path: string[]) => path.filter(id => centers.has(id)).length * 1000 + path.length;
+  const chain = oriented(graph, [...carbons]
+    .map(id => longestFrom(graph, id, carbons, rank))
+    .reduce((best, path) => (rank(path) > rank(best) ? path : best)));
+  if (chain.length < 3) return null;
+
+  const notes: string[] = [];
+  const sidesByRow = new Map<number, [string | null, string | null]>();
+  const rows: FischerRow[] = chain.map((id, k) => {
+    const configuration = centers.get(id);
+    const row: FischerRow = { atomId: id, locant: k + 1, label: null, left: '', right: '', configuration: configuration === 'R' || configuration === 'S' ? configuration : null, specified: true };
+    const arrangement = k > 0 && k < chain.length - 1 ? fischerSides(graph, id, chain[k - 1], chain[k + 1]) : null;
+    if (!arrangement || arrangement.sides.every(s => s === null) || (!arrangement.specified && !centers.has(id))) {
+      row.label = condensed(graph, id, [chain[k - 1], chain[k + 1]].filter(Boolean));
+      return row;
+    }
+    sidesByRow.set(k, arrangement.sides);
+    row.left = mirrored(sideLabel(graph, id, arrangement.sides[0]));
+    row.right = sideLabel(graph, id, arrangement.sides[1]);
+    row.specified = arrangement.specified;
+    if (!arrangement.specified) notes.push(`C${k + 1}: no wedge or dash fixes this center, so its horizontal groups are placed arbitrarily.`);
+    return row;
+  });
+  if (sidesByRow.size === 0) return null;
+
+  const specifiedCenters = [...sidesByRow.keys()].filter(k => centers.has(chain[k]) && rows[k].specified);
+  const aminoAcid = rows[0].label?.startsWith('CO') && sidesByRow.has(1) && sidesByRow.get(1)!.some(id => id && graph.get(id)!.atom.element === 'N');
+  const referenceRow = aminoAcid && specifiedCenters.includes(1) ? 1 : (specifiedCenters.length > 0 ? Math.max(...specifiedCenters) : null);
+  const family = referenceRow !== null ? familyOf(graph, sidesByRow.get(referenceRow)!) : null;
+  if (family) {
+    notes.unshift(`C${referenceRow! + 1} is the configurational reference atom: its ${family === 'D' ? 'right' : 'left'}-hand heteroatom makes this the ${family} series.`);
+  }
+
+  return { rows, family, referenceRow: family ? referenceRow : null, notes };
+}
+
+/** Signed area of a polygon of canvas atoms in a y-up frame; positive when counter-clockwise. */
+function signedArea(graph: MoleculeGraph, ids: string[]): number {
+  return ids.reduce((sum, id, k) => {
+    const a = graph.get(id)!.atom, b = graph.get(ids[(k + 1) % ids.length])!.atom;
+    return sum + a.x * -b.y - b.x * -a.y;
+  }, 0) / 2;
+}
+
+/**
+ * Haworth projections of every furanose and pyranose ring: a saturated five- or
+ * six-membered ring with one oxygen, whose anomeric carbon (next to the ring oxygen)
+ * carries an exocyclic heteroatom. Faces come from the wedge/dash drawing, D/L from the
+ * Fischer projection of the carbon chain through the ring, and α/β from the face of the
+ * anomeric heteroatom relative to that series.
+ */
+export function haworthProjections(molecule: Molecule): HaworthProjection[] {
+  const graph = buildGraph(molecule);
+  const rings = findRings(graph);
+  const ringAtoms = new Set(rings.flat());
+  const centers = new Set(perceiveStereocenters(molecule).map(s => s.atomId));
+  const element = (id: string) => graph.get(id)!.atom.element;
+  const openCarbons = new Set(molecule.atoms.filter(a => a.element === 'C' && !ringAtoms.has(a.id)).map(a => a.id));
+
+  return rings.flatMap((ring): HaworthProjection[] => {
+    if (ring.length !== 5 && ring.length !== 6) return [];
+    const oxygens = ring.filter(id => element(id) === 'O');
+    if (oxygens.length !== 1 || ring.some(id => element(id) !== 'C' && element(id) !== 'O')) return [];
+    if (ring.some(id => graph.get(id)!.neighbors.some(n => bondOrder(n.bond) !== 1))) return [];
+
+    const start = ring.indexOf(oxygens[0]);
+    let carbons = [...ring.slice(start + 1), ...ring.slice(0, start)];
+    const exocyclicHetero = (id: string) => graph.get(id)!.neighbors.find(n => !ring.includes(n.atomId) && isHetero(graph, n.atomId))?.atomId;
+    if (!exocyclicHetero(carbons[0])) carbons = carbons.reverse();
+    const anomeric = carbons[0];
+    const anomericHetero = exocyclicHetero(anomeric);
+    if (!anomericHetero) return [];
+
+    // Carbon chain through the ring, extended by the longest open branches at both ends
+    const branch = (from: string) => graph.get(from)!.neighbors
+      .filter(n => openCarbons.has(n.atomId))
+      .map(n => longestFrom(graph, n.atomId, openCarbons, path => path.length))
+      .reduce<string[]>((best, path) => (path.length > best.length ? path : best), []);
+    // Numbered so the anomeric carbon gets the lowest locant (C1 of aldoses, C2 of ketoses)
+    let chain = [...branch(anomeric).reverse(), ...carbons, ...branch(carbons[carbons.length - 1])];
+    if (chain.indexOf(anomeric) > chain.length - 1 - chain.indexOf(anomeric)) chain = chain.reverse();
+
+    const order = [oxygens[0], ...carbons];
+    // Haworth numbering runs clockwise seen from above; a counter-clockwise drawing is seen from below
+    const flip = signedArea(graph, order) > 0 ? -1 : 1;
+    const notes: string[] = [];
+    let anomericFace = 0;
+    const positions: HaworthPosition[] = order.map((id, p) => {
+      if (p === 0) return { atomId: id, locant: 'O', element: 'O', up: null, down: null, specified: true };
+      const locant = `C${chain.indexOf(id) + 1}`;
+      const neighbours: [string, string] = [order[p - 1], order[(p + 1) % order.length]];
+      const exocyclic: Array<string | null> = graph.get(id)!.neighbors.map(n => n.atomId).filter(n => !ring.includes(n));
+      for (let k = implicitHydrogens(graph, id); k > 0; k--) exocyclic.push(null);
+      exocyclic.sort((a, b) => (a === null ? 1 : 0) - (b === null ? 1 : 0));
+      const [first, second] = exocyclic.map(n => sideLabel(graph, id, n));
+      if (exocyclic[0] === null) return { atomId: id, locant, element: 'C', up: first, down: second, specified: true };
+      const face = ringFace(graph, id, neighbours, exocyclic[0], exocyclic[1] ?? null) * flip;
+      const specified = face !== 0 || !centers.has(id);
+      if (id === anomeric) anomericFace = exocyclic[0] === anomericHetero ? face : -face;
+      if (!specified) notes.push(`${locant}: no wedge or dash fixes this center, so its groups are placed arbitrarily.`);
+      return face >= 0
+        ? { atomId: id, locant, element: 'C', up: first, down: second, specified }
+        : { atomId: id, locant, element: 'C', up: second, down: first, specified };
+    });
+
+    // D/L on the Fischer projection of the highest-numbered stereocenter below the anomeric carbon
+    const reference = [...chain].reverse().find((id, k) => k > 0 && id !== anomeric && centers.has(id));
+    const k = reference ? chain.indexOf(reference) : -1;
+    const referenceSides = reference && k > 0 ? fischerSides(graph, reference, chain[k - 1], chain[k + 1]) : null;
+    const family = referenceSides?.specified ? familyOf(graph, referenceSides.sides) : null;
+    if (!family) notes.push("The configurational reference atom is not specified, so D/L cannot be assigned.");
+    // In the standard Haworth orientation the α-D anomer has its exocyclic oxygen below the ring
+    if (anomericFace === 0) notes.push(`The anomeric carbon ${positions[1].locant} is not drawn with a wedge or dash, so α/β cannot be assigned.`);
+    const anomer = family && anomericFace !== 0 ? ((anomericFace < 0) === (family === 'D') ? 'α' : 'β') : null;
+
+    return [{ kind: ring.length === 6 ? 'pyranose' : 'furanose', positions, family, anomer, notes }];
+  });
+}
@@ -0,0 +1,213 @@
+import { Molecule, AnalysisResult, SearchResult } from "../types";
+import { analyzeMolecule, resolveMolecule, getSuggestions, getExplanation } from "./geminiService";
+import { fetchPubChemData, resolveMoleculeFromPubChem, fetch3DSdfFromPubChem, fetchPubChemSuggestions } from "./pubchemService";
+import { parseSmiles, writeSmiles, searchResultFromSmiles } from "./smilesService";
+import { perceiveStereocenters, perceiveStereoBonds } from "./cipService";
+import { computeVsepr } from "./vseprService";
+import { calculateFormula } from "./formulaService";
+import { MOLECULE_FIXTURES, TOPIC_FIXTURES, MoleculeFixture } from "./mockFixtures";
+import { isAbortError } from "./requestService";
+
+/**
+ * One source of molecule data. Every call either answers or throws; the chain built by
+ * `createAnalysisProvider` moves on to the next provider when one throws, unless the
+ * error is an abort from the caller's `signal`.
+ */
+export interface AnalysisProvider {
+  /** Shown in the UI and recorded on results as `provider`. */
+  name: string;
+  /** Name or SMILES to a drawable molecule. */
+  resolve(query: string, signal?: AbortSignal): Promise<SearchResult>;
+  /** `correction` describes how a previous answer contradicted the molecule; providers that cannot use it ignore it. */
+  analyze(molecule: Molecule, metadata?: SearchResult['metadata'] | null, correction?: string, signal?: AbortSignal): Promise<AnalysisResult>;
+  /** Completions for a partly typed name. */
+  suggest(input: string, signal?: AbortSignal): Promise<string[]>;
+  /** A short explanation of a chemistry term. */
+  explain(topic: string, signal?: AbortSignal): Promise<string>;
+}
+
+export type ProviderId = 'gemini' | 'pubchem' | 'local' | 'mock';
+
+const toSmiles = (molecule: Molecule): string => {
+  try { return writeSmiles(molecule); } catch { return ''; }
+};
+
+/**
+ * Everything the browser can work out without a network call. Metadata already known
+ * from the search is kept; the rest is filled from the drawn graph.
+ */
+function baselineAnalysis(molecule: Molecule, metadata: SearchResult['metadata'] | null | undefined, educationalNote: string): AnalysisResult {
+  const formula = calculateFormula(molecule);
+  return {
+    stereocenters: perceiveStereocenters(molecule),
+    stereoBonds: perceiveStereoBonds(molecule),
+    vsepr: computeVsepr(molecule),
+    dipoleMoment: "Not available offline",
+    educationalNote,
+    isomers: [],
+    conformations: [],
+    properties: formula ? { molecularWeight: `${formula.molecularWeight.toFixed(2)} g/mol` } : {},
+    metadata: {
+      smiles: metadata?.smiles || toSmiles(molecule),
+      iupacName: metadata?.iupacName || '',
+      commonName: metadata?.commonName || '',
+      formula: metadata?.formula || formula?.formula || '',
+    },
+  };
+}
+
+const geminiProvider: AnalysisProvider = {
+  name: 'Gemini',
+  resolve: resolveMolecule,
+  analyze: async (molecule, _metadata, correction, signal) => {
+    // PubChem enrichment only throws on abort, so it adds properties when the record exists
+    const smiles = toSmiles(molecule);
+    const [result, properties] = await Promise.all([
+      analyzeMolecule(molecule, correction, signal),
+      smiles ? fetchPubChemData(smiles, signal) : Promise.resolve({}),
+    ]);
+    return { ...result, properties: { ...result.properties, ...properties } };
+  },
+  suggest: getSuggestions,
+  explain: getExplanation,
+};
+
+const pubchemProvider: AnalysisProvider = {
+  name: 'PubChem',
+  resolve: resolveMoleculeFromPubChem,
+  analyze: async (molecule, metadata, _correction, signal) => {
+    const smiles = toSmiles(molecule) || metadata?.smiles || '';
+    const [properties, sdfData] = await Promise.all([
+      smiles ? fetchPubChemData(smiles, signal) : Promise.resolve({}),
+      fetch3DSdfFromPubChem(metadata?.iupacName || smiles, signal),
+    ]);
+    if (Object.keys(properties).length === 0 && !sdfData) throw new Error("Molecule not found in PubChem");
+
+    const baseline = baselineAnalysis(molecule, metadata, "Baseline structural and physical data from the NIH PubChem database.");
+    return {
+      ...baseline,
+      dipoleMoment: "Available in PubChem record",
+      sdfData: sdfData || undefined,
+      properties: { ...baseline.properties, ...properties },
+    };
+  },
+  suggest: fetchPubChemSuggestions,
+  explain: async () => { throw new Error("PubChem has no explanations"); },
+};
+
+const localProvider: AnalysisProvider = {
+  name: 'Local',
+  resolve: async query => {
+    try {
+      return searchResultFromSmiles(query);
+    } catch {
+      throw new Error(`"${query}" is not a SMILES string; name lookup needs an online provider`);
+    }
+  },
+  analyze: async (molecule, metadata) => baselineAnalysis(molecule, metadata, "Computed in the browser: CIP descriptors, VSEPR geometry, isomers and a force-field 3D model. Physical properties need an online provider."),
+  suggest: async () => [],
+  explain: async () => { throw new Error("Explanations need an online provider"); },
+};
+
+let fixtureSmiles: Map<string, MoleculeFixture> | null = null;
+
+/** Fixtures keyed by canonical SMILES, so any drawing of a fixture molecule finds it. */
+function fixtureFor(molecule: Molecule): MoleculeFixture | undefined {
+  fixtureSmiles ??= new Map(MOLECULE_FIXTURES.map(f => [writeSmiles(parseSmiles(f.smiles)), f]));
+  return fixtureSmiles.get(toSmiles(molecule));
+}
+
+const fixtureMetadata = (fixture: MoleculeFixture): SearchResult['metadata'] => ({
+  smiles: fixture.smiles,
+  iupacName: fixture.iupacName,
+  commonName: fixture.commonName,
+  formula: calculateFormula(parseSmiles(fixture.smiles))?.formula || '',
+});
+
+/** Answers from `mockFixtures` only: no network, no randomness, same output for the same input. */
+const mockProvider: AnalysisProvider = {
+  name: 'Mock',
+  resolve: async query => {
+    const key = query.trim().toLowerCase();
+    const fixture = MOLECULE_FIXTURES.find(f => [f.commonName, f.iupacName].some(n => n.toLowerCase() === key));
+    if (!fixture) return localProvider.resolve(query);
+    return { molecule: parseSmiles(fixture.smiles), metadata: fixtureMetadata(fixture) };
+  },
+  analyze: async (molecule, metadata) => {
+    const fixture = fixtureFor(molecule);
+    if (!fixture) return baselineAnalysis(molecule, metadata, "No fixture for this structure; showing local perception only.");
+    const baseline = baselineAnalysis(molecule, fixtureMetadata(fixture), fixture.educationalNote);
+    return { ...baseline, properties: { ...baseline.properties, ...fixture.properties } };
+  },
+  suggest: async input => {
+    const key = input.trim().toLowerCase();
+    if (key.length < 2) return [];
+    return MOLECULE_FIXTURES.map(f => f.commonName).filter(n => n.toLowerCase().includes(key)).slice(0, 5);
+  },
+  explain: async topic => TOPIC_FIXTURES[topic.trim().toLowerCase()] || `No fixture explanation for "${topic}".`,
+};
+
+const PROVIDERS: Record<ProviderId, AnalysisProvider> = {
+  gemini: geminiProvider,
+  pubchem: pubchemProvider,
+  local: localProvider,
+  mock: mockProvider,
+};
+
+/** Providers tried in turn; the mock never falls back so tests cannot reach the network. */
+const FALLBACKS: Record<ProviderId, ProviderId[]> = {
+  gemini: ['gemini', 'pubchem', 'local'],
+  pubchem: ['pubchem', 'local'],
+  local: ['local'],
+  mock: ['mock'],
+};
+
+/**
+ * ANALYSIS_PROVIDER from .env.local; without it Gemini when an API key is set, PubChem otherwise.
+ */
+export function configuredProvider(): ProviderId {
+  const configured = (process.env.ANALYSIS_PROVIDER || '').trim().toLowerCase();
+  if (configured in PROVIDERS) return configured as ProviderId;
+  if (configured) console.warn(`Unknown ANALYSIS_PROVIDER "${configured}"; using the default`);
+  return process.env.API_KEY ? 'gemini' : 'pubchem';
+}
+
+/**
+ * Wraps the fallback chain of `id` in a single provider named after its first member.
+ * Results carry the name of the provider that actually answered; when every provider
+ * fails, the first provider's error is rethrown.
+ */
+export function createAnalysisProvider(id: ProviderId = configuredProvider()): AnalysisProvider {
+  const providers = FALLBACKS[id].map(p => PROVIDERS[p]);
+
+  const first = async <T>(call: (provider: AnalysisProvider) => Promise<T>): Promise<{ value: T; name: string }> => {
+    const errors: unknown[] = [];
+    for (const provider of providers) {
+      try {
+        return { value: await call(provider), name: provider.name };
+      } catch (error) {
+        if (isAbortError(error)) throw error;
+        console.warn(`${provider.name} failed${provider === providers[providers.length - 1] ? '' : ', trying the next provider'}:`, error);
+        errors.push(error);
+      }
+    }
+    throw errors[0];
+  };
+
+  return {
+    name: providers[0].name,
+    resolve: async (query, signal) => {
+      const { value, name } = await first(p => p.resolve(query, signal));
+      return { ...value, provider: name };
+    },
+    analyze: async (molecule, metadata, correction, signal) => {
+      const { value, name } = await first(p => p.analyze(molecule, metadata, correction, signal));
+      return { ...value, provider: name };
+    },
+    suggest: async (input, signal) => (await first(p => p.suggest(input, signal))).value,
+    explain: async (topic, signal) => (await first(p => p.explain(topic, signal))).value,
+  };
+}
+
+/** The provider chain the app uses, fixed at load from the configuration. */
+export const analysisProvider = createAnalysisProvider();
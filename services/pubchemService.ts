@@ -1,28 +1,41 @@
 
 import { PhysicalProperties, Molecule, SearchResult, Atom, Bond } from "../types";
+import { limitedRequest, isAbortError } from "./requestService";
+
+/**
+ * GETs a PubChem URL through the shared rate limiter; concurrent calls for the same URL
+ * share one request. Resolves to null when PubChem answers with an error status.
+ */
+function pubchemGet(url: string, as: 'json', signal?: AbortSignal): Promise<any | null>;
+function pubchemGet(url: string, as: 'text', signal?: AbortSignal): Promise<string | null>;
+function pubchemGet(url: string, as: 'json' | 'text', signal?: AbortSignal): Promise<any> {
+  return limitedRequest('pubchem', `${as}:${url}`, async requestSignal => {
+    const res = await fetch(url, { signal: requestSignal });
+    if (!res.ok) return null;
+    return as === 'json' ? res.json() : res.text();
+  }, signal);
+}
 
 /**
  * Fetches physical properties from PubChem using CID for maximum reliability.
  */
-export async function fetchPubChemData(smiles: string): Promise<PhysicalProperties> {
+export async function fetchPubChemData(smiles: string, signal?: AbortSignal): Promise<PhysicalProperties> {
   try {
     if (!smiles) return {};
     
     // Step 1: Resolve SMILES to CID first (more reliable than direct property lookup via SMILES)
     const cidLookupUrl = `https://pubchem.ncbi.nlm.nih.gov/rest/pug/compound/smiles/${encodeURIComponent(smiles)}/cids/JSON`;
-    const cidResponse = await fetch(cidLookupUrl);
-    if (!cidResponse.ok) return {}; // Silently fail if not found
+    const cidData = await pubchemGet(cidLookupUrl, 'json', signal);
+    if (!cidData) return {}; // Silently fail if not found
     
-    const cidData = await cidResponse.json();
     const cid = cidData.IdentifierList?.CID?.[0];
     if (!cid) return {};
 
     // Step 2: Fetch properties using the CID
     const propUrl = `https://pubchem.ncbi.nlm.nih.gov/rest/pug/compound/cid/${cid}/property/MolecularWeight,XLogP,HBondDonorCount,HBondAcceptorCount,IUPACName,MolecularFormula/JSON`;
-    const propResponse = await fetch(propUrl);
-    if (!propResponse.ok) return {};
+    const json = await pubchemGet(propUrl, 'json', signal);
+    if (!json) return {};
     
-    const json = await propResponse.json();
     const props = json.PropertyTable.Properties[0];
 
     return {
@@ -34,6 +47,7 @@ export async function fetchPubChemData(smiles: string): Promise<PhysicalProperti
       meltingPoint: "See PubChem Record"
     };
   } catch (error) {
+    if (isAbortError(error)) throw error;
     // Return empty object instead of throwing to maintain app stability
     console.warn("PubChem enrichment skipped:", error);
     return {};
@@ -44,29 +58,27 @@ export async function fetchPubChemData(smiles: string): Promise<PhysicalProperti
  * Resolves a chemical name or SMILES to a full Molecule object using PubChem.
  * This is the primary fallback for Gemini 429 errors.
  */
-export async function resolveMoleculeFromPubChem(query: string): Promise<SearchResult> {
+export async function resolveMoleculeFromPubChem(query: string, signal?: AbortSignal): Promise<SearchResult> {
   let cid: number | null = null;
   
   // 1. Attempt lookup by Name
   try {
     const nameUrl = `https://pubchem.ncbi.nlm.nih.gov/rest/pug/compound/name/${encodeURIComponent(query)}/cids/JSON`;
-    const cidRes = await fetch(nameUrl);
-    if (cidRes.ok) {
-      const cidJson = await cidRes.json();
-      cid = cidJson.IdentifierList?.CID?.[0];
-    }
-  } catch (e) {}
+    const cidJson = await pubchemGet(nameUrl, 'json', signal);
+    cid = cidJson?.IdentifierList?.CID?.[0] ?? null;
+  } catch (e) {
+    if (isAbortError(e)) throw e;
+  }
 
   // 2. Fallback to lookup by SMILES if CID not found
   if (!cid) {
     try {
       const smilesUrl = `https://pubchem.ncbi.nlm.nih.gov/rest/pug/compound/smiles/${encodeURIComponent(query)}/cids/JSON`;
-      const cidRes = await fetch(smilesUrl);
-      if (cidRes.ok) {
-        const cidJson = await cidRes.json();
-        cid = cidJson.IdentifierList?.CID?.[0];
-      }
-    } catch (e) {}
+      const cidJson = await pubchemGet(smilesUrl, 'json', signal);
+      cid = cidJson?.IdentifierList?.CID?.[0] ?? null;
+    } catch (e) {
+      if (isAbortError(e)) throw e;
+    }
   }
 
   if (!cid) {
@@ -75,16 +87,14 @@ export async function resolveMoleculeFromPubChem(query: string): Promise<SearchR
 
   // 3. Get properties and SMILES
   const propUrl = `https://pubchem.ncbi.nlm.nih.gov/rest/pug/compound/cid/${cid}/property/IUPACName,CanonicalSMILES,MolecularFormula/JSON`;
-  const propRes = await fetch(propUrl);
-  if (!propRes.ok) throw new Error("Could not fetch properties from PubChem");
-  const propJson = await propRes.json();
+  const propJson = await pubchemGet(propUrl, 'json', signal);
+  if (!propJson) throw new Error("Could not fetch properties from PubChem");
   const meta = propJson.PropertyTable.Properties[0];
 
   // 4. Get 2D JSON for coordinates/graph
   const jsonUrl = `https://pubchem.ncbi.nlm.nih.gov/rest/pug/compound/cid/${cid}/JSON`;
-  const jsonRes = await fetch(jsonUrl);
-  if (!jsonRes.ok) throw new Error("Could not fetch structure from PubChem");
-  const data = await jsonRes.json();
+  const data = await pubchemGet(jsonUrl, 'json', signal);
+  if (!data) throw new Error("Could not fetch structure from PubChem");
   
   const compound = data.PC_Compounds[0];
   const atoms: Atom[] = [];
@@ -146,21 +156,35 @@ export async function resolveMoleculeFromPubChem(query: string): Promise<SearchR
 /**
  * Fetches 3D coordinates (SDF) for a given CID or Name.
  */
-export async function fetch3DSdfFromPubChem(query: string): Promise<string> {
+export async function fetch3DSdfFromPubChem(query: string, signal?: AbortSignal): Promise<string> {
   try {
     // Try by name first
     const url = `https://pubchem.ncbi.nlm.nih.gov/rest/pug/compound/name/${encodeURIComponent(query)}/SDF?record_type=3d`;
-    let res = await fetch(url);
+    let sdf = await pubchemGet(url, 'text', signal);
     
     // If name fails, try direct SMILES SDF generation
-    if (!res.ok) {
+    if (sdf === null) {
         const smilesUrl = `https://pubchem.ncbi.nlm.nih.gov/rest/pug/compound/smiles/${encodeURIComponent(query)}/SDF?record_type=3d`;
-        res = await fetch(smilesUrl);
+        sdf = await pubchemGet(smilesUrl, 'text', signal);
     }
     
-    if (!res.ok) return "";
-    return await res.text();
-  } catch {
+    return sdf ?? "";
+  } catch (error) {
+    if (isAbortError(error)) throw error;
     return "";
   }
 }
+
+/**
+ * Compound names from the PubChem autocomplete dictionary that start with the input.
+ */
+export async function fetchPubChemSuggestions(input: string, signal?: AbortSignal): Promise<string[]> {
+  const query = input.trim();
+  if (query.length < 2) return [];
+
+  const url = `https://pubchem.ncbi.nlm.nih.gov/rest/autocomplete/compound/${encodeURIComponent(query)}/json?limit=5`;
+  const json = await pubchemGet(url, 'json', signal);
+  if (!json) throw new Error("PubChem autocomplete unavailable");
+  const terms = json.dictionary_terms?.compound;
+  return Array.isArray(terms) ? terms.map(String).slice(0, 5) : [];
+}
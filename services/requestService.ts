@@ -0,0 +1,197 @@
+/**
+ * Every Gemini and PubChem call goes through `limitedRequest`: a token bucket per service
+ * keeps the app under the published rate limits before a 429 happens, identical calls in
+ * flight are merged, and callers cancel through an AbortSignal.
+ */
+
+export type RequestService = 'gemini' | 'pubchem';
+
+interface Waiter {
+  resolve: () => void;
+  reject: (error: unknown) => void;
+  signal: AbortSignal;
+  onAbort: () => void;
+}
+
+interface Bucket {
+  capacity: number;
+  /** Tokens added per second. */
+  rate: number;
+  tokens: number;
+  updated: number;
+  queue: Waiter[];
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+interface Flight {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  /** Callers still waiting; the request is aborted when the last one leaves. */
+  subscribers: number;
+}
+
+export interface RequestStats {
+  /** Waiting for a token. */
+  queued: number;
+  inFlight: number;
+  quota: Record<RequestService, { remaining: number; capacity: number }>;
+}
+
+const bucket = (capacity: number, perMinute: number): Bucket => ({
+  capacity, rate: perMinute / 60, tokens: capacity, updated: Date.now(), queue: [], timer: null,
+});
+
+/** Gemini free tier: 10 requests a minute. PubChem PUG-REST: 5 a second. */
+const BUCKETS: Record<RequestService, Bucket> = {
+  gemini: bucket(10, 10),
+  pubchem: bucket(5, 300),
+};
+
+const flights = new Map<string, Flight>();
+const listeners = new Set<() => void>();
+let inFlight = 0;
+
+const notify = () => listeners.forEach(listener => listener());
+
+export const abortError = () => new DOMException("Request superseded", "AbortError");
+
+export const isAbortError = (error: unknown) => (error as DOMException)?.name === 'AbortError';
+
+function refill(b: Bucket) {
+  const now = Date.now();
+  b.tokens = Math.min(b.capacity, b.tokens + ((now - b.updated) / 1000) * b.rate);
+  b.updated = now;
+}
+
+/** Hands out tokens to waiters in order and sleeps until the next token when some remain. */
+function pump(b: Bucket) {
+  refill(b);
+  while (b.queue.length > 0 && b.tokens >= 1) {
+    b.tokens -= 1;
+    const waiter = b.queue.shift()!;
+    waiter.signal.removeEventListener('abort', waiter.onAbort);
+    waiter.resolve();
+  }
+  if (b.queue.length > 0 && b.timer === null) {
+    b.timer = setTimeout(() => {
+      b.timer = null;
+      pump(b);
+    }, Math.ceil(((1 - b.tokens) / b.rate) * 1000));
+  }
+  notify();
+}
+
+function acquire(b: Bucket, signal: AbortSignal): Promise<void> {
+  if (signal.aborted) return Promise.reject(abortError());
+  return new Promise((resolve, reject) => {
+    const waiter: Waiter = {
+      resolve,
+      reject,
+      signal,
+      onAbort: () => {
+        b.queue = b.queue.filter(w => w !== waiter);
+        reject(abortError());
+        notify();
+      },
+    };
+    signal.addEventListener('abort', waiter.onAbort, { once: true });
+    b.queue.push(waiter);
+    pump(b);
+  });
+}
+
+/** Follows `flight` until it settles or `signal` aborts, whichever comes first. */
+function join<T>(flight: Flight, signal?: AbortSignal): Promise<T> {
+  if (signal?.aborted) return Promise.reject(abortError());
+  flight.subscribers++;
+  return new Promise<T>((resolve, reject) => {
+    const leave = () => {
+      signal?.removeEventListener('abort', onAbort);
+      flight.subscribers--;
+    };
+    const onAbort = () => {
+      leave();
+      if (flight.subscribers === 0) flight.controller.abort();
+      reject(abortError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+    flight.promise.then(
+      value => { leave(); resolve(value as T); },
+      error => { leave(); reject(error); },
+    );
+  });
+}
+
+/**
+ * Runs `task` once a token for `service` is free. Calls with the same `key` while one is in
+ * flight share its result instead of sending another request; pass null for calls that must
+ * not be merged. `task` receives a signal that aborts only when every caller has aborted.
+ */
+export function limitedRequest<T>(service: RequestService, key: string | null, task: (signal: AbortSignal) => Promise<T>, signal?: AbortSignal): Promise<T> {
+  // Nobody would wait for the answer, so don't spend a token on it
+  if (signal?.aborted) return Promise.reject(abortError());
+  const id = key === null ? null : `${service}:${key}`;
+  let flight = id === null ? undefined : flights.get(id);
+  if (!flight) {
+    const controller = new AbortController();
+    const promise = (async () => {
+      await acquire(BUCKETS[service], controller.signal);
+      inFlight++;
+      notify();
+      try {
+        return await task(controller.signal);
+      } finally {
+        inFlight--;
+        notify();
+      }
+    })();
+    const created: Flight = { promise, controller, subscribers: 0 };
+    // Callers get the outcome through `join`; this keeps an abandoned flight's rejection handled
+    promise.catch(() => {});
+    if (id !== null) {
+      flights.set(id, created);
+      // An aborted flight is forgotten at once so a new identical call starts afresh instead of joining it
+      const forget = () => { if (flights.get(id) === created) flights.delete(id); };
+      controller.signal.addEventListener('abort', forget, { once: true });
+      promise.then(forget, forget);
+    }
+    flight = created;
+  }
+  return join<T>(flight, signal);
+}
+
+/** A delay that rejects as soon as `signal` aborts. */
+export function abortableWait(ms: number, signal?: AbortSignal): Promise<void> {
+  if (signal?.aborted) return Promise.reject(abortError());
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+export function requestStats(): RequestStats {
+  const quota = {} as RequestStats['quota'];
+  (Object.keys(BUCKETS) as RequestService[]).forEach(service => {
+    const b = BUCKETS[service];
+    refill(b);
+    quota[service] = { remaining: Math.floor(b.tokens), capacity: b.capacity };
+  });
+  return {
+    queued: Object.values(BUCKETS).reduce((sum, b) => sum + b.queue.length, 0),
+    inFlight,
+    quota,
+  };
+}
+
+/** Called whenever a request is queued, starts or ends; returns the unsubscribe function. */
+export function subscribeRequests(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+}
@@ -0,0 +1,423 @@
+import {
+  Molecule, Atom, Bond, ElementType, AnalysisResult, SearchResult, IsomerInfo, ConformationInfo,
+  StereocenterInfo, StereoBondInfo, VSEPRInfo, PhysicalProperties,
+} from "../types";
+import { ELEMENTS } from "../constants";
+import { parseSdfGeometry } from "./molfileService";
+import { parseSmiles } from "./smilesService";
+import { calculateFormula } from "./formulaService";
+
+/**
+ * Runtime checks for model responses. Every field is either coerced to its declared type or
+ * dropped, and each change is recorded as "path: what happened" in the result's `repairs`.
+ */
+
+type Repairs = string[];
+
+export const isRecord = (val: unknown): val is Record<string, unknown> =>
+  typeof val === 'object' && val !== null && !Array.isArray(val);
+
+const describe = (val: unknown) => (Array.isArray(val) ? 'list' : val === null ? 'null' : typeof val);
+
+/** Strings, finite numbers, lists of those and {text}/{value}/{name} wrappers read as text. */
+function readText(val: unknown): string | undefined {
+  if (typeof val === 'string') return val.trim();
+  if ((typeof val === 'number' && Number.isFinite(val)) || typeof val === 'boolean') return String(val);
+  if (Array.isArray(val)) {
+    const parts = val.map(readText);
+    return parts.every(p => p !== undefined) ? parts.join(', ') : undefined;
+  }
+  if (isRecord(val)) {
+    const key = ['text', 'value', 'name'].find(k => k in val);
+    return key ? readText(val[key]) : undefined;
+  }
+  return undefined;
+}
+
+function text(val: unknown, path: string, repairs: Repairs): string {
+  if (val === undefined || val === null) return '';
+  const result = readText(val);
+  if (result === undefined) {
+    repairs.push(`${path}: ${describe(val)} is not text; dropped`);
+    return '';
+  }
+  if (typeof val !== 'string') repairs.push(`${path}: ${describe(val)} read as text`);
+  return result;
+}
+
+/** Non-negative integers, also from strings such as "2 lone pairs". */
+function count(val: unknown, path: string, repairs: Repairs): number | undefined {
+  if (val === undefined || val === null) return undefined;
+  const n = typeof val === 'number' ? val : parseFloat(readText(val) ?? '');
+  if (!Number.isFinite(n) || n < 0 || !Number.isInteger(n)) {
+    repairs.push(`${path}: ${JSON.stringify(val)} is not a count; dropped`);
+    return undefined;
+  }
+  if (typeof val !== 'number') repairs.push(`${path}: read "${val}" as ${n}`);
+  return n;
+}
+
+function number(val: unknown, path: string, repairs: Repairs): number | undefined {
+  if (val === undefined || val === null) return undefined;
+  const n = typeof val === 'number' ? val : parseFloat(readText(val) ?? '');
+  if (!Number.isFinite(n)) {
+    repairs.push(`${path}: ${JSON.stringify(val)} is not a number; dropped`);
+    return undefined;
+  }
+  if (typeof val !== 'number') repairs.push(`${path}: read "${val}" as ${n}`);
+  return n;
+}
+
+function list(val: unknown, path: string, repairs: Repairs): unknown[] {
+  if (val === undefined || val === null) return [];
+  if (Array.isArray(val)) return val;
+  repairs.push(`${path}: ${describe(val)} is not a list; dropped`);
+  return [];
+}
+
+function record(val: unknown, path: string, repairs: Repairs): Record<string, unknown> | null {
+  if (isRecord(val)) return val;
+  repairs.push(`${path}: ${describe(val)} is not an object; dropped`);
+  return null;
+}
+
+function element(val: unknown): ElementType | undefined {
+  const symbol = readText(val);
+  if (!symbol) return undefined;
+  const normalized = symbol.charAt(0).toUpperCase() + symbol.slice(1).toLowerCase();
+  return normalized in ELEMENTS ? (normalized as ElementType) : undefined;
+}
+
+const heavyAtomCount = (molecule: Molecule) => molecule.atoms.filter(a => a.element !== 'H').length;
+
+/**
+ * Keeps an SDF only when it parses and describes `expected`: the same number of heavy atoms
+ * and the same formula once implicit hydrogens are counted. Markdown fences are stripped.
+ */
+function sdf(val: unknown, path: string, repairs: Repairs, expected: Molecule): string | undefined {
+  if (val === undefined || val === null || val === '') return undefined;
+  if (typeof val !== 'string') {
+    repairs.push(`${path}: ${describe(val)} is not a molfile; dropped`);
+    return undefined;
+  }
+  let data = val;
+  const fenced = val.match(/^\s*```[\w-]*\n([\s\S]*?)\n?```\s*$/);
+  if (fenced) {
+    data = fenced[1];
+    repairs.push(`${path}: removed markdown fence`);
+  }
+
+  let parsed: Molecule;
+  try {
+    parsed = parseSdfGeometry(data).molecule;
+  } catch (e) {
+    repairs.push(`${path}: does not parse as a molfile (${(e as Error).message}); dropped`);
+    return undefined;
+  }
+  const found = heavyAtomCount(parsed);
+  const wanted = heavyAtomCount(expected);
+  if (found !== wanted) {
+    repairs.push(`${path}: ${found} heavy atoms, expected ${wanted}; dropped`);
+    return undefined;
+  }
+  const formula = calculateFormula(parsed)?.formula;
+  const wantedFormula = calculateFormula(expected)?.formula;
+  if (wantedFormula && formula !== wantedFormula) {
+    repairs.push(`${path}: formula ${formula || 'unknown'}, expected ${wantedFormula}; dropped`);
+    return undefined;
+  }
+  return data;
+}
+
+function configuration(val: unknown): StereocenterInfo['configuration'] | undefined {
+  const label = readText(val) || '';
+  if (label === '' || /^(none|n\/a)$/i.test(label)) return 'None';
+  // Lower case r/s marks a pseudoasymmetric center and keeps its case
+  const match = label.match(/^\(?([RSrs])\)?$/);
+  return match ? (match[1] as 'R' | 'S' | 'r' | 's') : undefined;
+}
+
+function stereocenters(val: unknown, atomIds: Set<string>, repairs: Repairs): StereocenterInfo[] {
+  const seen = new Set<string>();
+  return list(val, 'stereocenters', repairs).flatMap((item, k): StereocenterInfo[] => {
+    const path = `stereocenters[${k}]`;
+    const entry = record(item, path, repairs);
+    if (!entry) return [];
+    const atomId = readText(entry.atomId) || '';
+    if (!atomIds.has(atomId)) {
+      repairs.push(`${path}: atom "${atomId}" is not in the molecule; dropped`);
+      return [];
+    }
+    if (seen.has(atomId)) {
+      repairs.push(`${path}: atom ${atomId} listed twice; dropped`);
+      return [];
+    }
+    seen.add(atomId);
+    let config = configuration(entry.configuration);
+    if (!config) {
+      repairs.push(`${path}.configuration: "${readText(entry.configuration)}" is not R, S, r, s or None; read as None`);
+      config = 'None';
+    }
+    const info: StereocenterInfo = { atomId, configuration: config, logic: text(entry.logic, `${path}.logic`, repairs) };
+    if (entry.priorities !== undefined) info.priorities = list(entry.priorities, `${path}.priorities`, repairs).map((p, n) => text(p, `${path}.priorities[${n}]`, repairs));
+    if (entry.explanation !== undefined) info.explanation = text(entry.explanation, `${path}.explanation`, repairs);
+    return [info];
+  });
+}
+
+const STEREO_BOND_KINDS: StereoBondInfo['kind'][] = ['double', 'ring', 'axis'];
+const STEREO_BOND_DESCRIPTORS: StereoBondInfo['descriptor'][] = ['E', 'Z', 'cis', 'trans', 'Ra', 'Sa', 'None'];
+
+function stereoBonds(val: unknown, atomIds: Set<string>, repairs: Repairs): StereoBondInfo[] {
+  return list(val, 'stereoBonds', repairs).flatMap((item, k): StereoBondInfo[] => {
+    const path = `stereoBonds[${k}]`;
+    const entry = record(item, path, repairs);
+    if (!entry) return [];
+    const kind = STEREO_BOND_KINDS.find(kd => kd === readText(entry.kind));
+    const descriptor = STEREO_BOND_DESCRIPTORS.find(d => d === readText(entry.descriptor));
+    const ends = Array.isArray(entry.atomIds) ? entry.atomIds.map(id => readText(id) || '') : [];
+    if (!kind || !descriptor) {
+      repairs.push(`${path}: unknown kind or descriptor; dropped`);
+      return [];
+    }
+    if (ends.length !== 2 || ends.some(id => !atomIds.has(id))) {
+      repairs.push(`${path}: atomIds are not two atoms of the molecule; dropped`);
+      return [];
+    }
+    return [{ kind, descriptor, atomIds: [ends[0], ends[1]], logic: text(entry.logic, `${path}.logic`, repairs) }];
+  });
+}
+
+/** Accepts the record the type declares or the list with `atomId` the model schema asks for. */
+function vsepr(val: unknown, atomIds: Set<string>, repairs: Repairs): Record<string, VSEPRInfo> {
+  const entries: Array<[string, unknown, string]> = [];
+  if (Array.isArray(val)) {
+    val.forEach((item, k) => entries.push([readText(isRecord(item) ? item.atomId : undefined) || '', item, `vsepr[${k}]`]));
+  } else if (isRecord(val)) {
+    Object.entries(val).forEach(([id, item]) => entries.push([id, item, `vsepr.${id}`]));
+  } else if (val !== undefined && val !== null) {
+    repairs.push(`vsepr: ${describe(val)} is neither a list nor an object; dropped`);
+  }
+
+  const result: Record<string, VSEPRInfo> = {};
+  entries.forEach(([atomId, item, path]) => {
+    const entry = record(item, path, repairs);
+    if (!entry) return;
+    if (!atomIds.has(atomId)) {
+      repairs.push(`${path}: atom "${atomId}" is not in the molecule; dropped`);
+      return;
+    }
+    const info: VSEPRInfo = {
+      axeNotation: text(entry.axeNotation, `${path}.axeNotation`, repairs),
+      lonePairs: count(entry.lonePairs, `${path}.lonePairs`, repairs) ?? 0,
+      electronicGeometry: text(entry.electronicGeometry, `${path}.electronicGeometry`, repairs),
+      molecularGeometry: text(entry.molecularGeometry, `${path}.molecularGeometry`, repairs),
+      bondAngles: text(entry.bondAngles, `${path}.bondAngles`, repairs),
+    };
+    const el = element(entry.element);
+    if (el) info.element = el;
+    if (entry.hybridization !== undefined) info.hybridization = text(entry.hybridization, `${path}.hybridization`, repairs);
+    result[atomId] = info;
+  });
+  return result;
+}
+
+function isomerType(val: unknown): IsomerInfo['type'] | undefined {
+  const label = (readText(val) || '').toLowerCase();
+  if (label.includes('enantio')) return 'enantiomer';
+  if (/diastereo|cis|trans|geometric|epimer|anomer|meso/.test(label)) return 'diastereomer';
+  if (/constitution|structural|positional|chain|functional|skeletal/.test(label)) return 'constitutional';
+  return undefined;
+}
+
+/**
+ * An isomer with a SMILES string the local parser reads and a recognised relationship;
+ * its `sdfData` must describe that SMILES. Returns null when the entry is unusable.
+ */
+export function validateIsomer(raw: unknown, path: string, repairs: Repairs): IsomerInfo | null {
+  const entry = record(raw, path, repairs);
+  if (!entry) return null;
+  const smiles = readText(entry.smiles) || '';
+  let structure: Molecule;
+  try {
+    structure = parseSmiles(smiles);
+  } catch {
+    repairs.push(`${path}: SMILES "${smiles}" does not parse; dropped`);
+    return null;
+  }
+  const type = isomerType(entry.type);
+  if (!type) {
+    repairs.push(`${path}: "${readText(entry.type)}" is not an enantiomer, diastereomer or constitutional isomer; dropped`);
+    return null;
+  }
+  const isomer: IsomerInfo = {
+    name: text(entry.name, `${path}.name`, repairs) || smiles,
+    smiles,
+    type,
+    description: text(entry.description, `${path}.description`, repairs),
+  };
+  const sdfData = sdf(entry.sdfData, `${path}.sdfData`, repairs, structure);
+  if (sdfData) isomer.sdfData = sdfData;
+  return isomer;
+}
+
+function conformations(val: unknown, molecule: Molecule, repairs: Repairs): ConformationInfo[] {
+  return list(val, 'conformations', repairs).flatMap((item, k): ConformationInfo[] => {
+    const path = `conformations[${k}]`;
+    const entry = record(item, path, repairs);
+    if (!entry) return [];
+    const info: ConformationInfo = {
+      name: text(entry.name, `${path}.name`, repairs) || `Conformation ${k + 1}`,
+      smiles: text(entry.smiles, `${path}.smiles`, repairs),
+      energyScore: text(entry.energyScore, `${path}.energyScore`, repairs),
+      description: text(entry.description, `${path}.description`, repairs),
+    };
+    const sdfData = sdf(entry.sdfData, `${path}.sdfData`, repairs, molecule);
+    if (sdfData) info.sdfData = sdfData;
+    const energy = number(entry.relativeEnergy, `${path}.relativeEnergy`, repairs);
+    if (energy !== undefined) info.relativeEnergy = energy;
+    return [info];
+  });
+}
+
+function properties(val: unknown, repairs: Repairs): PhysicalProperties {
+  if (val === undefined || val === null) return {};
+  const entry = record(val, 'properties', repairs);
+  if (!entry) return {};
+  const result: PhysicalProperties = {};
+  (['molecularWeight', 'logP', 'boilingPoint', 'meltingPoint', 'density'] as const).forEach(key => {
+    const value = text(entry[key], `properties.${key}`, repairs);
+    if (value) result[key] = value;
+  });
+  (['hBondDonors', 'hBondAcceptors'] as const).forEach(key => {
+    const value = count(entry[key], `properties.${key}`, repairs);
+    if (value !== undefined) result[key] = value;
+  });
+  return result;
+}
+
+function metadata(val: unknown, repairs: Repairs): SearchResult['metadata'] {
+  const entry = (val === undefined || val === null ? {} : record(val, 'metadata', repairs)) || {};
+  return {
+    smiles: text(entry.smiles, 'metadata.smiles', repairs),
+    iupacName: text(entry.iupacName, 'metadata.iupacName', repairs),
+    commonName: text(entry.commonName, 'metadata.commonName', repairs),
+    formula: text(entry.formula, 'metadata.formula', repairs),
+  };
+}
+
+const ANALYSIS_FIELDS = new Set([
+  'stereocenters', 'stereoBonds', 'vsepr', 'dipoleMoment', 'educationalNote', 'sdfData',
+  'isomers', 'conformations', 'properties', 'metadata', 'provider', 'repairs',
+]);
+
+/**
+ * Coerces a parsed analysis response for `molecule`. Stereocenters and VSEPR entries must
+ * name atoms of the molecule and every SDF must match it. Throws only when the response is
+ * not an object at all.
+ */
+export function validateAnalysisResult(raw: unknown, molecule: Molecule): AnalysisResult {
+  if (!isRecord(raw)) throw new Error("Analysis response is not a JSON object");
+  const repairs: Repairs = [];
+  const atomIds = new Set(molecule.atoms.map(a => a.id));
+
+  Object.keys(raw).filter(key => !ANALYSIS_FIELDS.has(key)).forEach(key => repairs.push(`${key}: unknown field; dropped`));
+
+  const result: AnalysisResult = {
+    stereocenters: stereocenters(raw.stereocenters, atomIds, repairs),
+    vsepr: vsepr(raw.vsepr, atomIds, repairs),
+    dipoleMoment: text(raw.dipoleMoment, 'dipoleMoment', repairs),
+    educationalNote: text(raw.educationalNote, 'educationalNote', repairs),
+    isomers: list(raw.isomers, 'isomers', repairs).flatMap((item, k) => validateIsomer(item, `isomers[${k}]`, repairs) ?? []),
+    conformations: conformations(raw.conformations, molecule, repairs),
+    properties: properties(raw.properties, repairs),
+    metadata: metadata(raw.metadata, repairs),
+  };
+  if (raw.stereoBonds !== undefined) result.stereoBonds = stereoBonds(raw.stereoBonds, atomIds, repairs);
+  const sdfData = sdf(raw.sdfData, 'sdfData', repairs, molecule);
+  if (sdfData) result.sdfData = sdfData;
+  if (typeof raw.provider === 'string') result.provider = raw.provider;
+
+  // Repairs made when a cached copy was first read are kept alongside any new ones
+  const previous = Array.isArray(raw.repairs) ? raw.repairs.filter((r): r is string => typeof r === 'string') : [];
+  if (previous.length + repairs.length > 0) result.repairs = [...previous, ...repairs];
+  return result;
+}
+
+const BOND_TYPES: Record<string, Bond['type']> = {
+  single: 'single', double: 'double', triple: 'triple', wedge: 'wedge', dash: 'dash', hash: 'dash',
+  '1': 'single', '2': 'double', '3': 'triple',
+};
+
+/**
+ * Coerces a parsed search response. Atoms with an unsupported element or a duplicate id make
+ * the structure unusable and throw; bonds to unknown atoms are dropped.
+ */
+export function validateSearchResult(raw: unknown): SearchResult {
+  if (!isRecord(raw) || !isRecord(raw.molecule)) throw new Error("Search response has no molecule");
+  const repairs: Repairs = [];
+  const source = raw.molecule;
+
+  const ids = new Set<string>();
+  const atoms: Atom[] = list(source.atoms, 'molecule.atoms', repairs).map((item, k) => {
+    const path = `molecule.atoms[${k}]`;
+    if (!isRecord(item)) throw new Error(`${path} is not an atom`);
+    const id = readText(item.id) || '';
+    if (!id || ids.has(id)) throw new Error(`${path} has a missing or duplicate id "${id}"`);
+    ids.add(id);
+    const el = element(item.element);
+    if (!el) throw new Error(`${path} has unsupported element "${readText(item.element)}"`);
+    if (el !== item.element) repairs.push(`${path}.element: read "${readText(item.element)}" as ${el}`);
+    const atom: Atom = {
+      id,
+      element: el,
+      x: number(item.x, `${path}.x`, repairs) ?? 0,
+      y: number(item.y, `${path}.y`, repairs) ?? 0,
+      formalCharge: Math.round(number(item.formalCharge, `${path}.formalCharge`, repairs) ?? 0),
+      lonePairs: count(item.lonePairs, `${path}.lonePairs`, repairs) ?? 0,
+    };
+    const isotope = count(item.isotope, `${path}.isotope`, repairs);
+    if (isotope) atom.isotope = isotope;
+    const radical = count(item.radicalElectrons, `${path}.radicalElectrons`, repairs);
+    if (radical) atom.radicalElectrons = radical;
+    return atom;
+  });
+  if (atoms.length === 0) throw new Error("Search response contains no atoms");
+
+  const bondIds = new Set<string>();
+  const bonds: Bond[] = list(source.bonds, 'molecule.bonds', repairs).flatMap((item, k): Bond[] => {
+    const path = `molecule.bonds[${k}]`;
+    const entry = record(item, path, repairs);
+    if (!entry) return [];
+    const from = readText(entry.from) || '';
+    const to = readText(entry.to) || '';
+    if (!ids.has(from) || !ids.has(to) || from === to) {
+      repairs.push(`${path}: does not join two atoms of the molecule; dropped`);
+      return [];
+    }
+    let id = readText(entry.id) || '';
+    if (!id || bondIds.has(id)) {
+      id = `b-${k}`;
+      repairs.push(`${path}.id: missing or duplicate; renamed ${id}`);
+    }
+    bondIds.add(id);
+    const label = (readText(entry.type) || 'single').toLowerCase();
+    let type = BOND_TYPES[label];
+    if (!type) {
+      repairs.push(`${path}.type: "${label}" read as single`);
+      type = 'single';
+    }
+    return [{ id, from, to, type }];
+  });
+
+  const result: SearchResult = { molecule: { atoms, bonds }, metadata: metadata(raw.metadata, repairs) };
+  if (repairs.length > 0) result.repairs = repairs;
+  return result;
+}
+
+/** Suggestion lists arrive bare or wrapped as {suggestions} / {names}; entries become text. */
+export function validateSuggestions(raw: unknown): string[] {
+  const items = Array.isArray(raw) ? raw : isRecord(raw) ? (raw.suggestions ?? raw.names) : undefined;
+  if (!Array.isArray(items)) return [];
+  return items.map(readText).filter((s): s is string => !!s);
+}
@@ -0,0 +1,662 @@
+import { Atom, Bond, ElementType, Molecule, SearchResult } from "../types";
+import { ELEMENTS } from "../constants";
+import { MoleculeGraph, buildGraph, findRings, connectedComponents, implicitHydrogens, allowedValences, atomicNumber, findKekuleDoubles, bondOrderSum } from "./graphService";
+import { computeLayout, reflectBranch } from "./layoutService";
+import { perceiveStereocenters, tetrahedralParity, tetrahedralShape, drawTetrahedralStereo, TetrahedralTarget } from "./cipService";
+import { stereogenicCenters, automorphisms } from "./isomerService";
+
+interface ParsedAtom {
+  element: ElementType;
+  aromatic: boolean;
+  isotope?: number;
+  charge: number;
+  hCount: number;
+  chirality: '@' | '@@' | null;
+  hasPrevious: boolean;
+  bracket: boolean;
+  // Neighbor order as written (atom indices); null is the bracket hydrogen
+  order: Array<number | null>;
+}
+
+interface ParsedBond {
+  a: number;
+  b: number;
+  symbol: string;
+}
+
+const ORGANIC_SUBSET = ['Cl', 'Br', 'C', 'N', 'O', 'P', 'S', 'F', 'I'];
+const AROMATIC_SUBSET = ['c', 'n', 'o', 'p', 's'];
+const BOND_SYMBOLS = ['-', '=', '#', ':', '/', '\\'];
+const BRACKET_PATTERN = /^(\d+)?(Cl|Br|[A-Z][a-z]?|[cnops])(@@|@(?:TH[12])?)?(H\d*)?(\+\d+|-\d+|\++|-+)?(?::\d+)?$/;
+
+/**
+ * Default valences of the SMILES organic subset, used to decide when an atom needs brackets.
+ */
+const SMILES_VALENCES: Record<string, number[]> = {
+  C: [4], N: [3, 5], O: [2], P: [3, 5], S: [2, 4, 6], F: [1], Cl: [1], Br: [1], I: [1],
+};
+
+const toElement = (symbol: string): ElementType | null => {
+  const element = symbol.charAt(0).toUpperCase() + symbol.slice(1);
+  return ELEMENTS[element] ? element as ElementType : null;
+};
+
+const parsedAtomAsAtom = (atom: ParsedAtom): Atom => ({
+  id: '', element: atom.element, x: 0, y: 0, formalCharge: atom.charge, lonePairs: 0,
+});
+
+/**
+ * Assigns alternating single/double bonds to aromatic bonds. Atoms that still have a
+ * free valence after their explicit bonds and hydrogens need exactly one double bond;
+ * a backtracking perfect matching picks which neighbor provides it.
+ */
+function kekulize(atoms: ParsedAtom[], bonds: ParsedBond[], aromaticBonds: Set<number>): Set<number> {
+  const needs = new Set<number>();
+  atoms.forEach((atom, i) => {
+    if (!atom.aromatic) return;
+    let used = atom.hCount;
+    bonds.forEach((bond, j) => {
+      if (bond.a !== i && bond.b !== i) return;
+      used += aromaticBonds.has(j) ? 1 : ({ '=': 2, '#': 3 } as Record<string, number>)[bond.symbol] || 1;
+    });
+    const target = Math.min(...allowedValences(parsedAtomAsAtom(atom)));
+    if (target - used >= 1) needs.add(i);
+  });
+
+  const aromatic = [...aromaticBonds];
+  const doubles = findKekuleDoubles(needs, aromatic.map(j => [bonds[j].a, bonds[j].b] as [number, number]));
+  if (!doubles) throw new Error("Invalid SMILES: aromatic system cannot be kekulized.");
+  return new Set([...doubles].map(k => aromatic[k]));
+}
+
+/**
+ * Side of a directional bond's substituent relative to the double-bond atom it hangs off.
+ * `F/C=C` puts F below its carbon, `C(/F)=C` puts F above.
+ */
+function substituentSide(bond: ParsedBond, substituent: number): 'up' | 'down' {
+  const writtenFirst = bond.a === substituent;
+  if (bond.symbol === '/') return writtenFirst ? 'down' : 'up';
+  return writtenFirst ? 'up' : 'down';
+}
+
+const cross2 = (ux: number, uy: number, vx: number, vy: number) => ux * vy - uy * vx;
+
+/**
+ * Parses a SMILES string into an editor molecule with computed 2D coordinates.
+ * Supports the organic subset, bracket atoms (isotopes, charges, H counts), branches,
+ * ring closures (including %nn), aromatic atoms, dot-disconnected fragments,
+ * tetrahedral `@`/`@@` (drawn as wedge/dash bonds) and `/` `\` double-bond geometry.
+ */
+export function parseSmiles(input: string): Molecule {
+  return parseSmilesGeometry(input).molecule;
+}
+
+/**
+ * `parseSmiles`, also returning the ids of the double bonds whose geometry the string fixes
+ * with `/` or `\` on both ends; the layout draws the others one way or the other at random.
+ */
+export function parseSmilesGeometry(input: string): { molecule: Molecule; fixedDoubleBonds: Set<string> } {
+  const smiles = input.trim();
+  if (!smiles) throw new Error("Invalid SMILES: empty input.");
+
+  const atoms: ParsedAtom[] = [];
+  const bonds: ParsedBond[] = [];
+  const branches: Array<number | null> = [];
+  const rings = new Map<number, { atom: number; symbol: string | null; slot: number }>();
+  let prev: number | null = null;
+  let pendingBond: string | null = null;
+  let i = 0;
+
+  const fail = (message: string): never => { throw new Error(`Invalid SMILES at position ${i + 1}: ${message}`); };
+  const hasBond = (a: number, b: number) => bonds.some(bd => (bd.a === a && bd.b === b) || (bd.a === b && bd.b === a));
+
+  const addAtom = (atom: ParsedAtom) => {
+    const index = atoms.length;
+    atoms.push(atom);
+    if (prev !== null) {
+      bonds.push({ a: prev, b: index, symbol: pendingBond || '' });
+      atoms[prev].order.push(index);
+      atom.order.push(prev);
+      atom.hasPrevious = true;
+    } else if (pendingBond) {
+      fail('bond symbol without a preceding atom');
+    }
+    if (atom.hCount > 0) atom.order.push(null);
+    pendingBond = null;
+    prev = index;
+  };
+
+  const ringClosure = (num: number) => {
+    if (prev === null) fail('ring closure without an atom');
+    const current = prev!;
+    const open = rings.get(num);
+    if (open) {
+      rings.delete(num);
+      if (open.atom === current || hasBond(open.atom, current)) fail(`invalid ring closure ${num}`);
+      if (pendingBond && open.symbol && pendingBond !== open.symbol && !['/', '\\'].includes(pendingBond)) fail(`conflicting bonds for ring closure ${num}`);
+      bonds.push({ a: open.atom, b: current, symbol: open.symbol || pendingBond || '' });
+      atoms[open.atom].order[open.slot] = current;
+      atoms[current].order.push(open.atom);
+    } else {
+      rings.set(num, { atom: current, symbol: pendingBond, slot: atoms[current].order.length });
+      atoms[current].order.push(-1);
+    }
+    pendingBond = null;
+  };
+
+  while (i < smiles.length) {
+    const c = smiles[i];
+    if (/\s/.test(c)) break;
+
+    if (c === '(') {
+      if (prev === null) fail('branch without a preceding atom');
+      branches.push(prev);
+      i++;
+    } else if (c === ')') {
+      if (branches.length === 0) fail('unbalanced parenthesis');
+      if (pendingBond) fail('bond symbol before closing parenthesis');
+      prev = branches.pop()!;
+      i++;
+    } else if (BOND_SYMBOLS.includes(c) || c === '$') {
+      if (c === '$') fail('quadruple bonds are not supported');
+      if (pendingBond) fail('two consecutive bond symbols');
+      pendingBond = c;
+      i++;
+    } else if (c === '.') {
+      if (pendingBond) fail('bond symbol before a dot');
+      prev = null;
+      i++;
+    } else if (/\d/.test(c)) {
+      ringClosure(Number(c));
+      i++;
+    } else if (c === '%') {
+      const digits = smiles.slice(i + 1, i + 3);
+      if (!/^\d\d$/.test(digits)) fail('expected two digits after %');
+      ringClosure(Number(digits));
+      i += 3;
+    } else if (c === '[') {
+      const end = smiles.indexOf(']', i);
+      if (end < 0) fail('unterminated bracket atom');
+      const match = BRACKET_PATTERN.exec(smiles.slice(i + 1, end));
+      if (!match) fail(`unrecognised bracket atom [${smiles.slice(i + 1, end)}]`);
+      const [, isotope, symbol, chirality, hydrogens, charge] = match!;
+      const aromatic = /^[a-z]/.test(symbol);
+      const element = symbol === 'H' ? 'H' : toElement(symbol);
+      if (!element) fail(`element ${symbol} is not supported by the editor`);
+      let formalCharge = 0;
+      if (charge) {
+        const sign = charge[0] === '+' ? 1 : -1;
+        formalCharge = sign * (/\d/.test(charge) ? Number(charge.slice(1)) : charge.length);
+      }
+      addAtom({
+        element: element as ElementType,
+        aromatic,
+        isotope: isotope ? Number(isotope) : undefined,
+        charge: formalCharge,
+        hCount: hydrogens ? (hydrogens.length > 1 ? Number(hydrogens.slice(1)) : 1) : 0,
+        chirality: chirality ? (chirality === '@@' || chirality === '@TH2' ? '@@' : '@') : null,
+        hasPrevious: false,
+        bracket: true,
+        order: [],
+      });
+      i = end + 1;
+    } else {
+      const two = smiles.slice(i, i + 2);
+      const symbol = ORGANIC_SUBSET.includes(two) ? two : c;
+      if (!ORGANIC_SUBSET.includes(symbol) && !AROMATIC_SUBSET.includes(symbol)) {
+        fail(symbol === 'B' || symbol === 'b' ? 'boron is not supported by the editor' : `unexpected character '${c}'`);
+      }
+      addAtom({
+        element: toElement(symbol)!,
+        aromatic: AROMATIC_SUBSET.includes(symbol),
+        charge: 0,
+        hCount: 0,
+        chirality: null,
+        hasPrevious: false,
+        bracket: false,
+        order: [],
+      });
+      i += symbol.length;
+    }
+  }
+
+  if (rings.size > 0) fail(`unclosed ring ${[...rings.keys()].join(', ')}`);
+  if (branches.length > 0) fail('unbalanced parenthesis');
+  if (pendingBond) fail('dangling bond symbol');
+  if (atoms.length === 0) fail('no atoms');
+
+  const aromaticBonds = new Set<number>();
+  bonds.forEach((bond, j) => {
+    if (bond.symbol === ':' || (bond.symbol === '' && atoms[bond.a].aromatic && atoms[bond.b].aromatic)) aromaticBonds.add(j);
+  });
+  const doubles = kekulize(atoms, bonds, aromaticBonds);
+
+  const stamp = Date.now();
+  const ids = atoms.map((_, k) => `sm-${stamp}-${k}`);
+  const bondTypes: Record<string, Bond['type']> = { '=': 'double', '#': 'triple' };
+  let molecule: Molecule = {
+    atoms: atoms.map((atom, k) => ({
+      id: ids[k],
+      element: atom.element,
+      x: 0,
+      y: 0,
+      formalCharge: atom.charge,
+      lonePairs: 0,
+      ...(atom.isotope ? { isotope: atom.isotope } : {}),
+    })),
+    bonds: bonds.map((bond, j) => ({
+      id: `sm-b-${stamp}-${j}`,
+      from: ids[bond.a],
+      to: ids[bond.b],
+      type: aromaticBonds.has(j) ? (doubles.has(j) ? 'double' : 'single') : (bondTypes[bond.symbol] || 'single'),
+    })),
+  };
+
+  // Bracket atoms short of a valid valence ([CH3], [CH2], [OH]) are radicals
+  const parsedGraph = buildGraph(molecule);
+  atoms.forEach((atom, k) => {
+    if (!atom.bracket || atom.aromatic) return;
+    const target = molecule.atoms[k];
+    const used = bondOrderSum(parsedGraph.get(ids[k])!) + atom.hCount;
+    const valence = allowedValences(target).find(v => v >= used);
+    const missing = valence === undefined ? 0 : valence - used;
+    if (missing > 0 && missing <= 2) target.radicalElectrons = missing;
+  });
+
+  molecule = computeLayout(molecule);
+
+  // Double-bond geometry from directional bonds
+  const fixedDoubleBonds = new Set<string>();
+  bonds.forEach((bond, j) => {
+    if (molecule.bonds[j].type !== 'double') return;
+    const directional = (end: number) => {
+      const k = bonds.findIndex((bd, idx) => idx !== j && (bd.a === end || bd.b === end) && (bd.symbol === '/' || bd.symbol === '\\'));
+      if (k < 0) return null;
+      const substituent = bonds[k].a === end ? bonds[k].b : bonds[k].a;
+      return { substituent, side: substituentSide(bonds[k], substituent) };
+    };
+    const x = directional(bond.a);
+    const y = directional(bond.b);
+    if (!x || !y) return;
+    const atomAt = (k: number) => molecule.atoms[k];
+    const [A, B, X, Y] = [atomAt(bond.a), atomAt(bond.b), atomAt(x.substituent), atomAt(y.substituent)];
+    const gx = cross2(B.x - A.x, B.y - A.y, X.x - A.x, X.y - A.y);
+    const gy = cross2(B.x - A.x, B.y - A.y, Y.x - B.x, Y.y - B.y);
+    if (Math.abs(gx) < 1e-6 || Math.abs(gy) < 1e-6) return;
+    fixedDoubleBonds.add(molecule.bonds[j].id);
+    const wantCis = x.side === y.side;
+    if ((gx > 0) === (gy > 0) !== wantCis) reflectBranch(molecule, A.id, B.id);
+  });
+
+  // Tetrahedral centers become a wedge or dash from the center
+  const targets: TetrahedralTarget[] = [];
+  atoms.forEach((atom, k) => {
+    if (!atom.chirality) return;
+    const ordered: Array<string | null> = atom.order.map(n => (n === null ? null : ids[n]));
+    if (ordered.length === 3) ordered.splice(atom.hasPrevious ? 1 : 0, 0, null);
+    if (ordered.length === 4) targets.push({ atomId: ids[k], ordered, parity: atom.chirality === '@' ? -1 : 1 });
+  });
+  molecule = drawTetrahedralStereo(molecule, targets);
+
+  return { molecule, fixedDoubleBonds };
+}
+
+/**
+ * Builds a search result for input that parses as SMILES, so structures load without a network call.
+ */
+export function searchResultFromSmiles(smiles: string): SearchResult {
+  const molecule = parseSmiles(smiles);
+  return {
+    molecule,
+    metadata: { smiles: writeSmiles(molecule), iupacName: '', commonName: '', formula: '' },
+  };
+}
+
+/**
+ * Simple Hückel check per SSSR ring: every atom must be sp2-like and the ring must hold
+ * 4n + 2 π electrons. Exocyclic C=O/C=N/C=S (pyridones, quinolones) contribute none.
+ */
+function perceiveAromaticity(graph: MoleculeGraph, rings: string[][]): { atoms: Set<string>; bonds: Set<string> } {
+  const ringAtoms = new Set(rings.flat());
+  const atoms = new Set<string>();
+  const bonds = new Set<string>();
+
+  const piElectrons = (id: string): number | null => {
+    const { atom, neighbors } = graph.get(id)!;
+    const charge = atom.formalCharge || 0;
+    if (!['C', 'N', 'O', 'S', 'P'].includes(atom.element)) return null;
+    if (neighbors.some(n => n.order === 3)) return null;
+    const doubles = neighbors.filter(n => n.order === 2);
+    if (doubles.length > 1) return null;
+    if (doubles.length === 1) {
+      const partner = graph.get(doubles[0].atomId)!.atom;
+      if (ringAtoms.has(partner.id)) return 1;
+      return ['O', 'N', 'S'].includes(partner.element) ? 0 : null;
+    }
+    if (atom.element === 'C') return charge === -1 ? 2 : (charge === 1 ? 0 : null);
+    if (atom.element === 'N' || atom.element === 'P') return charge <= 0 ? 2 : null;
+    return charge === 0 ? 2 : null;
+  };
+
+  rings.forEach(ring => {
+    let electrons = 0;
+    for (const id of ring) {
+      const pi = piElectrons(id);
+      if (pi === null) return;
+      electrons += pi;
+    }
+    if (electrons % 4 !== 2) return;
+    ring.forEach((id, k) => {
+      atoms.add(id);
+      const next = ring[(k + 1) % ring.length];
+      const bond = graph.get(id)!.neighbors.find(n => n.atomId === next);
+      if (bond) bonds.add(bond.bond.id);
+    });
+  });
+  return { atoms, bonds };
+}
+
+/**
+ * Canonical atom ranks: Morgan-style refinement of atom invariants, then deterministic
+ * tie-breaking until every atom has a unique rank. Also returns the symmetry classes
+ * (ranks before tie-breaking) so equivalent substituents can be recognised.
+ */
+export function canonicalRanks(molecule: Molecule): { ranks: Map<string, number>; classes: Map<string, number> } {
+  const graph = buildGraph(molecule);
+  const rings = findRings(graph);
+  const aromatic = perceiveAromaticity(graph, rings);
+  const ids = molecule.atoms.map(a => a.id);
+
+  const invariant = (id: string): number[] => {
+    const { atom, neighbors } = graph.get(id)!;
+    return [
+      neighbors.length,
+      atomicNumber(atom),
+      atom.isotope || 0,
+      atom.formalCharge || 0,
+      implicitHydrogens(graph, id),
+      aromatic.atoms.has(id) ? 1 : 0,
+      rings.filter(r => r.includes(id)).length,
+    ];
+  };
+
+  const compareArrays = (a: number[], b: number[]) => {
+    for (let k = 0; k < Math.max(a.length, b.length); k++) {
+      const diff = (a[k] ?? -1) - (b[k] ?? -1);
+      if (diff !== 0) return diff;
+    }
+    return 0;
+  };
+
+  const rerank = (keys: Map<string, number[]>) => {
+    const sorted = [...ids].sort((a, b) => compareArrays(keys.get(a)!, keys.get(b)!));
+    const ranks = new Map<string, number>();
+    let rank = 0;
+    sorted.forEach((id, k) => {
+      if (k > 0 && compareArrays(keys.get(sorted[k - 1])!, keys.get(id)!) !== 0) rank++;
+      ranks.set(id, rank);
+    });
+    return ranks;
+  };
+
+  const distinct = (ranks: Map<string, number>) => new Set(ranks.values()).size;
+
+  const refine = (start: Map<string, number>) => {
+    let ranks = start;
+    for (;;) {
+      const keys = new Map(ids.map(id => {
+        const neighborKeys = graph.get(id)!.neighbors
+          .map(n => ranks.get(n.atomId)! * 4 + (aromatic.bonds.has(n.bond.id) ? 0 : n.order))
+          .sort((a, b) => a - b);
+        return [id, [ranks.get(id)!, ...neighborKeys]];
+      }));
+      const next = rerank(keys);
+      if (distinct(next) === distinct(ranks)) return next;
+      ranks = next;
+    }
+  };
+
+  let ranks = refine(rerank(new Map(ids.map(id => [id, invariant(id)]))));
+  const classes = new Map(ranks);
+  while (distinct(ranks) < ids.length) {
+    const counts = new Map<number, number>();
+    ranks.forEach(r => counts.set(r, (counts.get(r) || 0) + 1));
+    const tied = Math.min(...[...counts.entries()].filter(([, n]) => n > 1).map(([r]) => r));
+    const chosen = ids.find(id => ranks.get(id) === tied)!;
+    ranks = refine(new Map(ids.map(id => [id, ranks.get(id)! * 2 + (ranks.get(id) === tied && id !== chosen ? 1 : 0)])));
+  }
+  return { ranks, classes };
+}
+
+/** Canonical labelings related to `ranks` by a symmetry that moves stereo atoms differently; at most this many are tried. */
+const LABELING_LIMIT = 64;
+
+/**
+ * Relabelings `ranks ∘ σ` for the heavy-atom automorphisms σ, each explicit hydrogen
+ * following its parent atom. Automorphisms that act alike on the stereocenters, double
+ * bonds and their neighbours give the same string and are skipped.
+ */
+function symmetricLabelings(molecule: Molecule, graph: MoleculeGraph, ranks: Map<string, number>, stereoCenters: Set<string>): Array<Map<string, number>> {
+  const hydrogens = new Set(molecule.atoms.filter(a => a.element === 'H').map(a => a.id));
+  const heavy: Molecule = {
+    ...molecule,
+    atoms: molecule.atoms.filter(a => !hydrogens.has(a.id)),
+    bonds: molecule.bonds.filter(b => !hydrogens.has(b.from) && !hydrogens.has(b.to)),
+  };
+  const attached = (id: string) => graph.get(id)!.neighbors.map(n => n.atomId).filter(n => hydrogens.has(n)).sort();
+  const stereoAtoms = new Set(stereoCenters);
+  molecule.bonds.filter(b => b.type === 'double').forEach(b => { stereoAtoms.add(b.from); stereoAtoms.add(b.to); });
+  const watched = [...new Set([...stereoAtoms].flatMap(id => [id, ...graph.get(id)!.neighbors.map(n => n.atomId)]))];
+
+  const seen = new Set<string>();
+  const labelings: Array<Map<string, number>> = [];
+  for (const sigma of automorphisms(heavy)) {
+    const image = new Map(sigma);
+    sigma.forEach((to, from) => {
+      const [mine, theirs] = [attached(from), attached(to)];
+      mine.forEach((h, k) => image.set(h, theirs[k] ?? h));
+    });
+    const signature = watched.map(id => image.get(id) ?? id).join(' ');
+    if (seen.has(signature)) continue;
+    seen.add(signature);
+    labelings.push(new Map([...ranks].map(([id]) => [id, ranks.get(image.get(id) ?? id)!])));
+    if (labelings.length >= LABELING_LIMIT) break;
+  }
+  return labelings;
+}
+
+const chargeLabel = (charge: number) => {
+  if (charge === 0) return '';
+  const sign = charge > 0 ? '+' : '-';
+  return Math.abs(charge) === 1 ? sign : `${sign}${Math.abs(charge)}`;
+};
+
+/**
+ * Writes canonical isomeric SMILES for any editor molecule: aromatic rings in lowercase,
+ * `@`/`@@` for stereogenic centers with a defined wedge/dash configuration (ring cis/trans
+ * and pseudoasymmetric centers included) and `/` `\` for drawn double-bond geometry.
+ * Equivalent drawings of the same structure give the same string.
+ */
+export function writeSmiles(molecule: Molecule): string {
+  if (molecule.atoms.length === 0) return '';
+  const graph = buildGraph(molecule);
+  const rings = findRings(graph);
+  const aromatic = perceiveAromaticity(graph, rings);
+  const { ranks, classes } = canonicalRanks(molecule);
+  // Only wedges and dashes fix a tetrahedral configuration; CIP labels decide when there are too many candidates to enumerate
+  const stereoCenters = !molecule.bonds.some(b => b.type === 'wedge' || b.type === 'dash') ? new Set<string>()
+    : stereogenicCenters(molecule) ?? new Set(perceiveStereocenters(molecule).filter(sc => sc.configuration !== 'None').map(sc => sc.atomId));
+  const writeRanked = (ranks: Map<string, number>): string => {
+    const byRank = (a: string, b: string) => ranks.get(a)! - ranks.get(b)!;
+
+    // Spanning forest in canonical order; back edges become ring closures
+    const visited = new Set<string>();
+    const parentOf = new Map<string, string | null>();
+    const children = new Map<string, string[]>();
+    const closures: Array<{ bond: Bond; opener: string; closer: string }> = [];
+    const closureBonds = new Set<string>();
+
+    const visit = (id: string, parent: string | null) => {
+      visited.add(id);
+      parentOf.set(id, parent);
+      children.set(id, []);
+      const neighbors = [...graph.get(id)!.neighbors].sort((a, b) => byRank(a.atomId, b.atomId));
+      let skippedParent = false;
+      for (const n of neighbors) {
+        if (n.atomId === parent && !skippedParent) { skippedParent = true; continue; }
+        if (visited.has(n.atomId)) {
+          if (!closureBonds.has(n.bond.id)) {
+            closureBonds.add(n.bond.id);
+            closures.push({ bond: n.bond, opener: n.atomId, closer: id });
+          }
+          continue;
+        }
+        children.get(id)!.push(n.atomId);
+        visit(n.atomId, id);
+      }
+    };
+
+    const components = connectedComponents(graph)
+      .map(component => [...component].sort(byRank))
+      .sort((a, b) => byRank(a[0], b[0]));
+    components.forEach(component => visit(component[0], null));
+
+    const bondBetween = (a: string, b: string) => graph.get(a)!.neighbors.find(n => n.atomId === b)!;
+    const writtenFirst = new Map<string, string>();
+    parentOf.forEach((parent, id) => { if (parent) writtenFirst.set(bondBetween(parent, id).bond.id, parent); });
+    closures.forEach(c => writtenFirst.set(c.bond.id, c.opener));
+
+    // Directional bonds for drawn E/Z geometry
+    const directions = new Map<string, '/' | '\\'>();
+    const outputIndex = new Map<string, number>();
+    const walk = (id: string) => { outputIndex.set(id, outputIndex.size); children.get(id)!.forEach(walk); };
+    components.forEach(component => walk(component[0]));
+
+    molecule.bonds
+      .filter(bond => bond.type === 'double' && !aromatic.bonds.has(bond.id) && graph.has(bond.from) && graph.has(bond.to))
+      .sort((a, b) => Math.min(outputIndex.get(a.from)!, outputIndex.get(a.to)!) - Math.min(outputIndex.get(b.from)!, outputIndex.get(b.to)!))
+      .forEach(bond => {
+        if (rings.some(r => r.length < 8 && r.includes(bond.from) && r.includes(bond.to))) return;
+        const [A, B] = outputIndex.get(bond.from)! < outputIndex.get(bond.to)! ? [bond.from, bond.to] : [bond.to, bond.from];
+        const ends = [A, B].map(end => {
+          const others = graph.get(end)!.neighbors.filter(n => n.bond.id !== bond.id);
+          if (others.length === 0 || others.length > 2 || others.some(n => n.order !== 1)) return null;
+          if (others.length === 2 && classes.get(others[0].atomId) === classes.get(others[1].atomId)) return null;
+          return others;
+        });
+        if (!ends[0] || !ends[1]) return;
+
+        const pa = graph.get(A)!.atom;
+        const pb = graph.get(B)!.atom;
+        const sides: Array<{ bondId: string; end: string; substituent: string; side: number }> = [];
+        ends.forEach((others, k) => {
+          const end = k === 0 ? pa : pb;
+          others!.forEach(n => {
+            const sub = graph.get(n.atomId)!.atom;
+            const g = cross2(pb.x - pa.x, pb.y - pa.y, sub.x - end.x, sub.y - end.y);
+            if (Math.abs(g) > 1e-6) sides.push({ bondId: n.bond.id, end: end.id, substituent: sub.id, side: Math.sign(g) });
+          });
+        });
+
+        const charFor = (s: typeof sides[number], flip: number): '/' | '\\' => {
+          const up = s.side * flip > 0;
+          const substituentFirst = writtenFirst.get(s.bondId) === s.substituent;
+          return substituentFirst ? (up ? '\\' : '/') : (up ? '/' : '\\');
+        };
+        const assigned = sides.find(s => directions.has(s.bondId));
+        const flip = assigned && charFor(assigned, 1) !== directions.get(assigned.bondId) ? -1 : 1;
+        const usable = sides.filter(s => !closureBonds.has(s.bondId));
+        if (!usable.some(s => s.end === A) || !usable.some(s => s.end === B)) return;
+        usable.forEach(s => { if (!directions.has(s.bondId)) directions.set(s.bondId, charFor(s, flip)); });
+      });
+
+    const bondSymbol = (n: { bond: Bond; order: number }, a: string, b: string) => {
+      if (n.order === 2) return aromatic.bonds.has(n.bond.id) ? '' : '=';
+      if (n.order === 3) return '#';
+      if (directions.has(n.bond.id)) return directions.get(n.bond.id)!;
+      if (aromatic.atoms.has(a) && aromatic.atoms.has(b) && !aromatic.bonds.has(n.bond.id)) return '-';
+      return '';
+    };
+
+    const atomToken = (id: string, neighborOrder: Array<string | null>) => {
+      const { atom, neighbors } = graph.get(id)!;
+      const hCount = implicitHydrogens(graph, id);
+      const isAromatic = aromatic.atoms.has(id);
+      const symbol = isAromatic ? atom.element.toLowerCase() : atom.element;
+      const bondSum = neighbors.reduce((sum, n) => sum + n.order, 0);
+      const defaultH = isAromatic ? hCount : (() => {
+        const valence = (SMILES_VALENCES[atom.element] || []).find(v => v >= bondSum);
+        return valence === undefined ? 0 : valence - bondSum;
+      })();
+
+      let chirality = '';
+      if (stereoCenters.has(id)) {
+        const parity = tetrahedralParity(graph, id, neighborOrder);
+        if (parity !== 0) chirality = parity < 0 ? '@' : '@@';
+      }
+
+      const needsBracket = chirality !== '' || (atom.formalCharge || 0) !== 0 || !!atom.isotope || atom.element === 'H' || !!atom.radicalElectrons
+        || hCount !== defaultH || (isAromatic && hCount > 0 && atom.element !== 'C');
+      if (!needsBracket) return symbol;
+      const h = hCount > 0 ? `H${hCount > 1 ? hCount : ''}` : '';
+      return `[${atom.isotope || ''}${symbol}${chirality}${h}${chargeLabel(atom.formalCharge || 0)}]`;
+    };
+
+    const freeDigits: number[] = [];
+    const digitOf = new Map<string, number>();
+    let nextDigit = 1;
+    const takeDigit = () => {
+      freeDigits.sort((a, b) => a - b);
+      return freeDigits.length > 0 ? freeDigits.shift()! : nextDigit++;
+    };
+    const digitLabel = (d: number) => (d < 10 ? String(d) : `%${d}`);
+
+    const write = (id: string): string => {
+      const parent = parentOf.get(id) || null;
+      const closing = closures.filter(c => c.closer === id).sort((a, b) => digitOf.get(a.bond.id)! - digitOf.get(b.bond.id)!);
+      const opening = closures.filter(c => c.opener === id).sort((a, b) => byRank(a.closer, b.closer));
+
+      let ringText = '';
+      const partners: string[] = [];
+      const released: number[] = [];
+      closing.forEach(c => {
+        const d = digitOf.get(c.bond.id)!;
+        ringText += digitLabel(d);
+        partners.push(c.opener);
+        released.push(d);
+      });
+      opening.forEach(c => {
+        const d = takeDigit();
+        digitOf.set(c.bond.id, d);
+        ringText += bondSymbol(bondBetween(id, c.closer), id, c.closer) + digitLabel(d);
+        partners.push(c.closer);
+      });
+      freeDigits.push(...released);
+
+      const kids = children.get(id)!;
+      const neighborOrder: Array<string | null> = parent ? [parent] : [];
+      // A lone pair on S or P takes the implicit hydrogen's place in the chirality order
+      const implicit = implicitHydrogens(graph, id) > 0 || !!tetrahedralShape(graph, id)?.lonePair;
+      if (implicit) neighborOrder.push(null);
+      neighborOrder.push(...partners, ...kids);
+
+      let text = atomToken(id, neighborOrder) + ringText;
+      kids.forEach((child, k) => {
+        const branch = bondSymbol(bondBetween(id, child), id, child) + write(child);
+        text += k < kids.length - 1 ? `(${branch})` : branch;
+      });
+      return text;
+    };
+
+    return components.map(component => write(component[0])).join('.');
+  };
+
+  const text = writeRanked(ranks);
+  if (!/[@/\\]/.test(text)) return text;
+  // Tie-breaking settles on one of several symmetry-equivalent labelings and the stereo
+  // marks depend on which, so the smallest string over the graph symmetries is the canonical one
+  return symmetricLabelings(molecule, graph, ranks, stereoCenters).reduce((best, labeling) => {
+    const candidate = writeRanked(labeling);
+    return candidate < best ? candidate : best;
+  }, text);
+}
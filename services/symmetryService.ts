@@ -0,0 +1,305 @@
+import { Molecule, SymmetryInfo } from "../types";
+import { buildGraph, MoleculeGraph } from "./graphService";
+import { parseSdfGeometry } from "./molfileService";
+import { perceiveStereocenters } from "./cipService";
+import { automorphisms } from "./isomerService";
+import { Vec3 } from "./conformerService";
+
+/** Largest displacement (Å) an atom may show under an operation that still counts as a symmetry. */
+const TOLERANCE = 0.3;
+
+type Matrix = [Vec3, Vec3, Vec3];
+
+const minus = (a: Vec3, b: Vec3): Vec3 => [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+const dot = (a: Vec3, b: Vec3) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+const cross = (a: Vec3, b: Vec3): Vec3 => [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+const scale = (a: Vec3, s: number): Vec3 => [a[0] * s, a[1] * s, a[2] * s];
+const norm = (a: Vec3) => Math.sqrt(dot(a, a));
+const unit = (a: Vec3): Vec3 => scale(a, 1 / (norm(a) || 1));
+const apply = (m: Matrix, v: Vec3): Vec3 => [dot(m[0], v), dot(m[1], v), dot(m[2], v)];
+const trace = (m: Matrix) => m[0][0] + m[1][1] + m[2][2];
+const determinant = (m: Matrix) => dot(m[0], cross(m[1], m[2]));
+const negate = (m: Matrix): Matrix => [scale(m[0], -1), scale(m[1], -1), scale(m[2], -1)];
+
+/** Orthonormal frame from a direction and a second, non-collinear one; `handed` flips the third axis. */
+const frame = (a: Vec3, b: Vec3, handed: 1 | -1): Matrix => {
+  const e1 = unit(a);
+  const e2 = unit(minus(b, scale(e1, dot(b, e1))));
+  return [e1, e2, scale(cross(e1, e2), handed)];
+};
+
+/** The matrix that carries frame `from` onto frame `to` (rows are the frame axes). */
+const between = (from: Matrix, to: Matrix): Matrix => [0, 1, 2].map(r => (
+  [0, 1, 2].map(c => to[0][r] * from[0][c] + to[1][r] * from[1][c] + to[2][r] * from[2][c])
+)) as Matrix;
+
+/** Rotation axis of a proper rotation, or the normal of a mirror / axis of an improper rotation. */
+const axisOf = (m: Matrix): Vec3 => {
+  const proper: Matrix = determinant(m) > 0 ? m : negate(m);
+  const antisymmetric: Vec3 = [proper[2][1] - proper[1][2], proper[0][2] - proper[2][0], proper[1][0] - proper[0][1]];
+  if (norm(antisymmetric) > 0.1) return unit(antisymmetric);
+  // Half turn: any non-zero column of R + I lies along the axis
+  const columns: Vec3[] = [0, 1, 2].map(c => [0, 1, 2].map(r => proper[r][c] + (r === c ? 1 : 0)) as Vec3);
+  return unit(columns.reduce((best, col) => (norm(col) > norm(best) ? col : best)));
+};
+
+/**
+ * Order of an operation: n for a rotation Cn, n for an improper rotation Sn (1 for a mirror
+ * plane, 2 for the inversion center).
+ */
+const orderOf = (m: Matrix): number => {
+  if (determinant(m) > 0) {
+    const angle = Math.acos(Math.max(-1, Math.min(1, (trace(m) - 1) / 2)));
+    return angle < 0.1 ? 1 : Math.round((2 * Math.PI) / angle);
+  }
+  // S = σh·C(α) and -S is a rotation by π - α
+  const angle = Math.PI - Math.acos(Math.max(-1, Math.min(1, (-trace(m) - 1) / 2)));
+  return angle < 0.1 ? 1 : Math.round((2 * Math.PI) / angle);
+};
+
+const parallel = (a: Vec3, b: Vec3) => Math.abs(dot(a, b)) > 0.95;
+const perpendicular = (a: Vec3, b: Vec3) => Math.abs(dot(a, b)) < 0.2;
+
+/**
+ * Symmetry operations of a point set about its centroid: each candidate image of a reference
+ * pair of atoms fixes an orthogonal matrix (proper or improper), kept when it carries every
+ * atom onto an equivalent atom within `TOLERANCE`.
+ */
+function symmetryOperations(points: Vec3[], classes: number[]): Matrix[] {
+  const n = points.length;
+  const radius = points.map(norm);
+  const byDistance = [...points.keys()].filter(i => radius[i] > TOLERANCE).sort((i, j) => radius[j] - radius[i]);
+  const identity: Matrix = [[1, 0, 0], [0, 1, 0], [0, 0, 1]];
+  if (byDistance.length === 0) return [identity];
+  const a = byDistance[0];
+  const b = byDistance.find(i => norm(cross(unit(points[a]), points[i])) > TOLERANCE);
+  // Collinear sets are handled by the caller
+  if (b === undefined) return [identity];
+
+  const maps = (m: Matrix) => points.every((p, i) => {
+    const image = apply(m, p);
+    for (let j = 0; j < n; j++) {
+      if (classes[j] === classes[i] && norm(minus(image, points[j])) < TOLERANCE) return true;
+    }
+    return false;
+  });
+
+  const source = ([1, -1] as const).map(handed => frame(points[a], points[b], handed));
+  const operations: Matrix[] = [];
+  for (let i = 0; i < n; i++) {
+    if (classes[i] !== classes[a] || Math.abs(radius[i] - radius[a]) > TOLERANCE) continue;
+    for (let j = 0; j < n; j++) {
+      if (j === i || classes[j] !== classes[b] || Math.abs(radius[j] - radius[b]) > TOLERANCE) continue;
+      if (Math.abs(norm(minus(points[i], points[j])) - norm(minus(points[a], points[b]))) > TOLERANCE) continue;
+      const target = frame(points[i], points[j], 1);
+      source.forEach(from => {
+        const m = between(from, target);
+        if (operations.some(o => o.every((row, r) => norm(minus(row, m[r])) < 0.1))) return;
+        if (maps(m)) operations.push(m);
+      });
+    }
+  }
+  return operations.length > 0 ? operations : [identity];
+}
+
+/** Schoenflies symbol from the operations of a non-linear point set. */
+function pointGroupOf(operations: Matrix[]): string {
+  const axes: Array<{ axis: Vec3; order: number }> = [];
+  operations.filter(m => determinant(m) > 0 && orderOf(m) > 1).forEach(m => {
+    const axis = axisOf(m);
+    const known = axes.find(x => parallel(x.axis, axis));
+    if (known) known.order = Math.max(known.order, orderOf(m));
+    else axes.push({ axis, order: orderOf(m) });
+  });
+  const improper = operations.filter(m => determinant(m) < 0);
+  const mirrors = improper.filter(m => orderOf(m) === 1).map(axisOf);
+  const inversion = improper.some(m => orderOf(m) === 2);
+
+  const high = axes.filter(x => x.order >= 3);
+  if (high.length > 1) {
+    if (high.some(x => x.order === 5)) return inversion ? 'Ih' : 'I';
+    if (high.some(x => x.order === 4)) return inversion ? 'Oh' : 'O';
+    if (inversion) return 'Th';
+    return mirrors.length > 0 ? 'Td' : 'T';
+  }
+  if (axes.length === 0) {
+    if (mirrors.length > 0) return 'Cs';
+    return inversion ? 'Ci' : 'C1';
+  }
+
+  const principal = axes.reduce((best, x) => (x.order > best.order ? x : best));
+  const n = principal.order;
+  const horizontal = mirrors.some(normal => parallel(normal, principal.axis));
+  const vertical = mirrors.filter(normal => perpendicular(normal, principal.axis)).length;
+  const sideAxes = axes.filter(x => x !== principal && x.order === 2 && perpendicular(x.axis, principal.axis)).length;
+  if (sideAxes >= n) {
+    if (horizontal) return `D${n}h`;
+    return vertical >= n ? `D${n}d` : `D${n}`;
+  }
+  if (horizontal) return `C${n}h`;
+  if (vertical >= n) return `C${n}v`;
+  const rotoreflection = improper.some(m => orderOf(m) === 2 * n && parallel(axisOf(m), principal.axis));
+  return rotoreflection ? `S${2 * n}` : `C${n}`;
+}
+
+/** Operations grouped into the usual class notation, e.g. ["E", "2C3", "3σ"]. */
+function describeOperations(operations: Matrix[]): string[] {
+  const counts = new Map<string, number>();
+  operations.forEach(m => {
+    const order = orderOf(m);
+    const label = determinant(m) > 0
+      ? (order === 1 ? 'E' : `C${order}`)
+      : (order === 1 ? 'σ' : (order === 2 ? 'i' : `S${order}`));
+    counts.set(label, (counts.get(label) || 0) + 1);
+  });
+  const rank = (label: string) => ['E', 'C', 'i', 'S', 'σ'].indexOf(label[0]) * 100 - (Number(label.slice(1)) || 0);
+  return [...counts.entries()]
+    .sort(([a], [b]) => rank(a) - rank(b))
+    .map(([label, count]) => `${count > 1 ? count : ''}${label}`);
+}
+
+/**
+ * Topological equivalence classes by iterative refinement: atoms start out grouped by element,
+ * charge, isotope and degree and are split by the classes of their neighbors until stable.
+ * Ring membership is deliberately left out since a ring basis need not be symmetric.
+ */
+function refinedClasses(graph: MoleculeGraph, ids: string[]): number[] {
+  const index = new Map(ids.map((id, k) => [id, k]));
+  const relabel = (keys: string[]) => {
+    const distinct = [...new Set(keys)].sort();
+    return keys.map(key => distinct.indexOf(key));
+  };
+  let classes = relabel(ids.map(id => {
+    const { atom, neighbors } = graph.get(id)!;
+    return [atom.element, atom.formalCharge || 0, atom.isotope || 0, neighbors.length].join(',');
+  }));
+  for (;;) {
+    const next = relabel(ids.map((id, k) => {
+      const around = graph.get(id)!.neighbors.map(n => classes[index.get(n.atomId)!]).sort((x, y) => x - y);
+      return `${classes[k]}:${around.join(',')}`;
+    }));
+    if (new Set(next).size === new Set(classes).size) return next;
+    classes = next;
+  }
+}
+
+/** Handedness of four ligands around a center: the sign of the triple product of their offsets. */
+const handedness = (positions: Map<string, Vec3>, ligands: string[]) => {
+  const [p0, p1, p2, p3] = ligands.map(id => positions.get(id)!);
+  return Math.sign(dot(minus(p1, p0), cross(minus(p2, p0), minus(p3, p0))));
+};
+
+/**
+ * Whether the configuration in the model is superimposable on its mirror image: some
+ * automorphism of the heavy-atom graph must invert the handedness of every four-coordinate
+ * center and keep the cis/trans relations across every double bond. Conformation plays no
+ * part, so a gauche butane model still counts as achiral.
+ */
+function superimposableOnMirror(molecule: Molecule, graph: MoleculeGraph, positions: Map<string, Vec3>): boolean {
+  const isHydrogen = (id: string) => graph.get(id)!.atom.element === 'H';
+  const heavy: Molecule = {
+    atoms: molecule.atoms.filter(a => a.element !== 'H'),
+    bonds: molecule.bonds.filter(b => !isHydrogen(b.from) && !isHydrogen(b.to)),
+  };
+  const hydrogenOf = (id: string) => graph.get(id)!.neighbors.find(n => isHydrogen(n.atomId))?.atomId;
+
+  const centers = heavy.atoms.map(a => graph.get(a.id)!).filter(node => (
+    node.neighbors.length === 4
+    && node.neighbors.every(n => n.order === 1)
+    && node.neighbors.filter(n => isHydrogen(n.atomId)).length <= 1
+  ));
+  const doubles = heavy.bonds.filter(b => b.type === 'double');
+  const cis = (end: string, other: string, a: string, b: string) => (
+    dot(minus(positions.get(a)!, positions.get(end)!), minus(positions.get(b)!, positions.get(other)!)) > 0
+  );
+  const substituents = (end: string, other: string) => graph.get(end)!.neighbors
+    .map(n => n.atomId)
+    .filter(id => id !== other && !isHydrogen(id));
+
+  if (centers.length === 0) return true;
+  return automorphisms(heavy).some(sigma => {
+    const invertsCenters = centers.every(node => {
+      const ligands = node.neighbors.map(n => n.atomId);
+      const mapped = ligands.map(id => (isHydrogen(id) ? hydrogenOf(sigma.get(node.atom.id)!) : sigma.get(id)));
+      if (mapped.some(id => id === undefined)) return false;
+      return handedness(positions, mapped as string[]) === -handedness(positions, ligands);
+    });
+    if (!invertsCenters) return false;
+    return doubles.every(bond => substituents(bond.from, bond.to).every(a => substituents(bond.to, bond.from).every(b => (
+      cis(sigma.get(bond.from)!, sigma.get(bond.to)!, sigma.get(a)!, sigma.get(b)!) === cis(bond.from, bond.to, a, b)
+    ))));
+  });
+}
+
+/**
+ * Symmetry of the 3D model in `sdfData`: topological equivalence classes of its atoms, the
+ * point group of the geometry as given, and whether the molecule is chiral, achiral or meso.
+ * The verdict is read from the configuration rather than the conformation, so it may differ
+ * from what the point group of a single conformer suggests. Returns null when the model
+ * cannot be read.
+ */
+export function analyzeSymmetry(sdfData: string | undefined): SymmetryInfo | null {
+  if (!sdfData || sdfData.trim().length < 10) return null;
+  let geometry: ReturnType<typeof parseSdfGeometry>;
+  try {
+    geometry = parseSdfGeometry(sdfData.replace(/```[a-z]*\n?/gi, ''));
+  } catch {
+    return null;
+  }
+  const { molecule } = geometry;
+  if (molecule.atoms.length === 0) return null;
+
+  const ids = molecule.atoms.map(a => a.id);
+  const raw = ids.map(id => geometry.positions.get(id)!);
+  const centroid = scale(raw.reduce((s, p) => [s[0] + p[0], s[1] + p[1], s[2] + p[2]] as Vec3, [0, 0, 0] as Vec3), 1 / raw.length);
+  const points = raw.map(p => minus(p, centroid));
+  const radius = Math.max(...points.map(norm));
+  const graph = buildGraph(molecule);
+  const atomClasses = refinedClasses(graph, ids);
+
+  const groups = new Map<number, number[]>();
+  atomClasses.forEach((c, k) => groups.set(c, [...(groups.get(c) || []), k]));
+  const equivalentAtoms = [...groups.values()].filter(g => g.length > 1);
+
+  const notes: string[] = [];
+  let pointGroup: string;
+  let operations: string[];
+  let mirrorPlanes: Vec3[] = [];
+  let improperModel: boolean;
+
+  const far = points.reduce((best, p) => (norm(p) > norm(best) ? p : best), [0, 0, 0] as Vec3);
+  const linear = points.every(p => norm(minus(p, scale(unit(far), dot(p, unit(far))))) < TOLERANCE);
+  if (points.length === 1) {
+    pointGroup = 'Kh';
+    operations = ['E'];
+    improperModel = true;
+  } else if (linear) {
+    const centrosymmetric = points.every((p, i) => points.some((q, j) => atomClasses[j] === atomClasses[i] && norm(minus(q, scale(p, -1))) < TOLERANCE));
+    pointGroup = centrosymmetric ? 'D∞h' : 'C∞v';
+    operations = centrosymmetric ? ['E', '2C∞', '∞σv', 'i', '2S∞', '∞C2'] : ['E', '2C∞', '∞σv'];
+    improperModel = true;
+    notes.push('Linear molecule: every plane that contains the molecular axis is a mirror plane.');
+  } else {
+    const matrices = symmetryOperations(points, atomClasses);
+    pointGroup = pointGroupOf(matrices);
+    operations = describeOperations(matrices);
+    mirrorPlanes = matrices.filter(m => determinant(m) < 0 && orderOf(m) === 1).map(axisOf);
+    improperModel = matrices.some(m => determinant(m) < 0);
+  }
+
+  const achiral = superimposableOnMirror(molecule, graph, geometry.positions);
+  // Pseudoasymmetric r/s centers alone do not make a meso form (cis-1,4-dimethylcyclohexane)
+  const stereocenters = perceiveStereocenters(molecule).filter(s => s.configuration !== 'r' && s.configuration !== 's').length;
+  const chirality: SymmetryInfo['chirality'] = !achiral ? 'chiral' : (stereocenters >= 2 ? 'meso' : 'achiral');
+  if (achiral && !improperModel) {
+    notes.push('This conformer has no mirror plane, inversion center or improper axis, but bond rotation reaches its mirror image, so the molecule is achiral.');
+  }
+  if (!achiral && improperModel) {
+    notes.push('The model carries an improper symmetry element although the configuration is chiral; the geometry may be distorted.');
+  }
+  if (chirality === 'meso') {
+    notes.push(`${stereocenters} stereocenters whose configurations cancel: an internal mirror relates them.`);
+  }
+
+  return { pointGroup, operations, chirality, equivalentAtoms, mirrorPlanes, center: centroid, radius, notes };
+}
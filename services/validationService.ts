@@ -0,0 +1,80 @@
+import { Molecule, ValidationIssue } from "../types";
+import { ELEMENTS } from "../constants";
+import { buildGraph, allowedValences, bondOrderSum, connectedComponents } from "./graphService";
+
+/** Bonds shorter than this (canvas units) have both ends drawn on top of each other. */
+const MIN_BOND_LENGTH = 2;
+
+const describeCharge = (charge: number) => (charge === 0 ? '' : ` (charge ${charge > 0 ? '+' : ''}${charge})`);
+
+/**
+ * Structural checks run before a molecule is analyzed. Errors describe graphs no
+ * chemistry engine can interpret; warnings flag drawings that are legal but suspicious.
+ */
+export function validateMolecule(molecule: Molecule): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const atomsById = new Map(molecule.atoms.map(a => [a.id, a]));
+
+  const seenPairs = new Map<string, string>();
+  molecule.bonds.forEach(bond => {
+    const from = atomsById.get(bond.from);
+    const to = atomsById.get(bond.to);
+    if (!from || !to) {
+      issues.push({ severity: 'error', message: "Bond references an atom that no longer exists", atomIds: [], bondIds: [bond.id] });
+      return;
+    }
+    if (bond.from === bond.to) {
+      issues.push({ severity: 'error', message: `${from.element} is bonded to itself`, atomIds: [from.id], bondIds: [bond.id] });
+      return;
+    }
+    const pair = bond.from < bond.to ? `${bond.from}|${bond.to}` : `${bond.to}|${bond.from}`;
+    const previous = seenPairs.get(pair);
+    if (previous) {
+      issues.push({ severity: 'error', message: `Duplicate bond between ${from.element} and ${to.element}`, atomIds: [from.id, to.id], bondIds: [previous, bond.id] });
+    } else {
+      seenPairs.set(pair, bond.id);
+    }
+    if (Math.hypot(from.x - to.x, from.y - to.y) < MIN_BOND_LENGTH) {
+      issues.push({ severity: 'error', message: `Zero-length bond between ${from.element} and ${to.element}`, atomIds: [from.id, to.id], bondIds: [bond.id] });
+    }
+  });
+
+  const graph = buildGraph(molecule);
+  graph.forEach((node, id) => {
+    const { atom } = node;
+    if (!ELEMENTS[atom.element]) {
+      issues.push({ severity: 'error', message: `Unknown element "${atom.element}"`, atomIds: [id], bondIds: [] });
+      return;
+    }
+    const used = bondOrderSum(node) + (atom.radicalElectrons || 0);
+    const allowed = allowedValences(atom);
+    const maximum = allowed.length > 0 ? Math.max(...allowed) : -1;
+    if (maximum < 0) {
+      issues.push({ severity: 'error', message: `${atom.element}${describeCharge(atom.formalCharge)} cannot carry that charge`, atomIds: [id], bondIds: [] });
+    } else if (used > maximum) {
+      issues.push({
+        severity: 'error',
+        message: `${atom.element}${describeCharge(atom.formalCharge)} uses ${used} valence electrons in bonds${atom.radicalElectrons ? ' and radicals' : ''}; its maximum valence is ${maximum}`,
+        atomIds: [id],
+        bondIds: node.neighbors.map(n => n.bond.id),
+      });
+    }
+  });
+
+  // Extra fragments are fine for salts (every fragment charged) but usually a stray atom
+  const components = connectedComponents(graph);
+  if (components.length > 1) {
+    const netCharge = (ids: string[]) => ids.reduce((sum, id) => sum + (atomsById.get(id)?.formalCharge || 0), 0);
+    if (!components.every(ids => netCharge(ids) !== 0)) {
+      const smaller = [...components].sort((a, b) => b.length - a.length).slice(1);
+      issues.push({
+        severity: 'warning',
+        message: `Structure has ${components.length} disconnected fragments`,
+        atomIds: smaller.flat(),
+        bondIds: [],
+      });
+    }
+  }
+
+  return issues;
+}
@@ -0,0 +1,87 @@
+import { Molecule, VSEPRInfo } from "../types";
+import { buildGraph, bondOrderSum, implicitHydrogens } from "./graphService";
+
+/** Valence-shell electrons of the neutral atom (main-group number). */
+const VALENCE_ELECTRONS: Record<string, number> = {
+  H: 1, C: 4, N: 5, O: 6, F: 7, Cl: 7, Br: 7, I: 7, P: 5, S: 6,
+};
+
+interface DomainGeometry {
+  electronic: string;
+  hybridization: string;
+  // Molecular geometry and bond angles, indexed by lone pair count
+  shapes: Array<[string, string]>;
+}
+
+const GEOMETRIES: Record<number, DomainGeometry> = {
+  2: {
+    electronic: 'Linear',
+    hybridization: 'sp',
+    shapes: [['Linear', '180°'], ['Linear', '—']],
+  },
+  3: {
+    electronic: 'Trigonal Planar',
+    hybridization: 'sp²',
+    shapes: [['Trigonal Planar', '120°'], ['Bent', '<120° (≈117°)'], ['Linear', '—']],
+  },
+  4: {
+    electronic: 'Tetrahedral',
+    hybridization: 'sp³',
+    shapes: [['Tetrahedral', '109.5°'], ['Trigonal Pyramidal', '<109.5° (≈107°)'], ['Bent', '<109.5° (≈104.5°)'], ['Linear', '—']],
+  },
+  5: {
+    electronic: 'Trigonal Bipyramidal',
+    hybridization: 'sp³d',
+    shapes: [['Trigonal Bipyramidal', '90°, 120°, 180°'], ['Seesaw', '<90°, <120°, <180°'], ['T-shaped', '<90°, <180°'], ['Linear', '180°']],
+  },
+  6: {
+    electronic: 'Octahedral',
+    hybridization: 'sp³d²',
+    shapes: [['Octahedral', '90°, 180°'], ['Square Pyramidal', '<90°'], ['Square Planar', '90°, 180°'], ['T-shaped', '<90°, <180°'], ['Linear', '180°']],
+  },
+};
+
+const axe = (bonded: number, lonePairs: number) =>
+  `A${bonded > 0 ? `X${bonded > 1 ? bonded : ''}` : ''}${lonePairs > 0 ? `E${lonePairs > 1 ? lonePairs : ''}` : ''}`;
+
+/**
+ * Deterministic VSEPR assignment for every heavy atom. Bonded domains count σ-bonded
+ * neighbors including implicit hydrogens (multiple bonds occupy one domain); lone pairs
+ * are the non-bonding valence electrons left after formal charge, bonds and radicals.
+ */
+export function computeVsepr(molecule: Molecule): Record<string, VSEPRInfo> {
+  const graph = buildGraph(molecule);
+  const result: Record<string, VSEPRInfo> = {};
+
+  graph.forEach((node, id) => {
+    const { atom } = node;
+    if (atom.element === 'H' || VALENCE_ELECTRONS[atom.element] === undefined) return;
+    const hydrogens = implicitHydrogens(graph, id);
+    const bonded = node.neighbors.length + hydrogens;
+    const nonBonding = VALENCE_ELECTRONS[atom.element] - (atom.formalCharge || 0) - bondOrderSum(node) - hydrogens - (atom.radicalElectrons || 0);
+    const lonePairs = Math.max(0, Math.floor(nonBonding / 2));
+    const steric = bonded + lonePairs;
+
+    const base = { axeNotation: axe(bonded, lonePairs), lonePairs, element: atom.element };
+    const geometry = GEOMETRIES[steric];
+    if (bonded === 0) {
+      result[id] = { ...base, electronicGeometry: geometry?.electronic || '—', molecularGeometry: 'Monatomic', bondAngles: '—' };
+    } else if (steric === 1) {
+      result[id] = { ...base, electronicGeometry: 'Linear', molecularGeometry: 'Linear', bondAngles: '—', hybridization: 's' };
+    } else if (!geometry) {
+      result[id] = { ...base, electronicGeometry: `${steric} domains`, molecularGeometry: 'Outside VSEPR table', bondAngles: '—' };
+    } else {
+      const [shape, angles] = geometry.shapes[lonePairs] || ['—', '—'];
+      result[id] = {
+        ...base,
+        electronicGeometry: geometry.electronic,
+        // A single bonded neighbor makes any parent geometry a diatomic fragment
+        molecularGeometry: bonded === 1 ? 'Linear' : shape,
+        bondAngles: bonded === 1 ? '—' : angles,
+        hybridization: geometry.hybridization,
+      };
+    }
+  });
+
+  return result;
+}
@@ -8,6 +8,9 @@ export interface Atom {
   y: number;
   formalCharge: number;
   lonePairs: number;
+  isotope?: number;
+  // Unpaired electrons: 1 for a radical, 2 for a triplet carbene
+  radicalElectrons?: number;
 }
 
 export interface Bond {
@@ -17,6 +20,29 @@ export interface Bond {
   type: 'single' | 'double' | 'triple' | 'wedge' | 'dash';
 }
 
+export type CanvasTool = 'atom' | 'bond' | 'eraser' | 'select-central' | 'pan' | 'benzene' | 'double' | 'triple' | 'wedge' | 'dash' | 'select' | 'lasso' | 'charge-plus' | 'charge-minus' | 'lone-pair' | 'radical';
+
+export interface CompositionEntry {
+  element: string;
+  count: number;
+  massPercent: number;
+}
+
+export interface FormulaInfo {
+  formula: string;
+  molecularWeight: number;
+  exactMass: number;
+  charge: number;
+  composition: CompositionEntry[];
+}
+
+export interface ValidationIssue {
+  severity: 'error' | 'warning';
+  message: string;
+  atomIds: string[];
+  bondIds: string[];
+}
+
 export interface Molecule {
   atoms: Atom[];
   bonds: Bond[];
@@ -32,6 +58,8 @@ export interface VSEPRInfo {
   electronicGeometry: string;
   molecularGeometry: string;
   bondAngles: string;
+  element?: ElementType;
+  hybridization?: string;
 }
 
 export interface PhysicalProperties {
@@ -58,20 +86,65 @@ export interface ConformationInfo {
   energyScore: string;
   description: string;
   sdfData?: string;
+  /** Force-field energy above the global minimum in kcal/mol (local conformer search only) */
+  relativeEnergy?: number;
+}
+
+export interface StereocenterInfo {
+  atomId: string;
+  /** Lower case for pseudoasymmetric centers. */
+  configuration: 'R' | 'S' | 'r' | 's' | 'None';
+  logic: string;
+  priorities?: string[];
+  explanation?: string;
+}
+
+export interface StereoBondInfo {
+  /** Double bond, relative configuration of two ring atoms, or chirality axis. */
+  kind: 'double' | 'ring' | 'axis';
+  /** Double-bond ends, the two ring atoms, or the atoms at either end of the axis. */
+  atomIds: [string, string];
+  descriptor: 'E' | 'Z' | 'cis' | 'trans' | 'Ra' | 'Sa' | 'None';
+  logic: string;
+}
+
+export interface SymmetryInfo {
+  /** Schoenflies symbol of the 3D model as given, e.g. "C2v", "Td" or "D∞h". */
+  pointGroup: string;
+  /** Operations of the point group in class notation, e.g. ["E", "2C3", "3σ"]. */
+  operations: string[];
+  /** Read from the configuration, independent of the conformation of the model. */
+  chirality: 'chiral' | 'achiral' | 'meso';
+  /** Topologically equivalent atoms as 0-based indices into the SDF atom block; singletons omitted. */
+  equivalentAtoms: number[][];
+  /** Unit normals of the mirror planes, which pass through `center`. */
+  mirrorPlanes: Array<[number, number, number]>;
+  center: [number, number, number];
+  /** Distance from `center` to the farthest atom, Å. */
+  radius: number;
+  notes: string[];
+}
+
+export interface ConsistencyIssue {
+  /** The part of the response that disagrees with the submitted structure. */
+  source: 'smiles' | 'sdf';
+  aspect: 'parse' | 'formula' | 'connectivity' | 'stereo';
+  message: string;
 }
 
 export interface AnalysisResult {
-  stereocenters: Array<{
-    atomId: string;
-    configuration: 'R' | 'S' | 'None';
-    logic: string;
-  }>;
+  stereocenters: StereocenterInfo[];
+  /** E/Z, ring cis/trans and axial descriptors. */
+  stereoBonds?: StereoBondInfo[];
   vsepr: Record<string, VSEPRInfo>;
   dipoleMoment: string;
   educationalNote: string;
   sdfData?: string;
   isomers: IsomerInfo[];
   conformations: ConformationInfo[];
+  symmetry?: SymmetryInfo;
+  /** Ways the returned SMILES or SDF describe a different molecule than the one submitted. */
+  mismatches?: ConsistencyIssue[];
   properties: PhysicalProperties;
   metadata: {
     smiles: string;
@@ -79,6 +152,10 @@ export interface AnalysisResult {
     commonName: string;
     formula: string;
   };
+  /** Name of the analysis provider that answered. */
+  provider?: string;
+  /** Fields of the response that were coerced or dropped, as "path: what happened". */
+  repairs?: string[];
 }
 
 export interface SearchResult {
@@ -89,4 +166,8 @@ export interface SearchResult {
     commonName: string;
     formula: string;
   };
+  /** Name of the analysis provider that answered. */
+  provider?: string;
+  /** Fields of the response that were coerced or dropped, as "path: what happened". */
+  repairs?: string[];
 }